@@ -0,0 +1,215 @@
+import { dom } from './dom.js';
+import { state } from './state.js';
+import { formatTime } from './utils.js';
+import { sendCommand } from './ws.js';
+import { canControlPlayback } from './controls.js';
+
+const REACTION_FLOAT_DURATION = 2500;
+const ERROR_HIDE_DELAY = 4000;
+
+const chatState = {
+    messages: [],
+    reactions: [],
+    reactionEmojis: [],
+    unread: 0,
+    errorTimer: null,
+};
+
+function isChatOpen() {
+    return !dom.chatSidebar?.classList.contains('hidden');
+}
+
+function updateUnreadBadge() {
+    if (!dom.chatUnreadBadge) return;
+    dom.chatUnreadBadge.textContent = chatState.unread > 99 ? '99+' : String(chatState.unread);
+    dom.chatUnreadBadge.classList.toggle('hidden', chatState.unread === 0);
+}
+
+function showChatError(message) {
+    if (!dom.chatError) return;
+    dom.chatError.textContent = message;
+    dom.chatError.classList.remove('hidden');
+
+    clearTimeout(chatState.errorTimer);
+    chatState.errorTimer = setTimeout(() => dom.chatError.classList.add('hidden'), ERROR_HIDE_DELAY);
+}
+
+function send(payload) {
+    if (state.ws?.readyState !== WebSocket.OPEN) {
+        showChatError('Sem conexão com a sala.');
+        return false;
+    }
+
+    state.ws.send(JSON.stringify(payload));
+    return true;
+}
+
+/**
+ * Pula para o momento do comentário. Só host e co-hosts controlam a reprodução da sala.
+ */
+function seekToMediaTime(mediaTime) {
+    if (!canControlPlayback() || !state.hasVideo) return;
+    dom.video.currentTime = mediaTime;
+    sendCommand('seek', mediaTime);
+}
+
+function buildMessageElement(message) {
+    const item = document.createElement('div');
+    item.className = 'chat-message';
+    if (message.discordId === state.oauthUser?.discordId) item.classList.add('is-own');
+
+    const header = document.createElement('div');
+    header.className = 'chat-message-header';
+
+    const author = document.createElement('span');
+    author.className = 'chat-message-author';
+    author.textContent = message.username;
+
+    const timestamp = document.createElement('button');
+    timestamp.type = 'button';
+    timestamp.className = 'chat-message-time';
+    timestamp.textContent = formatTime(message.mediaTime);
+    timestamp.title = canControlPlayback() ? 'Ir para este momento' : new Date(message.sentAt).toLocaleTimeString();
+    timestamp.addEventListener('click', () => seekToMediaTime(message.mediaTime));
+
+    header.append(author, timestamp);
+
+    const text = document.createElement('p');
+    text.className = 'chat-message-text';
+    text.textContent = message.text;
+
+    item.append(header, text);
+    return item;
+}
+
+function appendMessage(message) {
+    if (!dom.chatMessages) return;
+    const nearBottom = dom.chatMessages.scrollHeight - dom.chatMessages.scrollTop - dom.chatMessages.clientHeight < 60;
+
+    dom.chatEmpty?.classList.add('hidden');
+    dom.chatMessages.appendChild(buildMessageElement(message));
+
+    if (nearBottom) dom.chatMessages.scrollTop = dom.chatMessages.scrollHeight;
+}
+
+function renderReactionBar() {
+    if (!dom.chatReactionBar) return;
+    dom.chatReactionBar.innerHTML = '';
+
+    chatState.reactionEmojis.forEach((emoji) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'chat-reaction-btn';
+        button.textContent = emoji;
+        button.addEventListener('click', () => send({ type: 'chat-reaction', emoji }));
+        dom.chatReactionBar.appendChild(button);
+    });
+}
+
+/**
+ * Redesenha as reações como marcadores na barra de progresso.
+ * Depende da duração do vídeo, então é refeito quando os metadados carregam.
+ */
+export function renderReactionMarkers() {
+    if (!dom.progressReactions) return;
+    dom.progressReactions.innerHTML = '';
+
+    const duration = dom.video.duration;
+    if (!duration || !Number.isFinite(duration)) return;
+
+    chatState.reactions.forEach((reaction) => {
+        if (reaction.mediaTime > duration) return;
+
+        const marker = document.createElement('span');
+        marker.className = 'progress-reaction';
+        marker.style.left = `${(reaction.mediaTime / duration) * 100}%`;
+        marker.textContent = reaction.emoji;
+        marker.title = `${reaction.username} · ${formatTime(reaction.mediaTime)}`;
+        dom.progressReactions.appendChild(marker);
+    });
+}
+
+function floatReaction(reaction) {
+    if (!dom.reactionOverlay) return;
+
+    const bubble = document.createElement('div');
+    bubble.className = 'reaction-float';
+    bubble.style.left = `${10 + Math.random() * 80}%`;
+
+    const emoji = document.createElement('span');
+    emoji.className = 'reaction-float-emoji';
+    emoji.textContent = reaction.emoji;
+
+    const author = document.createElement('span');
+    author.className = 'reaction-float-author';
+    author.textContent = reaction.username;
+
+    bubble.append(emoji, author);
+    dom.reactionOverlay.appendChild(bubble);
+    setTimeout(() => bubble.remove(), REACTION_FLOAT_DURATION);
+}
+
+export function handleChatHistory(data) {
+    chatState.messages = data.chatHistory || [];
+    chatState.reactions = data.chatReactions || [];
+    chatState.reactionEmojis = data.reactionEmojis || chatState.reactionEmojis;
+
+    if (dom.chatMessages) {
+        dom.chatMessages.querySelectorAll('.chat-message').forEach((element) => element.remove());
+    }
+    dom.chatEmpty?.classList.toggle('hidden', chatState.messages.length > 0);
+    chatState.messages.forEach(appendMessage);
+
+    renderReactionBar();
+    renderReactionMarkers();
+}
+
+export function handleChatMessage(message) {
+    if (!message) return;
+    chatState.messages.push(message);
+    appendMessage(message);
+
+    if (!isChatOpen() && message.discordId !== state.oauthUser?.discordId) {
+        chatState.unread += 1;
+        updateUnreadBadge();
+    }
+}
+
+export function handleChatReaction(reaction) {
+    if (!reaction) return;
+    chatState.reactions.push(reaction);
+    floatReaction(reaction);
+    renderReactionMarkers();
+}
+
+export function handleChatError(errorMessage) {
+    showChatError(errorMessage || 'Não foi possível enviar.');
+}
+
+/** Reações ficam presas ao episódio; a troca limpa os marcadores. */
+export function clearChatReactions() {
+    chatState.reactions = [];
+    renderReactionMarkers();
+}
+
+export function initChat() {
+    dom.btnToggleChat?.addEventListener('click', () => {
+        dom.chatSidebar?.classList.remove('hidden');
+        chatState.unread = 0;
+        updateUnreadBadge();
+        dom.chatInput?.focus();
+    });
+    dom.btnCloseChat?.addEventListener('click', () => dom.chatSidebar?.classList.add('hidden'));
+
+    dom.chatForm?.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const text = dom.chatInput.value.trim();
+        if (!text) return;
+
+        if (send({ type: 'chat-message', text })) {
+            dom.chatInput.value = '';
+        }
+    });
+
+    dom.video?.addEventListener('loadedmetadata', renderReactionMarkers);
+}
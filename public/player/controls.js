@@ -0,0 +1,154 @@
+import { dom } from './dom.js';
+import { state } from './state.js';
+
+const NOTICE_HIDE_DELAY = 4000;
+const PAUSE_REQUEST_HIDE_DELAY = 15000;
+
+const controlsState = {
+    roomControls: { guestPause: false, rewindVotes: false, waitForBuffering: false, minStalledViewers: 1 },
+    noticeTimer: null,
+    pauseRequestTimer: null,
+    isBuffering: false,
+};
+
+function send(payload) {
+    if (state.ws?.readyState !== WebSocket.OPEN) return false;
+    state.ws.send(JSON.stringify(payload));
+    return true;
+}
+
+export function showControlNotice(message) {
+    if (!dom.controlNotice) return;
+    dom.controlNotice.textContent = message;
+    dom.controlNotice.classList.remove('hidden');
+
+    clearTimeout(controlsState.noticeTimer);
+    controlsState.noticeTimer = setTimeout(() => dom.controlNotice.classList.add('hidden'), NOTICE_HIDE_DELAY);
+}
+
+function hidePauseRequest() {
+    clearTimeout(controlsState.pauseRequestTimer);
+    dom.pauseRequestToast?.classList.add('hidden');
+}
+
+/** Host e co-hosts mandam play, pause e seek para a sala. */
+export function canControlPlayback() {
+    return state.isHost || state.isCoHost;
+}
+
+/**
+ * Convidados pausam a sala quando o host liberou; o play continua com o host.
+ */
+export function canGuestPause() {
+    return !canControlPlayback() && controlsState.roomControls.guestPause;
+}
+
+export function sendGuestPause(currentTime) {
+    send({ type: 'pause', currentTime });
+}
+
+/** Mostra os botões de convidado ou as opções do host conforme o papel atual. */
+export function updateRoomControlsUI() {
+    const { guestPause, rewindVotes, waitForBuffering, minStalledViewers } = controlsState.roomControls;
+
+    dom.roomControlsGroup?.classList.toggle('hidden', !state.isHost);
+    if (dom.guestPauseToggle) dom.guestPauseToggle.checked = guestPause;
+    if (dom.rewindVotesToggle) dom.rewindVotesToggle.checked = rewindVotes;
+    if (dom.waitBufferingToggle) dom.waitBufferingToggle.checked = waitForBuffering;
+    if (dom.minStalledSelect) {
+        dom.minStalledSelect.value = String(minStalledViewers);
+        dom.minStalledSelect.disabled = !waitForBuffering;
+    }
+
+    dom.btnRequestPause?.classList.toggle('hidden', canControlPlayback() || guestPause);
+    dom.btnRewindVote?.classList.toggle('hidden', canControlPlayback() || !rewindVotes);
+    if (!state.isHost) hidePauseRequest();
+}
+
+export function applyRoomControls(controls) {
+    if (!controls) return;
+    controlsState.roomControls = { ...controlsState.roomControls, ...controls };
+    // Chega a cada conexão; o servidor não guarda o buffering de quem reconectou ou de quando o modo estava desligado
+    controlsState.isBuffering = false;
+    updateRoomControlsUI();
+}
+
+export function handlePauseRequest(data) {
+    if (!state.isHost || !dom.pauseRequestToast) return;
+
+    dom.pauseRequestText.textContent = `✋ ${data.requesterName || 'Alguém'} pediu uma pausa`;
+    dom.pauseRequestToast.classList.remove('hidden');
+
+    clearTimeout(controlsState.pauseRequestTimer);
+    controlsState.pauseRequestTimer = setTimeout(hidePauseRequest, PAUSE_REQUEST_HIDE_DELAY);
+}
+
+export function handleRewindVote(data) {
+    if (data.accepted) {
+        dom.rewindVoteCount?.classList.add('hidden');
+        showControlNotice(`⏪ Votação aprovada: voltando ${data.rewindSeconds}s`);
+        return;
+    }
+
+    if (dom.rewindVoteCount) {
+        dom.rewindVoteCount.textContent = `${data.votes}/${data.votesNeeded}`;
+        dom.rewindVoteCount.classList.remove('hidden');
+    }
+    showControlNotice(`⏪ ${data.requesterName} quer voltar ${data.rewindSeconds}s (${data.votes}/${data.votesNeeded} votos)`);
+}
+
+/**
+ * Mostra quem está segurando a sala no modo de espera; some quando todos carregaram.
+ */
+export function handleBufferingHold(data) {
+    if (!dom.bufferingHoldNotice) return;
+
+    const holders = data.holders || [];
+    dom.bufferingHoldNotice.textContent = holders.length > 0
+        ? `⏳ Esperando ${holders.join(', ')} carregar...`
+        : '⏳ Esperando todos carregarem...';
+    dom.bufferingHoldNotice.classList.toggle('hidden', !data.holding);
+}
+
+/**
+ * Avisa o servidor quando o vídeo trava ou volta a ter dados.
+ * Só reporta com o modo de espera ligado; o limite de tempo fica no servidor.
+ */
+export function reportBuffering(isBuffering) {
+    if (!controlsState.roomControls.waitForBuffering || !state.hasVideo) return;
+    if (controlsState.isBuffering === isBuffering) return;
+
+    if (send({ type: 'buffering', buffering: isBuffering })) {
+        controlsState.isBuffering = isBuffering;
+    }
+}
+
+function sendRoomControls() {
+    send({
+        type: 'room-controls',
+        controls: {
+            guestPause: dom.guestPauseToggle.checked,
+            rewindVotes: dom.rewindVotesToggle.checked,
+            waitForBuffering: dom.waitBufferingToggle.checked,
+            minStalledViewers: Number(dom.minStalledSelect.value) || 1,
+        },
+    });
+}
+
+export function initRoomControls() {
+    dom.guestPauseToggle?.addEventListener('change', sendRoomControls);
+    dom.rewindVotesToggle?.addEventListener('change', sendRoomControls);
+    dom.waitBufferingToggle?.addEventListener('change', sendRoomControls);
+    dom.minStalledSelect?.addEventListener('change', sendRoomControls);
+
+    dom.btnRequestPause?.addEventListener('click', () => {
+        if (send({ type: 'pause-request' })) showControlNotice('✋ Pedido de pausa enviado ao host');
+    });
+    dom.btnRewindVote?.addEventListener('click', () => send({ type: 'rewind-vote' }));
+
+    dom.btnAcceptPause?.addEventListener('click', () => {
+        hidePauseRequest();
+        dom.video.pause();
+    });
+    dom.btnDismissPause?.addEventListener('click', hidePauseRequest);
+}
@@ -30,6 +30,32 @@ export const dom = {
     usersSidebar: document.getElementById('users-sidebar'),
     btnCloseSidebar: document.getElementById('btn-close-sidebar'),
     usersList: document.getElementById('users-list'),
+    btnToggleChat: document.getElementById('btn-toggle-chat'),
+    chatUnreadBadge: document.getElementById('chat-unread-badge'),
+    chatSidebar: document.getElementById('chat-sidebar'),
+    btnCloseChat: document.getElementById('btn-close-chat'),
+    chatMessages: document.getElementById('chat-messages'),
+    chatEmpty: document.getElementById('chat-empty'),
+    chatReactionBar: document.getElementById('chat-reaction-bar'),
+    chatForm: document.getElementById('chat-form'),
+    chatInput: document.getElementById('chat-input'),
+    chatError: document.getElementById('chat-error'),
+    reactionOverlay: document.getElementById('reaction-overlay'),
+    progressReactions: document.getElementById('progress-reactions'),
+    btnRequestPause: document.getElementById('btn-request-pause'),
+    btnRewindVote: document.getElementById('btn-rewind-vote'),
+    rewindVoteCount: document.getElementById('rewind-vote-count'),
+    roomControlsGroup: document.getElementById('room-controls-group'),
+    guestPauseToggle: document.getElementById('guest-pause-toggle'),
+    rewindVotesToggle: document.getElementById('rewind-votes-toggle'),
+    waitBufferingToggle: document.getElementById('wait-buffering-toggle'),
+    minStalledSelect: document.getElementById('min-stalled-select'),
+    bufferingHoldNotice: document.getElementById('buffering-hold-notice'),
+    controlNotice: document.getElementById('control-notice'),
+    pauseRequestToast: document.getElementById('pause-request-toast'),
+    pauseRequestText: document.getElementById('pause-request-text'),
+    btnAcceptPause: document.getElementById('btn-accept-pause'),
+    btnDismissPause: document.getElementById('btn-dismiss-pause'),
     selfPingValue: document.getElementById('self-ping-value'),
     selfPingDot: document.querySelector('#self-ping-display .ping-dot'),
     btnPlay: document.getElementById('btn-play'),
@@ -62,6 +88,7 @@ export const dom = {
     modalRatingValue: document.getElementById('modal-rating-value'),
     modalYear: document.getElementById('modal-year'),
     modalGenres: document.getElementById('modal-genres'),
+    modalFileDetails: document.getElementById('modal-file-details'),
     modalOverview: document.getElementById('modal-overview'),
     btnCloseMovieModal: document.getElementById('btn-close-movie-modal'),
     modalEpisodeSection: document.getElementById('modal-episode-section'),
@@ -71,6 +98,9 @@ export const dom = {
     btnCancelEnd: document.getElementById('btn-cancel-end'),
     btnConfirmEnd: document.getElementById('btn-confirm-end'),
     btnHome: document.getElementById('btn-home'),
+    modalRemoved: document.getElementById('modal-removed'),
+    removedMessage: document.getElementById('removed-message'),
+    btnRemovedHome: document.getElementById('btn-removed-home'),
     networkSpeedBadge: document.getElementById('network-speed-badge'),
     networkSpeedEl: document.getElementById('network-speed'),
     modalRatingEl: document.getElementById('modal-rating'),
@@ -89,8 +119,12 @@ export const dom = {
     starRatingContainer: document.getElementById('star-rating-container'),
     starsFg: document.getElementById('stars-fg'),
     ratingValueDisplay: document.getElementById('rating-value-display'),
+    ratingReviewInput: document.getElementById('rating-review-input'),
+    ratingSpoilerInput: document.getElementById('rating-spoiler-input'),
 
     subtitleDisplay: document.getElementById('subtitle-display'),
+    subtitleImageDisplay: document.getElementById('subtitle-image-display'),
+    subtitleStyledDisplay: document.getElementById('subtitle-styled-display'),
     subtitleInput: document.getElementById('subtitle-input'),
     btnAddSubtitles: document.getElementById('btn-add-subtitles'),
     subtitlesPendingList: document.getElementById('subtitles-pending-list'),
@@ -98,6 +132,12 @@ export const dom = {
     settingsPanel: document.getElementById('settings-panel'),
     btnCloseSettings: document.getElementById('btn-close-settings'),
     subtitleSelect: document.getElementById('subtitle-select'),
+    subtitleOffsetSlider: document.getElementById('subtitle-offset-slider'),
+    subtitleOffsetValue: document.getElementById('subtitle-offset-value'),
+    subtitleUserOffsetSlider: document.getElementById('subtitle-user-offset-slider'),
+    subtitleUserOffsetValue: document.getElementById('subtitle-user-offset-value'),
+    qualityGroup: document.getElementById('quality-group'),
+    qualitySelect: document.getElementById('quality-select'),
     fontFamilySelect: document.getElementById('font-family-select'),
     fontSizeSlider: document.getElementById('font-size-slider'),
     fontSizeValue: document.getElementById('font-size-value'),
@@ -111,6 +151,9 @@ export const dom = {
     subtitleDropzone: document.getElementById('subtitle-dropzone'),
     subtitleSessionInput: document.getElementById('subtitle-session-input'),
     subtitleUploadStatus: document.getElementById('subtitle-upload-status'),
+    subtitleSearchLanguage: document.getElementById('subtitle-search-language'),
+    btnSubtitleSearch: document.getElementById('btn-subtitle-search'),
+    subtitleSearchResults: document.getElementById('subtitle-search-results'),
     upscalerEnabledToggle: document.getElementById('upscaler-enabled-toggle'),
     upscalerIntensityGroup: document.getElementById('upscaler-intensity-group'),
     upscalerIntensityLabel: document.getElementById('upscaler-intensity-label'),
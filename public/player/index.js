@@ -13,13 +13,20 @@ import {
     updateVolumeUI,
     populateMovieModal,
     showRatingProgress,
-    updateNextEpisodeButton
+    updateNextEpisodeButton,
+    renderMediaDetails,
+    applyRatingScale,
+    toCanonicalRating
 } from './ui.js';
 import { connectWebSocket, startDriftCorrection, sendCommand, requestState, isFromRemote } from './ws.js';
 import { bindUploadEvents } from './upload.js';
 import { initSubtitles, renderSubtitle, fetchAvailableSubtitles } from './subtitles.js';
 import { initUpscaler } from './upscaler.js';
 import { closeWindowOrRedirect } from './utils.js';
+import { bindQualityEvents, setHlsRenditions } from './stream.js';
+import { initChat } from './chat.js';
+import { initModeration } from './moderation.js';
+import { canControlPlayback, canGuestPause, initRoomControls, reportBuffering, sendGuestPause } from './controls.js';
 
 function log(...args) {
     if (location.hostname === 'localhost') {
@@ -35,6 +42,8 @@ async function fetchRoomInfo() {
         if (res.ok) {
             const data = await res.json();
             dom.roomTitleEl.textContent = data.movieName;
+            renderMediaDetails(data.mediaInfo);
+            applyRatingScale(data.ratingScale);
 
             if (data.movieInfo) {
                 state.currentMovieInfo = data.movieInfo;
@@ -82,6 +91,8 @@ async function checkRoomStatus() {
         });
         const data = await res.json();
 
+        setHlsRenditions(data.hlsRenditions);
+
         if (data.hasVideo) {
             showPlayer();
             return;
@@ -89,7 +100,7 @@ async function checkRoomStatus() {
 
         if (data.isProcessing) {
             const message = data.processingMessage || 'Processando vídeo...';
-            showProcessingProgress(message);
+            showProcessingProgress(message, data.processingPercent, data.processingEtaSeconds);
             return;
         }
 
@@ -162,15 +173,16 @@ function bindPlayerEvents() {
         updatePlayPauseUI();
         dom.playerOverlay.classList.add('hidden');
         scheduleHideControls();
-        if (state.isHost && !isFromRemote()) sendCommand('play', dom.video.currentTime);
+        if (canControlPlayback() && !isFromRemote()) sendCommand('play', dom.video.currentTime);
     });
     dom.video.addEventListener('pause', () => {
         updatePlayPauseUI();
         showControls();
-        if (state.isHost && !isFromRemote()) sendCommand('pause', dom.video.currentTime);
+        if (canControlPlayback() && !isFromRemote()) sendCommand('pause', dom.video.currentTime);
+        else if (!isFromRemote() && canGuestPause()) sendGuestPause(dom.video.currentTime);
     });
     dom.video.addEventListener('seeked', () => {
-        if (state.isHost && !isFromRemote()) sendCommand('seek', dom.video.currentTime);
+        if (canControlPlayback() && !isFromRemote()) sendCommand('seek', dom.video.currentTime);
     });
     dom.video.addEventListener('timeupdate', () => {
         updateProgress();
@@ -249,6 +261,7 @@ function bindControls() {
 function bindKeyboardShortcuts() {
     document.addEventListener('keydown', (e) => {
         if (!state.hasVideo) return;
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
         switch (e.code) {
             case 'Space':
@@ -392,6 +405,17 @@ function bindBufferTracking() {
             }
         }
     });
+
+    dom.video.addEventListener('waiting', () => reportBuffering(true));
+    dom.video.addEventListener('canplay', () => reportBuffering(false));
+    dom.video.addEventListener('playing', () => reportBuffering(false));
+}
+
+/** Converte a posição do mouse sobre as estrelas na nota da escala, arredondada para o passo. */
+function snapRating(percent) {
+    const { max, step } = state.ratingScale;
+    const clamped = Math.min(1, Math.max(0, percent));
+    return Math.min(max, Math.max(step, Math.ceil((clamped * max) / step) * step));
 }
 
 function bindRatingModal() {
@@ -408,15 +432,14 @@ function bindRatingModal() {
             if (percent < 0) percent = 0;
             if (percent > 1) percent = 1;
 
-            let rawRating = percent * 10;
-            let snappedRating = Math.max(0.5, Math.ceil(rawRating * 2) / 2);
+            const snappedRating = snapRating(percent);
 
-            dom.starsFg.style.width = `${(snappedRating / 10) * 100}%`;
+            dom.starsFg.style.width = `${(snappedRating / state.ratingScale.max) * 100}%`;
             dom.ratingValueDisplay.textContent = snappedRating.toFixed(1);
         });
 
         dom.starRatingContainer.addEventListener('mouseleave', () => {
-            dom.starsFg.style.width = `${(state.selectedRating / 10) * 100}%`;
+            dom.starsFg.style.width = `${(state.selectedRating / state.ratingScale.max) * 100}%`;
             dom.ratingValueDisplay.textContent = state.selectedRating > 0 ? state.selectedRating.toFixed(1) : '0';
         });
 
@@ -425,10 +448,9 @@ function bindRatingModal() {
             let x = e.clientX - rect.left;
             const width = rect.width;
             let percent = x / width;
-            let rawRating = percent * 10;
-            state.selectedRating = Math.max(0.5, Math.ceil(rawRating * 2) / 2);
+            state.selectedRating = snapRating(percent);
 
-            dom.starsFg.style.width = `${(state.selectedRating / 10) * 100}%`;
+            dom.starsFg.style.width = `${(state.selectedRating / state.ratingScale.max) * 100}%`;
             dom.ratingValueDisplay.textContent = state.selectedRating.toFixed(1);
             dom.btnSubmitRating.disabled = false;
         });
@@ -445,7 +467,12 @@ function bindRatingModal() {
             const res = await fetch(`/api/session-rating/${state.roomId}`, {
                 method: 'POST',
                 headers: buildRoomHeaders({ 'Content-Type': 'application/json' }),
-                body: JSON.stringify({ token: state.userToken, rating: state.selectedRating })
+                body: JSON.stringify({
+                    token: state.userToken,
+                    rating: toCanonicalRating(state.selectedRating),
+                    review: dom.ratingReviewInput?.value.trim() || undefined,
+                    spoiler: dom.ratingSpoilerInput?.checked === true
+                })
             });
 
             if (res.ok) {
@@ -635,6 +662,9 @@ async function init() {
     if (!authenticated) return;
 
     initSidebar();
+    initChat();
+    initRoomControls();
+    initModeration();
     initSubtitles();
     await initUpscaler();
     bindUploadEvents();
@@ -644,6 +674,7 @@ async function init() {
     bindMovieModal();
     bindSessionModals();
     bindBufferTracking();
+    bindQualityEvents();
     bindRatingModal();
 
     connectWebSocket();
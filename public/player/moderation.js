@@ -0,0 +1,89 @@
+import { dom } from './dom.js';
+import { state } from './state.js';
+import { showControlNotice } from './controls.js';
+import { closeWindowOrRedirect } from './utils.js';
+
+const KICKED_CLOSE_CODE = 4004;
+const BANNED_CLOSE_CODE = 4005;
+
+function send(payload) {
+    if (state.ws?.readyState !== WebSocket.OPEN) return false;
+    state.ws.send(JSON.stringify(payload));
+    return true;
+}
+
+/** Conexão fechada pelo host: o cliente não deve tentar reconectar. */
+export function isRemovalCloseCode(code) {
+    return code === KICKED_CLOSE_CODE || code === BANNED_CLOSE_CODE;
+}
+
+export function showRemovedFromRoom(code) {
+    dom.video.pause();
+    dom.removedMessage.textContent = code === BANNED_CLOSE_CODE
+        ? 'O host baniu você desta sessão.'
+        : 'O host removeu você desta sessão. Você pode voltar pelo link da sessão.';
+    dom.modalRemoved.classList.remove('hidden');
+}
+
+/**
+ * Atualiza o papel de co-host do próprio usuário a partir da lista de espectadores.
+ * @returns true quando o papel mudou e a interface precisa ser refeita.
+ */
+export function applyViewerRoles(viewers) {
+    const ownId = state.oauthUser?.discordId || state.currentDiscordId;
+    const own = viewers.find((viewer) => viewer.discordId === ownId);
+    if (!own) return false;
+
+    const isCoHost = Boolean(own.isCoHost) && !state.isHost;
+    if (isCoHost === state.isCoHost) return false;
+
+    state.isCoHost = isCoHost;
+    showControlNotice(isCoHost ? '⭐ Você agora é co-host e pode controlar a reprodução' : '⭐ Você não é mais co-host');
+    return true;
+}
+
+function createActionButton(label, title, onClick) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'user-action-btn';
+    button.textContent = label;
+    button.title = title;
+    button.addEventListener('click', onClick);
+    return button;
+}
+
+/**
+ * Botões de moderação de um espectador na lista de usuários. Só o host vê.
+ * @returns null para quem não é host ou para a própria linha do host.
+ */
+export function buildModerationActions(user) {
+    if (!state.isHost || user.isHost) return null;
+
+    const actions = document.createElement('div');
+    actions.className = 'user-actions';
+
+    const coHostButton = createActionButton('⭐', user.isCoHost ? 'Remover co-host' : 'Tornar co-host', () => {
+        send({ type: 'set-cohost', targetId: user.discordId, enabled: !user.isCoHost });
+    });
+    coHostButton.classList.toggle('is-active', Boolean(user.isCoHost));
+
+    actions.append(
+        createActionButton('👑', 'Passar o host', () => {
+            if (confirm(`Passar o controle da sala para ${user.username}?`)) {
+                send({ type: 'transfer-host', targetId: user.discordId });
+            }
+        }),
+        coHostButton,
+        createActionButton('👢', 'Expulsar da sala', () => send({ type: 'kick-user', targetId: user.discordId })),
+        createActionButton('🚫', 'Banir da sessão', () => {
+            if (confirm(`Banir ${user.username} desta sessão?`)) {
+                send({ type: 'ban-user', targetId: user.discordId });
+            }
+        })
+    );
+    return actions;
+}
+
+export function initModeration() {
+    dom.btnRemovedHome?.addEventListener('click', () => closeWindowOrRedirect('/'));
+}
@@ -0,0 +1,238 @@
+const PGS_MAGIC = 0x5047;
+const PTS_CLOCK = 90000;
+
+const SEGMENT_PALETTE = 0x14;
+const SEGMENT_OBJECT = 0x15;
+const SEGMENT_COMPOSITION = 0x16;
+const SEGMENT_END = 0x80;
+
+const COMPOSITION_EPOCH_START = 0x80;
+const OBJECT_FIRST_FRAGMENT = 0x80;
+const OBJECT_CROPPED_FLAG = 0x80;
+
+function readUint16(view, offset) {
+    return view.getUint16(offset);
+}
+
+function readUint24(view, offset) {
+    return (view.getUint8(offset) << 16) | view.getUint16(offset + 1);
+}
+
+function parsePalette(view, offset, size) {
+    const palette = new Uint32Array(256);
+    const entriesEnd = offset + size;
+
+    for (let pos = offset + 2; pos + 5 <= entriesEnd; pos += 5) {
+        const id = view.getUint8(pos);
+        const y = view.getUint8(pos + 1);
+        const cr = view.getUint8(pos + 2) - 128;
+        const cb = view.getUint8(pos + 3) - 128;
+        const alpha = view.getUint8(pos + 4);
+
+        const r = Math.max(0, Math.min(255, Math.round(y + 1.402 * cr)));
+        const g = Math.max(0, Math.min(255, Math.round(y - 0.344136 * cb - 0.714136 * cr)));
+        const b = Math.max(0, Math.min(255, Math.round(y + 1.772 * cb)));
+
+        // ImageData é RGBA em memória; em little-endian o Uint32 fica ABGR.
+        palette[id] = ((alpha << 24) | (b << 16) | (g << 8) | r) >>> 0;
+    }
+
+    return { id: view.getUint8(offset), colors: palette };
+}
+
+/**
+ * Lê um arquivo .sup (Presentation Graphic Stream de Blu-ray) e monta a lista de cues.
+ * Os bitmaps ficam em RLE e só são decodificados ao desenhar, para não estourar memória em filmes longos.
+ * @param {ArrayBuffer} buffer Conteúdo bruto do arquivo .sup.
+ * @returns {Array<{start: number, end: number, screenWidth: number, screenHeight: number, objects: Array}>}
+ */
+export function parsePGS(buffer) {
+    const view = new DataView(buffer);
+    const cues = [];
+    const palettes = new Map();
+    const objects = new Map();
+
+    let composition = null;
+    let offset = 0;
+
+    while (offset + 13 <= view.byteLength) {
+        if (readUint16(view, offset) !== PGS_MAGIC) {
+            offset += 1;
+            continue;
+        }
+
+        const pts = view.getUint32(offset + 2) / PTS_CLOCK;
+        const type = view.getUint8(offset + 10);
+        const size = readUint16(view, offset + 11);
+        const dataOffset = offset + 13;
+        offset = dataOffset + size;
+
+        if (offset > view.byteLength) break;
+
+        if (type === SEGMENT_COMPOSITION) {
+            const state = view.getUint8(dataOffset + 7);
+            if (state & COMPOSITION_EPOCH_START) {
+                palettes.clear();
+                objects.clear();
+            }
+
+            const items = [];
+            const count = view.getUint8(dataOffset + 10);
+            let pos = dataOffset + 11;
+            for (let i = 0; i < count; i++) {
+                const cropped = (view.getUint8(pos + 3) & OBJECT_CROPPED_FLAG) !== 0;
+                items.push({
+                    objectId: readUint16(view, pos),
+                    x: readUint16(view, pos + 4),
+                    y: readUint16(view, pos + 6),
+                });
+                pos += cropped ? 16 : 8;
+            }
+
+            composition = {
+                pts,
+                screenWidth: readUint16(view, dataOffset),
+                screenHeight: readUint16(view, dataOffset + 2),
+                paletteId: view.getUint8(dataOffset + 9),
+                items,
+            };
+            continue;
+        }
+
+        if (type === SEGMENT_PALETTE) {
+            const palette = parsePalette(view, dataOffset, size);
+            palettes.set(palette.id, palette.colors);
+            continue;
+        }
+
+        if (type === SEGMENT_OBJECT) {
+            const objectId = readUint16(view, dataOffset);
+            const sequence = view.getUint8(dataOffset + 3);
+
+            if (sequence & OBJECT_FIRST_FRAGMENT) {
+                objects.set(objectId, {
+                    width: readUint16(view, dataOffset + 7),
+                    height: readUint16(view, dataOffset + 9),
+                    // O tamanho declarado inclui os 4 bytes de largura/altura.
+                    expectedLength: readUint24(view, dataOffset + 4) - 4,
+                    chunks: [new Uint8Array(buffer, dataOffset + 11, size - 11)],
+                });
+            } else {
+                objects.get(objectId)?.chunks.push(new Uint8Array(buffer, dataOffset + 4, size - 4));
+            }
+            continue;
+        }
+
+        if (type === SEGMENT_END && composition) {
+            const previous = cues[cues.length - 1];
+            if (previous && previous.end === Infinity) {
+                previous.end = composition.pts;
+            }
+
+            const palette = palettes.get(composition.paletteId);
+            const cueObjects = composition.items
+                .map((item) => {
+                    const object = objects.get(item.objectId);
+                    if (!object || !palette) return null;
+                    return {
+                        x: item.x,
+                        y: item.y,
+                        width: object.width,
+                        height: object.height,
+                        rle: joinChunks(object.chunks, object.expectedLength),
+                        palette,
+                    };
+                })
+                .filter(Boolean);
+
+            // Composição sem objetos apenas limpa a tela, encerrando a cue anterior.
+            if (cueObjects.length > 0) {
+                cues.push({
+                    start: composition.pts,
+                    end: Infinity,
+                    screenWidth: composition.screenWidth,
+                    screenHeight: composition.screenHeight,
+                    objects: cueObjects,
+                });
+            }
+
+            composition = null;
+        }
+    }
+
+    return cues;
+}
+
+function joinChunks(chunks, expectedLength) {
+    if (chunks.length === 1) return chunks[0];
+
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const joined = new Uint8Array(Math.max(total, expectedLength));
+    let offset = 0;
+    for (const chunk of chunks) {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return joined;
+}
+
+function decodeObject(object) {
+    const { width, height, rle, palette } = object;
+    const pixels = new Uint32Array(width * height);
+    let x = 0;
+    let y = 0;
+    let pos = 0;
+
+    while (pos < rle.length && y < height) {
+        let color = rle[pos++];
+        let run = 1;
+
+        if (color === 0) {
+            const flags = rle[pos++];
+            if (flags === 0) {
+                x = 0;
+                y += 1;
+                continue;
+            }
+
+            run = flags & 0x3f;
+            if (flags & 0x40) run = (run << 8) | rle[pos++];
+            color = flags & 0x80 ? rle[pos++] : 0;
+        }
+
+        const rgba = palette[color];
+        const end = Math.min(x + run, width);
+        const rowOffset = y * width;
+        for (; x < end; x++) {
+            pixels[rowOffset + x] = rgba;
+        }
+    }
+
+    return new ImageData(new Uint8ClampedArray(pixels.buffer), width, height);
+}
+
+/**
+ * Desenha uma cue PGS no canvas, redimensionando-o para a resolução de tela da legenda.
+ * @param {HTMLCanvasElement} canvas Canvas sobreposto ao vídeo.
+ * @param {object|null} cue Cue retornada por parsePGS, ou null para limpar.
+ */
+export function drawPGSCue(canvas, cue) {
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    if (!cue) {
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        return;
+    }
+
+    if (canvas.width !== cue.screenWidth || canvas.height !== cue.screenHeight) {
+        canvas.width = cue.screenWidth;
+        canvas.height = cue.screenHeight;
+    } else {
+        context.clearRect(0, 0, canvas.width, canvas.height);
+    }
+
+    for (const object of cue.objects) {
+        context.putImageData(decodeObject(object), object.x, object.y);
+    }
+}
@@ -57,6 +57,7 @@ export const state = {
     videoReady: false,
     pendingPlayData: null,
     isHost: false,
+    isCoHost: false,
     commandSeq: 0,
     hostHeartbeatTimer: null,
     playRetryTimer: null,
@@ -75,6 +76,7 @@ export const state = {
     lastMouseX: 0,
     lastMouseY: 0,
     selectedRating: 0,
+    ratingScale: { max: 10, step: 0.5 },
     ratingProgress: null,
     ratingCountdownTimer: null,
     pendingSessionEnd: false,
@@ -88,6 +90,9 @@ export const state = {
     episodeHistory: [],
     isEpisodeTransition: false,
     isUploadingLocally: false,
+    mediaInfo: null,
+    hlsRenditions: [],
+    streamMode: null,
 };
 
 /**
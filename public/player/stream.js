@@ -0,0 +1,161 @@
+import { dom } from './dom.js';
+import { buildRoomHeaders, state } from './state.js';
+
+const AUTO_QUALITY = 'auto';
+
+let hls = null;
+
+function getProgressiveUrl() {
+    return `/video/${state.roomId}?t=${Date.now()}`;
+}
+
+function getMasterPlaylistUrl() {
+    return `/video/${state.roomId}/hls/master.m3u8`;
+}
+
+function canUseHlsJs() {
+    return typeof window.Hls !== 'undefined' && window.Hls.isSupported();
+}
+
+function canPlayNativeHls() {
+    return dom.video.canPlayType('application/vnd.apple.mpegurl') !== '';
+}
+
+export function destroyStream() {
+    if (hls) {
+        hls.destroy();
+        hls = null;
+    }
+    state.streamMode = null;
+}
+
+function attachHlsJs() {
+    hls = new window.Hls({
+        // A CSP não libera workers em blob:, então o transmux roda na thread principal.
+        enableWorker: false,
+        capLevelToPlayerSize: true,
+        startLevel: -1,
+        xhrSetup: (xhr) => {
+            const headers = buildRoomHeaders();
+            for (const [name, value] of Object.entries(headers)) {
+                xhr.setRequestHeader(name, value);
+            }
+        }
+    });
+
+    hls.on(window.Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+
+        if (data.type === window.Hls.ErrorTypes.MEDIA_ERROR) {
+            hls.recoverMediaError();
+            return;
+        }
+
+        console.warn('[Stream] Erro fatal no HLS, voltando para o arquivo original:', data.details);
+        const resumeTime = dom.video.currentTime;
+        destroyStream();
+        loadProgressive();
+        dom.video.currentTime = resumeTime;
+    });
+
+    hls.on(window.Hls.Events.MANIFEST_PARSED, () => updateQualitySelect());
+    hls.on(window.Hls.Events.LEVEL_SWITCHED, () => updateQualitySelect());
+
+    hls.loadSource(getMasterPlaylistUrl());
+    hls.attachMedia(dom.video);
+    state.streamMode = 'hls';
+}
+
+function loadProgressive() {
+    dom.video.src = getProgressiveUrl();
+    dom.video.preload = 'auto';
+    dom.video.load();
+    state.streamMode = 'progressive';
+}
+
+/**
+ * Carrega o vídeo da sala, preferindo HLS adaptativo quando a sala já tem variantes geradas.
+ * Sem hls.js nem suporte nativo, cai para o arquivo progressivo.
+ * @param {boolean} force Recarrega mesmo que a fonte atual já seja a desejada.
+ */
+export function loadVideoSource(force = false) {
+    const hasHls = state.hlsRenditions.length > 0;
+    const targetMode = hasHls && (canUseHlsJs() || canPlayNativeHls()) ? 'hls' : 'progressive';
+
+    if (!force && state.streamMode === targetMode) return;
+
+    destroyStream();
+
+    if (targetMode === 'hls' && canUseHlsJs()) {
+        attachHlsJs();
+    } else if (targetMode === 'hls') {
+        dom.video.src = getMasterPlaylistUrl();
+        dom.video.preload = 'auto';
+        dom.video.load();
+        state.streamMode = 'hls';
+    } else {
+        loadProgressive();
+    }
+
+    updateQualitySelect();
+}
+
+export function setHlsRenditions(renditions) {
+    state.hlsRenditions = Array.isArray(renditions) ? renditions : [];
+    updateQualitySelect();
+}
+
+/**
+ * Troca a fonte para HLS preservando posição e estado de reprodução.
+ */
+export function switchToHls() {
+    if (!state.hasVideo || state.streamMode === 'hls') return;
+
+    const resumeTime = dom.video.currentTime;
+    const wasPlaying = !dom.video.paused;
+
+    loadVideoSource();
+
+    dom.video.addEventListener('loadedmetadata', () => {
+        dom.video.currentTime = resumeTime;
+        if (wasPlaying) dom.video.play().catch(() => { });
+    }, { once: true });
+}
+
+function formatBandwidth(bandwidth) {
+    return `${(bandwidth / 1_000_000).toFixed(1)} Mbps`;
+}
+
+function updateQualitySelect() {
+    if (!dom.qualitySelect) return;
+
+    const canChoose = Boolean(hls) && state.hlsRenditions.length > 0;
+    dom.qualityGroup?.classList.toggle('hidden', !canChoose);
+    if (!canChoose) return;
+
+    const currentLevel = hls.autoLevelEnabled ? AUTO_QUALITY : String(hls.currentLevel);
+    const activeLevel = hls.levels[hls.currentLevel];
+    const autoLabel = activeLevel ? `Automática (${activeLevel.height}p)` : 'Automática';
+
+    dom.qualitySelect.innerHTML = '';
+    dom.qualitySelect.appendChild(new Option(autoLabel, AUTO_QUALITY));
+
+    hls.levels.forEach((level, index) => {
+        const rendition = state.hlsRenditions.find(item => item.height === level.height);
+        const bandwidth = rendition?.averageBandwidth || level.bitrate;
+        dom.qualitySelect.appendChild(new Option(`${level.height}p · ${formatBandwidth(bandwidth)}`, String(index)));
+    });
+
+    dom.qualitySelect.value = currentLevel;
+}
+
+export function bindQualityEvents() {
+    dom.qualitySelect?.addEventListener('change', (e) => {
+        if (!hls) return;
+
+        const value = e.target.value;
+        // nextLevel troca no próximo segmento, sem esvaziar o buffer como currentLevel faria.
+        hls.nextLevel = value === AUTO_QUALITY ? -1 : Number(value);
+        updateQualitySelect();
+    });
+}
@@ -0,0 +1,352 @@
+const VTT_TIME_REGEX = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+const VTT_TIMING_REGEX = /^(\S+)\s+-->\s+(\S+)(.*)$/;
+const VTT_INLINE_TIMESTAMP_REGEX = /<\d{1,2}:\d{2}(?::\d{2})?\.\d{3}>/g;
+const VTT_ALLOWED_TAG_REGEX = /<(?!\/?(?:i|b|u)\b)[^>]+>/gi;
+const VTT_LINE_HEIGHT_PERCENT = 5.33;
+const VTT_DEFAULT_BOTTOM_PERCENT = 5;
+
+const ASS_DEFAULT_PLAY_RES_X = 384;
+const ASS_DEFAULT_PLAY_RES_Y = 288;
+const ASS_TIME_REGEX = /^(\d+):(\d{2}):(\d{2})[.,](\d{1,3})$/;
+const ASS_OVERRIDE_BLOCK_REGEX = /\{([^}]*)\}/g;
+const ASS_TAG_REGEX = /^(\d?[a-z]+)(.*)$/i;
+
+const HTML_ESCAPES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' };
+const VTT_ENTITIES = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&nbsp;': ' ', '&lrm;': '‎', '&rlm;': '‏' };
+
+function escapeHtml(text) {
+    return text.replace(/[&<>"]/g, (char) => HTML_ESCAPES[char]);
+}
+
+// ─── WebVTT ──────────────────────────────────────────────────────────────────
+
+function parseVttTime(value) {
+    const match = value.match(VTT_TIME_REGEX);
+    if (!match) return null;
+    const [, h, m, s, ms] = match;
+    return (parseInt(h || '0') * 3600) + parseInt(m) * 60 + parseInt(s) + parseInt(ms) / 1000;
+}
+
+function parseVttSettings(raw) {
+    const settings = {};
+    for (const token of raw.trim().split(/\s+/)) {
+        const [key, value] = token.split(':');
+        if (key && value) settings[key] = value;
+    }
+    return settings;
+}
+
+function buildVttLayout(settings) {
+    if (!settings.line && !settings.position && !settings.align) return null;
+
+    const align = settings.align || 'center';
+    const horizontal = align === 'start' || align === 'left'
+        ? 'left'
+        : align === 'end' || align === 'right' ? 'right' : 'center';
+
+    const layout = {
+        horizontal,
+        vertical: 'bottom',
+        x: settings.position ? parseFloat(settings.position) : null,
+        y: null,
+        marginV: VTT_DEFAULT_BOTTOM_PERCENT,
+        maxWidth: settings.size ? parseFloat(settings.size) : null,
+        useUserStyle: true,
+    };
+
+    if (settings.line) {
+        const lineValue = settings.line.split(',')[0];
+        if (lineValue.endsWith('%')) {
+            layout.vertical = 'top';
+            layout.y = parseFloat(lineValue);
+        } else {
+            const lineNumber = parseInt(lineValue);
+            if (Number.isFinite(lineNumber) && lineNumber >= 0) {
+                layout.vertical = 'top';
+                layout.y = lineNumber * VTT_LINE_HEIGHT_PERCENT;
+            } else if (Number.isFinite(lineNumber)) {
+                layout.marginV = (Math.abs(lineNumber) - 1) * VTT_LINE_HEIGHT_PERCENT;
+            }
+        }
+    }
+
+    return layout;
+}
+
+function cleanVttText(text) {
+    return text
+        .replace(VTT_INLINE_TIMESTAMP_REGEX, '')
+        .replace(VTT_ALLOWED_TAG_REGEX, '')
+        .replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => VTT_ENTITIES[entity])
+        .trim();
+}
+
+/**
+ * Converte um arquivo WebVTT em cues. Cues com `line`, `position` ou `align` levam um layout posicionado.
+ * @param {string} content Conteúdo do arquivo .vtt.
+ */
+export function parseVTT(content) {
+    const cues = [];
+    const blocks = content.replace(/^﻿/, '').replace(/\r\n?/g, '\n').trim().split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1 || timingIndex > 1) continue;
+
+        const timing = lines[timingIndex].trim().match(VTT_TIMING_REGEX);
+        if (!timing) continue;
+
+        const start = parseVttTime(timing[1]);
+        const end = parseVttTime(timing[2]);
+        if (start === null || end === null) continue;
+
+        const text = cleanVttText(lines.slice(timingIndex + 1).join('\n'));
+        if (!text) continue;
+
+        cues.push({ start, end, text, layout: buildVttLayout(parseVttSettings(timing[3] || '')) });
+    }
+
+    return cues;
+}
+
+// ─── ASS / SSA ───────────────────────────────────────────────────────────────
+
+function parseAssTime(value) {
+    const match = value.trim().match(ASS_TIME_REGEX);
+    if (!match) return null;
+    const [, h, m, s, fraction] = match;
+    return parseInt(h) * 3600 + parseInt(m) * 60 + parseInt(s) + parseInt(fraction) / Math.pow(10, fraction.length);
+}
+
+/**
+ * Converte cor ASS (&HAABBGGRR, alfa invertido) em rgba CSS.
+ */
+function parseAssColor(value) {
+    if (!value) return null;
+    // SSA antigo grava cores em decimal; ASS usa hexadecimal com prefixo &H.
+    const raw = /^-?\d+$/.test(value.trim())
+        ? (Number(value) >>> 0).toString(16)
+        : value.replace(/&H|&/gi, '');
+    const hex = raw.padStart(8, '0').slice(-8);
+    const alpha = 1 - parseInt(hex.slice(0, 2), 16) / 255;
+    const blue = parseInt(hex.slice(2, 4), 16);
+    const green = parseInt(hex.slice(4, 6), 16);
+    const red = parseInt(hex.slice(6, 8), 16);
+    if ([alpha, blue, green, red].some(Number.isNaN)) return null;
+    return `rgba(${red}, ${green}, ${blue}, ${alpha.toFixed(2)})`;
+}
+
+function parseFormatLine(line) {
+    return line.slice(line.indexOf(':') + 1).split(',').map((field) => field.trim().toLowerCase());
+}
+
+function splitFields(line, fieldCount) {
+    const values = line.slice(line.indexOf(':') + 1).split(',');
+    const head = values.slice(0, fieldCount - 1).map((value) => value.trim());
+    head.push(values.slice(fieldCount - 1).join(','));
+    return head;
+}
+
+function toRecord(fields, values) {
+    const record = {};
+    fields.forEach((field, index) => { record[field] = values[index]; });
+    return record;
+}
+
+function parseAssStyle(record) {
+    // SSA v4 usa alinhamento "legado" (1-3 base, +4 topo, +8 meio); ASS usa numpad.
+    return {
+        fontFamily: record.fontname || null,
+        fontSize: parseFloat(record.fontsize) || 20,
+        color: parseAssColor(record.primarycolour),
+        outlineColor: parseAssColor(record.outlinecolour || record.tertiarycolour),
+        outline: parseFloat(record.outline) || 0,
+        bold: record.bold === '-1' || record.bold === '1',
+        italic: record.italic === '-1' || record.italic === '1',
+        underline: record.underline === '-1' || record.underline === '1',
+        alignment: parseInt(record.alignment) || 2,
+        marginL: parseFloat(record.marginl) || 0,
+        marginR: parseFloat(record.marginr) || 0,
+        marginV: parseFloat(record.marginv) || 0,
+    };
+}
+
+const LEGACY_ALIGNMENT = { 1: 1, 2: 2, 3: 3, 5: 7, 6: 8, 7: 9, 9: 4, 10: 5, 11: 6 };
+
+function alignmentToLayout(alignment) {
+    const column = (alignment - 1) % 3;
+    const row = Math.floor((alignment - 1) / 3);
+    return {
+        horizontal: ['left', 'center', 'right'][column] || 'center',
+        vertical: ['bottom', 'middle', 'top'][row] || 'bottom',
+    };
+}
+
+function buildSpanStyle(inline, base) {
+    const rules = [];
+    if (inline.bold !== base.bold) rules.push(`font-weight:${inline.bold ? 700 : 400}`);
+    if (inline.italic !== base.italic) rules.push(`font-style:${inline.italic ? 'italic' : 'normal'}`);
+    if (inline.underline !== base.underline) rules.push(`text-decoration:${inline.underline ? 'underline' : 'none'}`);
+    if (inline.color !== base.color && inline.color) rules.push(`color:${inline.color}`);
+    if (inline.fontSize !== base.fontSize) rules.push(`font-size:${(inline.fontSize / base.fontSize).toFixed(3)}em`);
+    return rules.join(';');
+}
+
+/**
+ * Interpreta os blocos de override ({\an8\pos(...)\i1...}) de uma linha de diálogo.
+ * Tags de linha inteira viram layout; tags inline viram spans. Desenhos vetoriais (\p) são descartados.
+ */
+function parseAssText(text, style) {
+    const base = { bold: style.bold, italic: style.italic, underline: style.underline, color: style.color, fontSize: style.fontSize };
+    let inline = { ...base };
+    let alignment = style.alignment;
+    let position = null;
+    let isDrawing = false;
+    let html = '';
+    let lastIndex = 0;
+
+    const appendText = (raw) => {
+        if (!raw || isDrawing) return;
+        const escaped = escapeHtml(raw)
+            .replace(/\\N/g, '<br>')
+            .replace(/\\n/g, ' ')
+            .replace(/\\h/g, '&nbsp;');
+        const css = buildSpanStyle(inline, base);
+        html += css ? `<span style="${css}">${escaped}</span>` : escaped;
+    };
+
+    for (const match of text.matchAll(ASS_OVERRIDE_BLOCK_REGEX)) {
+        appendText(text.slice(lastIndex, match.index));
+        lastIndex = match.index + match[0].length;
+
+        for (const tag of match[1].split('\\').slice(1)) {
+            const tagMatch = tag.trim().match(ASS_TAG_REGEX);
+            if (!tagMatch) continue;
+            const [, name, arg] = tagMatch;
+
+            if (name === 'an' && arg) alignment = parseInt(arg) || alignment;
+            else if (name === 'a' && arg) alignment = LEGACY_ALIGNMENT[parseInt(arg)] || alignment;
+            else if (name === 'pos' || name === 'move') {
+                const coords = arg.replace(/[()]/g, '').split(',').map(parseFloat);
+                if (coords.length >= 2 && coords.every(Number.isFinite)) position = { x: coords[0], y: coords[1] };
+            }
+            else if (name === 'i') inline.italic = arg === '1';
+            else if (name === 'b') inline.bold = arg !== '' && arg !== '0';
+            else if (name === 'u') inline.underline = arg === '1';
+            else if (name === 'c' || name === '1c') inline.color = parseAssColor(arg) || inline.color;
+            else if (name === 'fs') inline.fontSize = parseFloat(arg) || base.fontSize;
+            else if (name.startsWith('r')) inline = { ...base };
+            else if (name === 'p') isDrawing = arg !== '' && arg !== '0';
+        }
+    }
+    appendText(text.slice(lastIndex));
+
+    return { html, alignment, position };
+}
+
+/**
+ * Converte um arquivo ASS/SSA em cues com layout absoluto (alinhamento, margens, \pos) e estilos do arquivo.
+ * Coordenadas e tamanhos são normalizados em percentual do PlayRes para escalar com o vídeo.
+ * @param {string} content Conteúdo do arquivo .ass/.ssa.
+ */
+export function parseASS(content) {
+    const lines = content.replace(/^﻿/, '').replace(/\r\n?/g, '\n').split('\n');
+    const styles = new Map();
+    let playResX = 0;
+    let playResY = 0;
+    let section = '';
+    let isLegacy = false;
+    let styleFields = [];
+    let eventFields = [];
+    const dialogues = [];
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';')) continue;
+
+        if (line.startsWith('[')) {
+            section = line.toLowerCase();
+            if (section === '[v4 styles]') isLegacy = true;
+            continue;
+        }
+
+        if (section === '[script info]') {
+            if (/^PlayResX:/i.test(line)) playResX = parseFloat(line.split(':')[1]) || 0;
+            if (/^PlayResY:/i.test(line)) playResY = parseFloat(line.split(':')[1]) || 0;
+            continue;
+        }
+
+        if (section.includes('styles')) {
+            if (/^Format:/i.test(line)) styleFields = parseFormatLine(line);
+            else if (/^Style:/i.test(line) && styleFields.length > 0) {
+                const record = toRecord(styleFields, splitFields(line, styleFields.length));
+                const style = parseAssStyle(record);
+                if (isLegacy) style.alignment = LEGACY_ALIGNMENT[style.alignment] || 2;
+                styles.set((record.name || 'Default').replace(/^\*/, ''), style);
+            }
+            continue;
+        }
+
+        if (section === '[events]') {
+            if (/^Format:/i.test(line)) eventFields = parseFormatLine(line);
+            else if (/^Dialogue:/i.test(line) && eventFields.length > 0) {
+                dialogues.push(toRecord(eventFields, splitFields(rawLine.trimStart(), eventFields.length)));
+            }
+        }
+    }
+
+    // PlayRes ausente: o padrão do formato é 384x288, escalando um lado pelo outro quando só um existe.
+    if (!playResX && !playResY) {
+        playResX = ASS_DEFAULT_PLAY_RES_X;
+        playResY = ASS_DEFAULT_PLAY_RES_Y;
+    } else if (!playResY) {
+        playResY = playResX === 1280 ? 1024 : playResX * 3 / 4;
+    } else if (!playResX) {
+        playResX = playResY === 1024 ? 1280 : playResY * 4 / 3;
+    }
+
+    const fallbackStyle = parseAssStyle({});
+    const cues = [];
+
+    for (const dialogue of dialogues) {
+        const start = parseAssTime(dialogue.start || '');
+        const end = parseAssTime(dialogue.end || '');
+        if (start === null || end === null || end <= start) continue;
+
+        const style = styles.get((dialogue.style || 'Default').replace(/^\*/, '')) || styles.get('Default') || fallbackStyle;
+        const { html, alignment, position } = parseAssText(dialogue.text || '', style);
+        if (!html.replace(/<[^>]+>|&nbsp;/g, '').trim()) continue;
+
+        const marginL = parseFloat(dialogue.marginl) || style.marginL;
+        const marginR = parseFloat(dialogue.marginr) || style.marginR;
+        const marginV = parseFloat(dialogue.marginv) || style.marginV;
+
+        cues.push({
+            start,
+            end,
+            html,
+            layout: {
+                ...alignmentToLayout(alignment),
+                x: position ? (position.x / playResX) * 100 : null,
+                y: position ? (position.y / playResY) * 100 : null,
+                marginL: (marginL / playResX) * 100,
+                marginR: (marginR / playResX) * 100,
+                marginV: (marginV / playResY) * 100,
+                maxWidth: position ? null : ((playResX - marginL - marginR) / playResX) * 100,
+                fontSizeRatio: style.fontSize / playResY,
+                outlineRatio: style.outline / playResY,
+                fontFamily: style.fontFamily,
+                color: style.color,
+                outlineColor: style.outlineColor,
+                bold: style.bold,
+                italic: style.italic,
+                underline: style.underline,
+                layer: parseInt(dialogue.layer) || 0,
+                useUserStyle: false,
+            },
+        });
+    }
+
+    return cues.sort((a, b) => a.start - b.start);
+}
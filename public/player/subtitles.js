@@ -1,5 +1,7 @@
 import { dom } from './dom.js';
 import { buildRoomHeaders, state } from './state.js';
+import { drawPGSCue, parsePGS } from './pgs.js';
+import { parseASS, parseVTT } from './subtitle-formats.js';
 
 const STORAGE_KEY = 'manoel_subtitle_settings';
 
@@ -7,9 +9,22 @@ const ASS_TAG_REGEX = /\{\\[^}]*\}/g;
 const HTML_TAG_REGEX = /<\/?(?!(?:i|b|u)\b)[^>]+>/gi;
 const ALLOWED_INLINE_TAG_REGEX = /&lt;(\/?(?:i|b|u))&gt;/gi;
 
+const SUBTITLE_FORMATS_BY_EXTENSION = {
+    '.srt': 'srt',
+    '.vtt': 'vtt',
+    '.ass': 'ass',
+    '.ssa': 'ass',
+    '.sup': 'pgs',
+};
+const UPLOADABLE_SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+
 export const subtitleState = {
     cues: [],
     currentCueIndex: -1,
+    format: 'srt',
+    activeImageCue: null,
+    activeStyledCues: [],
+    roomOffsetSeconds: 0,
     settings: {
         enabled: false,
         selectedFile: null,
@@ -18,7 +33,8 @@ export const subtitleState = {
         textColor: '#ffffff',
         backgroundColor: '#000000',
         backgroundOpacity: 0.75,
-        backgroundEnabled: true
+        backgroundEnabled: true,
+        userOffsetSeconds: 0
     }
 };
 
@@ -68,25 +84,249 @@ function formatSubtitleText(text) {
         .replace(/\n/g, '<br>');
 }
 
+function findActiveCue(currentTime) {
+    for (let i = 0; i < subtitleState.cues.length; i++) {
+        const cue = subtitleState.cues[i];
+        if (currentTime >= cue.start && currentTime <= cue.end) {
+            return cue;
+        }
+    }
+    return null;
+}
+
+function findActiveCues(currentTime) {
+    return subtitleState.cues.filter(cue => currentTime >= cue.start && currentTime <= cue.end);
+}
+
+/**
+ * Área efetivamente ocupada pela imagem dentro do <video>, descontando as tarjas do letterbox.
+ */
+function getVideoContentRect() {
+    const video = dom.video;
+    const width = video.clientWidth;
+    const height = video.clientHeight;
+
+    if (!video.videoWidth || !video.videoHeight) {
+        return { left: video.offsetLeft, top: video.offsetTop, width, height };
+    }
+
+    const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+    const contentWidth = video.videoWidth * scale;
+    const contentHeight = video.videoHeight * scale;
+    return {
+        left: video.offsetLeft + (width - contentWidth) / 2,
+        top: video.offsetTop + (height - contentHeight) / 2,
+        width: contentWidth,
+        height: contentHeight,
+    };
+}
+
+function getUserBackgroundColor() {
+    const s = subtitleState.settings;
+    if (!s.backgroundEnabled) return 'transparent';
+
+    const r = parseInt(s.backgroundColor.slice(1, 3), 16);
+    const g = parseInt(s.backgroundColor.slice(3, 5), 16);
+    const b = parseInt(s.backgroundColor.slice(5, 7), 16);
+    return `rgba(${r}, ${g}, ${b}, ${s.backgroundOpacity})`;
+}
+
+function buildOutlineShadow(color, width) {
+    const size = Math.max(1, Math.round(width));
+    return [
+        `${size}px 0 0 ${color}`, `-${size}px 0 0 ${color}`,
+        `0 ${size}px 0 ${color}`, `0 -${size}px 0 ${color}`,
+        `${size}px ${size}px 0 ${color}`, `-${size}px -${size}px 0 ${color}`,
+        `${size}px -${size}px 0 ${color}`, `-${size}px ${size}px 0 ${color}`,
+    ].join(', ');
+}
+
+function positionStyledCue(element, layout) {
+    const translateX = { left: '0', center: '-50%', right: '-100%' }[layout.horizontal];
+    const translateY = { top: '0', middle: '-50%', bottom: '-100%' }[layout.vertical];
+
+    // Cues com posição explícita (\pos no ASS, position/line no VTT) ancoram no ponto informado.
+    if (layout.x !== null && layout.x !== undefined) {
+        element.style.left = `${layout.x}%`;
+        element.style.transform = `translateX(${translateX})`;
+    } else if (layout.horizontal === 'left') {
+        element.style.left = `${layout.marginL || 0}%`;
+    } else if (layout.horizontal === 'right') {
+        element.style.right = `${layout.marginR || 0}%`;
+    } else {
+        element.style.left = '50%';
+        element.style.transform = 'translateX(-50%)';
+    }
+
+    if (layout.y !== null && layout.y !== undefined) {
+        element.style.top = `${layout.y}%`;
+        element.style.transform = `${element.style.transform || ''} translateY(${translateY})`.trim();
+    } else if (layout.vertical === 'top') {
+        element.style.top = `${layout.marginV}%`;
+    } else if (layout.vertical === 'middle') {
+        element.style.top = '50%';
+        element.style.transform = `${element.style.transform || ''} translateY(-50%)`.trim();
+    } else {
+        element.style.bottom = `${layout.marginV}%`;
+    }
+
+    if (layout.maxWidth) element.style.maxWidth = `${layout.maxWidth}%`;
+    element.style.textAlign = layout.horizontal;
+}
+
+function buildStyledCueElement(cue, contentHeight) {
+    const { layout } = cue;
+    const element = document.createElement('div');
+    element.className = 'subtitle-styled-cue';
+    positionStyledCue(element, layout);
+
+    if (layout.useUserStyle) {
+        // WebVTT só define posição; aparência segue as preferências do espectador.
+        const s = subtitleState.settings;
+        element.innerHTML = formatSubtitleText(cue.text);
+        element.style.fontSize = `${getScaledFontSize()}px`;
+        element.style.fontFamily = s.fontFamily;
+        element.style.color = s.textColor;
+        element.style.backgroundColor = getUserBackgroundColor();
+        if (!s.backgroundEnabled) element.style.textShadow = '2px 2px 4px rgba(0,0,0,0.9), -1px -1px 2px rgba(0,0,0,0.9)';
+        return element;
+    }
+
+    element.innerHTML = cue.html;
+    element.style.zIndex = String(layout.layer);
+    element.style.fontSize = `${layout.fontSizeRatio * contentHeight}px`;
+    if (layout.fontFamily) element.style.fontFamily = `"${layout.fontFamily}", ${subtitleState.settings.fontFamily}`;
+    if (layout.color) element.style.color = layout.color;
+    element.style.fontWeight = layout.bold ? '700' : '400';
+    element.style.fontStyle = layout.italic ? 'italic' : 'normal';
+    if (layout.underline) element.style.textDecoration = 'underline';
+    if (layout.outlineRatio > 0 && layout.outlineColor) {
+        element.style.textShadow = buildOutlineShadow(layout.outlineColor, layout.outlineRatio * contentHeight);
+    }
+    return element;
+}
+
+function drawStyledCues() {
+    const container = dom.subtitleStyledDisplay;
+    if (!container || !dom.video) return;
+
+    container.innerHTML = '';
+    if (subtitleState.activeStyledCues.length === 0) return;
+
+    const rect = getVideoContentRect();
+    container.style.left = `${rect.left}px`;
+    container.style.top = `${rect.top}px`;
+    container.style.width = `${rect.width}px`;
+    container.style.height = `${rect.height}px`;
+
+    for (const cue of subtitleState.activeStyledCues) {
+        container.appendChild(buildStyledCueElement(cue, rect.height));
+    }
+}
+
+function renderStyledCues(cues) {
+    const previous = subtitleState.activeStyledCues;
+    const unchanged = previous.length === cues.length && cues.every((cue, index) => cue === previous[index]);
+    if (unchanged) return;
+
+    subtitleState.activeStyledCues = cues;
+    drawStyledCues();
+}
+
+function clearStyledSubtitles() {
+    subtitleState.activeStyledCues = [];
+    if (dom.subtitleStyledDisplay) dom.subtitleStyledDisplay.innerHTML = '';
+}
+
+function clearImageSubtitle() {
+    subtitleState.activeImageCue = null;
+    if (dom.subtitleImageDisplay) drawPGSCue(dom.subtitleImageDisplay, null);
+}
+
+function renderImageSubtitle(currentTime) {
+    const activeCue = findActiveCue(currentTime);
+    if (activeCue === subtitleState.activeImageCue || !dom.subtitleImageDisplay) return;
+
+    subtitleState.activeImageCue = activeCue;
+    drawPGSCue(dom.subtitleImageDisplay, activeCue);
+}
+
+function formatOffset(seconds) {
+    return `${seconds > 0 ? '+' : ''}${seconds.toFixed(1)}s`;
+}
+
+function getRoomOffset(filename) {
+    return state.availableSubtitles.find(sub => sub.filename === filename)?.offsetSeconds || 0;
+}
+
+/**
+ * Atraso positivo mostra a legenda mais tarde: a cue de 10s aparece em 10s + atraso.
+ */
+function getSubtitleTime(currentTime) {
+    return currentTime - subtitleState.roomOffsetSeconds - subtitleState.settings.userOffsetSeconds;
+}
+
+function rerenderSubtitle() {
+    if (dom.video) renderSubtitle(dom.video.currentTime);
+}
+
+/**
+ * Aplica o atraso definido pelo host (mensagem `subtitle-offset`) à legenda correspondente.
+ */
+export function applyRoomSubtitleOffset(filename, offsetSeconds) {
+    const subtitle = state.availableSubtitles.find(sub => sub.filename === filename);
+    if (subtitle) subtitle.offsetSeconds = offsetSeconds;
+
+    if (subtitleState.settings.selectedFile !== filename) return;
+
+    subtitleState.roomOffsetSeconds = offsetSeconds;
+    updateOffsetControls();
+    rerenderSubtitle();
+}
+
+function sendRoomSubtitleOffset(offsetSeconds) {
+    const filename = subtitleState.settings.selectedFile;
+    if (!filename || !state.isHost || state.ws?.readyState !== WebSocket.OPEN) return;
+    state.ws.send(JSON.stringify({ type: 'subtitle-offset', filename, offsetSeconds }));
+}
+
+function updateOffsetControls() {
+    const roomOffset = subtitleState.roomOffsetSeconds;
+    const userOffset = subtitleState.settings.userOffsetSeconds;
+    const canEditRoomOffset = state.isHost && Boolean(subtitleState.settings.selectedFile);
+
+    if (dom.subtitleOffsetSlider) {
+        dom.subtitleOffsetSlider.value = roomOffset;
+        dom.subtitleOffsetSlider.disabled = !canEditRoomOffset;
+    }
+    if (dom.subtitleOffsetValue) dom.subtitleOffsetValue.textContent = formatOffset(roomOffset);
+    if (dom.subtitleUserOffsetSlider) dom.subtitleUserOffsetSlider.value = userOffset;
+    if (dom.subtitleUserOffsetValue) dom.subtitleUserOffsetValue.textContent = formatOffset(userOffset);
+}
+
 export function renderSubtitle(currentTime) {
     if (!subtitleState.settings.enabled || subtitleState.cues.length === 0) {
         if (dom.subtitleDisplay) dom.subtitleDisplay.innerHTML = '';
+        if (subtitleState.activeImageCue) clearImageSubtitle();
+        if (subtitleState.activeStyledCues.length > 0) clearStyledSubtitles();
         return;
     }
 
-    let activeCue = null;
-    for (let i = 0; i < subtitleState.cues.length; i++) {
-        const cue = subtitleState.cues[i];
-        if (currentTime >= cue.start && currentTime <= cue.end) {
-            activeCue = cue;
-            break;
-        }
+    const subtitleTime = getSubtitleTime(currentTime);
+
+    if (subtitleState.format === 'pgs') {
+        renderImageSubtitle(subtitleTime);
+        return;
     }
 
+    const activeCues = findActiveCues(subtitleTime);
+    renderStyledCues(activeCues.filter(cue => cue.layout));
+
     if (!dom.subtitleDisplay) return;
 
-    if (activeCue) {
-        dom.subtitleDisplay.innerHTML = formatSubtitleText(activeCue.text);
+    const plainCues = activeCues.filter(cue => !cue.layout);
+    if (plainCues.length > 0) {
+        dom.subtitleDisplay.innerHTML = plainCues.map(cue => formatSubtitleText(cue.text)).join('<br>');
         dom.subtitleDisplay.style.opacity = '1';
     } else {
         dom.subtitleDisplay.innerHTML = '';
@@ -102,16 +342,12 @@ export function applySettings() {
     dom.subtitleDisplay.style.fontFamily = s.fontFamily;
     dom.subtitleDisplay.style.color = s.textColor;
 
-    if (s.backgroundEnabled) {
-        const r = parseInt(s.backgroundColor.slice(1, 3), 16);
-        const g = parseInt(s.backgroundColor.slice(3, 5), 16);
-        const b = parseInt(s.backgroundColor.slice(5, 7), 16);
-        dom.subtitleDisplay.style.backgroundColor = `rgba(${r}, ${g}, ${b}, ${s.backgroundOpacity})`;
-    } else {
-        dom.subtitleDisplay.style.backgroundColor = 'transparent';
+    dom.subtitleDisplay.style.backgroundColor = getUserBackgroundColor();
+    if (!s.backgroundEnabled) {
         dom.subtitleDisplay.style.textShadow = '2px 2px 4px rgba(0,0,0,0.9), -1px -1px 2px rgba(0,0,0,0.9)';
     }
 
+    drawStyledCues();
     saveSettingsToStorage();
 }
 
@@ -131,12 +367,41 @@ export function loadSettingsFromStorage() {
     }
 }
 
+function getFileExtension(filename) {
+    const dotIndex = filename.lastIndexOf('.');
+    return dotIndex === -1 ? '' : filename.slice(dotIndex).toLowerCase();
+}
+
+function getSubtitleFormat(filename) {
+    const subtitle = state.availableSubtitles.find(sub => sub.filename === filename);
+    if (subtitle?.format) return subtitle.format;
+    return SUBTITLE_FORMATS_BY_EXTENSION[getFileExtension(filename)] || 'srt';
+}
+
+/**
+ * Indica se o arquivo tem uma extensão de legenda aceita no upload (.srt, .vtt, .ass, .ssa).
+ */
+export function isSupportedSubtitleFile(filename) {
+    return UPLOADABLE_SUBTITLE_EXTENSIONS.includes(getFileExtension(filename));
+}
+
+function parseTextSubtitle(format, content) {
+    if (format === 'vtt') return parseVTT(content);
+    if (format === 'ass') return parseASS(content);
+    return parseSRT(content);
+}
+
 export async function loadSubtitle(filename) {
+    clearImageSubtitle();
+    clearStyledSubtitles();
+
     if (!filename) {
         subtitleState.cues = [];
+        subtitleState.roomOffsetSeconds = 0;
         subtitleState.settings.enabled = false;
         subtitleState.settings.selectedFile = null;
         if (dom.subtitleDisplay) dom.subtitleDisplay.innerHTML = '';
+        updateOffsetControls();
         return;
     }
 
@@ -146,11 +411,19 @@ export async function loadSubtitle(filename) {
         });
         if (!res.ok) throw new Error('Failed to load subtitle');
 
-        const content = await res.text();
-        subtitleState.cues = parseSRT(content);
+        const format = getSubtitleFormat(filename);
+        if (format === 'pgs') {
+            subtitleState.cues = parsePGS(await res.arrayBuffer());
+            if (dom.subtitleDisplay) dom.subtitleDisplay.innerHTML = '';
+        } else {
+            subtitleState.cues = parseTextSubtitle(format, await res.text());
+        }
+        subtitleState.format = format;
+        subtitleState.roomOffsetSeconds = getRoomOffset(filename);
         subtitleState.settings.enabled = true;
         subtitleState.settings.selectedFile = filename;
         applySettings();
+        updateOffsetControls();
     } catch (e) {
         console.error('[Subtitles] Error loading subtitle:', e);
         subtitleState.cues = [];
@@ -166,6 +439,10 @@ export async function fetchAvailableSubtitles() {
         if (!res.ok) return [];
         const data = await res.json();
         state.availableSubtitles = data.subtitles || [];
+        if (subtitleState.settings.selectedFile) {
+            subtitleState.roomOffsetSeconds = getRoomOffset(subtitleState.settings.selectedFile);
+            updateOffsetControls();
+        }
         return state.availableSubtitles;
     } catch {
         return [];
@@ -214,6 +491,7 @@ export function updateSettingsPanel() {
     if (dom.bgColorPicker) dom.bgColorPicker.value = subtitleState.settings.backgroundColor;
     if (dom.bgOpacitySlider) dom.bgOpacitySlider.value = subtitleState.settings.backgroundOpacity;
     if (dom.bgOpacityValue) dom.bgOpacityValue.textContent = `${Math.round(subtitleState.settings.backgroundOpacity * 100)}%`;
+    updateOffsetControls();
 }
 
 export function bindSettingsEvents() {
@@ -232,6 +510,24 @@ export function bindSettingsEvents() {
         loadSubtitle(filename || null);
     });
 
+    dom.subtitleOffsetSlider?.addEventListener('input', (e) => {
+        // Prévia local enquanto arrasta; os demais só recebem o valor final no change.
+        subtitleState.roomOffsetSeconds = parseFloat(e.target.value);
+        if (dom.subtitleOffsetValue) dom.subtitleOffsetValue.textContent = formatOffset(subtitleState.roomOffsetSeconds);
+        rerenderSubtitle();
+    });
+
+    dom.subtitleOffsetSlider?.addEventListener('change', (e) => {
+        sendRoomSubtitleOffset(parseFloat(e.target.value));
+    });
+
+    dom.subtitleUserOffsetSlider?.addEventListener('input', (e) => {
+        subtitleState.settings.userOffsetSeconds = parseFloat(e.target.value);
+        if (dom.subtitleUserOffsetValue) dom.subtitleUserOffsetValue.textContent = formatOffset(subtitleState.settings.userOffsetSeconds);
+        saveSettingsToStorage();
+        rerenderSubtitle();
+    });
+
     dom.fontSizeSlider?.addEventListener('input', (e) => {
         subtitleState.settings.fontSize = parseInt(e.target.value);
         if (dom.fontSizeValue) dom.fontSizeValue.textContent = `${subtitleState.settings.fontSize}px`;
@@ -283,9 +579,11 @@ export function bindSettingsEvents() {
         e.preventDefault();
         dom.subtitleDropzone.classList.remove('dragover');
         const file = e.dataTransfer?.files?.[0];
-        if (file && file.name.endsWith('.srt')) handleSubtitleUpload(file);
+        if (file && isSupportedSubtitleFile(file.name)) handleSubtitleUpload(file);
     });
 
+    dom.btnSubtitleSearch?.addEventListener('click', () => searchOnlineSubtitles());
+
     dom.subtitleSessionInput?.addEventListener('change', async (e) => {
         const file = e.target.files?.[0];
         if (file) await handleSubtitleUpload(file);
@@ -317,6 +615,97 @@ async function handleSubtitleUpload(file) {
     }
 }
 
+function showSubtitleStatus(message, isError = false) {
+    const statusEl = dom.subtitleUploadStatus;
+    if (!statusEl) return;
+    statusEl.classList.remove('hidden');
+    statusEl.classList.toggle('error', isError);
+    statusEl.textContent = message;
+}
+
+function renderSearchResults(results) {
+    const container = dom.subtitleSearchResults;
+    if (!container) return;
+    container.innerHTML = '';
+
+    if (results.length === 0) {
+        const empty = document.createElement('p');
+        empty.className = 'subtitle-search-empty';
+        empty.textContent = 'Nenhuma legenda encontrada';
+        container.appendChild(empty);
+        return;
+    }
+
+    for (const result of results) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'subtitle-search-result';
+        button.title = result.displayName;
+
+        const name = document.createElement('span');
+        name.className = 'subtitle-search-result-name';
+        name.textContent = result.displayName;
+
+        const meta = document.createElement('span');
+        meta.className = 'subtitle-search-result-meta';
+        const details = [result.language.toUpperCase(), result.format.toUpperCase()];
+        if (result.downloadCount) details.push(`${result.downloadCount} downloads`);
+        if (result.hearingImpaired) details.push('SDH');
+        meta.textContent = details.join(' · ');
+
+        button.append(name, meta);
+        button.addEventListener('click', () => downloadOnlineSubtitle(result, button));
+        container.appendChild(button);
+    }
+}
+
+async function searchOnlineSubtitles() {
+    const language = dom.subtitleSearchLanguage?.value || 'pt-br';
+    if (dom.btnSubtitleSearch) dom.btnSubtitleSearch.disabled = true;
+    showSubtitleStatus('Buscando legendas...');
+
+    try {
+        const res = await fetch(`/api/upload/subtitle-search/${state.roomId}?language=${encodeURIComponent(language)}`, {
+            headers: buildRoomHeaders()
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Falha na busca');
+
+        renderSearchResults(data.results || []);
+        dom.subtitleUploadStatus?.classList.add('hidden');
+    } catch (err) {
+        console.error('[Subtitles] Search failed:', err);
+        showSubtitleStatus(err.message || 'Falha na busca', true);
+    } finally {
+        if (dom.btnSubtitleSearch) dom.btnSubtitleSearch.disabled = false;
+    }
+}
+
+async function downloadOnlineSubtitle(result, button) {
+    button.disabled = true;
+    showSubtitleStatus(`Baixando ${result.displayName}...`);
+
+    try {
+        const res = await fetch(`/api/upload/subtitle-search/${state.roomId}/download`, {
+            method: 'POST',
+            headers: buildRoomHeaders({ 'Content-Type': 'application/json' }),
+            body: JSON.stringify({ resultId: result.id })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Falha no download');
+
+        await fetchAvailableSubtitles();
+        updateSettingsPanel();
+        if (dom.subtitleSearchResults) dom.subtitleSearchResults.innerHTML = '';
+        showSubtitleStatus(`✓ ${data.displayName}`);
+        setTimeout(() => dom.subtitleUploadStatus?.classList.add('hidden'), 3000);
+    } catch (err) {
+        console.error('[Subtitles] Download failed:', err);
+        button.disabled = false;
+        showSubtitleStatus(err.message || 'Falha no download', true);
+    }
+}
+
 export function initSubtitles() {
     loadSettingsFromStorage();
     applySettings();
@@ -330,9 +719,12 @@ export function initSubtitles() {
 export function clearSubtitleState() {
     subtitleState.cues = [];
     subtitleState.currentCueIndex = -1;
+    subtitleState.roomOffsetSeconds = 0;
     subtitleState.settings.enabled = false;
     subtitleState.settings.selectedFile = null;
     state.availableSubtitles = [];
     if (dom.subtitleDisplay) dom.subtitleDisplay.innerHTML = '';
+    clearImageSubtitle();
+    clearStyledSubtitles();
     updateSettingsPanel();
 }
@@ -1,7 +1,10 @@
 import { dom } from './dom.js';
 import { state } from './state.js';
-import { formatTime } from './utils.js';
+import { formatEta, formatTime } from './utils.js';
 import { clearSubtitleState } from './subtitles.js';
+import { destroyStream, loadVideoSource } from './stream.js';
+import { updateRoomControlsUI } from './controls.js';
+import { buildModerationActions } from './moderation.js';
 
 export function initSidebar() {
     dom.btnToggleUsers?.addEventListener('click', () => dom.usersSidebar?.classList.remove('hidden'));
@@ -15,6 +18,33 @@ function setWaitingOverlayText(title, message) {
     if (waitingMessage) waitingMessage.textContent = message;
 }
 
+const CANONICAL_RATING_MAX = 10;
+
+/**
+ * Ajusta o modal de nota para a escala do servidor (ex: 5 estrelas com meio ponto).
+ * Notas trafegam sempre na escala canônica de 0 a 10; a escala só muda entrada e exibição.
+ */
+export function applyRatingScale(scale) {
+    const max = scale?.max === 5 ? 5 : 10;
+    const step = scale?.step === 1 ? 1 : 0.5;
+    state.ratingScale = { max, step };
+
+    dom.starRatingContainer?.querySelectorAll('.star-icon').forEach((star) => {
+        const index = Array.prototype.indexOf.call(star.parentElement.children, star);
+        star.classList.toggle('hidden', index >= max);
+    });
+}
+
+export function toCanonicalRating(value) {
+    return Math.round(value * CANONICAL_RATING_MAX / state.ratingScale.max * 100) / 100;
+}
+
+export function formatRatingValue(score, fractionDigits) {
+    const value = Math.round(score * state.ratingScale.max / CANONICAL_RATING_MAX * 100) / 100;
+    const text = fractionDigits !== undefined ? value.toFixed(fractionDigits) : String(value);
+    return `${text}/${state.ratingScale.max}`;
+}
+
 function formatCountdown(remainingMs) {
     const safeRemainingMs = Math.max(0, remainingMs);
     const totalSeconds = Math.ceil(safeRemainingMs / 1000);
@@ -63,7 +93,7 @@ function renderRatingParticipantStatus(participant) {
     if (participant.status === 'rated') {
         const score = document.createElement('span');
         score.className = 'rating-item-score';
-        score.textContent = `${participant.rating}/10`;
+        score.textContent = formatRatingValue(participant.rating);
         return score;
     }
 
@@ -177,6 +207,8 @@ export function showAudioTrackSelection(audioTracks = [], errorMessage) {
 }
 
 export function updateHostUI() {
+    updateRoomControlsUI();
+
     const isTransitioning = state.roomStage === 'uploading'
         || state.roomStage === 'processing'
         || state.roomStage === 'audio-selection';
@@ -241,11 +273,7 @@ export function showPlayer() {
     dom.waitingOverlay.classList.add('hidden');
     state.hasVideo = true;
 
-    if (!dom.video.src.includes(`/video/${state.roomId}`)) {
-        dom.video.src = `/video/${state.roomId}?t=${Date.now()}`;
-        dom.video.preload = 'auto';
-        dom.video.load();
-    }
+    loadVideoSource();
 
     dom.playerOverlay.classList.remove('hidden');
     updateNextEpisodeButton();
@@ -283,8 +311,14 @@ export function updateUploadProgress(progress) {
     dom.uploadProgressText.textContent = `${safeProgress}%`;
 }
 
-export function showProcessingProgress(message = 'Processando vídeo...') {
+function buildProcessingText(message, etaSeconds) {
+    if (!Number.isFinite(etaSeconds) || etaSeconds <= 0) return message;
+    return `${message} · ~${formatEta(etaSeconds)} restantes`;
+}
+
+export function showProcessingProgress(message = 'Processando vídeo...', percent = null, etaSeconds = null) {
     state.roomStage = 'processing';
+    const text = buildProcessingText(message, etaSeconds);
 
     if (!state.isHost) {
         dom.waitingOverlay.classList.remove('hidden');
@@ -293,7 +327,7 @@ export function showProcessingProgress(message = 'Processando vídeo...') {
         dom.audioTrackOverlay.classList.add('hidden');
         dom.playerOverlay.classList.add('hidden');
 
-        setWaitingOverlayText('Processando', message);
+        setWaitingOverlayText('Processando', text);
         return;
     }
 
@@ -302,9 +336,9 @@ export function showProcessingProgress(message = 'Processando vídeo...') {
     dom.audioTrackOverlay.classList.add('hidden');
     dom.uploadOverlayEl.classList.remove('hidden');
     dom.playerOverlay.classList.add('hidden');
-    updateUploadProgress(100);
+    updateUploadProgress(Number.isFinite(percent) ? percent : 100);
     if (dom.uploadStatus) {
-        dom.uploadStatus.textContent = message;
+        dom.uploadStatus.textContent = text;
     }
 }
 
@@ -357,6 +391,8 @@ export function renderUserList(users) {
     users.forEach(u => {
         const div = document.createElement('div');
         div.className = 'user-item';
+        div.classList.toggle('is-host', Boolean(u.isHost));
+        div.classList.toggle('is-cohost', Boolean(u.isCoHost));
 
         const avatarWrapper = document.createElement('div');
         avatarWrapper.className = 'user-avatar';
@@ -382,6 +418,13 @@ export function renderUserList(users) {
         userName.textContent = u.username;
         userInfo.appendChild(userName);
 
+        if (u.isHost || u.isCoHost) {
+            const userRole = document.createElement('span');
+            userRole.className = 'user-role';
+            userRole.textContent = u.isHost ? '👑 Host' : '⭐ Co-host';
+            userInfo.appendChild(userRole);
+        }
+
         let pingClass = 'ping-good';
         if (u.ping > 150) pingClass = 'ping-fair';
         if (u.ping > 300) pingClass = 'ping-poor';
@@ -398,6 +441,9 @@ export function renderUserList(users) {
         div.appendChild(avatarWrapper);
         div.appendChild(userInfo);
         div.appendChild(pingBadge);
+
+        const actions = buildModerationActions(u);
+        if (actions) div.appendChild(actions);
         dom.usersList.appendChild(div);
     });
 }
@@ -418,6 +464,33 @@ export function populateMovieModal(movie, episode) {
     }
 }
 
+/**
+ * Mostra duração, resolução, codecs e bitrate do arquivo no modal de detalhes.
+ * @param {object|null} mediaInfo Metadados do vídeo retornados pelo servidor.
+ */
+export function renderMediaDetails(mediaInfo) {
+    state.mediaInfo = mediaInfo || null;
+    if (!dom.modalFileDetails) return;
+
+    if (!state.mediaInfo) {
+        dom.modalFileDetails.textContent = '';
+        dom.modalFileDetails.classList.add('hidden');
+        return;
+    }
+
+    const { durationSeconds, width, height, videoCodec, audioCodec, bitrate, container } = state.mediaInfo;
+    const details = [
+        formatTime(durationSeconds),
+        width && height ? `${width}x${height}` : null,
+        [videoCodec, audioCodec].filter(Boolean).join(' / ').toUpperCase(),
+        bitrate ? `${(bitrate / 1_000_000).toFixed(1)} Mbps` : null,
+        container ? container.toUpperCase() : null,
+    ].filter(Boolean);
+
+    dom.modalFileDetails.textContent = details.join(' · ');
+    dom.modalFileDetails.classList.remove('hidden');
+}
+
 export function showRatingModal() {
     if (state.ratingProgress?.isClosed) {
         state.ratingProgress = null;
@@ -443,6 +516,8 @@ export function showRatingModal() {
     if (dom.starsFg) dom.starsFg.style.width = '0%';
     if (dom.ratingValueDisplay) dom.ratingValueDisplay.textContent = '0';
     if (dom.btnSubmitRating) dom.btnSubmitRating.disabled = true;
+    if (dom.ratingReviewInput) dom.ratingReviewInput.value = '';
+    if (dom.ratingSpoilerInput) dom.ratingSpoilerInput.checked = false;
     if (dom.ratingStatus) {
         dom.ratingStatus.textContent = '';
         dom.ratingStatus.classList.add('hidden');
@@ -505,13 +580,13 @@ export function showRatingProgress(ratingProgress) {
     }
 
     const averageLabel = ratingProgress.isClosed ? 'Média final' : 'Média atual';
-    const averageValue = Number.isFinite(ratingProgress.average) ? ratingProgress.average.toFixed(1) : '0.0';
+    const averageValue = formatRatingValue(Number.isFinite(ratingProgress.average) ? ratingProgress.average : 0, 1);
 
     dom.ratingsAverage.innerHTML = `
         <div class="ratings-average-label">${averageLabel}</div>
         <div class="ratings-average-value">
             <svg viewBox="0 0 24 24"><polygon points="12 2 15.09 8.26 22 9.27 17 14.14 18.18 21.02 12 17.77 5.82 21.02 7 14.14 2 9.27 8.91 8.26 12 2"/></svg>
-            ${averageValue}/10
+            ${averageValue}
         </div>
     `;
 
@@ -527,8 +602,11 @@ export function showRatingProgress(ratingProgress) {
 export function handleSessionEnded() {
     clearRatingCountdown();
     dom.video.pause();
+    destroyStream();
     dom.video.src = '';
     state.hasVideo = false;
+    state.hlsRenditions = [];
+    renderMediaDetails(null);
     state.roomStage = 'idle';
     state.audioTracks = [];
     state.ratingProgress = null;
@@ -576,9 +654,12 @@ export function updateNextEpisodeButton() {
 export function resetForNextEpisode(selectedEpisode, movieName) {
     clearRatingCountdown();
     dom.video.pause();
+    destroyStream();
     dom.video.removeAttribute('src');
     dom.video.load();
     state.hasVideo = false;
+    state.hlsRenditions = [];
+    renderMediaDetails(null);
     state.roomStage = 'idle';
     state.audioTracks = [];
     state.selectedAudioStreamIndex = null;
@@ -2,6 +2,7 @@ import { dom } from './dom.js';
 import { buildRoomHeaders, state, constants } from './state.js';
 import { formatBytes, formatEta } from './utils.js';
 import { showPlayer, showUploadProgress, showAudioTrackSelection, showProcessingProgress, updateUploadProgress, updateHostUI } from './ui.js';
+import { isSupportedSubtitleFile } from './subtitles.js';
 
 let _cancelRequested = false;
 let _currentUploadId = null;
@@ -562,7 +563,7 @@ export function bindUploadEvents() {
     dom.subtitleInput?.addEventListener('change', (e) => {
         const files = Array.from(e.target.files || []);
         for (const file of files) {
-            if (file.name.toLowerCase().endsWith('.srt')) {
+            if (isSupportedSubtitleFile(file.name)) {
                 state.pendingSubtitleFiles.push(file);
             }
         }
@@ -589,7 +590,7 @@ export function bindUploadEvents() {
             let videoFile = null;
 
             for (const file of files) {
-                if (file.name.toLowerCase().endsWith('.srt')) {
+                if (isSupportedSubtitleFile(file.name)) {
                     state.pendingSubtitleFiles.push(file);
                 } else if (file.type.startsWith('video/') || file.name.toLowerCase().endsWith('.mkv')) {
                     videoFile = file;
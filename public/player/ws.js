@@ -14,10 +14,15 @@ import {
     updatePlayPauseUI,
     showHostNotification,
     resetForNextEpisode,
-    populateMovieModal
+    populateMovieModal,
+    renderMediaDetails
 } from './ui.js';
-import { fetchAvailableSubtitles, updateSettingsPanel } from './subtitles.js';
+import { applyRoomSubtitleOffset, fetchAvailableSubtitles, updateSettingsPanel } from './subtitles.js';
 import { checkPendingResume, isUploadActive } from './upload.js';
+import { setHlsRenditions, switchToHls } from './stream.js';
+import { applyRoomControls, canControlPlayback, handleBufferingHold, handlePauseRequest, handleRewindVote, showControlNotice } from './controls.js';
+import { applyViewerRoles, isRemovalCloseCode, showRemovedFromRoom } from './moderation.js';
+import { clearChatReactions, handleChatError, handleChatHistory, handleChatMessage, handleChatReaction } from './chat.js';
 
 function log(...args) {
     if (location.hostname === 'localhost') {
@@ -79,7 +84,7 @@ function applySync(data) {
 }
 
 export function sendCommand(type, currentTime) {
-    if (state.ws?.readyState === WebSocket.OPEN && state.isHost) {
+    if (state.ws?.readyState === WebSocket.OPEN && canControlPlayback()) {
         state.commandSeq += 1;
         state.ws.send(JSON.stringify({ type, currentTime, timestamp: Date.now(), seq: state.commandSeq }));
     }
@@ -223,10 +228,12 @@ function handleMessage(data) {
                 if (!state.isHost && wasHost) stopHostHeartbeat();
             }
             if (state.hasVideo) applySync(data);
+            if (data.requesterName) showControlNotice(`⏸️ ${data.requesterName} pausou`);
             break;
         case 'viewers':
             dom.viewerCount.textContent = data.count || 0;
             if (data.viewers) {
+                if (applyViewerRoles(data.viewers)) updateHostUI();
                 renderUserList(data.viewers);
             }
             if (data.viewers && state.userToken && !state.currentDiscordId) {
@@ -260,11 +267,16 @@ function handleMessage(data) {
             break;
         case 'processing-progress':
             const msg = data.processingMessage || 'Processando vídeo...';
-            showProcessingProgress(msg);
+            showProcessingProgress(msg, data.processingPercent, data.processingEtaSeconds);
             break;
         case 'video-ready':
+            if (data.mediaInfo !== undefined) renderMediaDetails(data.mediaInfo);
             showPlayer();
             break;
+        case 'hls-ready':
+            setHlsRenditions(data.renditions);
+            switchToHls();
+            break;
         case 'session-ending':
             dom.video.pause();
             showRatingModal();
@@ -318,8 +330,11 @@ function handleMessage(data) {
             const wasHost = state.isHost;
             state.isHost = (state.userToken && data.newHostId === state.currentDiscordId);
             if (state.isHost && !wasHost) {
+                state.isCoHost = false;
                 startHostHeartbeat();
                 showHostNotification();
+            } else if (!state.isHost && data.newHostUsername) {
+                showControlNotice(`👑 ${data.newHostUsername} agora é o host`);
             }
             if (!state.isHost && wasHost) {
                 stopHostHeartbeat();
@@ -332,6 +347,9 @@ function handleMessage(data) {
         case 'subtitles-ready':
             fetchAvailableSubtitles().then(() => updateSettingsPanel());
             break;
+        case 'subtitle-offset':
+            applyRoomSubtitleOffset(data.filename, data.offsetSeconds || 0);
+            break;
         case 'episode-ending':
             dom.video.pause();
             state.isEpisodeTransition = true;
@@ -339,6 +357,7 @@ function handleMessage(data) {
             break;
         case 'next-episode':
             resetForNextEpisode(data.selectedEpisode, data.movieName);
+            clearChatReactions();
             if (data.episodeHistory) state.episodeHistory = data.episodeHistory;
             if (data.selectedEpisode) {
                 populateMovieModal(state.currentMovieInfo, data.selectedEpisode);
@@ -350,6 +369,33 @@ function handleMessage(data) {
                 showRatingProgress(data.ratingProgress);
             }
             break;
+        case 'room-controls':
+            applyRoomControls(data.controls);
+            break;
+        case 'pause-request':
+            handlePauseRequest(data);
+            break;
+        case 'rewind-vote':
+            handleRewindVote(data);
+            break;
+        case 'chat-history':
+            handleChatHistory(data);
+            break;
+        case 'chat-message':
+            handleChatMessage(data.chatMessage);
+            break;
+        case 'chat-reaction':
+            handleChatReaction(data.chatReaction);
+            break;
+        case 'chat-error':
+            handleChatError(data.errorMessage);
+            break;
+        case 'buffering-hold':
+            handleBufferingHold(data);
+            break;
+        case 'moderation-error':
+            showControlNotice(data.errorMessage || 'Não foi possível aplicar a ação.');
+            break;
     }
 }
 
@@ -369,10 +415,16 @@ export function connectWebSocket() {
         if (state.isHost) startHostHeartbeat();
     };
 
-    state.ws.onclose = () => {
-        updateSyncStatus('error', 'Reconectando...');
+    state.ws.onclose = (event) => {
         stopHeartbeat();
         stopHostHeartbeat();
+        if (isRemovalCloseCode(event.code)) {
+            updateSyncStatus('error', 'Removido da sala');
+            showRemovedFromRoom(event.code);
+            return;
+        }
+
+        updateSyncStatus('error', 'Reconectando...');
         const delay = Math.min(constants.BASE_RECONNECT_DELAY * Math.pow(2, state.reconnectAttempts), constants.MAX_RECONNECT_DELAY);
         state.reconnectAttempts += 1;
         setTimeout(connectWebSocket, delay);
@@ -26,12 +26,24 @@ export function optionalString(value: unknown): string | undefined {
   return normalized || undefined;
 }
 
+export function optionalStringWithMaxLength(value: unknown, fieldName: string, maxLength: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new ValidationHttpError(`${fieldName} deve ser texto`);
+  }
+  const normalized = value.trim();
+  if (normalized.length > maxLength) {
+    throw new ValidationHttpError(`${fieldName} deve ter no máximo ${maxLength} caracteres`);
+  }
+  return normalized || undefined;
+}
+
 export function requireNumberInRange(
   value: unknown,
   fieldName: string,
   min: number,
   max: number,
-  step = 1
+  step?: number
 ): number {
   if (typeof value !== "number" || Number.isNaN(value) || !Number.isFinite(value)) {
     throw new ValidationHttpError(`${fieldName} deve ser número`);
@@ -39,7 +51,7 @@ export function requireNumberInRange(
   if (value < min || value > max) {
     throw new ValidationHttpError(`${fieldName} deve estar entre ${min} e ${max}`);
   }
-  if (step !== 1) {
+  if (step !== undefined) {
     const quotient = value / step;
     if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
       throw new ValidationHttpError(`${fieldName} deve ser múltiplo de ${step}`);
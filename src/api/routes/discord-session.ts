@@ -21,7 +21,20 @@ import {
   InfraHttpError,
   NotFoundHttpError,
 } from "../http/http-error";
-import { optionalString, requireNonEmptyString, requireNumberInRange, requireObject } from "../http/validation";
+import {
+  optionalString,
+  optionalStringWithMaxLength,
+  requireNonEmptyString,
+  requireNumberInRange,
+  requireObject,
+} from "../http/validation";
+import {
+  CANONICAL_RATING_MAX,
+  MAX_REVIEW_LENGTH,
+  getCanonicalRatingStep,
+  normalizeRatingScale,
+  type RatingScale,
+} from "../../shared/rating-scale";
 
 interface DiscordSessionDeps {
   roomManager: typeof RoomManager.prototype;
@@ -51,6 +64,8 @@ interface SessionTokenPayload {
 interface SessionRatingPayload {
   token: string;
   rating: number;
+  review?: string;
+  spoiler: boolean;
 }
 
 interface HostTokenPayload {
@@ -66,6 +81,7 @@ function parseDiscordSessionInput(raw: unknown): DiscordSession & { hostUsername
     messageId: requireNonEmptyString(sessionObject.messageId, "discordSession.messageId"),
     guildId: requireNonEmptyString(sessionObject.guildId, "discordSession.guildId"),
     hostUsername: optionalString(sessionObject.hostUsername),
+    ratingScale: normalizeRatingScale(sessionObject.ratingScale as Partial<RatingScale> | undefined),
   };
 }
 
@@ -114,11 +130,18 @@ function parseSessionTokenPayload(raw: unknown): SessionTokenPayload {
   };
 }
 
-function parseSessionRatingPayload(raw: unknown): SessionRatingPayload {
+/**
+ * Valida a nota na escala canônica (0–10), aceitando apenas múltiplos do passo da escala do servidor.
+ * A resenha é opcional e limitada a MAX_REVIEW_LENGTH caracteres.
+ */
+function parseSessionRatingPayload(raw: unknown, scale: RatingScale): SessionRatingPayload {
   const payload = requireObject(raw);
+  const step = getCanonicalRatingStep(scale);
   return {
     token: requireNonEmptyString(payload.token, "token"),
-    rating: requireNumberInRange(payload.rating, "rating", 0.5, 10, 0.5),
+    rating: requireNumberInRange(payload.rating, "rating", step, CANONICAL_RATING_MAX, step),
+    review: optionalStringWithMaxLength(payload.review, "review", MAX_REVIEW_LENGTH),
+    spoiler: payload.spoiler === true,
   };
 }
 
@@ -151,6 +174,15 @@ function ensureHostToken(deps: DiscordSessionDeps, roomId: string, token: string
   }
 }
 
+/**
+ * O bot finaliza a sessão com o token de quem a criou, que pode já ter passado o host adiante.
+ */
+function ensureHostOrOwnerToken(deps: DiscordSessionDeps, roomId: string, token: string): void {
+  if (!deps.roomManager.isOwnerByToken(roomId, token)) {
+    ensureHostToken(deps, roomId, token);
+  }
+}
+
 function clearRatingTimeout(roomId: string): void {
   const timeout = ratingTimeouts.get(roomId);
   if (!timeout) return;
@@ -186,6 +218,8 @@ function finishRatingRound(
     allRated: true,
     completionReason,
     ratingProgress,
+    // Na troca de episódio a linha do tempo é zerada; o bot grava a do episódio que terminou
+    ...(ratingProgress.scope === "episode" ? { timeline: deps.roomManager.getTimeline(roomId) } : {}),
   });
 
   return ratingProgress;
@@ -194,7 +228,8 @@ function finishRatingRound(
 function scheduleRatingTimeout(
   deps: DiscordSessionDeps,
   roomId: string,
-  scope: RatingRoundScope
+  scope: RatingRoundScope,
+  delayMs: number = RATING_TIMEOUT_MS
 ): void {
   clearRatingTimeout(roomId);
 
@@ -211,7 +246,7 @@ function scheduleRatingTimeout(
       `Timeout de votação atingido: room=${roomId} scope=${scope} votos=${ratingProgress.ratings.length}/${ratingProgress.participants.length}`
     );
     finishRatingRound(deps, roomId, "timeout");
-  }, RATING_TIMEOUT_MS);
+  }, Math.max(0, delayMs));
 
   ratingTimeouts.set(roomId, timeout);
 }
@@ -239,6 +274,15 @@ function startRatingRound(
   return ratingProgress;
 }
 
+function resumeRatingTimeouts(deps: DiscordSessionDeps): void {
+  deps.roomManager.forEachRoom((room) => {
+    const ratingProgress = deps.roomManager.getRatingProgress(room.id);
+    if (!ratingProgress || ratingProgress.isClosed) return;
+
+    scheduleRatingTimeout(deps, room.id, ratingProgress.scope, ratingProgress.expiresAt - Date.now());
+  });
+}
+
 /**
  * Cria rotas HTTP para ciclo de vida de sessões ligadas ao Discord.
  * @param deps Dependências de estado de sala e funções auxiliares de sessão.
@@ -247,16 +291,23 @@ function startRatingRound(
  */
 export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
   const router = Router();
+  resumeRatingTimeouts(deps);
 
   router.post("/discord-session", createSessionRateLimit, async (req, res) => {
     try {
       requireTrustedService(req);
 
-      if (deps.roomManager.hasAnyRooms() || deps.roomManager.hasActiveDiscordSession()) {
-        throw new ConflictHttpError("Já existe uma sessão ativa");
+      const payload = parseCreateDiscordSessionPayload(req.body);
+      const { guildId, channelId } = payload.discordSession;
+
+      if (deps.roomManager.getChannelSessionRoom(channelId)) {
+        throw new ConflictHttpError("Já existe uma sessão ativa neste canal");
+      }
+
+      if (deps.roomManager.hasGuildReachedSessionLimit(guildId)) {
+        throw new ConflictHttpError("Limite de sessões simultâneas do servidor atingido");
       }
 
-      const payload = parseCreateDiscordSessionPayload(req.body);
       const result = deps.roomManager.createDiscordSession(
         payload.movieName,
         payload.movieInfo,
@@ -270,7 +321,7 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
 
       logger.info(
         "DiscordSession",
-        `Sessão criada: room=${result.roomId} host=${payload.discordSession.hostDiscordId}`
+        `Sessão criada: room=${result.roomId} guild=${guildId} channel=${channelId} host=${payload.discordSession.hostDiscordId}`
       );
 
       res.json({
@@ -291,6 +342,10 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
       ensureSessionRoom(deps, roomId);
 
       const payload = parseSessionTokenPayload(req.body);
+      if (deps.roomManager.isUserBanned(roomId, payload.discordId)) {
+        throw new ForbiddenHttpError("Usuário banido desta sessão");
+      }
+
       const token = deps.roomManager.generateUserToken(roomId, payload.discordId, payload.username);
       if (!token) {
         throw new InfraHttpError("Erro ao gerar token");
@@ -337,14 +392,14 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
   router.post("/session-rating/:roomId", async (req, res) => {
     try {
       const roomId = parseRoomIdParam(req.params.roomId);
-      ensureSessionRoom(deps, roomId);
+      const room = ensureSessionRoom(deps, roomId);
 
       const currentRatingProgress = deps.roomManager.getRatingProgress(roomId);
       if (!currentRatingProgress || currentRatingProgress.isClosed) {
         throw new ConflictHttpError("A votação não está ativa");
       }
 
-      const payload = parseSessionRatingPayload(req.body);
+      const payload = parseSessionRatingPayload(req.body, normalizeRatingScale(room.discordSession?.ratingScale));
       const user = deps.roomManager.validateToken(roomId, payload.token);
       if (!user) {
         throw new ForbiddenHttpError("Token inválido");
@@ -354,14 +409,21 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
         throw new ForbiddenHttpError("Você não faz parte desta votação");
       }
 
-      const didRegisterRating = deps.roomManager.addRating(roomId, user.discordId, user.username, payload.rating);
+      const didRegisterRating = deps.roomManager.addRating(
+        roomId,
+        user.discordId,
+        user.username,
+        payload.rating,
+        payload.review,
+        payload.spoiler
+      );
       if (!didRegisterRating) {
         throw new ConflictHttpError("Não foi possível registrar a nota");
       }
 
       logger.info(
         "DiscordSession",
-        `Nota recebida: room=${roomId} discordId=${user.discordId} rating=${payload.rating}`
+        `Nota recebida: room=${roomId} discordId=${user.discordId} rating=${payload.rating} review=${payload.review ? "sim" : "não"}`
       );
 
       const allRated = deps.roomManager.allUsersRated(roomId);
@@ -423,9 +485,10 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
       const room = ensureSessionRoom(deps, roomId);
 
       const payload = parseHostTokenPayload(req.body);
-      ensureHostToken(deps, roomId, payload.token);
+      ensureHostOrOwnerToken(deps, roomId, payload.token);
 
       const { ratings, average } = deps.roomManager.getRatings(roomId);
+      const timeline = deps.roomManager.getTimeline(roomId);
       logger.info("DiscordSession", `Finalizando sessão: room=${roomId} media=${average}`);
 
       clearRatingTimeout(roomId);
@@ -439,6 +502,7 @@ export function createDiscordSessionRouter(deps: DiscordSessionDeps): Router {
         ratings,
         average,
         discordSession: room.discordSession,
+        timeline,
       });
     } catch (error) {
       sendRouteError(res, error, "DiscordSession");
@@ -313,6 +313,10 @@ export function createOAuthRouter(deps: OAuthDeps): Router {
 
             await ensureUserIsGuildMember(room.discordSession.guildId, req.oauthSession.discordId);
 
+            if (deps.roomManager.isUserBanned(roomId, req.oauthSession.discordId)) {
+                return res.status(403).json({ error: "Você foi banido desta sessão pelo host" });
+            }
+
             const avatarUrl = buildDiscordAvatarUrl(
                 req.oauthSession.discordId,
                 req.oauthSession.avatarHash,
@@ -3,6 +3,7 @@ import { roomManager } from "../../core/room-manager";
 import { buildSessionStatusData } from "../services/session-status";
 import { sendRouteError } from "../http/route-error";
 import { requireRoomAccess } from "../http/room-access";
+import { normalizeRatingScale } from "../../shared/rating-scale";
 
 /**
  * Cria rotas HTTP para leitura de dados de salas autenticadas.
@@ -23,6 +24,8 @@ export function createRoomRouter(): Router {
                 selectedEpisode: room.selectedEpisode || null,
                 nextEpisode: roomManager.getNextEpisode(roomId),
                 episodeHistory: roomManager.getEpisodeHistory(roomId),
+                mediaInfo: room.state.mediaInfo,
+                ratingScale: normalizeRatingScale(room.discordSession?.ratingScale),
             });
         } catch (error) {
             sendRouteError(res, error, "APIServer");
@@ -42,6 +45,10 @@ export function createRoomRouter(): Router {
                 audioSelectionErrorMessage: room.state.audioSelectionErrorMessage || "",
                 isProcessing: room.state.isProcessing,
                 processingMessage: room.state.processingMessage,
+                processingPercent: room.state.processingPercent ?? null,
+                processingEtaSeconds: room.state.processingEtaSeconds ?? null,
+                isGeneratingHls: room.state.isGeneratingHls,
+                hlsRenditions: (room.state.hls?.renditions ?? []).map(({ playlist: _playlist, ...rendition }) => rendition),
             });
         } catch (error) {
             sendRouteError(res, error, "APIServer");
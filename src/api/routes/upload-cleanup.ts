@@ -37,7 +37,7 @@ async function cleanupUploads(uploadsDir: string): Promise<void> {
 
     for (const entry of entries) {
         if (!entry.isDirectory()) continue;
-        if (entry.name.endsWith("_subtitles")) continue;
+        if (entry.name.endsWith("_subtitles") || entry.name.endsWith("_hls")) continue;
 
         const uploadId = entry.name;
         const dirPath = join(uploadsDir, uploadId);
@@ -64,14 +64,17 @@ async function cleanupUploads(uploadsDir: string): Promise<void> {
 }
 
 /**
- * Remove todos os arquivos e subpastas da pasta de uploads.
+ * Remove todos os arquivos e subpastas da pasta de uploads, exceto os de salas restauradas.
  * Chamado na inicialização do servidor para garantir armazenamento limpo.
  * @param uploadsDir Diretório base de uploads.
+ * @param preservedRoomIds Salas restauradas do banco cujos arquivos devem ser mantidos.
  */
-export async function clearAllUploads(uploadsDir: string): Promise<void> {
+export async function clearAllUploads(uploadsDir: string, preservedRoomIds: string[] = []): Promise<void> {
     if (!existsSync(uploadsDir)) return;
 
-    const entries = readdirSync(uploadsDir, { withFileTypes: true });
+    const preservedPrefixes = preservedRoomIds.map(roomId => `${roomId}_`);
+    const entries = readdirSync(uploadsDir, { withFileTypes: true })
+        .filter(entry => !preservedPrefixes.some(prefix => entry.name.startsWith(prefix)));
     if (entries.length === 0) return;
 
     await Promise.all(
@@ -1,12 +1,13 @@
 import { existsSync } from "fs";
 import { rm } from "fs/promises";
 import { logger } from "../../shared/logger";
-import { MediaProcessor, AudioTrackConversionError } from "../services/media-processor";
+import { MediaProcessor, AudioTrackConversionError, VideoConversionError } from "../services/media-processor";
 import type { UploadDeps } from "./upload-types";
 import type { AudioTrackInfo } from "../../shared/types";
 
 const INITIAL_PROCESSING_MESSAGE = "Iniciando pós-processamento...";
 const AUDIO_CONVERSION_ERROR_MESSAGE = "Falha na conversão da faixa de áudio. Escolha outra faixa ou cancele o arquivo.";
+const VIDEO_CONVERSION_ERROR_MESSAGE = "Não foi possível converter o vídeo para um formato compatível com o navegador";
 
 export interface ProcessingResponse {
     ready: boolean;
@@ -45,18 +46,26 @@ export async function processRoomMedia(
     try {
         const processor = new MediaProcessor(deps.roomManager);
         const processedPath = await processor.processMedia(roomId, filePath, { selectedAudioStreamIndex });
+        const mediaInfo = await processor.probeMediaInfo(processedPath);
 
         deps.roomManager.setVideoPath(roomId, processedPath);
         deps.roomManager.updateState(roomId, {
+            mediaInfo,
             isProcessing: false,
             processingMessage: "",
+            processingPercent: null,
+            processingEtaSeconds: null,
             pendingVideoPath: "",
             isAwaitingAudioSelection: false,
             audioTracks: [],
             selectedAudioStreamIndex: null,
             audioSelectionErrorMessage: "",
         });
-        deps.roomManager.broadcastAll(roomId, { type: "video-ready" });
+        deps.roomManager.broadcastAll(roomId, { type: "video-ready", mediaInfo });
+
+        processor.generateHls(roomId, processedPath).catch((error) => {
+            logger.error("UploadMedia", `Falha ao gerar HLS da sala ${roomId}`, error);
+        });
     } catch (err) {
         logger.error("UploadMedia", `Falha ao processar mídia da sala ${roomId}`, err);
 
@@ -69,6 +78,8 @@ export async function processRoomMedia(
             deps.roomManager.updateState(roomId, {
                 isProcessing: false,
                 processingMessage: "",
+                processingPercent: null,
+                processingEtaSeconds: null,
                 pendingVideoPath: filePath,
                 isAwaitingAudioSelection: true,
                 audioTracks,
@@ -95,6 +106,8 @@ export async function processRoomMedia(
         deps.roomManager.updateState(roomId, {
             isProcessing: false,
             processingMessage: "Erro no processamento",
+            processingPercent: null,
+            processingEtaSeconds: null,
             pendingVideoPath: "",
             isAwaitingAudioSelection: false,
             audioTracks: [],
@@ -103,7 +116,9 @@ export async function processRoomMedia(
         });
         deps.roomManager.broadcastAll(roomId, {
             type: "processing-progress",
-            processingMessage: "Erro no processamento do vídeo",
+            processingMessage: err instanceof VideoConversionError
+                ? VIDEO_CONVERSION_ERROR_MESSAGE
+                : "Erro no processamento do vídeo",
         });
     }
 }
@@ -124,12 +139,16 @@ export async function startRoomProcessing(
         pendingVideoPath: filePath,
         isProcessing: true,
         processingMessage: INITIAL_PROCESSING_MESSAGE,
+        processingPercent: null,
+        processingEtaSeconds: null,
         audioSelectionErrorMessage: "",
     });
 
     deps.roomManager.broadcastAll(roomId, {
         type: "processing-progress",
         processingMessage: INITIAL_PROCESSING_MESSAGE,
+        processingPercent: null,
+        processingEtaSeconds: null,
     });
 
     processRoomMedia(roomId, filePath, deps, selectedAudioStreamIndex, availableAudioTracks).catch((error) => {
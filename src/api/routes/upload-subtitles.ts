@@ -1,17 +1,55 @@
 import { existsSync, mkdirSync } from "fs";
 import { promises as fs } from "fs";
 import { rm } from "fs/promises";
-import { basename, join } from "path";
+import { basename, extname, join } from "path";
 import type { Request, Response, Router } from "../http/context";
 import { requireRoomAccess } from "../http/room-access";
 import { logger } from "../../shared/logger";
 import { isPathInsideDirectory } from "../../shared/path-containment";
 import type { UploadDeps } from "./upload-types";
+import type { SubtitleFormat } from "../../shared/types";
+import { SUBTITLE_DEFAULT_LANGUAGE } from "../../config";
+import { SubtitleProviderError } from "../services/subtitle-provider";
 import { getAuthFromRequest, ensureUploadAuthorized } from "./upload-auth";
 import { decodeSubtitleBuffer, getSubtitlesDir, sanitizeUploadFilename } from "./upload-paths";
 
 const MAX_SUBTITLE_SIZE_BYTES = 2 * 1024 * 1024;
 
+// SSA é a versão antiga do ASS e usa o mesmo parser no player.
+const SUBTITLE_FORMATS_BY_EXTENSION: Record<string, SubtitleFormat> = {
+    ".srt": "srt",
+    ".vtt": "vtt",
+    ".ass": "ass",
+    ".ssa": "ass",
+};
+
+const SUBTITLE_LANGUAGE_PATTERN = /^[a-z]{2,3}(?:-[a-z]{2})?$/i;
+
+async function saveRoomSubtitle(
+    deps: UploadDeps,
+    roomId: string,
+    originalFilename: string,
+    format: SubtitleFormat,
+    buffer: Buffer
+): Promise<{ filename: string; displayName: string }> {
+    const subtitlesDir = getSubtitlesDir(deps.uploadsDir, roomId);
+    if (!existsSync(subtitlesDir)) {
+        mkdirSync(subtitlesDir, { recursive: true });
+    }
+
+    const safeFilename = sanitizeUploadFilename(originalFilename);
+    const displayName = originalFilename.slice(0, -extname(originalFilename).length || undefined);
+    await fs.writeFile(join(subtitlesDir, safeFilename), buffer);
+    deps.roomManager.addSubtitle(roomId, safeFilename, displayName, format);
+
+    deps.roomManager.broadcastAll(roomId, {
+        type: "subtitle-added",
+        filename: safeFilename,
+    });
+
+    return { filename: safeFilename, displayName };
+}
+
 export async function removeRoomSubtitles(deps: UploadDeps, roomId: string): Promise<void> {
     const subtitlesDir = getSubtitlesDir(deps.uploadsDir, roomId);
     if (existsSync(subtitlesDir)) {
@@ -41,9 +79,13 @@ export function registerSubtitleRoutes(router: Router, deps: UploadDeps): void {
         const authError = ensureUploadAuthorized(roomId, auth.token, deps);
         if (authError) { res.status(authError.status).json({ error: authError.error }); return; }
 
-        const subtitlesDir = getSubtitlesDir(deps.uploadsDir, roomId);
-        if (!existsSync(subtitlesDir)) {
-            mkdirSync(subtitlesDir, { recursive: true });
+        const rawFilename = (req.headers["x-filename"] as string) || "subtitle.srt";
+        const originalFilename = basename(rawFilename);
+        const extension = extname(originalFilename).toLowerCase();
+        const format = SUBTITLE_FORMATS_BY_EXTENSION[extension];
+        if (!format) {
+            res.status(400).json({ error: "Formato de legenda não suportado (use .srt, .vtt, .ass ou .ssa)" });
+            return;
         }
 
         const chunks: Buffer[] = [];
@@ -58,21 +100,94 @@ export function registerSubtitleRoutes(router: Router, deps: UploadDeps): void {
         }
         const buffer = Buffer.concat(chunks);
 
-        const rawFilename = (req.headers["x-filename"] as string) || "subtitle.srt";
-        const originalFilename = basename(rawFilename);
-        const safeFilename = sanitizeUploadFilename(originalFilename);
-        const displayName = originalFilename.replace(/\.srt$/i, "");
-        const filePath = join(subtitlesDir, safeFilename);
+        const saved = await saveRoomSubtitle(deps, roomId, originalFilename, format, buffer);
+        res.json({ success: true, ...saved });
+    });
 
-        await fs.writeFile(filePath, buffer);
-        deps.roomManager.addSubtitle(roomId, safeFilename, displayName);
+    router.get("/subtitle-search/:roomId", async (req, res) => {
+        const roomId = req.params.roomId as string;
+        const room = deps.roomManager.getRoom(roomId);
+        if (!room) {
+            res.status(404).json({ error: "Sala não encontrada" });
+            return;
+        }
+
+        const auth = getAuthFromRequest(req);
+        const authError = ensureUploadAuthorized(roomId, auth.token, deps);
+        if (authError) { res.status(authError.status).json({ error: authError.error }); return; }
+
+        if (!deps.subtitleProvider) {
+            res.status(503).json({ error: "Busca de legendas não configurada" });
+            return;
+        }
 
-        deps.roomManager.broadcastAll(roomId, {
-            type: "subtitle-added",
-            filename: safeFilename,
-        });
+        if (!room.movieInfo) {
+            res.status(400).json({ error: "Sala sem filme do TMDB para buscar legendas" });
+            return;
+        }
 
-        res.json({ success: true, filename: safeFilename, displayName });
+        const language = typeof req.query.language === "string" ? req.query.language : SUBTITLE_DEFAULT_LANGUAGE;
+        if (!SUBTITLE_LANGUAGE_PATTERN.test(language)) {
+            res.status(400).json({ error: "Idioma inválido" });
+            return;
+        }
+
+        try {
+            const results = await deps.subtitleProvider.search({
+                tmdbId: room.movieInfo.id,
+                mediaType: room.movieInfo.mediaType,
+                seasonNumber: room.selectedEpisode?.seasonNumber,
+                episodeNumber: room.selectedEpisode?.episodeNumber,
+                language,
+            });
+            res.json({ provider: deps.subtitleProvider.name, language, results });
+        } catch (error) {
+            logger.error("UploadRoute", `Falha ao buscar legendas para a sala ${roomId}`, error);
+            res.status(502).json({ error: "Falha ao buscar legendas no provedor" });
+        }
+    });
+
+    router.post("/subtitle-search/:roomId/download", async (req, res) => {
+        const roomId = req.params.roomId as string;
+        const room = deps.roomManager.getRoom(roomId);
+        if (!room) {
+            res.status(404).json({ error: "Sala não encontrada" });
+            return;
+        }
+
+        const auth = getAuthFromRequest(req, req.body);
+        const authError = ensureUploadAuthorized(roomId, auth.token, deps);
+        if (authError) { res.status(authError.status).json({ error: authError.error }); return; }
+
+        if (!deps.subtitleProvider) {
+            res.status(503).json({ error: "Busca de legendas não configurada" });
+            return;
+        }
+
+        const resultId = req.body?.resultId;
+        if (typeof resultId !== "string" || !resultId.trim()) {
+            res.status(400).json({ error: "resultId é obrigatório" });
+            return;
+        }
+
+        try {
+            const download = await deps.subtitleProvider.download(resultId.trim());
+            // Alguns provedores devolvem nomes sem extensão; o player depende dela para escolher o parser.
+            const hasKnownExtension = SUBTITLE_FORMATS_BY_EXTENSION[extname(download.filename).toLowerCase()] === download.format;
+            const filename = hasKnownExtension ? basename(download.filename) : `${basename(download.filename)}.${download.format}`;
+
+            const saved = await saveRoomSubtitle(deps, roomId, filename, download.format, download.content);
+            logger.info("UploadRoute", `Legenda ${saved.filename} baixada via ${deps.subtitleProvider.name} (sala ${roomId})`);
+            res.json({ success: true, ...saved });
+        } catch (error) {
+            if (error instanceof SubtitleProviderError) {
+                logger.warn("UploadRoute", `Provedor recusou download de legenda: ${error.message}`, error.details);
+                res.status(502).json({ error: error.message });
+                return;
+            }
+            logger.error("UploadRoute", `Falha ao baixar legenda para a sala ${roomId}`, error);
+            res.status(500).json({ error: "Erro ao baixar legenda" });
+        }
     });
 
     router.get("/subtitles/:roomId", (req, res) => {
@@ -112,6 +227,13 @@ export function registerSubtitleRoutes(router: Router, deps: UploadDeps): void {
             return;
         }
 
+        // Legendas em imagem (PGS) são binárias e vão cruas para o decodificador do player.
+        if (filename.toLowerCase().endsWith(".sup")) {
+            res.setHeader("Content-Type", "application/octet-stream");
+            res.sendFile(filePath);
+            return;
+        }
+
         try {
             res.setHeader("Content-Type", "text/plain; charset=utf-8");
             const buffer = await fs.readFile(filePath);
@@ -1,8 +1,10 @@
 import type { RoomManager } from "../../core/room-manager";
+import type { SubtitleProvider } from "../services/subtitle-provider";
 
 export interface UploadDeps {
   roomManager: typeof RoomManager.prototype;
   uploadsDir: string;
+  subtitleProvider?: SubtitleProvider | null;
 }
 
 export interface UploadMeta {
@@ -1,8 +1,11 @@
-import { Router } from "../http/context";
+import { Router, type Response as RouteResponse } from "../http/context";
 import { existsSync, statSync } from "fs";
+import { join } from "path";
 import { roomManager } from "../../core/room-manager";
 import { requireRoomAccess } from "../http/room-access";
 import { sendRouteError } from "../http/route-error";
+import { isPathInsideDirectory } from "../../shared/path-containment";
+import type { Room } from "../../shared/types";
 
 const VIDEO_CHUNK_SIZE = 4 * 1024 * 1024;
 
@@ -21,20 +24,69 @@ const MIME_TYPES: Record<string, string> = {
     jpeg: "image/jpeg",
     png: "image/png",
     svg: "image/svg+xml",
+    m3u8: "application/vnd.apple.mpegurl",
+    ts: "video/mp2t",
 };
 
+const HLS_FILE_PATTERN = /^[\w-]+\.(m3u8|ts)$/;
+
 function getMimeType(path: string): string {
     const ext = path.split(".").pop()?.toLowerCase();
     return MIME_TYPES[ext || ""] || "application/octet-stream";
 }
 
+function sendHlsFile(res: RouteResponse, room: Room, rendition: string | null, file: string): void {
+    const hls = room.state.hls;
+    if (!hls || !HLS_FILE_PATTERN.test(file)) {
+        res.status(404).send("Stream não encontrado");
+        return;
+    }
+
+    if (rendition !== null && !hls.renditions.some(item => item.name === rendition)) {
+        res.status(404).send("Stream não encontrado");
+        return;
+    }
+
+    const filePath = rendition === null ? join(hls.dir, file) : join(hls.dir, rendition, file);
+    if (!isPathInsideDirectory(hls.dir, filePath) || !existsSync(filePath)) {
+        res.status(404).send("Stream não encontrado");
+        return;
+    }
+
+    res.respond(new Response(Bun.file(filePath), {
+        status: 200,
+        headers: {
+            "Content-Type": getMimeType(filePath),
+            "Cache-Control": file.endsWith(".ts") ? "private, max-age=3600" : "no-cache",
+        },
+    }));
+}
+
 /**
  * Cria rota de streaming de vídeo com suporte a range requests.
- * @returns Router com endpoint GET /video/:roomId.
+ * @returns Router com endpoint GET /video/:roomId e playlists/segmentos HLS em /video/:roomId/hls.
  */
 export function createVideoRouter(): Router {
     const router = Router();
 
+    router.get("/:roomId/hls/:file", async (req, res) => {
+        try {
+            const { room } = requireRoomAccess(roomManager, req.params.roomId, req);
+            sendHlsFile(res, room, null, req.params.file);
+        } catch (error) {
+            sendRouteError(res, error, "VideoRoute");
+        }
+    });
+
+    router.get("/:roomId/hls/:rendition/:file", async (req, res) => {
+        try {
+            const { room } = requireRoomAccess(roomManager, req.params.roomId, req);
+            sendHlsFile(res, room, req.params.rendition, req.params.file);
+        } catch (error) {
+            sendRouteError(res, error, "VideoRoute");
+        }
+    });
+
     router.get("/:roomId", async (req, res) => {
         try {
             const { roomId } = req.params;
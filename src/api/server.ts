@@ -14,6 +14,8 @@ import { clearAllUploads } from "./routes/upload-cleanup";
 import { createRoomRouter, getSessionStatusData } from "./routes/room";
 import { createVideoRouter } from "./routes/video";
 import { createStaticRouter } from "./routes/static";
+import { createSubtitleProvider } from "./services/subtitle-provider";
+import { MediaProcessor } from "./services/media-processor";
 import {
     closeAllWebSockets,
     handleWebSocketUpgrade,
@@ -21,6 +23,7 @@ import {
     websocketHandlers,
 } from "./websocket-server";
 import { roomManager } from "../core/room-manager";
+import db from "../database";
 import { logger } from "../shared/logger";
 import {
     PORT,
@@ -31,6 +34,7 @@ import {
     TMDB_API_KEY,
     TMDB_BASE_URL,
     SESSION_SECRET,
+    HLS_ENABLED,
 } from "../config";
 
 const STATIC_MIME_TYPES: Record<string, string> = {
@@ -65,15 +69,42 @@ if (!existsSync(UPLOADS_DIR)) {
     mkdirSync(UPLOADS_DIR, { recursive: true });
 }
 
-await clearAllUploads(UPLOADS_DIR);
+await db.initDb();
+const restoredRoomIds = await roomManager.restoreRooms();
+await clearAllUploads(UPLOADS_DIR, restoredRoomIds);
 startUploadCleanup(UPLOADS_DIR);
+requeueRestoredHls();
+
+/**
+ * Salas restauradas com vídeo e sem HLS (geração interrompida pela reinicialização) voltam para a fila.
+ * Uma sala por vez, para não disputar CPU com o ffmpeg das outras.
+ */
+function requeueRestoredHls(): void {
+    if (!HLS_ENABLED) return;
+
+    const pending: Array<{ roomId: string; videoPath: string }> = [];
+    roomManager.forEachRoom(room => {
+        if (room.state.videoPath && !room.state.hls) pending.push({ roomId: room.id, videoPath: room.state.videoPath });
+    });
+    if (pending.length === 0) return;
+
+    const processor = new MediaProcessor(roomManager);
+    (async () => {
+        for (const { roomId, videoPath } of pending) {
+            logger.info("Server", `Retomando geração de HLS da sala restaurada ${roomId}`);
+            await processor.generateHls(roomId, videoPath).catch((error) => {
+                logger.error("Server", `Falha ao gerar HLS da sala restaurada ${roomId}`, error);
+            });
+        }
+    })();
+}
 
 const tmdbDeps = { apiKey: TMDB_API_KEY || "", baseUrl: TMDB_BASE_URL };
 const discordSessionDeps = { roomManager, getSessionStatusData, uploadsDir: UPLOADS_DIR };
 const oauthDeps = { roomManager };
 
 const mountedRouters: MountedRouter[] = [
-    { prefix: "/api/upload", router: createUploadRouter({ roomManager, uploadsDir: UPLOADS_DIR }) },
+    { prefix: "/api/upload", router: createUploadRouter({ roomManager, uploadsDir: UPLOADS_DIR, subtitleProvider: createSubtitleProvider() }) },
     { prefix: "/api", router: createTmdbRouter(tmdbDeps) },
     { prefix: "/api", router: createDiscordSessionRouter(discordSessionDeps) },
     { prefix: "/api", router: createOAuthRouter(oauthDeps) },
@@ -160,6 +191,7 @@ async function servePublicAsset(request: Request): Promise<Response | null> {
 
 async function shutdown() {
     logger.info("Server", "Encerrando servidor...");
+    roomManager.persistAllRooms();
     closeAllWebSockets();
     server.stop(true);
     logger.success("Server", "Servidor Bun encerrado");
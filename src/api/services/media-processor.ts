@@ -1,11 +1,12 @@
-import ffmpeg from "fluent-ffmpeg";
+import type ffmpeg from "fluent-ffmpeg";
 import { existsSync } from "fs";
-import { mkdir, rename, unlink } from "fs/promises";
+import { mkdir, readFile, rename, rm, stat, unlink, writeFile } from "fs/promises";
 import { spawn } from "child_process";
 import { join, basename, extname, dirname } from "path";
 import { logger } from "../../shared/logger";
+import { HLS_ENABLED, VIDEO_TRANSCODE_ENABLED, VIDEO_TRANSCODE_PRESET } from "../../config";
 import type { RoomManager } from "../../core/room-manager";
-import type { AudioTrackInfo } from "../../shared/types";
+import type { AudioTrackInfo, HlsRendition, MediaInfo, SubtitleFormat } from "../../shared/types";
 
 interface ProcessMediaOptions {
     selectedAudioStreamIndex?: number;
@@ -16,10 +17,47 @@ interface ProcessResult {
     stderr: string;
 }
 
+interface ProcessProgress {
+    percent: number;
+    etaSeconds: number | null;
+}
+
+interface ProcessProgressOptions {
+    durationSeconds: number;
+    onProgress: (progress: ProcessProgress) => void;
+}
+
+interface HlsRenditionProfile {
+    name: string;
+    height: number;
+    videoBitrate: string;
+    maxRate: string;
+    bufferSize: string;
+}
+
 const FFPROBE_TIMEOUT_MS = 30 * 1000;
 const FFMPEG_SUBTITLE_TIMEOUT_MS = 10 * 60 * 1000;
 const FFMPEG_AUDIO_TIMEOUT_MS = 45 * 60 * 1000;
+const FFMPEG_VIDEO_TIMEOUT_MS = 4 * 60 * 60 * 1000;
+const FFMPEG_HLS_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+const HLS_SEGMENT_SECONDS = 6;
+const HLS_MASTER_PLAYLIST = 'master.m3u8';
+const HLS_RENDITION_PLAYLIST = 'index.m3u8';
 const MAX_PROCESS_OUTPUT_BYTES = 1024 * 1024;
+const PROGRESS_NOTIFY_INTERVAL_MS = 1000;
+
+const SUBTITLE_EXTENSIONS: Record<SubtitleFormat, string> = {
+    srt: 'srt',
+    vtt: 'vtt',
+    ass: 'ass',
+    pgs: 'sup',
+};
+
+const SUBTITLE_ENCODERS: Record<Exclude<SubtitleFormat, 'pgs'>, string> = {
+    srt: 'srt',
+    vtt: 'webvtt',
+    ass: 'ass',
+};
 
 export class AudioTrackConversionError extends Error {
     constructor(message: string, public readonly details: string) {
@@ -28,18 +66,48 @@ export class AudioTrackConversionError extends Error {
     }
 }
 
+class ProcessTimeoutError extends Error {
+    constructor(command: string, timeoutMs: number) {
+        super(`${command} excedeu ${Math.round(timeoutMs / 1000)} segundos`);
+        this.name = 'ProcessTimeoutError';
+    }
+}
+
+export class VideoConversionError extends Error {
+    constructor(message: string, public readonly details: string) {
+        super(message);
+        this.name = 'VideoConversionError';
+    }
+}
+
 export class MediaProcessor {
     private static BITMAP_CODECS = new Set([
         'hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub'
     ]);
+    // Bitmap que o player decodifica e desenha como imagem; os demais bitmaps seguem sem suporte.
+    private static IMAGE_SUBTITLE_CODECS = new Set(['hdmv_pgs_subtitle']);
+    // Legendas de texto com estilo/posicionamento que vale preservar em vez de achatar para SRT.
+    private static STYLED_SUBTITLE_FORMATS: Record<string, SubtitleFormat> = {
+        ass: 'ass',
+        ssa: 'ass',
+        webvtt: 'vtt',
+    };
     private static COMPATIBLE_AUDIO_CODECS = new Set(['aac', 'mp3']);
+    private static COMPATIBLE_VIDEO_CODECS = new Set(['h264']);
+    private static COMPATIBLE_PIXEL_FORMATS = new Set(['yuv420p', 'yuvj420p']);
+    private static HLS_RENDITIONS: HlsRenditionProfile[] = [
+        { name: '1080p', height: 1080, videoBitrate: '5000k', maxRate: '5350k', bufferSize: '7500k' },
+        { name: '720p', height: 720, videoBitrate: '2800k', maxRate: '2996k', bufferSize: '4200k' },
+        { name: '480p', height: 480, videoBitrate: '1400k', maxRate: '1498k', bufferSize: '2100k' },
+        { name: '360p', height: 360, videoBitrate: '800k', maxRate: '856k', bufferSize: '1200k' },
+    ];
     private static FFPROBE_CACHE_TTL_MS = 5 * 60 * 1000;
     private static ffprobeCache = new Map<string, { data: ffmpeg.FfprobeData; expiresAt: number }>();
 
     constructor(private roomManager: typeof RoomManager.prototype) { }
 
     async processMedia(roomId: string, filePath: string, options: ProcessMediaOptions = {}): Promise<string> {
-        const processedPath = await this.convertAudioIfNeeded(roomId, filePath, options.selectedAudioStreamIndex, true);
+        const processedPath = await this.convertMediaIfNeeded(roomId, filePath, options.selectedAudioStreamIndex, true);
 
         this.extractSubtitlesInBackground(roomId, filePath, processedPath).catch((error) => {
             logger.error("MediaProcessor", "Erro na extração assíncrona de legendas", error);
@@ -48,6 +116,116 @@ export class MediaProcessor {
         return processedPath;
     }
 
+    /**
+     * Gera as variantes HLS do vídeo processado e anexa o resultado à sala quando concluído.
+     * Roda em segundo plano: a sala continua assistindo o arquivo progressivo enquanto isso.
+     * @param roomId Identificador da sala.
+     * @param videoPath Caminho do vídeo já processado.
+     */
+    async generateHls(roomId: string, videoPath: string): Promise<void> {
+        if (!HLS_ENABLED) return;
+
+        const metadata = await this.ffprobe(videoPath);
+        const videoStream = metadata.streams.find((stream) => stream.codec_type === 'video');
+        const sourceWidth = videoStream?.width || 0;
+        const sourceHeight = videoStream?.height || 0;
+        const duration = Number(metadata.format.duration) || 0;
+
+        if (!sourceWidth || !sourceHeight || duration <= 0) {
+            logger.warn("MediaProcessor", `Vídeo sem dimensões ou duração conhecidas, HLS ignorado: ${basename(videoPath)}`);
+            return;
+        }
+
+        const hasAudio = metadata.streams.some((stream) => stream.codec_type === 'audio');
+        const profiles = this.selectHlsProfiles(sourceHeight);
+        const hlsDir = join(dirname(videoPath), `${roomId}_${Date.now()}_hls`);
+
+        for (const profile of profiles) {
+            await mkdir(join(hlsDir, profile.name), { recursive: true });
+        }
+
+        this.roomManager.updateState(roomId, { isGeneratingHls: true });
+        logger.info("MediaProcessor", `Gerando HLS (${profiles.map(profile => profile.name).join(', ')}) para sala ${roomId}`);
+
+        try {
+            await this.runProcess('ffmpeg', this.buildHlsArgs(videoPath, hlsDir, profiles, hasAudio), FFMPEG_HLS_TIMEOUT_MS);
+
+            const renditions: HlsRendition[] = [];
+            for (const profile of profiles) {
+                const width = Math.round((sourceWidth * profile.height) / sourceHeight / 2) * 2;
+                const bandwidth = await this.measureHlsBandwidth(join(hlsDir, profile.name));
+                renditions.push({
+                    name: profile.name,
+                    width,
+                    height: profile.height,
+                    bandwidth: bandwidth.peak,
+                    averageBandwidth: bandwidth.average,
+                    playlist: `${profile.name}/${HLS_RENDITION_PLAYLIST}`,
+                });
+            }
+
+            await writeFile(join(hlsDir, HLS_MASTER_PLAYLIST), buildMasterPlaylist(renditions));
+
+            const room = this.roomManager.getRoom(roomId);
+            if (!room || room.state.videoPath !== videoPath) {
+                logger.info("MediaProcessor", `Vídeo da sala ${roomId} mudou durante a geração do HLS, descartando saída`);
+                await rm(hlsDir, { recursive: true, force: true });
+                return;
+            }
+
+            this.roomManager.updateState(roomId, {
+                hls: { dir: hlsDir, renditions },
+                isGeneratingHls: false,
+            });
+            this.roomManager.broadcastAll(roomId, {
+                type: "hls-ready",
+                renditions: renditions.map(({ playlist: _playlist, ...rendition }) => rendition),
+            });
+            logger.info("MediaProcessor", `HLS pronto para sala ${roomId}`);
+        } catch (error) {
+            await rm(hlsDir, { recursive: true, force: true }).catch(() => null);
+
+            const room = this.roomManager.getRoom(roomId);
+            if (room?.state.videoPath === videoPath) {
+                this.roomManager.updateState(roomId, { isGeneratingHls: false });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Lê duração, bitrate, resolução e codecs do arquivo final para guardar no estado da sala.
+     * @returns Metadados do vídeo, ou null quando o ffprobe falha ou não há stream de vídeo.
+     */
+    async probeMediaInfo(filePath: string): Promise<MediaInfo | null> {
+        try {
+            const metadata = await this.ffprobe(filePath);
+            const videoStream = metadata.streams.find(
+                (stream) => stream.codec_type === 'video' && stream.disposition?.attached_pic !== 1
+            );
+            if (!videoStream) return null;
+
+            const audioStream = metadata.streams.find((stream) => stream.codec_type === 'audio');
+            const durationSeconds = Number(metadata.format.duration) || 0;
+            const declaredBitrate = Number(metadata.format.bit_rate) || 0;
+            const fileSize = Number(metadata.format.size) || 0;
+            const bitrate = declaredBitrate || (durationSeconds > 0 ? Math.round((fileSize * 8) / durationSeconds) : 0);
+
+            return {
+                durationSeconds,
+                bitrate,
+                width: videoStream.width || 0,
+                height: videoStream.height || 0,
+                videoCodec: (videoStream.codec_name || 'unknown').toLowerCase(),
+                audioCodec: audioStream?.codec_name?.toLowerCase() || null,
+                container: extname(filePath).slice(1).toLowerCase(),
+            };
+        } catch (error) {
+            logger.error("MediaProcessor", `Erro ao ler metadados de ${basename(filePath)}`, error);
+            return null;
+        }
+    }
+
     async listAudioTracks(filePath: string): Promise<AudioTrackInfo[]> {
         try {
             const metadata = await this.ffprobe(filePath);
@@ -72,6 +250,108 @@ export class MediaProcessor {
         }
     }
 
+    private selectHlsProfiles(sourceHeight: number): HlsRenditionProfile[] {
+        const profiles = MediaProcessor.HLS_RENDITIONS.filter((profile) => profile.height <= sourceHeight);
+        if (profiles.length > 0) return profiles;
+
+        // Fontes menores que a menor variante viram uma única rendição na altura original.
+        const smallest = MediaProcessor.HLS_RENDITIONS[MediaProcessor.HLS_RENDITIONS.length - 1];
+        const height = Math.max(2, Math.floor(sourceHeight / 2) * 2);
+        return [{ ...smallest, name: `${height}p`, height }];
+    }
+
+    private buildHlsArgs(videoPath: string, hlsDir: string, profiles: HlsRenditionProfile[], hasAudio: boolean): string[] {
+        const splitOutputs = profiles.map((_, index) => `[v${index}]`).join('');
+        const filters = [
+            `[0:v:0]split=${profiles.length}${splitOutputs}`,
+            ...profiles.map((profile, index) => `[v${index}]scale=-2:${profile.height}[v${index}out]`),
+        ];
+
+        const args = [
+            '-nostdin',
+            '-i', videoPath,
+            '-y',
+            '-hide_banner',
+            '-loglevel', 'error',
+            '-filter_complex', filters.join(';'),
+        ];
+
+        profiles.forEach((profile, index) => {
+            args.push(
+                '-map', `[v${index}out]`,
+                `-c:v:${index}`, 'libx264',
+                `-b:v:${index}`, profile.videoBitrate,
+                `-maxrate:v:${index}`, profile.maxRate,
+                `-bufsize:v:${index}`, profile.bufferSize,
+            );
+            if (hasAudio) {
+                args.push('-map', '0:a:0');
+            }
+        });
+
+        args.push(
+            '-preset', 'veryfast',
+            '-pix_fmt', 'yuv420p',
+            '-sc_threshold', '0',
+            // Keyframes alinhados entre variantes para o player trocar de qualidade sem engasgar.
+            '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+        );
+
+        if (hasAudio) {
+            args.push('-c:a', 'aac', '-b:a', '128k', '-ac', '2');
+        }
+
+        const streamMap = profiles
+            .map((profile, index) => hasAudio ? `v:${index},a:${index},name:${profile.name}` : `v:${index},name:${profile.name}`)
+            .join(' ');
+
+        args.push(
+            '-f', 'hls',
+            '-hls_time', String(HLS_SEGMENT_SECONDS),
+            '-hls_playlist_type', 'vod',
+            '-hls_segment_filename', join(hlsDir, '%v', 'segment_%05d.ts'),
+            '-var_stream_map', streamMap,
+            join(hlsDir, '%v', HLS_RENDITION_PLAYLIST),
+        );
+
+        return args;
+    }
+
+    /**
+     * Mede o bitrate real de uma variante a partir dos segmentos gerados.
+     * @returns Pico (maior segmento) e média em bits por segundo.
+     */
+    private async measureHlsBandwidth(renditionDir: string): Promise<{ peak: number; average: number }> {
+        const playlist = await readFile(join(renditionDir, HLS_RENDITION_PLAYLIST), 'utf-8');
+        const lines = playlist.split(/\r?\n/);
+
+        let peak = 0;
+        let totalBits = 0;
+        let totalDuration = 0;
+        let segmentDuration = 0;
+
+        for (const line of lines) {
+            if (line.startsWith('#EXTINF:')) {
+                segmentDuration = Number.parseFloat(line.slice('#EXTINF:'.length)) || 0;
+                continue;
+            }
+
+            if (!line || line.startsWith('#') || segmentDuration <= 0) continue;
+
+            const { size } = await stat(join(renditionDir, line.trim()));
+            const bits = size * 8;
+            peak = Math.max(peak, bits / segmentDuration);
+            totalBits += bits;
+            totalDuration += segmentDuration;
+            segmentDuration = 0;
+        }
+
+        return {
+            peak: Math.round(peak),
+            average: totalDuration > 0 ? Math.round(totalBits / totalDuration) : 0,
+        };
+    }
+
     private sanitizeFilename(name: string): string {
         // Remove acentos e diacríticos.
         const normalized = name.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
@@ -113,8 +393,9 @@ export class MediaProcessor {
             const metadata = await this.ffprobe(filePath);
             const subtitleStreams = metadata.streams.filter(s => s.codec_type === 'subtitle');
 
-            const textStreams = subtitleStreams.filter(s => {
+            const extractableStreams = subtitleStreams.filter(s => {
                 const codec = s.codec_name?.toLowerCase() || '';
+                if (MediaProcessor.IMAGE_SUBTITLE_CODECS.has(codec)) return true;
                 if (MediaProcessor.BITMAP_CODECS.has(codec)) {
                     logger.info("MediaProcessor", `Legenda bitmap ignorada (${codec}, stream ${s.index})`);
                     return false;
@@ -122,7 +403,7 @@ export class MediaProcessor {
                 return true;
             });
 
-            if (textStreams.length === 0) {
+            if (extractableStreams.length === 0) {
                 const hadBitmap = subtitleStreams.length > 0;
                 const message = hadBitmap
                     ? `Legendas encontradas são bitmap (imagem) e não podem ser extraídas como texto`
@@ -137,20 +418,26 @@ export class MediaProcessor {
                 await mkdir(subtitlesDir, { recursive: true });
             }
 
-            const subtitleOutputs = textStreams
+            const subtitleOutputs = extractableStreams
                 .filter((stream) => stream.index !== undefined)
                 .map((stream) => {
                     const lang = stream.tags?.language || 'und';
                     const rawTitle = stream.tags?.title || '';
                     const title = rawTitle ? rawTitle.replace(/\s+/g, '_') : '';
                     const isForced = stream.disposition?.forced === 1 || title.toLowerCase().includes('forced');
-                    const outputFilename = `${roomId}_sub_${stream.index}_${this.sanitizeFilename(lang)}.srt`;
+                    const codec = stream.codec_name?.toLowerCase() || '';
+                    const format: SubtitleFormat = MediaProcessor.IMAGE_SUBTITLE_CODECS.has(codec)
+                        ? 'pgs'
+                        : MediaProcessor.STYLED_SUBTITLE_FORMATS[codec] ?? 'srt';
+                    const extension = SUBTITLE_EXTENSIONS[format];
+                    const outputFilename = `${roomId}_sub_${stream.index}_${this.sanitizeFilename(lang)}.${extension}`;
 
                     return {
                         streamIndex: stream.index as number,
                         lang,
                         title,
                         isForced,
+                        format,
                         outputFilename,
                         outputPath: join(subtitlesDir, outputFilename),
                     };
@@ -173,11 +460,12 @@ export class MediaProcessor {
             ];
 
             for (const subtitleOutput of subtitleOutputs) {
-                args.push(
-                    '-map', `0:${subtitleOutput.streamIndex}`,
-                    '-c:s', 'srt',
-                    subtitleOutput.outputPath,
-                );
+                args.push('-map', `0:${subtitleOutput.streamIndex}`);
+                if (subtitleOutput.format === 'pgs') {
+                    args.push('-c:s', 'copy', '-f', 'sup', subtitleOutput.outputPath);
+                } else {
+                    args.push('-c:s', SUBTITLE_ENCODERS[subtitleOutput.format], subtitleOutput.outputPath);
+                }
             }
 
             logger.debug("MediaProcessor", `Spawn FFmpeg: ffmpeg ${args.join(' ')}`);
@@ -192,8 +480,13 @@ export class MediaProcessor {
                         continue;
                     }
 
-                    const displayName = `${subtitleOutput.lang.toUpperCase()} ${subtitleOutput.title ? `(${subtitleOutput.title})` : ''} ${subtitleOutput.isForced ? '[Forced]' : ''}`.trim();
-                    this.roomManager.addSubtitle(roomId, subtitleOutput.outputFilename, displayName);
+                    const displayName = [
+                        subtitleOutput.lang.toUpperCase(),
+                        subtitleOutput.title ? `(${subtitleOutput.title})` : '',
+                        subtitleOutput.isForced ? '[Forced]' : '',
+                        subtitleOutput.format === 'pgs' ? '[Imagem]' : '',
+                    ].filter(Boolean).join(' ');
+                    this.roomManager.addSubtitle(roomId, subtitleOutput.outputFilename, displayName, subtitleOutput.format);
                     extractedCount += 1;
                 }
 
@@ -232,116 +525,146 @@ export class MediaProcessor {
         }
     }
 
-    private async convertAudioIfNeeded(
+    private async convertMediaIfNeeded(
         roomId: string,
         filePath: string,
         selectedAudioStreamIndex?: number,
         keepSourceFile = false,
     ): Promise<string> {
-        this.notifyProgress(roomId, "Verificando codecs de áudio...");
+        this.notifyProgress(roomId, "Verificando compatibilidade de vídeo e áudio...");
 
         const metadata = await this.ffprobe(filePath);
+        const videoStream = metadata.streams.find(
+            (stream) => stream.codec_type === 'video' && typeof stream.index === 'number' && stream.disposition?.attached_pic !== 1
+        );
         const audioStreams = metadata.streams.filter(
             (stream) => stream.codec_type === 'audio' && typeof stream.index === 'number'
         );
 
-        if (audioStreams.length === 0) {
-            return filePath;
+        const videoCodec = videoStream?.codec_name?.toLowerCase() || 'unknown';
+        const pixelFormat = videoStream?.pix_fmt?.toLowerCase() || '';
+        const isVideoCompatible = !videoStream || (
+            MediaProcessor.COMPATIBLE_VIDEO_CODECS.has(videoCodec)
+            && (!pixelFormat || MediaProcessor.COMPATIBLE_PIXEL_FORMATS.has(pixelFormat))
+        );
+        // O ffprobe reporta "mov,mp4,m4a,3gp,3g2,mj2" para todo ISO-BMFF; só .mp4 de verdade dispensa o remux
+        const formatNames = (metadata.format.format_name || '').split(',');
+        const isContainerCompatible = extname(filePath).toLowerCase() === '.mp4' && formatNames.includes('mp4');
+
+        if (!isVideoCompatible && !VIDEO_TRANSCODE_ENABLED) {
+            logger.warn("MediaProcessor", `Vídeo ${videoCodec} (${pixelFormat || 'pix_fmt desconhecido'}) incompatível e transcodificação desativada`);
         }
+        const needsVideoTranscode = !isVideoCompatible && VIDEO_TRANSCODE_ENABLED;
 
         const selectedStream = typeof selectedAudioStreamIndex === 'number'
             ? audioStreams.find((stream) => stream.index === selectedAudioStreamIndex)
             : undefined;
         const targetStream = selectedStream || audioStreams[0];
-        const targetCodec = targetStream.codec_name?.toLowerCase() || 'unknown';
-        const needsConversion = !MediaProcessor.COMPATIBLE_AUDIO_CODECS.has(targetCodec);
+        const targetCodec = targetStream?.codec_name?.toLowerCase() || 'unknown';
+        const needsAudioConversion = Boolean(targetStream) && !MediaProcessor.COMPATIBLE_AUDIO_CODECS.has(targetCodec);
         const needsTrackSelection = typeof selectedAudioStreamIndex === 'number' && audioStreams.length > 1;
 
-        if (!needsConversion && !needsTrackSelection) {
-            logger.info("MediaProcessor", "Áudio compatível. Nenhuma conversão necessária.");
+        if (!needsVideoTranscode && !needsAudioConversion && !needsTrackSelection && isContainerCompatible) {
+            logger.info("MediaProcessor", "Vídeo e áudio compatíveis. Nenhuma conversão necessária.");
             return filePath;
         }
 
-        const selectedTrackLabel = `stream ${targetStream.index}`;
-        logger.info("MediaProcessor", `Usando ${selectedTrackLabel} (${targetCodec})`);
+        const selectedTrackLabel = targetStream ? `stream ${targetStream.index}` : 'sem áudio';
+        logger.info("MediaProcessor", `Preparando MP4: vídeo ${videoCodec} (${needsVideoTranscode ? 'transcodificar' : 'copiar'}), áudio ${selectedTrackLabel} (${targetCodec})`);
+
+        const progressLabel = needsVideoTranscode
+            ? "Convertendo vídeo para H.264"
+            : needsAudioConversion
+                ? "Convertendo áudio"
+                : "Remuxando para MP4";
 
-        if (needsConversion) {
+        if (needsVideoTranscode) {
+            this.notifyProgress(roomId, "Convertendo vídeo para H.264 (Isso pode demorar bastante)...");
+        } else if (needsAudioConversion) {
             this.notifyProgress(roomId, "Convertendo faixa de áudio selecionada para AAC (Isso pode demorar)...");
-        } else {
+        } else if (needsTrackSelection) {
             this.notifyProgress(roomId, "Aplicando faixa de áudio selecionada...");
+        } else {
+            this.notifyProgress(roomId, "Remuxando vídeo para MP4...");
         }
 
+        const timeoutMs = needsVideoTranscode ? FFMPEG_VIDEO_TIMEOUT_MS : FFMPEG_AUDIO_TIMEOUT_MS;
+        // Só falhas na faixa de áudio devolvem o host para a seleção de faixa.
+        const isAudioFailure = !needsVideoTranscode && (needsAudioConversion || needsTrackSelection);
+        const conversionTarget = isAudioFailure
+            ? `a faixa de áudio ${targetStream?.index} (${targetCodec})`
+            : needsVideoTranscode ? `o vídeo (${videoCodec}) para H.264` : 'o vídeo para MP4';
+        const createError = (message: string, details: string): Error => isAudioFailure
+            ? new AudioTrackConversionError(message, details)
+            : new VideoConversionError(message, details);
+
         const dir = dirname(filePath);
         const ext = extname(filePath);
         const name = basename(filePath, ext);
         const tempPath = join(dir, `${name}_converted.mp4`);
 
+        const args = [
+            '-nostdin',
+            '-i', filePath,
+            '-y',
+            '-hide_banner',
+            '-loglevel', 'error',
+        ];
+
+        if (videoStream) {
+            args.push('-map', `0:${videoStream.index}`);
+            if (needsVideoTranscode) {
+                args.push(
+                    '-c:v', 'libx264',
+                    '-preset', VIDEO_TRANSCODE_PRESET,
+                    '-crf', '20',
+                    '-pix_fmt', 'yuv420p',
+                    '-profile:v', 'high',
+                );
+            } else {
+                args.push('-c:v', 'copy');
+            }
+        }
+
+        if (targetStream) {
+            args.push('-map', `0:${targetStream.index}`);
+            if (needsAudioConversion) {
+                args.push('-c:a', 'aac', '-aac_coder', 'fast', '-ac', '2', '-b:a', '192k');
+            } else {
+                args.push('-c:a', 'copy');
+            }
+        }
+
+        args.push('-movflags', '+faststart', tempPath);
+
         try {
-            await new Promise<void>((resolve, reject) => {
-                let timeout: NodeJS.Timeout;
-                let isSettled = false;
-                const settle = (callback: () => void) => {
-                    if (isSettled) return;
-                    isSettled = true;
-                    clearTimeout(timeout);
-                    callback();
-                };
-
-                const command = ffmpeg(filePath)
-                    .output(tempPath)
-                    .outputOptions('-map 0:v:0')
-                    .outputOptions(`-map 0:${targetStream.index}`)
-                    .videoCodec('copy')
-                    .outputOptions('-movflags +faststart')
-                    .outputOptions('-y')
-                    .on('start', (cmd) => {
-                        logger.debug("MediaProcessor", `Comando FFmpeg Áudio: ${cmd}`);
-                    })
-                    .on('progress', (progress) => {
-                        if (needsConversion && progress.percent) {
-                            this.notifyProgress(roomId, `Convertendo áudio: ${Math.round(progress.percent)}%`);
-                        }
-                    })
-                    .on('end', () => settle(resolve))
-                    .on('error', (err, _stdout, stderr) => {
-                        const stderrText = String(stderr || '').trim();
-                        const details = stderrText || (err?.message || 'Falha sem detalhes do FFmpeg');
-                        settle(() => reject(new AudioTrackConversionError(
-                            `Falha ao converter a faixa de áudio ${targetStream.index} (${targetCodec})`,
-                            details
-                        )));
-                    });
-
-                timeout = setTimeout(() => {
-                    settle(() => {
-                        try {
-                            command.kill('SIGKILL');
-                        } catch (error) {
-                            logger.warn("MediaProcessor", "Falha ao encerrar FFmpeg após timeout", error);
-                        }
-
-                        reject(new AudioTrackConversionError(
-                            `Tempo limite excedido ao converter a faixa de áudio ${targetStream.index} (${targetCodec})`,
-                            `FFmpeg excedeu ${Math.round(FFMPEG_AUDIO_TIMEOUT_MS / 1000)} segundos`
-                        ));
-                    });
-                }, FFMPEG_AUDIO_TIMEOUT_MS);
-
-                if (needsConversion) {
-                    command.audioCodec('aac').outputOptions('-aac_coder fast').audioChannels(2).audioBitrate('192k');
-                } else {
-                    command.audioCodec('copy');
-                }
+            logger.debug("MediaProcessor", `Spawn FFmpeg Mídia: ffmpeg ${args.join(' ')}`);
 
-                command.run();
-            });
+            try {
+                await this.runProcess('ffmpeg', args, timeoutMs, {
+                    durationSeconds: Number(metadata.format.duration) || 0,
+                    onProgress: (progress) => {
+                        this.notifyProgress(roomId, `${progressLabel}: ${progress.percent}%`, progress);
+                    },
+                });
+            } catch (error) {
+                const details = error instanceof Error ? error.message : String(error);
+                throw createError(
+                    error instanceof ProcessTimeoutError
+                        ? `Tempo limite excedido ao converter ${conversionTarget}`
+                        : `Falha ao converter ${conversionTarget}`,
+                    details
+                );
+            }
 
             if (!keepSourceFile && existsSync(filePath)) {
                 this.clearCachedFfprobe(filePath);
                 await unlink(filePath);
             }
 
-            const finalPath = join(dir, `${name}.mp4`);
+            // Fonte já em .mp4: grava ao lado para a extração de legendas ainda ler o original
+            const mp4Path = join(dir, `${name}.mp4`);
+            const finalPath = mp4Path === filePath ? join(dir, `${name}.h264.mp4`) : mp4Path;
             if (existsSync(finalPath)) {
                 this.clearCachedFfprobe(finalPath);
                 await unlink(finalPath);
@@ -357,12 +680,12 @@ export class MediaProcessor {
                 await unlink(tempPath).catch(() => null);
             }
 
-            if (error instanceof AudioTrackConversionError) {
-                logger.error("MediaProcessor", `Erro na conversão de áudio (${selectedTrackLabel})`, error.details);
+            if (error instanceof AudioTrackConversionError || error instanceof VideoConversionError) {
+                logger.error("MediaProcessor", `Erro na conversão de mídia (${selectedTrackLabel})`, error.details);
                 throw error;
             }
 
-            logger.error("MediaProcessor", `Erro inesperado na conversão de áudio (${selectedTrackLabel})`, error);
+            logger.error("MediaProcessor", `Erro inesperado na conversão de mídia (${selectedTrackLabel})`, error);
             throw error;
         }
     }
@@ -391,9 +714,20 @@ export class MediaProcessor {
         }
     }
 
-    private runProcess(command: string, args: string[], timeoutMs: number): Promise<ProcessResult> {
+    /**
+     * Executa um processo externo com limite de tempo.
+     * Com `progress`, pede ao ffmpeg o relatório `-progress` no stdout e converte em percentual e ETA.
+     */
+    private runProcess(
+        command: string,
+        args: string[],
+        timeoutMs: number,
+        progress?: ProcessProgressOptions,
+    ): Promise<ProcessResult> {
         return new Promise((resolve, reject) => {
-            const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+            const processArgs = progress ? ['-progress', 'pipe:1', '-nostats', ...args] : args;
+            const child = spawn(command, processArgs, { stdio: ['ignore', 'pipe', 'pipe'] });
+            const parseProgress = progress ? createProgressParser(progress) : null;
             let stdout = '';
             let stderr = '';
             let isSettled = false;
@@ -409,12 +743,13 @@ export class MediaProcessor {
             timeout = setTimeout(() => {
                 settle(() => {
                     child.kill('SIGKILL');
-                    reject(new Error(`${command} excedeu ${Math.round(timeoutMs / 1000)} segundos`));
+                    reject(new ProcessTimeoutError(command, timeoutMs));
                 });
             }, timeoutMs);
 
             child.stdout.on('data', (chunk) => {
                 stdout = appendProcessOutput(stdout, chunk);
+                parseProgress?.(chunk);
             });
 
             child.stderr.on('data', (chunk) => {
@@ -438,18 +773,101 @@ export class MediaProcessor {
         });
     }
 
-    private notifyProgress(roomId: string, message: string) {
+    private notifyProgress(roomId: string, message: string, progress: ProcessProgress | null = null) {
+        const processingPercent = progress?.percent ?? null;
+        const processingEtaSeconds = progress?.etaSeconds ?? null;
+
         this.roomManager.updateState(roomId, {
             isProcessing: true,
-            processingMessage: message
+            processingMessage: message,
+            processingPercent,
+            processingEtaSeconds,
         });
         this.roomManager.broadcastAll(roomId, {
             type: "processing-progress",
-            processingMessage: message
+            processingMessage: message,
+            processingPercent,
+            processingEtaSeconds,
         });
     }
 }
 
+function buildMasterPlaylist(renditions: HlsRendition[]): string {
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+    for (const rendition of renditions) {
+        lines.push(
+            `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},AVERAGE-BANDWIDTH=${rendition.averageBandwidth},RESOLUTION=${rendition.width}x${rendition.height}`,
+            rendition.playlist,
+        );
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Interpreta os blocos `chave=valor` do `-progress` do ffmpeg, emitindo no máximo um evento por segundo.
+ * O ETA usa a velocidade reportada pelo ffmpeg e, sem ela, o tempo decorrido desde o início.
+ */
+function createProgressParser({ durationSeconds, onProgress }: ProcessProgressOptions): (chunk: Buffer) => void {
+    const startedAt = Date.now();
+    let pending = '';
+    let outTimeSeconds = 0;
+    let speed = 0;
+    let lastNotifiedAt = 0;
+    let lastPercent = -1;
+
+    return (chunk: Buffer) => {
+        if (durationSeconds <= 0) return;
+
+        pending += chunk.toString();
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+
+        for (const rawLine of lines) {
+            const separatorIndex = rawLine.indexOf('=');
+            if (separatorIndex === -1) continue;
+
+            const key = rawLine.slice(0, separatorIndex).trim();
+            const value = rawLine.slice(separatorIndex + 1).trim();
+
+            if (key === 'out_time_us' || key === 'out_time_ms') {
+                // Apesar do nome, out_time_ms também vem em microssegundos.
+                const micros = Number(value);
+                if (Number.isFinite(micros) && micros >= 0) outTimeSeconds = micros / 1_000_000;
+                continue;
+            }
+
+            if (key === 'speed') {
+                speed = Number.parseFloat(value) || 0;
+                continue;
+            }
+
+            if (key !== 'progress') continue;
+
+            const isEnd = value === 'end';
+            const now = Date.now();
+            if (!isEnd && now - lastNotifiedAt < PROGRESS_NOTIFY_INTERVAL_MS) continue;
+
+            const ratio = isEnd ? 1 : Math.min(outTimeSeconds / durationSeconds, 0.99);
+            const percent = Math.round(ratio * 100);
+            if (percent === lastPercent && !isEnd) continue;
+
+            const remainingSeconds = durationSeconds - outTimeSeconds;
+            const elapsedSeconds = (now - startedAt) / 1000;
+            const etaSeconds = isEnd
+                ? 0
+                : speed > 0
+                    ? Math.max(0, Math.round(remainingSeconds / speed))
+                    : ratio > 0 ? Math.round(elapsedSeconds * (1 - ratio) / ratio) : null;
+
+            lastNotifiedAt = now;
+            lastPercent = percent;
+            onProgress({ percent, etaSeconds });
+        }
+    };
+}
+
 function appendProcessOutput(currentOutput: string, chunk: Buffer): string {
     const nextOutput = currentOutput + chunk.toString();
     if (nextOutput.length <= MAX_PROCESS_OUTPUT_BYTES) return nextOutput;
@@ -0,0 +1,307 @@
+import { existsSync } from "fs";
+import { promises as fs } from "fs";
+import { extname, resolve } from "path";
+import type { SubtitleFormat } from "../../shared/types";
+import { logger } from "../../shared/logger";
+import { isPathInsideDirectory } from "../../shared/path-containment";
+import {
+    OPENSUBTITLES_API_KEY,
+    OPENSUBTITLES_USER_AGENT,
+    SUBTITLE_LOCAL_DIR,
+    SUBTITLE_PROVIDER,
+} from "../../config";
+
+const OPENSUBTITLES_BASE_URL = "https://api.opensubtitles.com/api/v1";
+const MAX_SEARCH_RESULTS = 25;
+const MAX_DOWNLOAD_BYTES = 2 * 1024 * 1024;
+const PROVIDER_TIMEOUT_MS = 15_000;
+
+const FORMATS_BY_EXTENSION: Record<string, SubtitleFormat> = {
+    ".srt": "srt",
+    ".vtt": "vtt",
+    ".ass": "ass",
+    ".ssa": "ass",
+};
+
+export interface SubtitleSearchQuery {
+    tmdbId: number;
+    mediaType: "movie" | "tv";
+    seasonNumber?: number;
+    episodeNumber?: number;
+    language: string;
+}
+
+export interface SubtitleSearchResult {
+    id: string;
+    displayName: string;
+    language: string;
+    format: SubtitleFormat;
+    downloadCount: number;
+    hearingImpaired: boolean;
+}
+
+export interface SubtitleDownload {
+    filename: string;
+    format: SubtitleFormat;
+    content: Buffer;
+}
+
+/**
+ * Fonte externa de legendas. Busca por TMDB id (e temporada/episódio em séries) e baixa o arquivo escolhido.
+ */
+export interface SubtitleProvider {
+    readonly name: string;
+    search(query: SubtitleSearchQuery): Promise<SubtitleSearchResult[]>;
+    download(resultId: string): Promise<SubtitleDownload>;
+}
+
+export class SubtitleProviderError extends Error {
+    constructor(message: string, public readonly details?: unknown) {
+        super(message);
+        this.name = "SubtitleProviderError";
+    }
+}
+
+function getFormatFromFilename(filename: string): SubtitleFormat | null {
+    return FORMATS_BY_EXTENSION[extname(filename).toLowerCase()] ?? null;
+}
+
+function normalizeLanguage(language: string): string {
+    return language.trim().toLowerCase();
+}
+
+/**
+ * fetch com prazo: um provedor travado não pode deixar a busca de legendas pendurada.
+ * O prazo também cobre a leitura do corpo.
+ */
+async function fetchFromProvider(url: string, init: RequestInit = {}): Promise<Response> {
+    try {
+        return await fetch(url, { ...init, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+    } catch (error) {
+        if (error instanceof Error && error.name === "TimeoutError") {
+            throw new SubtitleProviderError("Provedor de legendas não respondeu a tempo", error);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Lê o corpo em partes e interrompe assim que passa do limite, sem carregar o resto.
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer> {
+    const declaredLength = Number(response.headers.get("content-length"));
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+        await response.body?.cancel();
+        throw new SubtitleProviderError("Legenda baixada excede o tamanho máximo");
+    }
+    if (!response.body) return Buffer.alloc(0);
+
+    const chunks: Buffer[] = [];
+    let totalBytes = 0;
+    const reader = response.body.getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        totalBytes += value.byteLength;
+        if (totalBytes > maxBytes) {
+            await reader.cancel();
+            throw new SubtitleProviderError("Legenda baixada excede o tamanho máximo");
+        }
+        chunks.push(Buffer.from(value));
+    }
+
+    return Buffer.concat(chunks);
+}
+
+// ─── OpenSubtitles ───────────────────────────────────────────────────────────
+
+interface OpenSubtitlesFile {
+    file_id: number;
+    file_name?: string;
+}
+
+interface OpenSubtitlesEntry {
+    id: string;
+    attributes: {
+        language?: string;
+        release?: string;
+        download_count?: number;
+        hearing_impaired?: boolean;
+        format?: string | null;
+        files?: OpenSubtitlesFile[];
+    };
+}
+
+/**
+ * Cliente da API REST do OpenSubtitles (v1). O id do resultado é o `file_id`, usado no endpoint de download.
+ */
+export class OpenSubtitlesProvider implements SubtitleProvider {
+    readonly name = "opensubtitles";
+
+    constructor(private readonly apiKey: string, private readonly userAgent: string) { }
+
+    private buildHeaders(): Record<string, string> {
+        return {
+            "Api-Key": this.apiKey,
+            "User-Agent": this.userAgent,
+            "Accept": "application/json",
+        };
+    }
+
+    async search(query: SubtitleSearchQuery): Promise<SubtitleSearchResult[]> {
+        const params = new URLSearchParams({ languages: normalizeLanguage(query.language) });
+        // Episódios são indexados pelo id da série (parent) + temporada/episódio.
+        if (query.mediaType === "tv" && query.seasonNumber !== undefined && query.episodeNumber !== undefined) {
+            params.set("parent_tmdb_id", String(query.tmdbId));
+            params.set("season_number", String(query.seasonNumber));
+            params.set("episode_number", String(query.episodeNumber));
+        } else {
+            params.set("tmdb_id", String(query.tmdbId));
+        }
+
+        const response = await fetchFromProvider(`${OPENSUBTITLES_BASE_URL}/subtitles?${params}`, { headers: this.buildHeaders() });
+        if (!response.ok) {
+            throw new SubtitleProviderError(`OpenSubtitles respondeu ${response.status} na busca`, await response.text());
+        }
+
+        const payload = await response.json() as { data?: OpenSubtitlesEntry[] };
+        return (payload.data || [])
+            .flatMap((entry) => {
+                const file = entry.attributes.files?.[0];
+                if (!file) return [];
+
+                const filename = file.file_name || entry.attributes.release || `${entry.id}.srt`;
+                return [{
+                    id: String(file.file_id),
+                    displayName: entry.attributes.release || filename,
+                    language: entry.attributes.language || query.language,
+                    format: getFormatFromFilename(filename) ?? "srt",
+                    downloadCount: entry.attributes.download_count || 0,
+                    hearingImpaired: entry.attributes.hearing_impaired === true,
+                }];
+            })
+            .slice(0, MAX_SEARCH_RESULTS);
+    }
+
+    async download(resultId: string): Promise<SubtitleDownload> {
+        const fileId = Number(resultId);
+        if (!Number.isSafeInteger(fileId) || fileId <= 0) {
+            throw new SubtitleProviderError("Id de legenda inválido");
+        }
+
+        const linkResponse = await fetchFromProvider(`${OPENSUBTITLES_BASE_URL}/download`, {
+            method: "POST",
+            headers: { ...this.buildHeaders(), "Content-Type": "application/json" },
+            body: JSON.stringify({ file_id: fileId }),
+        });
+        if (!linkResponse.ok) {
+            throw new SubtitleProviderError(`OpenSubtitles respondeu ${linkResponse.status} no download`, await linkResponse.text());
+        }
+
+        const { link, file_name: fileName } = await linkResponse.json() as { link?: string; file_name?: string };
+        if (!link) {
+            throw new SubtitleProviderError("OpenSubtitles não retornou link de download");
+        }
+
+        const fileResponse = await fetchFromProvider(link);
+        if (!fileResponse.ok) {
+            throw new SubtitleProviderError(`Falha ao baixar legenda (${fileResponse.status})`);
+        }
+
+        const content = await readLimitedBody(fileResponse, MAX_DOWNLOAD_BYTES);
+
+        const filename = fileName || `opensubtitles_${fileId}.srt`;
+        return { filename, format: getFormatFromFilename(filename) ?? "srt", content };
+    }
+}
+
+// ─── Diretório local ─────────────────────────────────────────────────────────
+
+const LOCAL_FILENAME_PATTERN = /^(\d+)(?:_S(\d+)E(\d+))?\.([a-z]{2,3}(?:-[a-z]{2})?)\.[a-z]+$/i;
+
+/**
+ * Provider de testes que lê legendas de um diretório local.
+ * Arquivos seguem `<tmdbId>.<idioma>.<ext>` para filmes e `<tmdbId>_S01E02.<idioma>.<ext>` para episódios.
+ */
+export class LocalSubtitleProvider implements SubtitleProvider {
+    readonly name = "local";
+
+    constructor(private readonly directory: string) { }
+
+    async search(query: SubtitleSearchQuery): Promise<SubtitleSearchResult[]> {
+        if (!existsSync(this.directory)) return [];
+
+        const language = normalizeLanguage(query.language);
+        const entries = await fs.readdir(this.directory, { withFileTypes: true });
+
+        return entries
+            .filter((entry) => entry.isFile())
+            .flatMap((entry) => {
+                const match = entry.name.match(LOCAL_FILENAME_PATTERN);
+                const format = getFormatFromFilename(entry.name);
+                if (!match || !format) return [];
+
+                const [, tmdbId, season, episode, fileLanguage] = match;
+                if (Number(tmdbId) !== query.tmdbId) return [];
+                if (normalizeLanguage(fileLanguage!) !== language) return [];
+
+                const isEpisodeFile = season !== undefined && episode !== undefined;
+                if (query.mediaType === "tv" && query.seasonNumber !== undefined && query.episodeNumber !== undefined) {
+                    if (!isEpisodeFile || Number(season) !== query.seasonNumber || Number(episode) !== query.episodeNumber) return [];
+                } else if (isEpisodeFile) {
+                    return [];
+                }
+
+                return [{
+                    id: entry.name,
+                    displayName: entry.name,
+                    language,
+                    format,
+                    downloadCount: 0,
+                    hearingImpaired: false,
+                }];
+            })
+            .slice(0, MAX_SEARCH_RESULTS);
+    }
+
+    async download(resultId: string): Promise<SubtitleDownload> {
+        const filePath = resolve(this.directory, resultId);
+        const format = getFormatFromFilename(resultId);
+        if (!format || !isPathInsideDirectory(this.directory, filePath) || !existsSync(filePath)) {
+            throw new SubtitleProviderError("Legenda não encontrada no diretório local");
+        }
+
+        const content = await fs.readFile(filePath);
+        if (content.length > MAX_DOWNLOAD_BYTES) {
+            throw new SubtitleProviderError("Legenda local excede o tamanho máximo");
+        }
+        return { filename: resultId, format, content };
+    }
+}
+
+/**
+ * Instancia o provider configurado em SUBTITLE_PROVIDER, ou null quando a busca automática está desligada.
+ */
+export function createSubtitleProvider(): SubtitleProvider | null {
+    if (SUBTITLE_PROVIDER === "opensubtitles") {
+        if (!OPENSUBTITLES_API_KEY) {
+            logger.warn("SubtitleProvider", "OPENSUBTITLES_API_KEY ausente; busca de legendas desativada");
+            return null;
+        }
+        return new OpenSubtitlesProvider(OPENSUBTITLES_API_KEY, OPENSUBTITLES_USER_AGENT);
+    }
+
+    if (SUBTITLE_PROVIDER === "local") {
+        if (!SUBTITLE_LOCAL_DIR) {
+            logger.warn("SubtitleProvider", "SUBTITLE_LOCAL_DIR ausente; busca de legendas desativada");
+            return null;
+        }
+        return new LocalSubtitleProvider(resolve(SUBTITLE_LOCAL_DIR));
+    }
+
+    if (SUBTITLE_PROVIDER) {
+        logger.warn("SubtitleProvider", `Provider de legendas desconhecido: ${SUBTITLE_PROVIDER}`);
+    }
+    return null;
+}
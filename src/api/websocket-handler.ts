@@ -2,6 +2,10 @@ import type { WSMessage, ExtendedWebSocket } from "../shared/types";
 import { roomManager } from "../core/room-manager";
 import { logger } from "../shared/logger";
 import { buildSessionStatusData } from "./services/session-status";
+import { MAX_CHAT_MESSAGE_LENGTH, type ChatRejectReason } from "../core/room-chat";
+import { isRewind } from "../core/room-timeline";
+import { REWIND_VOTE_SECONDS } from "../core/room-controls";
+import type { ModerationRejectReason } from "../core/room-moderation";
 
 const allowedClientMessageTypes = new Set([
     "host-heartbeat",
@@ -12,8 +16,36 @@ const allowedClientMessageTypes = new Set([
     "state",
     "session-status",
     "update-metrics",
+    "subtitle-offset",
+    "chat-message",
+    "chat-reaction",
+    "pause-request",
+    "rewind-vote",
+    "room-controls",
+    "transfer-host",
+    "set-cohost",
+    "kick-user",
+    "ban-user",
+    "buffering",
 ]);
 
+const MAX_SUBTITLE_OFFSET_SECONDS = 10;
+const MAX_MIN_STALLED_VIEWERS = 10;
+
+const chatErrorMessages: Record<ChatRejectReason, string> = {
+    empty: "A mensagem está vazia.",
+    too_long: `A mensagem passa de ${MAX_CHAT_MESSAGE_LENGTH} caracteres.`,
+    invalid_emoji: "Reação não suportada.",
+    rate_limited: "Você está enviando rápido demais. Aguarde alguns segundos.",
+};
+
+const moderationErrorMessages: Record<ModerationRejectReason, string> = {
+    not_found: "Usuário não encontrado na sala.",
+    self: "Você não pode aplicar esta ação a si mesmo.",
+    offline: "O usuário precisa estar conectado para assumir o host.",
+    owner: "Quem criou a sessão não pode ser removido da sala.",
+};
+
 function isFiniteNonNegativeNumber(value: unknown): value is number {
     return typeof value === "number" && Number.isFinite(value) && value >= 0;
 }
@@ -36,10 +68,62 @@ function parseClientMessage(message: unknown): WSMessage | null {
         return null;
     }
 
+    if (data.offsetSeconds !== undefined && (typeof data.offsetSeconds !== "number" || !Number.isFinite(data.offsetSeconds))) {
+        return null;
+    }
+
+    if (data.filename !== undefined && typeof data.filename !== "string") {
+        return null;
+    }
+
+    if (data.text !== undefined && typeof data.text !== "string") {
+        return null;
+    }
+
+    if (data.emoji !== undefined && typeof data.emoji !== "string") {
+        return null;
+    }
+
+    if (data.targetId !== undefined && (typeof data.targetId !== "string" || !/^\d{1,32}$/.test(data.targetId))) {
+        return null;
+    }
+
+    if (data.enabled !== undefined && typeof data.enabled !== "boolean") {
+        return null;
+    }
+
+    if (data.buffering !== undefined && typeof data.buffering !== "boolean") {
+        return null;
+    }
+
     if (data.seq !== undefined && (!Number.isInteger(data.seq) || (data.seq as number) < 0)) {
         return null;
     }
 
+    if (data.controls !== undefined) {
+        if (!data.controls || typeof data.controls !== "object" || Array.isArray(data.controls)) {
+            return null;
+        }
+
+        const controls = data.controls as Record<string, unknown>;
+        if (controls.guestPause !== undefined && typeof controls.guestPause !== "boolean") {
+            return null;
+        }
+        if (controls.rewindVotes !== undefined && typeof controls.rewindVotes !== "boolean") {
+            return null;
+        }
+        if (controls.waitForBuffering !== undefined && typeof controls.waitForBuffering !== "boolean") {
+            return null;
+        }
+        if (controls.minStalledViewers !== undefined && (
+            !Number.isInteger(controls.minStalledViewers) ||
+            (controls.minStalledViewers as number) < 1 ||
+            (controls.minStalledViewers as number) > MAX_MIN_STALLED_VIEWERS
+        )) {
+            return null;
+        }
+    }
+
     if (data.metrics !== undefined) {
         if (!data.metrics || typeof data.metrics !== "object" || Array.isArray(data.metrics)) {
             return null;
@@ -67,6 +151,73 @@ function toMessageText(message: unknown): string {
     return String(message);
 }
 
+/**
+ * Play ou pause de quem controla a sala vence o modo de espera.
+ */
+function releaseBufferingHoldByCommand(roomId: string): void {
+    if (roomManager.releaseBufferingHold(roomId)) {
+        roomManager.broadcastAll(roomId, { type: "buffering-hold", holding: false, holders: [] });
+    }
+}
+
+/**
+ * Pausa pedida por um convidado quando a sala permite.
+ * Usa a posição do servidor: o relógio do convidado pode estar fora de sincronia.
+ */
+function handleGuestPause(roomId: string, token: string | undefined, serverTime: number): void {
+    const room = roomManager.getRoom(roomId);
+    if (!room?.controls.guestPause || !room.state.isPlaying) return;
+
+    const user = token ? roomManager.validateToken(roomId, token) : null;
+    if (!user) return;
+
+    const currentTime = roomManager.getCurrentTime(roomId);
+    logger.info("WS", `⏸️ Pause por convidado: Room ${roomId} at ${currentTime}s (${user.username})`);
+
+    roomManager.recordTimelineEvent(roomId, "pause", currentTime);
+    roomManager.updateState(roomId, {
+        isPlaying: false,
+        currentTime,
+        lastUpdate: serverTime
+    });
+    roomManager.broadcastAll(roomId, {
+        type: "sync",
+        currentTime,
+        isPlaying: false,
+        serverTime,
+        requesterName: user.username
+    });
+}
+
+/**
+ * Ações do host sobre outro usuário: passar o host, promover co-host, expulsar ou banir.
+ */
+function handleModeration(ws: ExtendedWebSocket, roomId: string, token: string, data: WSMessage): void {
+    const targetId = data.targetId;
+    if (!targetId) return;
+
+    const result = data.type === "transfer-host"
+        ? roomManager.transferHostTo(roomId, token, targetId)
+        : data.type === "set-cohost"
+            ? roomManager.setCoHost(roomId, token, targetId, data.enabled === true)
+            : roomManager.removeUser(roomId, token, targetId, data.type === "ban-user");
+    if (!result) return;
+
+    if (!result.ok) {
+        ws.send(JSON.stringify({ type: "moderation-error", errorMessage: moderationErrorMessages[result.reason] }));
+        return;
+    }
+
+    if (data.type === "transfer-host") {
+        roomManager.broadcastAll(roomId, {
+            type: "host-changed",
+            newHostId: result.user.discordId,
+            newHostUsername: result.user.username
+        });
+    }
+    roomManager.broadcastViewerCount(roomId);
+}
+
 export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
     const { roomId, clientId, token } = ws.data;
     let data: WSMessage;
@@ -89,7 +240,8 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
         data.type === "update-metrics" ||
         data.type === "host-heartbeat" ||
         data.type === "state" ||
-        data.type === "session-status";
+        data.type === "session-status" ||
+        data.type === "buffering";
 
     if (isVerboseType) {
         logger.debug("WS", `Heartbeat/Sync: ${data.type} (Room: ${roomId})`);
@@ -98,6 +250,8 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
     }
 
     const isHost = token ? roomManager.isHostByToken(roomId, token) : false;
+    // Co-hosts controlam a reprodução; o seq e o heartbeat continuam sendo só do host
+    const canControl = token ? roomManager.canControlPlayback(roomId, token) : false;
 
     switch (data.type) {
         case "session-status":
@@ -120,16 +274,17 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
             break;
 
         case "play": {
-            if (!isHost) break;
-            if (!isCommandSeqValid(roomId, data.seq)) break;
+            if (!canControl) break;
+            if (isHost && !isCommandSeqValid(roomId, data.seq)) break;
             if (!isFiniteNonNegativeNumber(data.currentTime)) break;
 
-            roomManager.updateHostHeartbeat(roomId);
+            if (isHost) roomManager.updateHostHeartbeat(roomId);
             logger.info("WS", `▶️ Play: Room ${roomId} at ${data.currentTime}s`);
 
             const playRoom = roomManager.getRoom(roomId);
             const isFirstPlay = playRoom && !playRoom.state.playbackStarted;
 
+            releaseBufferingHoldByCommand(roomId);
             roomManager.updateState(roomId, {
                 isPlaying: true,
                 currentTime: data.currentTime,
@@ -153,7 +308,7 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
                 serverTime
             });
 
-            if (typeof data.seq === "number") {
+            if (isHost && typeof data.seq === "number") {
                 roomManager.setLastCommandSeq(roomId, data.seq);
             }
             break;
@@ -170,13 +325,21 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
             break;
 
         case "pause":
-            if (!isHost) break;
-            if (!isCommandSeqValid(roomId, data.seq)) break;
+            if (!canControl) {
+                handleGuestPause(roomId, token, serverTime);
+                break;
+            }
+            if (isHost && !isCommandSeqValid(roomId, data.seq)) break;
             if (!isFiniteNonNegativeNumber(data.currentTime)) break;
 
-            roomManager.updateHostHeartbeat(roomId);
+            if (isHost) roomManager.updateHostHeartbeat(roomId);
             logger.info("WS", `⏸️ Pause: Room ${roomId} at ${data.currentTime}s`);
 
+            if (roomManager.getRoom(roomId)?.state.isPlaying) {
+                roomManager.recordTimelineEvent(roomId, "pause", data.currentTime);
+            }
+
+            releaseBufferingHoldByCommand(roomId);
             roomManager.updateState(roomId, {
                 isPlaying: false,
                 currentTime: data.currentTime,
@@ -189,19 +352,23 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
                 serverTime
             });
 
-            if (typeof data.seq === "number") {
+            if (isHost && typeof data.seq === "number") {
                 roomManager.setLastCommandSeq(roomId, data.seq);
             }
             break;
 
         case "seek":
-            if (!isHost) break;
-            if (!isCommandSeqValid(roomId, data.seq)) break;
+            if (!canControl) break;
+            if (isHost && !isCommandSeqValid(roomId, data.seq)) break;
             if (!isFiniteNonNegativeNumber(data.currentTime)) break;
 
-            roomManager.updateHostHeartbeat(roomId);
+            if (isHost) roomManager.updateHostHeartbeat(roomId);
             logger.info("WS", `⏩ Seek: Room ${roomId} to ${data.currentTime}s`);
 
+            if (isRewind(roomManager.getCurrentTime(roomId), data.currentTime)) {
+                roomManager.recordTimelineEvent(roomId, "rewind", data.currentTime);
+            }
+
             roomManager.updateState(roomId, {
                 currentTime: data.currentTime,
                 lastUpdate: serverTime
@@ -213,11 +380,119 @@ export function handleWebSocketMessage(ws: ExtendedWebSocket, message: any) {
                 serverTime
             });
 
-            if (typeof data.seq === "number") {
+            if (isHost && typeof data.seq === "number") {
                 roomManager.setLastCommandSeq(roomId, data.seq);
             }
             break;
 
+        case "subtitle-offset": {
+            if (!isHost) break;
+            if (!data.filename || typeof data.offsetSeconds !== "number") break;
+            if (Math.abs(data.offsetSeconds) > MAX_SUBTITLE_OFFSET_SECONDS) break;
+
+            // Arredonda para milissegundos para não espalhar ruído de ponto flutuante do slider.
+            const offsetSeconds = Math.round(data.offsetSeconds * 1000) / 1000;
+            const subtitle = roomManager.setSubtitleOffset(roomId, data.filename, offsetSeconds);
+            if (!subtitle) break;
+
+            logger.info("WS", `⏱️ Atraso de legenda: Room ${roomId} ${subtitle.filename} = ${offsetSeconds}s`);
+            roomManager.broadcastAll(roomId, {
+                type: "subtitle-offset",
+                filename: subtitle.filename,
+                offsetSeconds
+            });
+            break;
+        }
+
+        case "chat-message":
+        case "chat-reaction": {
+            const user = token ? roomManager.validateToken(roomId, token) : null;
+            if (!user) break;
+
+            const result = data.type === "chat-message"
+                ? roomManager.addChatMessage(roomId, user, data.text ?? "")
+                : roomManager.addChatReaction(roomId, user, data.emoji ?? "");
+            if (!result) break;
+
+            if (!result.ok) {
+                ws.send(JSON.stringify({ type: "chat-error", errorMessage: chatErrorMessages[result.reason] }));
+                break;
+            }
+
+            if ("text" in result.value) {
+                roomManager.broadcastAll(roomId, { type: "chat-message", chatMessage: result.value });
+            } else {
+                roomManager.recordTimelineEvent(roomId, "reaction", result.value.mediaTime);
+                roomManager.broadcastAll(roomId, { type: "chat-reaction", chatReaction: result.value });
+            }
+            break;
+        }
+
+        case "pause-request": {
+            if (canControl) break;
+            const user = token ? roomManager.validateToken(roomId, token) : null;
+            if (!user || !roomManager.getRoom(roomId)?.state.isPlaying) break;
+            if (!roomManager.consumePauseRequest(roomId, user.discordId)) break;
+
+            logger.info("WS", `✋ Pedido de pausa: Room ${roomId} (${user.username})`);
+            roomManager.broadcastToHost(roomId, { type: "pause-request", requesterName: user.username });
+            break;
+        }
+
+        case "rewind-vote": {
+            const user = token ? roomManager.validateToken(roomId, token) : null;
+            if (!user) break;
+
+            const result = roomManager.registerRewindVote(roomId, user.discordId);
+            if (!result) break;
+
+            roomManager.broadcastAll(roomId, {
+                type: "rewind-vote",
+                votes: result.votes,
+                votesNeeded: result.votesNeeded,
+                rewindSeconds: REWIND_VOTE_SECONDS,
+                accepted: result.accepted,
+                requesterName: user.username
+            });
+
+            if (result.accepted && result.targetTime !== undefined) {
+                logger.info("WS", `⏪ Votação aprovada: Room ${roomId} volta para ${result.targetTime}s`);
+                roomManager.recordTimelineEvent(roomId, "rewind", result.targetTime);
+                roomManager.broadcastAll(roomId, {
+                    type: "sync",
+                    currentTime: result.targetTime,
+                    isPlaying: roomManager.getRoom(roomId)?.state.isPlaying || false,
+                    serverTime
+                });
+            }
+            break;
+        }
+
+        case "room-controls": {
+            if (!isHost || !data.controls) break;
+
+            const controls = roomManager.setRoomControls(roomId, data.controls);
+            if (controls) {
+                roomManager.broadcastAll(roomId, { type: "room-controls", controls });
+            }
+            break;
+        }
+
+        case "transfer-host":
+        case "set-cohost":
+        case "kick-user":
+        case "ban-user":
+            if (isHost && token) handleModeration(ws, roomId, token, data);
+            break;
+
+        case "buffering": {
+            const user = token ? roomManager.validateToken(roomId, token) : null;
+            if (!user || data.buffering === undefined) break;
+
+            roomManager.setClientBuffering(roomId, user.discordId, data.buffering);
+            break;
+        }
+
         case "state": {
             const room = roomManager.getRoom(roomId);
             if (room) {
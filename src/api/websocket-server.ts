@@ -1,6 +1,7 @@
 import { parse as parseCookieHeader } from "cookie";
 import type { ClientData, ExtendedWebSocket } from "../shared/types";
 import { roomManager } from "../core/room-manager";
+import { CHAT_REACTION_EMOJIS } from "../core/room-chat";
 import { handleWebSocketMessage } from "./websocket-handler";
 import { buildSessionStatusData } from "./services/session-status";
 import { logger } from "../shared/logger";
@@ -64,6 +65,30 @@ function scheduleSyncTick(): void {
     }, GLOBAL_TICK_MS);
 }
 
+/**
+ * Modo de espera: pausa a sala enquanto espectadores carregam e retoma quando todos estão prontos.
+ */
+function scheduleBufferingCheck(): void {
+    setInterval(() => {
+        const serverTime = Date.now();
+        roomManager.forEachRoom(room => {
+            if (room.clients.size === 0) return;
+            if (!room.controls.waitForBuffering && !room.bufferingHold) return;
+
+            const holdMessage = roomManager.evaluateBufferingHold(room.id);
+            if (!holdMessage) return;
+
+            roomManager.broadcastAll(room.id, holdMessage);
+            roomManager.broadcastAll(room.id, {
+                type: "sync",
+                currentTime: roomManager.getCurrentTime(room.id),
+                isPlaying: room.state.isPlaying,
+                serverTime,
+            });
+        });
+    }, GLOBAL_TICK_MS);
+}
+
 function scheduleHeartbeat(): void {
     setInterval(() => {
         for (const ws of activeSockets) {
@@ -119,7 +144,12 @@ function sendInitialState(ws: ExtendedWebSocket, roomId: string, isHost: boolean
     }
 
     if (room.state.isProcessing) {
-        ws.send(JSON.stringify({ type: "processing-progress", processingMessage: room.state.processingMessage }));
+        ws.send(JSON.stringify({
+            type: "processing-progress",
+            processingMessage: room.state.processingMessage,
+            processingPercent: room.state.processingPercent ?? null,
+            processingEtaSeconds: room.state.processingEtaSeconds ?? null,
+        }));
     }
 
     const statusData = buildSessionStatusData(roomManager, roomId);
@@ -127,6 +157,21 @@ function sendInitialState(ws: ExtendedWebSocket, roomId: string, isHost: boolean
         ws.send(JSON.stringify({ type: "session-status", ...statusData }));
     }
 
+    ws.send(JSON.stringify({ type: "room-controls", controls: room.controls }));
+
+    const bufferingHolders = roomManager.getBufferingHolders(roomId);
+    if (bufferingHolders) {
+        ws.send(JSON.stringify({ type: "buffering-hold", holding: true, holders: bufferingHolders }));
+    }
+
+    const chat = roomManager.getChatHistory(roomId);
+    ws.send(JSON.stringify({
+        type: "chat-history",
+        chatHistory: chat.messages,
+        chatReactions: chat.reactions,
+        reactionEmojis: CHAT_REACTION_EMOJIS,
+    }));
+
     const ratingProgress = roomManager.getRatingProgress(roomId);
     if (ratingProgress) {
         ws.send(JSON.stringify({
@@ -217,6 +262,7 @@ export function setupWebSocketServer(): void {
     didStartIntervals = true;
     scheduleHostCheck();
     scheduleSyncTick();
+    scheduleBufferingCheck();
     scheduleHeartbeat();
 }
 
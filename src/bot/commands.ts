@@ -9,6 +9,12 @@ export const registerCommands = async (client: any) => {
       .addStringOption((option) => option.setName("filme").setDescription("Nome do filme").setRequired(true)),
     new SlashCommandBuilder().setName("listar").setDescription("Ver todos os filmes assistidos pelo grupo"),
     new SlashCommandBuilder().setName("minhasavaliacoes").setDescription("Ver suas próprias avaliações"),
+    new SlashCommandBuilder()
+      .setName("stats")
+      .setDescription("Estatísticas de um membro: média, rigor, gêneros, afinidade e tempo assistido")
+      .addUserOption((option) =>
+        option.setName("usuario").setDescription("Membro para ver (padrão: você)").setRequired(false)
+      ),
     new SlashCommandBuilder()
       .setName("remover")
       .setDescription("Remover um filme do histórico (apenas admin)")
@@ -37,7 +43,73 @@ export const registerCommands = async (client: any) => {
       ),
     new SlashCommandBuilder()
       .setName("sessao")
-      .setDescription("Criar uma sessão de cinema para assistir junto"),
+      .setDescription("Criar uma sessão de cinema para assistir junto")
+      .addSubcommand((sub) => sub.setName("agora").setDescription("Cria uma sessão que começa agora"))
+      .addSubcommand((sub) =>
+        sub
+          .setName("agendar")
+          .setDescription("Agenda uma sessão com confirmação de presença")
+          .addStringOption((option) => option.setName("filme").setDescription("Nome do filme ou série").setRequired(true))
+          .addStringOption((option) => option.setName("data").setDescription("Data (DD/MM ou DD/MM/AAAA)").setRequired(true))
+          .addStringOption((option) => option.setName("hora").setDescription("Horário (HH:MM)").setRequired(true))
+          .addIntegerOption((option) => option.setName("temporada").setDescription("Temporada (séries)").setMinValue(0))
+          .addIntegerOption((option) => option.setName("episodio").setDescription("Episódio (séries)").setMinValue(1))
+      ),
+    new SlashCommandBuilder()
+      .setName("votar-filme")
+      .setDescription("Abrir uma votação com filmes da watchlist para decidir o que assistir")
+      .addIntegerOption((option) =>
+        option.setName("quantidade").setDescription("Quantos filmes sortear da watchlist (padrão: 4)").setMinValue(2).setMaxValue(10)
+      )
+      .addIntegerOption((option) =>
+        option.setName("duracao").setDescription("Duração da votação em minutos (padrão: 60)").setMinValue(5).setMaxValue(10080)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("modo")
+          .setDescription("Forma de apuração (padrão: aprovação)")
+          .addChoices({ name: "Aprovação", value: "approval" }, { name: "Ranqueado", value: "ranked" })
+      )
+      .addStringOption((option) =>
+        option.setName("filmes").setDescription("Escolher os filmes da watchlist, separados por vírgula (ignora a quantidade)")
+      ),
+    new SlashCommandBuilder()
+      .setName("escala")
+      .setDescription("Ver ou alterar a escala de notas do servidor")
+      .addIntegerOption((option) =>
+        option
+          .setName("maximo")
+          .setDescription("Nota máxima")
+          .addChoices({ name: "1 a 5", value: 5 }, { name: "1 a 10", value: 10 })
+      )
+      .addNumberOption((option) =>
+        option
+          .setName("passo")
+          .setDescription("Incremento entre notas")
+          .addChoices({ name: "Meio ponto (0.5)", value: 0.5 }, { name: "Inteiro (1)", value: 1 })
+      ),
+    new SlashCommandBuilder()
+      .setName("retrospectiva")
+      .setDescription("Resumo do grupo no ano ou mês: gêneros, melhores, piores, polêmicos e membro mais ativo")
+      .addStringOption((option) =>
+        option
+          .setName("periodo")
+          .setDescription("Retrospectiva do ano ou do mês (padrão: ano)")
+          .setRequired(false)
+          .addChoices({ name: "Ano", value: "ano" }, { name: "Mês", value: "mes" })
+      )
+      .addIntegerOption((option) =>
+        option.setName("ano").setDescription("Ano (padrão: atual)").setRequired(false).setMinValue(2000).setMaxValue(2100)
+      )
+      .addIntegerOption((option) =>
+        option.setName("mes").setDescription("Mês de 1 a 12 (padrão: atual)").setRequired(false).setMinValue(1).setMaxValue(12)
+      )
+      .addBooleanOption((option) =>
+        option.setName("cartao").setDescription("Gerar cartão em imagem (padrão: sim)").setRequired(false)
+      ),
+    new SlashCommandBuilder()
+      .setName("series")
+      .setDescription("Ver as séries em andamento e continuar do próximo episódio"),
     new SlashCommandBuilder()
       .setName("changelog")
       .setDescription("Ver o histórico de atualizações do bot"),
@@ -5,34 +5,43 @@ import {
   TextChannel,
   NewsChannel,
 } from "discord.js";
-import type { SelectedEpisode } from "../../shared/types";
 import db from "../../database";
-import * as playerApi from "../services/player-api";
+import { ADMIN_USER_ID } from "../../config";
+import { launchWatchSession, promptSessionConfirmation, resolveSelectedEpisode } from "../services/session-launcher";
+import { finalizeMoviePoll } from "../services/movie-poll";
+import { closeVoting, resolveVoting } from "../services/voting";
+import { searchMovieTmdb } from "../services/tmdb";
 import {
   buildVotingComponents,
   buildListComponents,
   buildWatchlistComponents,
-  buildSessionComponents,
   buildChangelogComponents,
+  buildScheduledSessionComponents,
+  buildMoviePollComponents,
+  buildReviewModal,
+  buildReviewPromptComponents,
+  buildUserStatsComponents,
 } from "../ui/components";
 import {
   buildMovieVoteEmbed,
   buildListEmbed,
   buildWatchlistEmbed,
-  buildSessionEmbed,
   buildChangelogEmbed,
+  buildScheduledSessionEmbed,
+  buildMoviePollEmbed,
+  buildUserStatsEmbed,
+  USER_STATS_PAGES,
 } from "../ui/embeds";
 import { CHANGELOG_ENTRIES } from "../data/changelog";
-import { toMovieId } from "../utils";
+import { getSessionBlockReason } from "../utils";
+import { CANONICAL_RATING_MAX, formatRating, getCanonicalRatingStep } from "../../shared/rating-scale";
 import {
-  votingCache,
   listCache,
   watchlistCache,
   pendingWatchlistCache,
   pendingSessionCache,
-  activeWatchSession,
-  setActiveWatchSession,
   recCache,
+  statsCache,
 } from "../state";
 
 export const handleButton = async (interaction: ButtonInteraction) => {
@@ -79,7 +88,7 @@ export const handleButton = async (interaction: ButtonInteraction) => {
 
   if (customId.startsWith("vote:")) {
     const [, movieId, scoreRaw] = customId.split(":");
-    const cached = votingCache.get(movieId);
+    const cached = await resolveVoting(movieId);
     if (!cached) {
       await interaction.reply({ content: "❌ Esta votação não está mais ativa.", flags: MessageFlags.Ephemeral });
       return;
@@ -90,56 +99,52 @@ export const handleButton = async (interaction: ButtonInteraction) => {
       return;
     }
 
+    const scale = await db.getGuildRatingScale(interaction.guildId);
     const score = Number(scoreRaw);
+    const step = getCanonicalRatingStep(scale);
+    if (!Number.isFinite(score) || score < step || score > CANONICAL_RATING_MAX) {
+      await interaction.reply({ content: "❌ Nota inválida.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
     await db.addVote(cached.movieKey, interaction.user.id, interaction.member instanceof GuildMember ? interaction.member.displayName : interaction.user.username, score);
 
     const ratings = await db.getMovieRatings(cached.movieKey);
+    const ownRating = ratings.find((rating) => rating.user_id === interaction.user.id);
     const scores = ratings.map((rating) => rating.score);
     const media = scores.reduce((acc, value) => acc + value, 0) / scores.length;
     const totalVotos = ratings.length;
     const totalPermitidos = cached.allowedUsers.length;
 
     await interaction.reply({
-      content: `✅ **Nota Registrada!**\n🎬 **${cached.movieKey}**\n⭐ Sua nota: **${score}/10**\n📊 Média atual: **${media.toFixed(
+      content: `✅ **Nota Registrada!**\n🎬 **${cached.movieKey}**\n⭐ Sua nota: **${formatRating(score, scale)}**\n📊 Média atual: **${formatRating(
+        media,
+        scale,
         1
-      )}/10** (${totalVotos}/${totalPermitidos} votos)`,
+      )}** (${totalVotos}/${totalPermitidos} votos)`,
+      components: ownRating ? buildReviewPromptComponents(ownRating.id) : [],
       flags: MessageFlags.Ephemeral,
     });
 
-    const embed = await buildMovieVoteEmbed(cached.movieKey, cached.tmdbInfo, cached.allowedUsers, interaction.guild);
-    await interaction.message.edit({ embeds: [embed], components: buildVotingComponents(movieId) });
-
     if (totalVotos >= totalPermitidos) {
-      await db.removeActiveVoting(cached.movieKey);
-    }
-    return;
-  }
-
-  if (customId.startsWith("remind:")) {
-    const [, movieId] = customId.split(":");
-    const cached = votingCache.get(movieId);
-    if (!cached) {
-      await interaction.reply({ content: "❌ Esta votação não está mais ativa.", flags: MessageFlags.Ephemeral });
+      await closeVoting(interaction.message, cached);
       return;
     }
 
-    const ratings = await db.getMovieRatings(cached.movieKey);
-    const usuariosVotaram = new Set(ratings.map((rating) => String(rating.user_id)));
-    const usuariosFaltam = cached.allowedUsers.filter((uid: string) => !usuariosVotaram.has(uid));
+    const embed = await buildMovieVoteEmbed(cached.movieKey, cached.tmdbInfo, cached.allowedUsers, interaction.guild, cached.deadline);
+    await interaction.message.edit({ embeds: [embed], components: buildVotingComponents(movieId, scale) });
+    return;
+  }
 
-    if (!usuariosFaltam.length) {
-      await interaction.reply({ content: "✅ **Todos já votaram!** A votação está completa.", flags: MessageFlags.Ephemeral });
+  if (customId.startsWith("review_open:")) {
+    const ratingId = Number(customId.split(":")[1]);
+    const rating = Number.isInteger(ratingId) ? await db.getRatingById(ratingId) : null;
+    if (!rating || rating.user_id !== interaction.user.id) {
+      await interaction.reply({ content: "❌ Dê uma nota para o filme antes de escrever a resenha.", flags: MessageFlags.Ephemeral });
       return;
     }
 
-    const mencoes = usuariosFaltam.map((uid: string) => `<@${uid}>`).join(" ");
-    await interaction.reply({
-      content:
-        `⏳ **Faltam ${usuariosFaltam.length} voto(s)!**\n\n` +
-        `📢 ${mencoes}\n\n` +
-        `👆 Cliquem nos botões acima para votar no filme **${cached.movieKey}**!`,
-      allowedMentions: { users: usuariosFaltam },
-    });
+    await interaction.showModal(buildReviewModal(rating.movie_title, rating));
     return;
   }
 
@@ -156,6 +161,13 @@ export const handleButton = async (interaction: ButtonInteraction) => {
       return;
     }
 
+    const blockReason = getSessionBlockReason(pending.guildId, pending.channelId);
+    if (blockReason) {
+      pendingSessionCache.delete(interaction.message.id);
+      await interaction.update({ content: blockReason, embeds: [], components: [] });
+      return;
+    }
+
     await interaction.update({ content: "⏳ Processando solicitação...", embeds: [], components: [] });
 
     if (!interaction.channel) {
@@ -163,104 +175,122 @@ export const handleButton = async (interaction: ButtonInteraction) => {
       return;
     }
 
-    let publicMessage;
-    try {
-      if (!interaction.channel || !(interaction.channel instanceof TextChannel || interaction.channel instanceof NewsChannel)) {
-        await interaction.editReply({ content: "❌ Erro: Canal inválido (não é um canal de texto de servidor)." });
-        return;
-      }
-      publicMessage = await interaction.channel.send({ content: "⏳ Criando sessão..." });
-    } catch (error) {
-      await interaction.editReply({ content: "❌ Erro ao postar no canal (verifique permissões)." });
+    if (!(interaction.channel instanceof TextChannel || interaction.channel instanceof NewsChannel)) {
+      await interaction.editReply({ content: "❌ Erro: Canal inválido (não é um canal de texto de servidor)." });
       return;
     }
-    let selectedEpisodeInfo: SelectedEpisode | undefined;
-
-    if (pending.tmdbInfo.seasons && pending.selectedSeason && pending.selectedEpisode) {
-      const season = pending.tmdbInfo.seasons.find((s) => s.seasonNumber === pending.selectedSeason);
-      if (season) {
-        const episode = season.episodes.find((ep) => ep.episodeNumber === pending.selectedEpisode);
-        if (episode) {
-          selectedEpisodeInfo = {
-            ...episode,
-            seasonNumber: pending.selectedSeason
-          };
-        }
-      }
-    }
 
-    let displayTitle = pending.tmdbInfo.title;
-    if (selectedEpisodeInfo && selectedEpisodeInfo.seasonNumber) {
-      displayTitle += ` - T${selectedEpisodeInfo.seasonNumber}E${selectedEpisodeInfo.episodeNumber}`;
+    const launch = await launchWatchSession({
+      channel: interaction.channel,
+      guildId: pending.guildId,
+      hostId: pending.hostId,
+      hostUsername: pending.hostUsername,
+      tmdbInfo: pending.tmdbInfo,
+      selectedEpisode: resolveSelectedEpisode(pending.tmdbInfo, pending.selectedSeason, pending.selectedEpisode),
+    });
+
+    if (!launch.ok) {
+      await interaction.editReply({
+        content: launch.reason === "post_failed"
+          ? "❌ Erro ao postar no canal (verifique permissões)."
+          : "❌ Erro ao criar sessão. O servidor pode estar offline.",
+      });
+      pendingSessionCache.delete(interaction.message.id);
+      return;
     }
 
-    const result = await playerApi.createDiscordSession({
-      movieName: displayTitle,
-      movieInfo: {
-        id: pending.tmdbInfo.id,
-        title: pending.tmdbInfo.title,
-        overview: pending.tmdbInfo.overview,
-        posterUrl: pending.tmdbInfo.poster_url,
-        backdropUrl: null,
-        releaseDate: pending.tmdbInfo.release_date,
-        voteAverage: pending.tmdbInfo.vote_average,
-        genres: pending.tmdbInfo.genres,
-        mediaType: pending.tmdbInfo.media_type,
-        seasons: pending.tmdbInfo.seasons,
-      },
-      discordSession: {
-        channelId: pending.channelId,
-        messageId: publicMessage.id,
-        guildId: pending.guildId,
-        hostDiscordId: pending.hostId,
-        hostUsername: pending.hostUsername
-      },
-      selectedEpisode: selectedEpisodeInfo,
+    await interaction.editReply({
+      content: `✅ **Sessão criada!**\nO painel de controle foi enviado no canal <#${pending.channelId}>.`
     });
 
-    if (!result) {
-      await publicMessage.delete().catch(() => { });
-      await interaction.editReply({ content: "❌ Erro ao criar sessão. O servidor pode estar offline." });
-      pendingSessionCache.delete(interaction.message.id);
+    pendingSessionCache.delete(interaction.message.id);
+    return;
+  }
+
+  if (customId.startsWith("schedule_rsvp:")) {
+    const [, sessionIdRaw, answer] = customId.split(":");
+    const session = await db.getScheduledSession(Number(sessionIdRaw));
+    if (!session || session.status !== "scheduled") {
+      await interaction.reply({ content: "❌ Esta sessão agendada não está mais aberta.", flags: MessageFlags.Ephemeral });
       return;
     }
 
-    setActiveWatchSession({
-      roomId: result.roomId,
-      hostToken: result.hostToken,
-      hostDiscordId: pending.hostId,
-      channelId: pending.channelId,
-      messageId: publicMessage.id,
-      guildId: pending.guildId,
-      movieName: displayTitle,
-      tmdbInfo: pending.tmdbInfo,
-      selectedEpisode: selectedEpisodeInfo,
-      hostUsername: pending.hostUsername,
-      createdAt: Date.now()
+    const userName = interaction.member instanceof GuildMember ? interaction.member.displayName : interaction.user.username;
+    await db.setScheduledSessionRsvp(session.id, interaction.user.id, userName, answer === "yes");
+
+    const rsvps = await db.getScheduledSessionRsvps(session.id);
+    await interaction.update({
+      embeds: [buildScheduledSessionEmbed(session, rsvps)],
+      components: buildScheduledSessionComponents(session.id),
     });
+    return;
+  }
 
-    const embed = buildSessionEmbed(
-      displayTitle,
-      pending.tmdbInfo,
-      "waiting",
-      pending.hostUsername,
-      0,
-      [],
-      selectedEpisodeInfo,
-      Date.now()
-    );
+  if (customId.startsWith("schedule_cancel:")) {
+    const session = await db.getScheduledSession(Number(customId.split(":")[1]));
+    if (!session || session.status !== "scheduled") {
+      await interaction.reply({ content: "❌ Esta sessão agendada não está mais aberta.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (interaction.user.id !== session.hostId && interaction.user.id !== ADMIN_USER_ID) {
+      await interaction.reply({ content: "❌ Apenas quem agendou pode cancelar a sessão.", flags: MessageFlags.Ephemeral });
+      return;
+    }
 
-    await publicMessage.edit({
-      content: null,
-      embeds: [embed],
-      components: buildSessionComponents(result.roomId, "waiting", playerApi.getPlayerUrl()),
+    await db.updateScheduledSessionStatus(session.id, "cancelled");
+    const rsvps = await db.getScheduledSessionRsvps(session.id);
+    await interaction.update({
+      content: "❌ Sessão agendada cancelada.",
+      embeds: [buildScheduledSessionEmbed({ ...session, status: "cancelled" }, rsvps)],
+      components: buildScheduledSessionComponents(session.id, true),
     });
+    return;
+  }
 
-    await interaction.editReply({
-      content: `✅ **Sessão criada!**\nO painel de controle foi enviado no canal <#${pending.channelId}>.`
+  if (customId.startsWith("movie_poll_close:")) {
+    const poll = await db.getMoviePoll(Number(customId.split(":")[1]));
+    if (!poll || poll.status !== "open") {
+      await interaction.reply({ content: "❌ Esta votação já foi encerrada.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (interaction.user.id !== poll.createdBy && interaction.user.id !== ADMIN_USER_ID) {
+      await interaction.reply({ content: "❌ Apenas quem criou a votação pode encerrá-la.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const { poll: closedPoll, tally } = await finalizeMoviePoll(poll);
+    await interaction.update({
+      embeds: [buildMoviePollEmbed(closedPoll, tally)],
+      components: buildMoviePollComponents(closedPoll),
     });
+    return;
+  }
 
-    pendingSessionCache.delete(interaction.message.id);
+  if (customId.startsWith("movie_poll_session:")) {
+    const poll = await db.getMoviePoll(Number(customId.split(":")[1]));
+    const winner = poll && poll.winnerIndex !== null ? poll.options[poll.winnerIndex] : null;
+    if (!winner) {
+      await interaction.reply({ content: "❌ Esta votação não tem vencedor.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const blockReason = getSessionBlockReason(interaction.guildId, interaction.channelId);
+    if (blockReason) {
+      await interaction.reply({ content: blockReason, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const tmdbInfo = await searchMovieTmdb(winner.title);
+    if (!tmdbInfo) {
+      await interaction.followUp({ content: `❌ Filme **${winner.title}** não encontrado no TMDB.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await promptSessionConfirmation(interaction, tmdbInfo);
     return;
   }
 
@@ -279,7 +309,7 @@ export const handleButton = async (interaction: ButtonInteraction) => {
       return;
     }
 
-    const embed = buildListEmbed(cached.movies, nextPage, cached.botAvatarUrl);
+    const embed = buildListEmbed(cached.movies, nextPage, cached.botAvatarUrl, await db.getGuildRatingScale(interaction.guildId));
     const components = buildListComponents(cached.movies, nextPage);
     cached.page = nextPage;
 
@@ -312,6 +342,27 @@ export const handleButton = async (interaction: ButtonInteraction) => {
     return;
   }
 
+  if (customId.startsWith("stats_nav:")) {
+    const cached = statsCache.get(interaction.message.id);
+    if (!cached) {
+      await interaction.reply({ content: "❌ Estas estatísticas expiraram. Use /stats novamente.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const page = parseInt(customId.split(":")[1], 10);
+    if (isNaN(page) || page < 0 || page >= USER_STATS_PAGES.length) {
+      await interaction.deferUpdate();
+      return;
+    }
+
+    const scale = await db.getGuildRatingScale(interaction.guildId);
+    const embed = buildUserStatsEmbed(cached.stats, page, scale).setThumbnail(cached.avatarUrl);
+    cached.page = page;
+
+    await interaction.update({ embeds: [embed], components: buildUserStatsComponents(page, USER_STATS_PAGES.length) });
+    return;
+  }
+
   if (customId.startsWith("changelog_nav:")) {
     const pageIndex = parseInt(customId.split(":")[1], 10);
     if (isNaN(pageIndex) || pageIndex < 0 || pageIndex >= CHANGELOG_ENTRIES.length) {
@@ -1,5 +1,6 @@
 import {
   ActionRowBuilder,
+  AttachmentBuilder,
   ChatInputCommandInteraction,
   EmbedBuilder,
   GuildMember,
@@ -7,12 +8,21 @@ import {
   TextInputBuilder,
   TextInputStyle,
   MessageFlags,
+  NewsChannel,
+  PermissionFlagsBits,
+  TextChannel,
 } from "discord.js";
 import db from "../../database";
 import { ADMIN_USER_ID } from "../../config";
 import { searchMovieTmdb } from "../services/tmdb";
 import { searchTrailerYoutube } from "../services/youtube";
 import { buildRecommendations } from "../services/recommendations";
+import { resolveSelectedEpisode } from "../services/session-launcher";
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, tallyMoviePoll } from "../services/movie-poll";
+import { getGuildSeriesEntries } from "../services/series-progress";
+import { getUserStats } from "../services/user-stats";
+import { getGroupRecap, resolveRecapPeriod, type RecapPeriodKind } from "../services/recap";
+import { renderRecapCard } from "../services/recap-card";
 import {
   buildListComponents,
   buildWatchlistComponents,
@@ -20,12 +30,25 @@ import {
   buildConfirmRow,
   buildRecommendationModal,
   buildChangelogComponents,
+  buildScheduledSessionComponents,
+  buildMoviePollComponents,
+  buildSeriesProgressComponents,
+  buildUserStatsComponents,
 } from "../ui/components";
 import {
   buildListEmbed,
   buildWatchlistEmbed,
   buildRecommendationsListEmbed,
   buildChangelogEmbed,
+  buildScheduledSessionEmbed,
+  buildMoviePollEmbed,
+  buildSeriesProgressEmbed,
+  buildUserStatsEmbed,
+  buildRecapEmbed,
+  formatReviewsField,
+  formatTimelineMoments,
+  RECAP_CARD_FILENAME,
+  USER_STATS_PAGES,
 } from "../ui/embeds";
 import { CHANGELOG_ENTRIES } from "../data/changelog";
 import {
@@ -35,8 +58,15 @@ import {
   pendingWatchlistCache,
   pendingRemovalCache,
   pendingSessionCache,
-  activeWatchSession,
+  statsCache,
 } from "../state";
+import { getSessionBlockReason, parseScheduleDateTime } from "../utils";
+import {
+  formatRating,
+  fromCanonicalRating,
+  getRatingScaleValues,
+  normalizeRatingScale,
+} from "../../shared/rating-scale";
 
 type CommandHandler = (interaction: ChatInputCommandInteraction) => Promise<void>;
 
@@ -61,6 +91,16 @@ async function handleHelp(interaction: ChatInputCommandInteraction): Promise<voi
         value: "Veja suas próprias avaliações e sua média pessoal.",
         inline: false,
       },
+      {
+        name: "📊 /stats `usuario`",
+        value: "Média, rigor comparado ao grupo, gêneros favoritos, afinidade com cada membro, horas assistidas e sequência de semanas.",
+        inline: false,
+      },
+      {
+        name: "🎞️ /retrospectiva `periodo` `ano` `mes`",
+        value: "Retrospectiva do grupo no ano ou mês: gêneros mais vistos, melhores e piores, o mais polêmico e o membro mais ativo, com cartão em imagem.",
+        inline: false,
+      },
       {
         name: "🤖 /recomendar",
         value: "Receba recomendações de filmes baseadas no histórico do grupo. Quantidade e gênero são opcionais.",
@@ -80,6 +120,31 @@ async function handleHelp(interaction: ChatInputCommandInteraction): Promise<voi
         name: "🗑️ /watchlist remover `filme`",
         value: "Remove um filme da watchlist.",
         inline: false,
+      },
+      {
+        name: "🎬 /sessao agora",
+        value: "Cria uma sessão para assistir junto que começa imediatamente.",
+        inline: false,
+      },
+      {
+        name: "📅 /sessao agendar `filme` `data` `hora`",
+        value: "Agenda uma sessão com confirmação de presença. Quem confirmar recebe um lembrete e a sala é criada no horário.",
+        inline: false,
+      },
+      {
+        name: "⭐ /escala `maximo` `passo`",
+        value: "Mostra ou altera a escala de notas do servidor (1 a 5 ou 1 a 10, com ou sem meio ponto).",
+        inline: false,
+      },
+      {
+        name: "🗳️ /votar-filme",
+        value: "Abre uma votação com filmes da watchlist (sorteados ou escolhidos) por aprovação ou ranqueada. O vencedor pode virar sessão na hora.",
+        inline: false,
+      },
+      {
+        name: "📺 /series",
+        value: "Lista as séries em andamento no servidor com o próximo episódio. Escolha uma para criar a sessão já nele.",
+        inline: false,
       }
     );
 
@@ -91,10 +156,11 @@ async function handleHelp(interaction: ChatInputCommandInteraction): Promise<voi
   await interaction.reply({ embeds: [embed] });
 }
 
-async function handleSessao(interaction: ChatInputCommandInteraction): Promise<void> {
-  if (activeWatchSession) {
+async function handleSessaoAgora(interaction: ChatInputCommandInteraction): Promise<void> {
+  const blockReason = getSessionBlockReason(interaction.guildId, interaction.channelId);
+  if (blockReason) {
     await interaction.reply({
-      content: "❌ Já existe uma sessão ativa! Aguarde ela terminar antes de criar outra.",
+      content: blockReason,
       flags: MessageFlags.Ephemeral,
     });
     return;
@@ -116,6 +182,186 @@ async function handleSessao(interaction: ChatInputCommandInteraction): Promise<v
   await interaction.showModal(modal);
 }
 
+async function handleSessaoAgendar(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.reply({ content: "❌ Sessões só podem ser agendadas dentro de um servidor.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const channel = interaction.channel;
+  if (!(channel instanceof TextChannel || channel instanceof NewsChannel)) {
+    await interaction.reply({ content: "❌ Sessões só podem ser agendadas em canais de texto.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const filme = interaction.options.getString("filme", true);
+  const scheduledAt = parseScheduleDateTime(
+    interaction.options.getString("data", true),
+    interaction.options.getString("hora", true)
+  );
+
+  if (!scheduledAt) {
+    await interaction.reply({
+      content: "❌ Data ou hora inválida. Use `DD/MM` (ou `DD/MM/AAAA`) e `HH:MM`.",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  if (scheduledAt.getTime() <= Date.now()) {
+    await interaction.reply({ content: "❌ O horário informado já passou.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply();
+
+  const tmdbInfo = await searchMovieTmdb(filme);
+  if (!tmdbInfo) {
+    await interaction.editReply({ content: `❌ Filme **${filme}** não encontrado no TMDB.` });
+    return;
+  }
+
+  const seasonNumber = interaction.options.getInteger("temporada");
+  const episodeNumber = interaction.options.getInteger("episodio");
+  const selectedEpisode = resolveSelectedEpisode(tmdbInfo, seasonNumber, episodeNumber);
+  if (tmdbInfo.media_type === "tv" && (seasonNumber !== null || episodeNumber !== null) && !selectedEpisode) {
+    await interaction.editReply({
+      content: `❌ Episódio T${seasonNumber ?? "?"}E${episodeNumber ?? "?"} não encontrado em **${tmdbInfo.title}**.`,
+    });
+    return;
+  }
+
+  const sessionId = await db.createScheduledSession({
+    guildId: interaction.guildId,
+    channelId: channel.id,
+    hostId: interaction.user.id,
+    hostUsername: interaction.member instanceof GuildMember
+      ? interaction.member.displayName
+      : interaction.user.username,
+    tmdbInfo,
+    selectedEpisode,
+    scheduledAt,
+  });
+  await db.setScheduledSessionRsvp(sessionId, interaction.user.id, interaction.user.username, true);
+
+  const session = await db.getScheduledSession(sessionId);
+  const rsvps = await db.getScheduledSessionRsvps(sessionId);
+  if (!session) return;
+
+  const message = await interaction.editReply({
+    content: `📅 ${interaction.user} agendou uma sessão! Confirme sua presença:`,
+    embeds: [buildScheduledSessionEmbed(session, rsvps)],
+    components: buildScheduledSessionComponents(sessionId),
+  });
+  await db.setScheduledSessionMessage(sessionId, message.id);
+}
+
+async function handleSessao(interaction: ChatInputCommandInteraction): Promise<void> {
+  const sub = interaction.options.getSubcommand(false);
+  if (sub === "agendar") {
+    await handleSessaoAgendar(interaction);
+    return;
+  }
+  await handleSessaoAgora(interaction);
+}
+
+async function handleVotarFilme(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.reply({ content: "❌ Votações só podem ser criadas dentro de um servidor.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const quantidade = interaction.options.getInteger("quantidade") ?? 4;
+  const duracao = interaction.options.getInteger("duracao") ?? 60;
+  const mode = interaction.options.getString("modo") === "ranked" ? "ranked" : "approval";
+  const filmes = interaction.options.getString("filmes");
+
+  let items;
+  if (filmes) {
+    const titles = [...new Set(filmes.split(",").map((title) => title.trim()).filter(Boolean))];
+    const found = await Promise.all(titles.map((title) => db.findWatchlistItemByTitle(title)));
+    const missing = titles.filter((_, index) => !found[index]);
+    if (missing.length) {
+      await interaction.reply({
+        content: `❌ Não encontrei na watchlist: ${missing.map((title) => `**${title}**`).join(", ")}.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    items = found.filter((item) => item !== null);
+  } else {
+    items = await db.getRandomWatchlistItems(quantidade);
+  }
+
+  if (items.length < MIN_POLL_OPTIONS || items.length > MAX_POLL_OPTIONS) {
+    await interaction.reply({
+      content: `❌ A votação precisa de ${MIN_POLL_OPTIONS} a ${MAX_POLL_OPTIONS} filmes da watchlist (encontrados: ${items.length}).`,
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
+  const pollId = await db.createMoviePoll({
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    createdBy: interaction.user.id,
+    createdByName: interaction.member instanceof GuildMember
+      ? interaction.member.displayName
+      : interaction.user.username,
+    mode,
+    options: items.map((item) => ({
+      watchlistId: item.id,
+      title: item.title,
+      tmdbId: item.tmdb_id,
+      posterUrl: item.poster_url,
+    })),
+    deadline: new Date(Date.now() + duracao * 60 * 1000),
+  });
+
+  const poll = await db.getMoviePoll(pollId);
+  if (!poll) return;
+
+  await interaction.reply({
+    embeds: [buildMoviePollEmbed(poll, tallyMoviePoll(poll, []))],
+    components: buildMoviePollComponents(poll),
+  });
+  const message = await interaction.fetchReply();
+  await db.setMoviePollMessage(pollId, message.id);
+}
+
+async function handleEscala(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.reply({ content: "❌ A escala de notas é configurada por servidor.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const current = await db.getGuildRatingScale(interaction.guildId);
+  const maximo = interaction.options.getInteger("maximo");
+  const passo = interaction.options.getNumber("passo");
+
+  const describe = (scale: typeof current) =>
+    `**1 a ${scale.max}**, passo de **${scale.step}** (${getRatingScaleValues(scale).length} notas possíveis)`;
+
+  if (maximo === null && passo === null) {
+    await interaction.reply({ content: `⭐ Escala atual: ${describe(current)}`, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const canManage = interaction.user.id === ADMIN_USER_ID || interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild);
+  if (!canManage) {
+    await interaction.reply({ content: "❌ Apenas quem gerencia o servidor pode alterar a escala.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  const scale = normalizeRatingScale({ max: maximo ?? current.max, step: passo ?? current.step });
+
+  await db.setGuildRatingScale(interaction.guildId, scale);
+  await interaction.reply({
+    content: `✅ Escala de notas atualizada: ${describe(scale)}.\nAs notas antigas são convertidas automaticamente.`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
 async function handlePesquisar(interaction: ChatInputCommandInteraction): Promise<void> {
   await interaction.deferReply();
   const filme = interaction.options.getString("filme", true);
@@ -150,6 +396,21 @@ async function handlePesquisar(interaction: ChatInputCommandInteraction): Promis
     embed.addFields({ name: "🎭 Gêneros", value: tmdbInfo.genres.join(", "), inline: false });
   }
 
+  const reviews = formatReviewsField(
+    await db.getMovieReviews(tmdbInfo.title, tmdbInfo.id),
+    await db.getGuildRatingScale(interaction.guildId)
+  );
+  if (reviews) {
+    embed.addFields({ name: "💬 Resenhas do grupo", value: reviews, inline: false });
+  }
+
+  const timeline = await db.getMovieTimeline(tmdbInfo.title, tmdbInfo.id);
+  const moments = formatTimelineMoments(timeline.buckets);
+  if (moments) {
+    const sessions = timeline.sessionsCount === 1 ? "1 sessão" : `${timeline.sessionsCount} sessões`;
+    embed.addFields({ name: `✨ Momentos marcantes (${sessions})`, value: moments, inline: false });
+  }
+
   const trailerUrl = await searchTrailerYoutube(tmdbInfo.title, year);
   if (trailerUrl) {
     embed.addFields({ name: "🎥 Trailer", value: `[Assistir no YouTube](${trailerUrl})`, inline: false });
@@ -172,7 +433,8 @@ async function handleListar(interaction: ChatInputCommandInteraction): Promise<v
   });
 
   const page = 0;
-  const embed = buildListEmbed(filmes, page, interaction.client.user?.displayAvatarURL());
+  const scale = await db.getGuildRatingScale(interaction.guildId);
+  const embed = buildListEmbed(filmes, page, interaction.client.user?.displayAvatarURL(), scale);
   const components = buildListComponents(filmes, page);
   await interaction.editReply({ embeds: [embed], components });
   const message = await interaction.fetchReply();
@@ -279,19 +541,33 @@ async function handleMinhasAvaliacoes(interaction: ChatInputCommandInteraction):
   const filmes = await db.getAllMoviesWithRatings();
   const userId = String(interaction.user.id);
 
-  const minhasNotas: { filme: string; nota: number; media: number; poster: string | null }[] = [];
+  const average = (values: number[]) => values.reduce((acc, value) => acc + value, 0) / values.length;
+  const minhasNotas: {
+    filme: string;
+    nota: number;
+    media: number;
+    poster: string | null;
+    temporadas: { numero: number; nota: number; episodios: number }[];
+  }[] = [];
   filmes.forEach((filme) => {
-    const avaliacao = filme.avaliacoes.find((av) => av.user_id === userId);
-    if (avaliacao) {
-      const notasFilme = filme.avaliacoes.map((av) => av.score);
-      const mediaFilme = notasFilme.reduce((acc, value) => acc + value, 0) / notasFilme.length;
-      minhasNotas.push({
-        filme: filme.title,
-        nota: avaliacao.score,
-        media: mediaFilme,
-        poster: filme.poster_url,
-      });
-    }
+    // Em séries a nota do usuário é a média dos episódios que ele avaliou
+    const minhasAvaliacoes = filme.avaliacoes.filter((av) => av.user_id === userId);
+    if (!minhasAvaliacoes.length) return;
+
+    const temporadas = (filme.seasons ?? []).flatMap((season) => {
+      const notasTemporada = season.avaliacoes.filter((av) => av.user_id === userId).map((av) => av.score);
+      return notasTemporada.length
+        ? [{ numero: season.seasonNumber, nota: average(notasTemporada), episodios: notasTemporada.length }]
+        : [];
+    });
+
+    minhasNotas.push({
+      filme: filme.isSeries ? `${filme.title} (Série)` : filme.title,
+      nota: average(minhasAvaliacoes.map((av) => av.score)),
+      media: average(filme.avaliacoes.map((av) => av.score)),
+      poster: filme.poster_url,
+      temporadas,
+    });
   });
 
   if (!minhasNotas.length) {
@@ -300,6 +576,7 @@ async function handleMinhasAvaliacoes(interaction: ChatInputCommandInteraction):
   }
 
   minhasNotas.sort((a, b) => b.nota - a.nota);
+  const scale = await db.getGuildRatingScale(interaction.guildId);
 
   const embed = new EmbedBuilder()
     .setTitle(`🎬 Avaliações de ${interaction.member instanceof GuildMember ? interaction.member.displayName : interaction.user.username}`)
@@ -309,16 +586,22 @@ async function handleMinhasAvaliacoes(interaction: ChatInputCommandInteraction):
   const notasTexto = minhasNotas
     .slice(0, 15)
     .map((item) => {
-      const diff = item.nota - item.media;
+      const diff = fromCanonicalRating(item.nota - item.media, scale);
       const diffStr = diff > 0 ? `(+${diff.toFixed(1)})` : diff < 0 ? `(${diff.toFixed(1)})` : "(=)";
-      return `**${item.filme}**: ⭐ ${item.nota}/10 ${diffStr}`;
+      const temporadasStr = item.temporadas.length > 1
+        ? item.temporadas
+            .map((temporada) => `\n  ↳ T${temporada.numero}: ${formatRating(temporada.nota, scale, 1)} (${temporada.episodios} eps)`)
+            .join("")
+        : "";
+      return `**${item.filme}**: ⭐ ${formatRating(item.nota, scale)} ${diffStr}${temporadasStr}`;
     })
-    .join("\n");
+    .join("\n")
+    .slice(0, 1024);
 
   embed.addFields({ name: "📊 Suas Notas", value: notasTexto || "Nenhuma", inline: false });
 
   const mediaPessoal = minhasNotas.reduce((acc, value) => acc + value.nota, 0) / minhasNotas.length;
-  embed.addFields({ name: "📈 Sua Média Geral", value: `**${mediaPessoal.toFixed(1)}/10**`, inline: true });
+  embed.addFields({ name: "📈 Sua Média Geral", value: `**${formatRating(mediaPessoal, scale, 1)}**`, inline: true });
 
   const posters = minhasNotas.map((item) => item.poster).filter(Boolean);
   if (posters.length) {
@@ -329,6 +612,53 @@ async function handleMinhasAvaliacoes(interaction: ChatInputCommandInteraction):
   await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
 }
 
+async function handleStats(interaction: ChatInputCommandInteraction): Promise<void> {
+  const target = interaction.options.getUser("usuario") ?? interaction.user;
+  const member = interaction.options.getMember("usuario") ?? interaction.member;
+  const displayName = member instanceof GuildMember ? member.displayName : target.username;
+
+  await interaction.deferReply();
+
+  const stats = await getUserStats(target.id, displayName);
+  if (!stats) {
+    await interaction.editReply({
+      content: target.id === interaction.user.id
+        ? "❌ Você ainda não avaliou nenhum filme!"
+        : `❌ **${displayName}** ainda não avaliou nenhum filme!`,
+    });
+    return;
+  }
+
+  const page = 0;
+  const scale = await db.getGuildRatingScale(interaction.guildId);
+  const avatarUrl = target.displayAvatarURL();
+  const embed = buildUserStatsEmbed(stats, page, scale).setThumbnail(avatarUrl);
+  const components = buildUserStatsComponents(page, USER_STATS_PAGES.length);
+  await interaction.editReply({ embeds: [embed], components });
+  const message = await interaction.fetchReply();
+
+  statsCache.set(message.id, { stats, page, avatarUrl });
+}
+
+async function handleRetrospectiva(interaction: ChatInputCommandInteraction): Promise<void> {
+  const month = interaction.options.getInteger("mes");
+  // Informar o mês já implica retrospectiva mensal
+  const kind = (interaction.options.getString("periodo") ?? (month ? "mes" : "ano")) as RecapPeriodKind;
+  const period = resolveRecapPeriod(kind, interaction.options.getInteger("ano"), month);
+
+  await interaction.deferReply();
+
+  const recap = await getGroupRecap(period);
+  const scale = await db.getGuildRatingScale(interaction.guildId);
+  const wantsCard = interaction.options.getBoolean("cartao") ?? true;
+  const card = wantsCard && recap.sessionsCount ? await renderRecapCard(recap, scale) : null;
+
+  await interaction.editReply({
+    embeds: [buildRecapEmbed(recap, scale, !!card)],
+    files: card ? [new AttachmentBuilder(card, { name: RECAP_CARD_FILENAME })] : [],
+  });
+}
+
 async function handleRemover(interaction: ChatInputCommandInteraction): Promise<void> {
   if (interaction.user.id !== ADMIN_USER_ID) {
     await interaction.reply({ content: "❌ Apenas o administrador pode remover filmes!", flags: MessageFlags.Ephemeral });
@@ -369,6 +699,21 @@ async function handleRecomendar(interaction: ChatInputCommandInteraction): Promi
   await interaction.showModal(buildRecommendationModal());
 }
 
+async function handleSeries(interaction: ChatInputCommandInteraction): Promise<void> {
+  if (!interaction.guildId) {
+    await interaction.reply({ content: "❌ Este comando só pode ser usado em servidores.", flags: MessageFlags.Ephemeral });
+    return;
+  }
+
+  await interaction.deferReply();
+
+  const entries = await getGuildSeriesEntries(interaction.guildId);
+  await interaction.editReply({
+    embeds: [buildSeriesProgressEmbed(entries)],
+    components: buildSeriesProgressComponents(entries),
+  });
+}
+
 async function handleChangelog(interaction: ChatInputCommandInteraction): Promise<void> {
   const pageIndex = 0;
   const entry = CHANGELOG_ENTRIES[pageIndex];
@@ -380,12 +725,17 @@ async function handleChangelog(interaction: ChatInputCommandInteraction): Promis
 const handlers: Record<string, CommandHandler> = {
   help: handleHelp,
   sessao: handleSessao,
+  "votar-filme": handleVotarFilme,
+  escala: handleEscala,
   pesquisar: handlePesquisar,
   listar: handleListar,
   watchlist: handleWatchlist,
   minhasavaliacoes: handleMinhasAvaliacoes,
+  stats: handleStats,
+  retrospectiva: handleRetrospectiva,
   remover: handleRemover,
   recomendar: handleRecomendar,
+  series: handleSeries,
   changelog: handleChangelog,
 };
 
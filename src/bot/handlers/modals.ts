@@ -1,16 +1,17 @@
-import { GuildMember, ModalSubmitInteraction, MessageFlags } from "discord.js";
+import { ModalSubmitInteraction, MessageFlags } from "discord.js";
 import db from "../../database";
 import { searchMovieTmdb } from "../services/tmdb";
 import { buildRecommendations } from "../services/recommendations";
 import {
   pendingWatchlistCache,
   pendingRemovalCache,
-  pendingSessionCache,
-  activeWatchSession,
   recCache,
 } from "../state";
-import { buildRecommendationLoadingEmbed, buildRecommendationsListEmbed, buildSessionEmbed } from "../ui/embeds";
-import { buildEpisodeSelectComponents, buildRecommendationSelectComponents, buildSessionConfirmComponents } from "../ui/components";
+import { getSessionBlockReason } from "../utils";
+import { MAX_REVIEW_LENGTH } from "../../shared/rating-scale";
+import { promptSessionConfirmation } from "../services/session-launcher";
+import { buildRecommendationLoadingEmbed, buildRecommendationsListEmbed } from "../ui/embeds";
+import { buildRecommendationSelectComponents } from "../ui/components";
 
 export const handleModalSubmit = async (interaction: ModalSubmitInteraction) => {
   if (interaction.customId === "recommend_modal") {
@@ -69,10 +70,31 @@ export const handleModalSubmit = async (interaction: ModalSubmitInteraction) =>
     return;
   }
 
+  if (interaction.customId.startsWith("review_modal:")) {
+    const ratingId = Number(interaction.customId.split(":")[1]);
+    const review = interaction.fields.getTextInputValue("review_text").trim().slice(0, MAX_REVIEW_LENGTH) || null;
+    const spoiler = interaction.fields.getStringSelectValues("review_spoiler")[0] === "yes";
+
+    const saved = Number.isInteger(ratingId) && await db.setRatingReview(ratingId, interaction.user.id, review, spoiler);
+    if (!saved) {
+      await interaction.reply({ content: "❌ Não encontrei sua nota para este filme.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.reply({
+      content: review
+        ? `✅ Resenha salva${spoiler ? " (marcada como spoiler)" : ""}!`
+        : "🗑️ Resenha removida.",
+      flags: MessageFlags.Ephemeral,
+    });
+    return;
+  }
+
   if (interaction.customId === "session_create") {
-    if (activeWatchSession) {
+    const blockReason = getSessionBlockReason(interaction.guildId, interaction.channelId ?? "");
+    if (blockReason) {
       await interaction.reply({
-        content: "❌ Já existe uma sessão ativa! Aguarde ela terminar antes de criar outra.",
+        content: blockReason,
         flags: MessageFlags.Ephemeral,
       });
       return;
@@ -88,46 +110,7 @@ export const handleModalSubmit = async (interaction: ModalSubmitInteraction) =>
       return;
     }
 
-    const isSeries = tmdbInfo.media_type === "tv";
-    const embed = buildSessionEmbed(tmdbInfo.title, tmdbInfo, "waiting", interaction.user.username, 0, []);
-    embed.setDescription(`*${tmdbInfo.overview?.slice(0, 200) || ""}...*\n\n🎦 **Host:** ${interaction.user}`);
-
-    if (isSeries && tmdbInfo.seasons?.length) {
-      const components = buildEpisodeSelectComponents(tmdbInfo.seasons);
-      const message = await interaction.followUp({
-        content: "📺 Selecione a temporada e episódio:",
-        embeds: [embed],
-        components,
-      });
-
-      pendingSessionCache.set(message.id, {
-        tmdbInfo,
-        hostId: interaction.user.id,
-        hostUsername: interaction.member instanceof GuildMember
-          ? interaction.member.displayName
-          : interaction.user.username,
-        channelId: interaction.channelId ?? "",
-        guildId: interaction.guildId ?? "",
-      });
-      return;
-    }
-
-    const components = buildSessionConfirmComponents();
-    const message = await interaction.followUp({
-      content: "🎬 Confirma a criação da sessão?",
-      embeds: [embed],
-      components,
-    });
-
-    pendingSessionCache.set(message.id, {
-      tmdbInfo,
-      hostId: interaction.user.id,
-      hostUsername: interaction.member instanceof GuildMember
-        ? interaction.member.displayName
-        : interaction.user.username,
-      channelId: interaction.channelId ?? "",
-      guildId: interaction.guildId ?? "",
-    });
+    await promptSessionConfirmation(interaction, tmdbInfo);
     return;
   }
 
@@ -1,9 +1,58 @@
-import { AnySelectMenuInteraction, MessageFlags } from "discord.js";
-import { buildEpisodeSelectComponents } from "../ui/components";
-import { buildMovieDetailEmbed, buildRecommendationDetailEmbed } from "../ui/embeds";
+import { AnySelectMenuInteraction, GuildMember, MessageFlags } from "discord.js";
+import db from "../../database";
+import { getRankedPositions, tallyMoviePoll } from "../services/movie-poll";
+import { resolveSeriesProgress } from "../services/series-progress";
+import { promptSessionConfirmation } from "../services/session-launcher";
+import { buildEpisodeSelectComponents, buildMoviePollComponents } from "../ui/components";
+import { buildMovieDetailEmbed, buildMoviePollEmbed, buildRecommendationDetailEmbed } from "../ui/embeds";
 import { listCache, pendingSessionCache, recCache } from "../state";
+import { getSessionBlockReason } from "../utils";
 
 export const handleSelectMenu = async (interaction: AnySelectMenuInteraction) => {
+  if (interaction.customId.startsWith("movie_poll_approve:") || interaction.customId.startsWith("movie_poll_rank:")) {
+    const [kind, pollIdRaw, positionRaw] = interaction.customId.split(":");
+    const poll = await db.getMoviePoll(Number(pollIdRaw));
+    if (!poll || poll.status !== "open" || poll.deadline.getTime() <= Date.now()) {
+      await interaction.reply({ content: "❌ Esta votação já foi encerrada.", flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const selected = interaction.values.map(Number).filter((index) => index >= 0 && index < poll.options.length);
+    let choices: (number | null)[];
+
+    if (kind === "movie_poll_rank") {
+      const position = Number(positionRaw);
+      const ballots = await db.getMoviePollBallots(poll.id);
+      const previous = ballots.find((ballot) => ballot.userId === interaction.user.id)?.choices ?? [];
+      // Um filme ocupa só uma posição: escolher de novo move ele para a nova posição
+      choices = Array.from({ length: getRankedPositions(poll) }, (_, i) =>
+        previous[i] === selected[0] ? null : previous[i] ?? null
+      );
+      choices[position] = selected[0] ?? null;
+    } else {
+      choices = selected;
+    }
+
+    const userName = interaction.member instanceof GuildMember ? interaction.member.displayName : interaction.user.username;
+    await db.setMoviePollBallot(poll.id, interaction.user.id, userName, choices);
+
+    const ballots = await db.getMoviePollBallots(poll.id);
+    await interaction.update({
+      embeds: [buildMoviePollEmbed(poll, tallyMoviePoll(poll, ballots))],
+      components: buildMoviePollComponents(poll),
+    });
+
+    const summary = kind === "movie_poll_rank"
+      ? choices
+        .map((choice, i) => `${i + 1}ª: ${choice !== null ? poll.options[choice]?.title : "—"}`)
+        .join("\n")
+      : choices.length
+        ? choices.map((choice) => `• ${poll.options[choice!]?.title}`).join("\n")
+        : "Nenhum filme aprovado.";
+    await interaction.followUp({ content: `🗳️ **Seu voto:**\n${summary}`, flags: MessageFlags.Ephemeral });
+    return;
+  }
+
   if (
     interaction.customId === "session_season_select" ||
     interaction.customId === "session_episode_select"
@@ -51,6 +100,29 @@ export const handleSelectMenu = async (interaction: AnySelectMenuInteraction) =>
     return;
   }
 
+  if (interaction.customId === "series_continue" && interaction.isStringSelectMenu()) {
+    const blockReason = getSessionBlockReason(interaction.guildId, interaction.channelId);
+    if (blockReason) {
+      await interaction.reply({ content: blockReason, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    const progress = await db.getSeriesProgress(interaction.guildId!, Number(interaction.values[0]));
+    const entry = progress ? await resolveSeriesProgress(progress) : null;
+    if (!entry?.tmdbInfo || !entry.nextEpisode) {
+      await interaction.followUp({
+        content: "❌ Não há próximo episódio disponível para esta série.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await promptSessionConfirmation(interaction, entry.tmdbInfo, entry.nextEpisode);
+    return;
+  }
+
   if (interaction.customId === "rec_select") {
     const cached = recCache.get(interaction.message.id);
     if (!cached) {
@@ -89,7 +161,7 @@ export const handleSelectMenu = async (interaction: AnySelectMenuInteraction) =>
       return;
     }
 
-    const embed = buildMovieDetailEmbed(filme);
+    const embed = buildMovieDetailEmbed(filme, await db.getGuildRatingScale(interaction.guildId));
     await interaction.reply({ embeds: [embed], flags: MessageFlags.Ephemeral });
   }
 };
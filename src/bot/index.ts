@@ -6,51 +6,54 @@ import { registerInteractionHandlers } from "./interactions";
 import { buildMovieVoteEmbed } from "./ui/embeds";
 import { buildVotingComponents } from "./ui/components";
 import { toMovieId } from "./utils";
-import { votingCache, type TmdbSearchResult } from "./state";
+import { votingCache } from "./state";
 import { logger } from "../shared/logger";
 import { startSessionMonitor } from "./services/session-monitor";
-
-interface StoredVoting {
-  channel_id: unknown;
-  message_id: unknown;
-  tmdb_info: TmdbSearchResult | null;
-  usuarios_permitidos: string[] | null;
-}
+import { startSessionScheduler } from "./services/session-scheduler";
+import { startMoviePollScheduler } from "./services/movie-poll";
+import { getDefaultVotingDeadline, startVotingScheduler } from "./services/voting";
 
 const restoreActiveVotings = async () => {
   const votacoes = await db.getActiveVotings();
-  const entries = Object.entries(votacoes);
-  if (!entries.length) {
+  if (!votacoes.length) {
     return;
   }
 
-  for (const [movieKey, info] of entries) {
-    const stored = info as StoredVoting;
+  for (const voting of votacoes) {
     try {
-      const channel = await client.channels.fetch(String(stored.channel_id));
+      const channel = await client.channels.fetch(voting.channelId);
       if (!channel?.isTextBased()) {
         continue;
       }
 
-      const message = await channel.messages.fetch(String(stored.message_id));
-      const movieId = toMovieId(movieKey);
+      const message = await channel.messages.fetch(voting.messageId);
+      const movieId = toMovieId(voting.movieKey);
+
+      let deadline = voting.deadline;
+      if (!deadline) {
+        deadline = getDefaultVotingDeadline();
+        await db.setVotingDeadline(voting.movieKey, deadline);
+      }
 
       votingCache.set(movieId, {
-        movieKey,
-        tmdbInfo: stored.tmdb_info,
-        allowedUsers: stored.usuarios_permitidos || [],
+        movieKey: voting.movieKey,
+        tmdbInfo: voting.tmdbInfo,
+        allowedUsers: voting.allowedUsers,
+        deadline,
       });
 
       const embed = await buildMovieVoteEmbed(
-        movieKey,
-        stored.tmdb_info,
-        stored.usuarios_permitidos || [],
-        message.guild
+        voting.movieKey,
+        voting.tmdbInfo,
+        voting.allowedUsers,
+        message.guild,
+        deadline
       );
-      await message.edit({ embeds: [embed], components: buildVotingComponents(movieId) });
+      const scale = await db.getGuildRatingScale(message.guildId);
+      await message.edit({ embeds: [embed], components: buildVotingComponents(movieId, scale) });
     } catch (error) {
-      logger.warn("BotBootstrap", `Falha ao restaurar votação ativa: ${movieKey}`, error);
-      await db.removeActiveVoting(movieKey);
+      logger.warn("BotBootstrap", `Falha ao restaurar votação ativa: ${voting.movieKey}`, error);
+      await db.removeActiveVoting(voting.movieKey);
     }
   }
 };
@@ -60,7 +63,10 @@ client.once("clientReady", async () => {
   await db.migrateFromJson();
   await registerCommands(client);
   await restoreActiveVotings();
+  startVotingScheduler(client);
   startSessionMonitor(client);
+  startSessionScheduler(client);
+  startMoviePollScheduler(client);
   await client.user?.setPresence({ activities: [{ name: "filme dos crias", type: 3 }] });
   logger.success("BotBootstrap", `Bot ${client.user?.tag} conectado`);
   logger.info("BotBootstrap", `Servidores conectados: ${client.guilds.cache.size}`);
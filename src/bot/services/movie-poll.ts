@@ -0,0 +1,165 @@
+import { NewsChannel, TextChannel } from "discord.js";
+import type { Client } from "discord.js";
+import db from "../../database";
+import type { MoviePoll, MoviePollBallot } from "../../database/types";
+import { logger } from "../../shared/logger";
+import { buildMoviePollEmbed } from "../ui/embeds";
+import { buildMoviePollComponents } from "../ui/components";
+
+const POLL_CHECK_INTERVAL = 30000;
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+// Posições de preferência exibidas no voto ranqueado (um select por posição)
+export const MAX_RANKED_POSITIONS = 3;
+
+export interface MoviePollTally {
+    /** Votos por opção: aprovações, ou votos de 1ª preferência na última rodada do ranqueado. */
+    counts: number[];
+    /** Votos de 1ª preferência na primeira rodada (igual a counts na aprovação). */
+    firstChoiceCounts: number[];
+    winnerIndex: number | null;
+    voters: number;
+    rounds: number;
+}
+
+let checkInterval: NodeJS.Timeout | null = null;
+let checking = false;
+
+export function getRankedPositions(poll: MoviePoll): number {
+    return Math.min(poll.options.length, MAX_RANKED_POSITIONS);
+}
+
+function pickLeader(indexes: number[], counts: number[]): number {
+    // Empate favorece a opção listada primeiro
+    return [...indexes].sort((a, b) => counts[b]! - counts[a]! || a - b)[0]!;
+}
+
+function tallyApproval(optionCount: number, ballots: MoviePollBallot[]): MoviePollTally {
+    const counts = new Array<number>(optionCount).fill(0);
+    for (const ballot of ballots) {
+        for (const choice of new Set(ballot.choices)) {
+            if (choice !== null && choice >= 0 && choice < optionCount) counts[choice]! += 1;
+        }
+    }
+
+    const leader = pickLeader(counts.map((_, i) => i), counts);
+    return {
+        counts,
+        firstChoiceCounts: counts,
+        winnerIndex: counts[leader]! > 0 ? leader : null,
+        voters: ballots.filter((ballot) => ballot.choices.some((choice) => choice !== null)).length,
+        rounds: 1,
+    };
+}
+
+/**
+ * Voto ranqueado por segundo turno instantâneo: elimina a opção menos votada
+ * e transfere os votos para a próxima preferência até alguém passar de 50%.
+ */
+function tallyRanked(optionCount: number, ballots: MoviePollBallot[]): MoviePollTally {
+    const rankings = ballots
+        .map((ballot) => ballot.choices.filter((choice): choice is number => choice !== null && choice >= 0 && choice < optionCount))
+        .filter((ranking) => ranking.length > 0);
+
+    const active = new Set(Array.from({ length: optionCount }, (_, i) => i));
+    let firstChoiceCounts: number[] | null = null;
+    let rounds = 0;
+
+    while (true) {
+        rounds += 1;
+        const counts = new Array<number>(optionCount).fill(0);
+        let valid = 0;
+        for (const ranking of rankings) {
+            const top = ranking.find((choice) => active.has(choice));
+            if (top === undefined) continue;
+            counts[top]! += 1;
+            valid += 1;
+        }
+        firstChoiceCounts ??= counts;
+
+        if (valid === 0) {
+            return { counts, firstChoiceCounts, winnerIndex: null, voters: rankings.length, rounds };
+        }
+
+        const leader = pickLeader([...active], counts);
+        if (counts[leader]! * 2 > valid || active.size === 1) {
+            return { counts, firstChoiceCounts, winnerIndex: leader, voters: rankings.length, rounds };
+        }
+
+        // Elimina a menos votada; no empate sai a listada por último
+        const loser = [...active].sort((a, b) => counts[a]! - counts[b]! || b - a)[0]!;
+        active.delete(loser);
+    }
+}
+
+export function tallyMoviePoll(poll: MoviePoll, ballots: MoviePollBallot[]): MoviePollTally {
+    return poll.mode === "ranked"
+        ? tallyRanked(poll.options.length, ballots)
+        : tallyApproval(poll.options.length, ballots);
+}
+
+/**
+ * Apura e encerra a votação no banco.
+ * @returns Votação encerrada com os votos e a apuração final para renderizar a mensagem.
+ */
+export async function finalizeMoviePoll(poll: MoviePoll) {
+    const ballots = await db.getMoviePollBallots(poll.id);
+    const tally = tallyMoviePoll(poll, ballots);
+    await db.finishMoviePoll(poll.id, "closed", tally.winnerIndex);
+
+    const closedPoll: MoviePoll = { ...poll, status: "closed", winnerIndex: tally.winnerIndex };
+    logger.info("MoviePoll", `Votação #${poll.id} encerrada. Vencedor: ${tally.winnerIndex !== null ? poll.options[tally.winnerIndex]?.title : "nenhum"}`);
+    return { poll: closedPoll, ballots, tally };
+}
+
+async function closeExpiredPoll(client: Client, poll: MoviePoll) {
+    const { poll: closedPoll, tally } = await finalizeMoviePoll(poll);
+    if (!closedPoll.messageId) return;
+
+    try {
+        const channel = await client.channels.fetch(closedPoll.channelId);
+        if (!(channel instanceof TextChannel || channel instanceof NewsChannel)) return;
+
+        const message = await channel.messages.fetch(closedPoll.messageId);
+        await message.edit({
+            embeds: [buildMoviePollEmbed(closedPoll, tally)],
+            components: buildMoviePollComponents(closedPoll),
+        });
+
+        const winner = closedPoll.winnerIndex !== null ? closedPoll.options[closedPoll.winnerIndex] : null;
+        await message.reply({
+            content: winner
+                ? `🏆 Votação encerrada! O escolhido foi **${winner.title}**.`
+                : "🗳️ Votação encerrada sem votos.",
+        });
+    } catch (error) {
+        logger.warn("MoviePoll", `Falha ao atualizar mensagem da votação #${closedPoll.id}`, error);
+    }
+}
+
+/**
+ * Encerra periodicamente as votações de filme cujo prazo expirou.
+ */
+export const startMoviePollScheduler = (client: Client) => {
+    if (checkInterval) clearInterval(checkInterval);
+
+    const tick = async () => {
+        if (checking) return;
+        checking = true;
+        try {
+            const now = Date.now();
+            const polls = await db.getOpenMoviePolls();
+            for (const poll of polls) {
+                if (poll.deadline.getTime() <= now) await closeExpiredPoll(client, poll);
+            }
+        } catch (error) {
+            logger.error("MoviePoll", "Falha ao verificar votações de filme", error);
+        } finally {
+            checking = false;
+        }
+    };
+
+    checkInterval = setInterval(tick, POLL_CHECK_INTERVAL);
+    void tick();
+};
@@ -1,4 +1,4 @@
-import type { DiscordSession, MovieInfo, SelectedEpisode, SessionRating } from "../../shared/types";
+import type { DiscordSession, MovieInfo, SelectedEpisode, SessionRating, TimelineBucket } from "../../shared/types";
 import { PLAYER_API_SHARED_SECRET } from "../../config";
 import { logger } from "../../shared/logger";
 
@@ -44,6 +44,8 @@ interface EndResult {
     ratings: SessionRating[];
     average: number;
     discordSession?: DiscordSession;
+    /** Pausas, voltas, saídas e reações por minuto do vídeo. */
+    timeline?: TimelineBucket[];
 }
 
 /**
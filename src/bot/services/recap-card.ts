@@ -0,0 +1,146 @@
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RECAP_CARD_ENABLED, RECAP_CARD_FONT_FILE } from "../../config";
+import { logger } from "../../shared/logger";
+import { formatRating, type RatingScale } from "../../shared/rating-scale";
+import type { GroupRecap } from "./recap";
+
+const CARD_SIZE = 1080;
+const FFMPEG_CARD_TIMEOUT_MS = 15_000;
+const MAX_TEXT_LENGTH = 42;
+
+interface CardText {
+    text: string;
+    x: number;
+    y: number;
+    size: number;
+    color: string;
+}
+
+interface CardBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    color: string;
+}
+
+const truncate = (text: string) => text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+
+// Caminhos entram no filtergraph do ffmpeg: ":" separa opções e "\" é escape
+const escapeFilterPath = (path: string) => `'${path.replace(/\\/g, "/").replace(/:/g, "\\:")}'`;
+
+function buildCardLayout(recap: GroupRecap, scale: RatingScale) {
+    const boxes: CardBox[] = [
+        { x: 0, y: 0, width: CARD_SIZE, height: 190, color: "0x5865f2" },
+        { x: 60, y: 230, width: 300, height: 170, color: "0x2b2d31" },
+        { x: 390, y: 230, width: 300, height: 170, color: "0x2b2d31" },
+        { x: 720, y: 230, width: 300, height: 170, color: "0x2b2d31" },
+    ];
+
+    const hours = Math.round(recap.minutesWatched / 60);
+    const texts: CardText[] = [
+        { text: "RETROSPECTIVA", x: 60, y: 40, size: 64, color: "white" },
+        { text: recap.period.label, x: 60, y: 120, size: 40, color: "0xdfe1ff" },
+        { text: String(recap.sessionsCount), x: 90, y: 255, size: 72, color: "white" },
+        { text: "sessões", x: 90, y: 345, size: 30, color: "0xb5bac1" },
+        { text: String(recap.titlesCount), x: 420, y: 255, size: 72, color: "white" },
+        { text: "títulos", x: 420, y: 345, size: 30, color: "0xb5bac1" },
+        { text: `${hours}h`, x: 750, y: 255, size: 72, color: "white" },
+        { text: "assistidas", x: 750, y: 345, size: 30, color: "0xb5bac1" },
+    ];
+
+    const highlights: [string, string | null][] = [
+        ["MELHOR AVALIADO", recap.bestRated[0]
+            ? `${recap.bestRated[0].title} (${formatRating(recap.bestRated[0].averageScore, scale, 1)})`
+            : null],
+        ["PIOR AVALIADO", recap.worstRated[0]
+            ? `${recap.worstRated[0].title} (${formatRating(recap.worstRated[0].averageScore, scale, 1)})`
+            : null],
+        ["MAIS POLÊMICO", recap.polarizing?.title ?? null],
+        ["GÊNERO MAIS VISTO", recap.topGenres[0] ? `${recap.topGenres[0].genre} (${recap.topGenres[0].movieCount} títulos)` : null],
+        ["MEMBRO MAIS ATIVO", recap.mostActive ? `${recap.mostActive.userName} (${recap.mostActive.ratingsCount} notas)` : null],
+    ];
+
+    let y = 450;
+    for (const [label, value] of highlights) {
+        if (!value) continue;
+        texts.push(
+            { text: label, x: 60, y, size: 26, color: "0x949cf7" },
+            { text: truncate(value), x: 60, y: y + 36, size: 42, color: "white" }
+        );
+        y += 118;
+    }
+
+    return { boxes, texts };
+}
+
+function runFfmpeg(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const child = spawn("ffmpeg", args, { stdio: ["ignore", "ignore", "pipe"] });
+        let stderr = "";
+
+        const timeout = setTimeout(() => {
+            child.kill("SIGKILL");
+            reject(new Error(`ffmpeg excedeu ${FFMPEG_CARD_TIMEOUT_MS}ms`));
+        }, FFMPEG_CARD_TIMEOUT_MS);
+
+        child.stderr.on("data", (chunk) => {
+            stderr = (stderr + chunk.toString()).slice(-2000);
+        });
+        child.on("error", (error) => {
+            clearTimeout(timeout);
+            reject(error);
+        });
+        child.on("close", (code) => {
+            clearTimeout(timeout);
+            if (code === 0) resolve();
+            else reject(new Error(`ffmpeg finalizou com código ${code}: ${stderr}`));
+        });
+    });
+}
+
+/**
+ * Gera o cartão PNG da retrospectiva com ffmpeg (drawbox + drawtext).
+ * Os textos vão em arquivos temporários para não precisar escapar títulos no filtergraph.
+ * @returns PNG, ou null quando o cartão está desligado ou o ffmpeg falhou.
+ */
+export async function renderRecapCard(recap: GroupRecap, scale: RatingScale): Promise<Buffer | null> {
+    if (!RECAP_CARD_ENABLED) return null;
+
+    const workDir = await mkdtemp(join(tmpdir(), "recap-"));
+    try {
+        const { boxes, texts } = buildCardLayout(recap, scale);
+        const fontOption = RECAP_CARD_FONT_FILE ? `:fontfile=${escapeFilterPath(RECAP_CARD_FONT_FILE)}` : "";
+
+        const filters = boxes.map((box) =>
+            `drawbox=x=${box.x}:y=${box.y}:w=${box.width}:h=${box.height}:color=${box.color}:t=fill`
+        );
+        for (const [index, text] of texts.entries()) {
+            const textFile = join(workDir, `text-${index}.txt`);
+            await writeFile(textFile, text.text, "utf-8");
+            filters.push(
+                `drawtext=textfile=${escapeFilterPath(textFile)}:expansion=none${fontOption}` +
+                `:fontsize=${text.size}:fontcolor=${text.color}:x=${text.x}:y=${text.y}`
+            );
+        }
+
+        const outputPath = join(workDir, "card.png");
+        await runFfmpeg([
+            "-hide_banner", "-loglevel", "error",
+            "-f", "lavfi", "-i", `color=c=0x1e1f22:s=${CARD_SIZE}x${CARD_SIZE}:d=1`,
+            "-vf", filters.join(","),
+            "-frames:v", "1",
+            "-y", outputPath,
+        ]);
+
+        return await readFile(outputPath);
+    } catch (error) {
+        logger.warn("RecapCard", "Falha ao gerar cartão da retrospectiva", error);
+        return null;
+    } finally {
+        await rm(workDir, { recursive: true, force: true }).catch(() => { });
+    }
+}
@@ -0,0 +1,176 @@
+import db from "../../database";
+import type {
+    EpisodeWithRatings,
+    MovieViewing,
+    MovieWithRatings,
+    RatingRow,
+    SeasonWithRatings,
+} from "../../database/types";
+import { SCHEDULE_UTC_OFFSET } from "../../config";
+import { parseUtcOffsetMinutes } from "../utils";
+import {
+    buildGenreInsights,
+    buildGroupProfile,
+    collapseRatingsByUser,
+    splitGenres,
+    type GenreInsight,
+    type MemberInsight,
+    type MovieInsight,
+} from "./recommendations";
+
+export type RecapPeriodKind = "ano" | "mes";
+
+const MONTH_NAMES = [
+    "Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho",
+    "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro",
+];
+
+export interface RecapPeriod {
+    kind: RecapPeriodKind;
+    year: number;
+    /** 1 a 12; só em retrospectivas mensais. */
+    month: number | null;
+    start: Date;
+    end: Date;
+    label: string;
+}
+
+export interface GroupRecap {
+    period: RecapPeriod;
+    sessionsCount: number;
+    titlesCount: number;
+    ratingsCount: number;
+    minutesWatched: number;
+    /** Gêneros com mais títulos assistidos no período. */
+    topGenres: GenreInsight[];
+    bestRated: MovieInsight[];
+    worstRated: MovieInsight[];
+    polarizing: MovieInsight | null;
+    mostActive: MemberInsight | null;
+}
+
+/**
+ * Intervalo do ano ou mês pedido, no fuso SCHEDULE_UTC_OFFSET.
+ * Sem ano/mês, usa o período corrente.
+ */
+export function resolveRecapPeriod(
+    kind: RecapPeriodKind,
+    year?: number | null,
+    month?: number | null,
+    now: Date = new Date()
+): RecapPeriod {
+    const offsetMs = parseUtcOffsetMinutes(SCHEDULE_UTC_OFFSET) * 60_000;
+    const localNow = new Date(now.getTime() + offsetMs);
+    const resolvedYear = year ?? localNow.getUTCFullYear();
+
+    if (kind === "ano") {
+        return {
+            kind,
+            year: resolvedYear,
+            month: null,
+            start: new Date(Date.UTC(resolvedYear, 0, 1) - offsetMs),
+            end: new Date(Date.UTC(resolvedYear + 1, 0, 1) - offsetMs),
+            label: String(resolvedYear),
+        };
+    }
+
+    const resolvedMonth = month ?? localNow.getUTCMonth() + 1;
+    return {
+        kind,
+        year: resolvedYear,
+        month: resolvedMonth,
+        start: new Date(Date.UTC(resolvedYear, resolvedMonth - 1, 1) - offsetMs),
+        end: new Date(Date.UTC(resolvedYear, resolvedMonth, 1) - offsetMs),
+        label: `${MONTH_NAMES[resolvedMonth - 1]} de ${resolvedYear}`,
+    };
+}
+
+const isInPeriod = (viewing: MovieViewing, period: RecapPeriod) => {
+    const watchedAt = new Date(viewing.watchedAt).getTime();
+    return watchedAt >= period.start.getTime() && watchedAt < period.end.getTime();
+};
+
+/** Última nota de cada pessoa entre as sessões informadas (mesma regra do histórico completo). */
+const latestRatingsByUser = (viewings: MovieViewing[]): RatingRow[] => {
+    const latest = new Map<string, RatingRow>();
+    for (const viewing of viewings) {
+        for (const rating of viewing.ratings) {
+            latest.set(rating.user_id, rating);
+        }
+    }
+    return [...latest.values()];
+};
+
+const scopeTitle = <T extends MovieWithRatings>(movie: T, period: RecapPeriod): T | null => {
+    const viewings = movie.viewings.filter((viewing) => isInPeriod(viewing, period));
+    return viewings.length ? { ...movie, viewings, avaliacoes: latestRatingsByUser(viewings) } : null;
+};
+
+/**
+ * Recorta o histórico para o período: só sessões dentro do intervalo e as notas dadas nelas.
+ * Séries mantêm apenas os episódios assistidos no período.
+ */
+function scopeMoviesToPeriod(movies: MovieWithRatings[], period: RecapPeriod): MovieWithRatings[] {
+    return movies.flatMap((movie) => {
+        if (!movie.isSeries) {
+            const scoped = scopeTitle(movie, period);
+            return scoped ? [scoped] : [];
+        }
+
+        const episodes = (movie.episodes ?? []).flatMap((episode) => {
+            const scoped = scopeTitle<EpisodeWithRatings>(episode, period);
+            return scoped ? [scoped] : [];
+        });
+        if (!episodes.length) return [];
+
+        const seasons: SeasonWithRatings[] = (movie.seasons ?? [])
+            .map((season) => {
+                const seasonEpisodes = episodes.filter((episode) => episode.season === season.seasonNumber);
+                return {
+                    seasonNumber: season.seasonNumber,
+                    episodes: seasonEpisodes,
+                    avaliacoes: seasonEpisodes.flatMap((episode) => episode.avaliacoes),
+                };
+            })
+            .filter((season) => season.episodes.length > 0);
+
+        return [{
+            ...movie,
+            episodes,
+            seasons,
+            avaliacoes: episodes.flatMap((episode) => episode.avaliacoes),
+        }];
+    });
+}
+
+export function buildGroupRecap(movies: MovieWithRatings[], period: RecapPeriod): GroupRecap {
+    const scoped = scopeMoviesToPeriod(movies, period);
+    const profile = buildGroupProfile(scoped);
+    const titles = scoped.flatMap((movie) => movie.episodes?.length ? movie.episodes : [movie]);
+    const sessions = titles.flatMap((title) => title.viewings.map(() => title.runtime));
+
+    const genreEntries = scoped.flatMap((movie) => {
+        const genres = splitGenres(movie.genres);
+        return collapseRatingsByUser(movie.avaliacoes).map((rating) => ({ genres, score: rating.score, movieTitle: movie.title }));
+    });
+    const topGenres = buildGenreInsights(genreEntries)
+        .sort((left, right) => right.movieCount - left.movieCount || right.ratingsCount - left.ratingsCount)
+        .slice(0, 3);
+
+    return {
+        period,
+        sessionsCount: sessions.length,
+        titlesCount: scoped.length,
+        ratingsCount: profile.totalRatings,
+        minutesWatched: sessions.reduce<number>((total, runtime) => total + (runtime ?? 0), 0),
+        topGenres,
+        bestRated: profile.favoriteMovies.slice(0, 3),
+        worstRated: profile.leastFavoriteMovies.slice(0, 3),
+        polarizing: profile.polarizingMovies[0] ?? null,
+        mostActive: profile.members[0] ?? null,
+    };
+}
+
+export async function getGroupRecap(period: RecapPeriod): Promise<GroupRecap> {
+    return buildGroupRecap(await db.getAllMoviesWithRatings(), period);
+}
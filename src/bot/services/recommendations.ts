@@ -1,4 +1,4 @@
-import type { MovieWithRatings } from "../../database/types";
+import type { MovieWithRatings, RatingRow } from "../../database/types";
 import { generateRecommendations } from "./gemini";
 import { searchMovieTmdb } from "./tmdb";
 
@@ -7,21 +7,32 @@ interface RecommendationItem {
   motivo: string;
 }
 
-interface GenreInsight {
+export interface GenreInsight {
   genre: string;
   averageScore: number;
   ratingsCount: number;
   movieCount: number;
 }
 
-interface MovieInsight {
+export interface MovieInsight {
   title: string;
   averageScore: number;
   ratingsCount: number;
   genres: string[];
 }
 
-interface MemberInsight {
+interface SeasonInsight {
+  seasonNumber: number;
+  averageScore: number;
+  ratingsCount: number;
+}
+
+interface SeriesInsight extends MovieInsight {
+  seasons: SeasonInsight[];
+}
+
+export interface MemberInsight {
+  userId: string;
   userName: string;
   averageScore: number;
   ratingsCount: number;
@@ -30,7 +41,14 @@ interface MemberInsight {
   favoriteMovies: MovieInsight[];
 }
 
-interface GroupProfile {
+interface ReviewInsight {
+  title: string;
+  userName: string;
+  score: number;
+  review: string;
+}
+
+export interface GroupProfile {
   totalMovies: number;
   totalRatings: number;
   topGenres: GenreInsight[];
@@ -38,7 +56,9 @@ interface GroupProfile {
   favoriteMovies: MovieInsight[];
   leastFavoriteMovies: MovieInsight[];
   polarizingMovies: MovieInsight[];
+  series: SeriesInsight[];
   members: MemberInsight[];
+  reviews: ReviewInsight[];
 }
 
 interface RawRecommendationResponse {
@@ -55,6 +75,8 @@ interface RecommendationOptions {
 }
 
 const fallbackRecommendationMultiplier = 3;
+const maxReviewsInPrompt = 12;
+const maxReviewLengthInPrompt = 200;
 
 const normalizeText = (value: string) =>
   value
@@ -63,13 +85,13 @@ const normalizeText = (value: string) =>
     .trim()
     .toLowerCase();
 
-const splitGenres = (genres: string | null) =>
+export const splitGenres = (genres: string | null) =>
   (genres || "")
     .split(",")
     .map((genre) => genre.trim())
     .filter(Boolean);
 
-const calculateAverage = (ratings: number[]) => {
+export const calculateAverage = (ratings: number[]) => {
   if (!ratings.length) {
     return 0;
   }
@@ -87,7 +109,24 @@ const calculateStandardDeviation = (ratings: number[]) => {
   return Math.sqrt(variance);
 };
 
-const buildGenreInsights = (entries: { genres: string[]; score: number; movieTitle: string }[]) => {
+/** Uma nota por pessoa e título: em séries, a média dos episódios que cada um avaliou. */
+export const collapseRatingsByUser = (ratings: RatingRow[]) => {
+  const byUser = new Map<string, { userId: string; userName: string; scores: number[] }>();
+
+  for (const rating of ratings) {
+    const current = byUser.get(rating.user_id) ?? { userId: rating.user_id, userName: rating.user_name, scores: [] };
+    current.scores.push(rating.score);
+    byUser.set(rating.user_id, current);
+  }
+
+  return Array.from(byUser.values()).map((entry) => ({
+    user_id: entry.userId,
+    user_name: entry.userName,
+    score: calculateAverage(entry.scores),
+  }));
+};
+
+export const buildGenreInsights = (entries: { genres: string[]; score: number; movieTitle: string }[]) => {
   const genres = new Map<string, { totalScore: number; ratingsCount: number; movieKeys: Set<string> }>();
 
   for (const entry of entries) {
@@ -126,7 +165,7 @@ const buildMovieInsights = (movies: MovieWithRatings[]) =>
       genres: splitGenres(movie.genres),
     }));
 
-const buildMemberInsights = (movies: MovieWithRatings[]) => {
+export const buildMemberInsights = (movies: MovieWithRatings[]): MemberInsight[] => {
   const ratingsByMember = new Map<string, { userName: string; ratings: { score: number; genres: string[]; movie: MovieInsight; movieTitle: string }[] }>();
 
   for (const movie of movies) {
@@ -137,7 +176,7 @@ const buildMemberInsights = (movies: MovieWithRatings[]) => {
       genres: splitGenres(movie.genres),
     };
 
-    for (const rating of movie.avaliacoes) {
+    for (const rating of collapseRatingsByUser(movie.avaliacoes)) {
       const current = ratingsByMember.get(rating.user_id) ?? {
         userName: rating.user_name || "Usuário",
         ratings: [],
@@ -154,8 +193,8 @@ const buildMemberInsights = (movies: MovieWithRatings[]) => {
     }
   }
 
-  return Array.from(ratingsByMember.values())
-    .map((member) => {
+  return Array.from(ratingsByMember.entries())
+    .map(([userId, member]) => {
       const favoriteGenres = buildGenreInsights(member.ratings)
         .filter((genre) => genre.ratingsCount >= 2)
         .slice(0, 3);
@@ -165,6 +204,7 @@ const buildMemberInsights = (movies: MovieWithRatings[]) => {
         .slice(0, 2);
 
       return {
+        userId,
         userName: member.userName,
         averageScore: calculateAverage(member.ratings.map((rating) => rating.score)),
         ratingsCount: member.ratings.length,
@@ -180,12 +220,47 @@ const buildMemberInsights = (movies: MovieWithRatings[]) => {
     .sort((left, right) => right.ratingsCount - left.ratingsCount);
 };
 
-const buildGroupProfile = (movies: MovieWithRatings[]): GroupProfile => {
+const buildReviewInsights = (movies: MovieWithRatings[]): ReviewInsight[] =>
+  movies
+    .flatMap((movie) =>
+      movie.avaliacoes
+        .filter((rating) => rating.review)
+        .map((rating) => ({ movie, rating }))
+    )
+    .sort((left, right) => (right.rating.timestamp || "").localeCompare(left.rating.timestamp || ""))
+    .slice(0, maxReviewsInPrompt)
+    .map(({ movie, rating }) => ({
+      title: movie.title,
+      userName: rating.user_name || "Usuário",
+      score: rating.score,
+      review: rating.review!.replace(/\s+/g, " ").slice(0, maxReviewLengthInPrompt),
+    }));
+
+const buildSeriesInsights = (movies: MovieWithRatings[]): SeriesInsight[] =>
+  movies
+    .filter((movie) => movie.isSeries && movie.seasons?.length)
+    .map((movie) => ({
+      title: movie.title,
+      averageScore: calculateAverage(movie.avaliacoes.map((rating) => rating.score)),
+      ratingsCount: movie.avaliacoes.length,
+      genres: splitGenres(movie.genres),
+      seasons: (movie.seasons ?? [])
+        .filter((season) => season.avaliacoes.length > 0)
+        .map((season) => ({
+          seasonNumber: season.seasonNumber,
+          averageScore: calculateAverage(season.avaliacoes.map((rating) => rating.score)),
+          ratingsCount: season.avaliacoes.length,
+        })),
+    }))
+    .sort((left, right) => right.ratingsCount - left.ratingsCount)
+    .slice(0, 5);
+
+export const buildGroupProfile = (movies: MovieWithRatings[]): GroupProfile => {
   const ratedMovies = movies.filter((movie) => movie.avaliacoes.length > 0);
   const movieInsights = buildMovieInsights(ratedMovies);
   const genreEntries = ratedMovies.flatMap((movie) => {
     const genres = splitGenres(movie.genres);
-    return movie.avaliacoes.map((rating) => ({ genres, score: rating.score, movieTitle: movie.title }));
+    return collapseRatingsByUser(movie.avaliacoes).map((rating) => ({ genres, score: rating.score, movieTitle: movie.title }));
   });
   const genreInsights = buildGenreInsights(genreEntries).filter((genre) => genre.ratingsCount >= 2);
 
@@ -215,18 +290,21 @@ const buildGroupProfile = (movies: MovieWithRatings[]): GroupProfile => {
       })
       .slice(0, 4),
     polarizingMovies: [...ratedMovies]
-      .filter((movie) => movie.avaliacoes.length >= 3)
-      .map((movie) => ({
+      .map((movie) => ({ movie, scores: collapseRatingsByUser(movie.avaliacoes).map((rating) => rating.score) }))
+      .filter(({ scores }) => scores.length >= 3)
+      .map(({ movie, scores }) => ({
         title: movie.title,
-        averageScore: calculateAverage(movie.avaliacoes.map((rating) => rating.score)),
+        averageScore: calculateAverage(scores),
         ratingsCount: movie.avaliacoes.length,
         genres: splitGenres(movie.genres),
-        deviation: calculateStandardDeviation(movie.avaliacoes.map((rating) => rating.score)),
+        deviation: calculateStandardDeviation(scores),
       }))
       .sort((left, right) => right.deviation - left.deviation)
       .slice(0, 3)
       .map(({ deviation: _deviation, ...movie }) => movie),
+    series: buildSeriesInsights(ratedMovies),
     members: buildMemberInsights(ratedMovies).slice(0, 6),
+    reviews: buildReviewInsights(ratedMovies),
   };
 };
 
@@ -242,6 +320,16 @@ const formatMovieInsights = (movies: MovieInsight[]) =>
         .join("; ")
     : "Nenhum filme suficiente";
 
+const formatSeriesInsights = (series: SeriesInsight[]) =>
+  series.length
+    ? series
+        .map((item) => {
+          const seasons = item.seasons.map((season) => `T${season.seasonNumber} ${season.averageScore}/10`).join(", ");
+          return `${item.title} (${item.averageScore}/10 em ${item.ratingsCount} notas${seasons ? `; por temporada: ${seasons}` : ""})`;
+        })
+        .join("; ")
+    : "Nenhuma série acompanhada";
+
 const formatMemberInsights = (members: MemberInsight[]) =>
   members.length
     ? members
@@ -255,6 +343,11 @@ const formatMemberInsights = (members: MemberInsight[]) =>
         .join("\n")
     : "Nenhuma preferência individual suficiente";
 
+const formatReviewInsights = (reviews: ReviewInsight[]) =>
+  reviews.length
+    ? reviews.map((review) => `${review.userName} sobre ${review.title} (${review.score}/10): "${review.review}"`).join("\n")
+    : "Nenhuma resenha escrita";
+
 const extractJson = (text: string) => {
   let cleanText = text.trim();
 
@@ -299,10 +392,14 @@ const buildRecommendationPrompt = (
     `Filmes favoritos do grupo: ${formatMovieInsights(profile.favoriteMovies)}`,
     `Filmes com pior recepção: ${formatMovieInsights(profile.leastFavoriteMovies)}`,
     `Filmes polarizantes: ${formatMovieInsights(profile.polarizingMovies)}`,
+    `Séries acompanhadas: ${formatSeriesInsights(profile.series)}`,
     "",
     "PREFERÊNCIAS INDIVIDUAIS:",
     formatMemberInsights(profile.members),
     "",
+    "RESENHAS RECENTES (use para entender o que agradou ou incomodou; nunca cite trechos nem revele detalhes de enredo):",
+    formatReviewInsights(profile.reviews),
+    "",
     "JÁ ASSISTIDOS:",
     watchedTitles.join(", "),
     "",
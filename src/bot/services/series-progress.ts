@@ -0,0 +1,48 @@
+import db from "../../database";
+import type { SeriesProgress } from "../../database/types";
+import type { SelectedEpisode } from "../../shared/types";
+import { findNextEpisode } from "../../shared/episodes";
+import type { TmdbSearchResult } from "../state";
+import { getTvShowTmdb, searchMovieTmdb } from "./tmdb";
+
+// Séries exibidas no /series (limite do select de continuar e do embed)
+export const MAX_SERIES_LISTED = 10;
+
+export interface SeriesProgressEntry {
+    progress: SeriesProgress;
+    /** null quando o TMDB não respondeu. */
+    tmdbInfo: TmdbSearchResult | null;
+    /** Próximo episódio já lançado; null quando o grupo está em dia. */
+    nextEpisode: SelectedEpisode | null;
+    /** Próximo episódio anunciado mas ainda não exibido. */
+    upcomingEpisode: SelectedEpisode | null;
+}
+
+async function fetchSeriesTmdb(progress: SeriesProgress): Promise<TmdbSearchResult | null> {
+    if (progress.tmdbId) {
+        return getTvShowTmdb(progress.tmdbId, progress.title);
+    }
+    const found = await searchMovieTmdb(progress.title);
+    return found?.media_type === "tv" ? found : null;
+}
+
+/**
+ * Resolve o próximo episódio de uma série a partir do último assistido pelo servidor.
+ */
+export async function resolveSeriesProgress(progress: SeriesProgress): Promise<SeriesProgressEntry> {
+    const tmdbInfo = await fetchSeriesTmdb(progress);
+    const candidate = tmdbInfo?.seasons ? findNextEpisode(tmdbInfo.seasons, progress) : null;
+    const airsLater = !!candidate?.airDate && new Date(candidate.airDate).getTime() > Date.now();
+
+    return {
+        progress,
+        tmdbInfo,
+        nextEpisode: candidate && !airsLater ? candidate : null,
+        upcomingEpisode: candidate && airsLater ? candidate : null,
+    };
+}
+
+export async function getGuildSeriesEntries(guildId: string): Promise<SeriesProgressEntry[]> {
+    const progressList = (await db.getGuildSeriesProgress(guildId)).slice(0, MAX_SERIES_LISTED);
+    return Promise.all(progressList.map(resolveSeriesProgress));
+}
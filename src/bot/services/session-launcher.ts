@@ -0,0 +1,188 @@
+import { GuildMember } from "discord.js";
+import type {
+    ButtonInteraction,
+    ModalSubmitInteraction,
+    NewsChannel,
+    StringSelectMenuInteraction,
+    TextChannel,
+} from "discord.js";
+import type { SelectedEpisode } from "../../shared/types";
+import db from "../../database";
+import { logger } from "../../shared/logger";
+import * as playerApi from "./player-api";
+import { pendingSessionCache, setActiveWatchSession, type TmdbSearchResult } from "../state";
+import { buildSessionEmbed } from "../ui/embeds";
+import { buildEpisodeSelectComponents, buildSessionComponents, buildSessionConfirmComponents } from "../ui/components";
+
+export interface LaunchWatchSessionOptions {
+    channel: TextChannel | NewsChannel;
+    guildId: string;
+    hostId: string;
+    hostUsername: string;
+    tmdbInfo: TmdbSearchResult;
+    selectedEpisode?: SelectedEpisode;
+}
+
+export type LaunchWatchSessionResult =
+    | { ok: true; roomId: string; messageId: string; displayTitle: string }
+    | { ok: false; reason: "post_failed" | "player_unavailable" };
+
+/**
+ * Resolve o episódio escolhido a partir das temporadas do TMDB.
+ * @returns Episódio com número da temporada, ou undefined quando não existe.
+ */
+export function resolveSelectedEpisode(
+    tmdbInfo: TmdbSearchResult,
+    seasonNumber?: number | null,
+    episodeNumber?: number | null
+): SelectedEpisode | undefined {
+    if (!tmdbInfo.seasons || !seasonNumber || !episodeNumber) return undefined;
+
+    const season = tmdbInfo.seasons.find((s) => s.seasonNumber === seasonNumber);
+    const episode = season?.episodes.find((ep) => ep.episodeNumber === episodeNumber);
+    return episode ? { ...episode, seasonNumber } : undefined;
+}
+
+export function buildSessionDisplayTitle(title: string, selectedEpisode?: SelectedEpisode): string {
+    if (!selectedEpisode?.seasonNumber) return title;
+    return `${title} - T${selectedEpisode.seasonNumber}E${selectedEpisode.episodeNumber}`;
+}
+
+/**
+ * Mostra ao host a confirmação da sessão (ou a escolha de temporada/episódio em séries)
+ * e guarda o pedido em pendingSessionCache até o clique em session_confirm.
+ * A interação já deve ter sido respondida com deferReply efêmero.
+ * @param preselected Episódio já marcado nos selects (ex.: próximo episódio vindo do /series).
+ */
+export async function promptSessionConfirmation(
+    interaction: ModalSubmitInteraction | ButtonInteraction | StringSelectMenuInteraction,
+    tmdbInfo: TmdbSearchResult,
+    preselected?: Pick<SelectedEpisode, "seasonNumber" | "episodeNumber">
+): Promise<void> {
+    const hostUsername = interaction.member instanceof GuildMember
+        ? interaction.member.displayName
+        : interaction.user.username;
+
+    const embed = buildSessionEmbed(tmdbInfo.title, tmdbInfo, "waiting", interaction.user.username, 0, []);
+    embed.setDescription(`*${tmdbInfo.overview?.slice(0, 200) || ""}...*\n\n🎦 **Host:** ${interaction.user}`);
+
+    const isSeries = tmdbInfo.media_type === "tv" && !!tmdbInfo.seasons?.length;
+    const preselectedEpisode = isSeries && preselected
+        ? resolveSelectedEpisode(tmdbInfo, preselected.seasonNumber, preselected.episodeNumber)
+        : undefined;
+
+    let content = isSeries ? "📺 Selecione a temporada e episódio:" : "🎬 Confirma a criação da sessão?";
+    let components = isSeries ? buildEpisodeSelectComponents(tmdbInfo.seasons ?? []) : buildSessionConfirmComponents();
+    if (preselectedEpisode) {
+        const season = tmdbInfo.seasons?.find((s) => s.seasonNumber === preselectedEpisode.seasonNumber);
+        content = `📺 Próximo episódio: **T${preselectedEpisode.seasonNumber}E${preselectedEpisode.episodeNumber} — ${preselectedEpisode.name}**. Confirme ou escolha outro:`;
+        components = buildEpisodeSelectComponents(
+            tmdbInfo.seasons ?? [],
+            preselectedEpisode.seasonNumber,
+            season?.episodes ?? [],
+            preselectedEpisode.episodeNumber
+        );
+    }
+
+    const message = await interaction.followUp({ content, embeds: [embed], components });
+
+    pendingSessionCache.set(message.id, {
+        tmdbInfo,
+        hostId: interaction.user.id,
+        hostUsername,
+        channelId: interaction.channelId ?? "",
+        guildId: interaction.guildId ?? "",
+        selectedSeason: preselectedEpisode?.seasonNumber,
+        selectedEpisode: preselectedEpisode?.episodeNumber,
+    });
+}
+
+/**
+ * Posta o painel da sessão no canal, cria a sala no player e registra o monitoramento.
+ * Usado tanto pela criação imediata (/sessao agora) quanto pelas sessões agendadas.
+ * @param options Canal, host e filme/episódio da sessão.
+ * @returns roomId e mensagem do painel quando sucesso; motivo da falha caso contrário.
+ */
+export async function launchWatchSession(options: LaunchWatchSessionOptions): Promise<LaunchWatchSessionResult> {
+    const { channel, guildId, hostId, hostUsername, tmdbInfo, selectedEpisode } = options;
+
+    let publicMessage;
+    try {
+        publicMessage = await channel.send({ content: "⏳ Criando sessão..." });
+    } catch {
+        return { ok: false, reason: "post_failed" };
+    }
+
+    const displayTitle = buildSessionDisplayTitle(tmdbInfo.title, selectedEpisode);
+    const ratingScale = await db.getGuildRatingScale(guildId);
+
+    const result = await playerApi.createDiscordSession({
+        movieName: displayTitle,
+        movieInfo: {
+            id: tmdbInfo.id,
+            title: tmdbInfo.title,
+            overview: tmdbInfo.overview,
+            posterUrl: tmdbInfo.poster_url,
+            backdropUrl: null,
+            releaseDate: tmdbInfo.release_date,
+            voteAverage: tmdbInfo.vote_average,
+            genres: tmdbInfo.genres,
+            mediaType: tmdbInfo.media_type,
+            seasons: tmdbInfo.seasons,
+        },
+        discordSession: {
+            channelId: channel.id,
+            messageId: publicMessage.id,
+            guildId,
+            hostDiscordId: hostId,
+            hostUsername,
+            ratingScale,
+        },
+        selectedEpisode,
+    });
+
+    if (!result) {
+        await publicMessage.delete().catch(() => { });
+        return { ok: false, reason: "player_unavailable" };
+    }
+
+    const createdAt = Date.now();
+    setActiveWatchSession({
+        roomId: result.roomId,
+        hostToken: result.hostToken,
+        hostDiscordId: hostId,
+        channelId: channel.id,
+        messageId: publicMessage.id,
+        guildId,
+        movieName: displayTitle,
+        tmdbInfo,
+        selectedEpisode,
+        hostUsername,
+        createdAt,
+    });
+
+    const embed = buildSessionEmbed(
+        displayTitle,
+        tmdbInfo,
+        "waiting",
+        hostUsername,
+        0,
+        [],
+        selectedEpisode,
+        createdAt,
+        ratingScale
+    );
+
+    // A sala já existe: falhar aqui faria o agendamento tentar lançar a mesma sessão de novo
+    try {
+        await publicMessage.edit({
+            content: null,
+            embeds: [embed],
+            components: buildSessionComponents(result.roomId, "waiting", playerApi.getPlayerUrl()),
+        });
+    } catch (error) {
+        logger.error("SessionLauncher", `Falha ao atualizar a mensagem da sessão ${result.roomId}`, error);
+    }
+
+    return { ok: true, roomId: result.roomId, messageId: publicMessage.id, displayTitle };
+}
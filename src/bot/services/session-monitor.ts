@@ -1,17 +1,22 @@
-import { TextChannel } from "discord.js";
+import { TextChannel, escapeMarkdown } from "discord.js";
 import type { Client } from "discord.js";
-import { activeWatchSession, setActiveWatchSession, ActiveWatchSession } from "../state";
+import { activeWatchSessions, removeActiveWatchSession, ActiveWatchSession } from "../state";
 import * as playerApi from "./player-api";
-import { buildSessionEmbed } from "../ui/embeds";
+import { buildSessionEmbed, buildTimelineMomentsEmbed } from "../ui/embeds";
 import { buildSessionComponents } from "../ui/components";
 import { logger } from "../../shared/logger";
 import db from "../../database";
-import type { SelectedEpisode, SessionRating } from "../../shared/types";
+import type { ChatMessage, SelectedEpisode, SessionRating, TimelineBucket } from "../../shared/types";
+import type { EpisodeRef } from "../../database/types";
+import { CHAT_DISCORD_MIRROR } from "../../config";
 
 const SESSION_CHECK_INTERVAL = 5000;
 const RECONNECT_DELAY = 2000;
 const MAX_SESSION_DURATION = 4 * 60 * 60 * 1000;
 const MAX_RECONNECT_DELAY = 30000;
+// Agrupa as mensagens do chat para não estourar o rate limit do Discord
+const CHAT_MIRROR_FLUSH_DELAY = 5000;
+const DISCORD_MESSAGE_LIMIT = 2000;
 
 interface WsViewersPayload {
     viewers: { discordId: string; username: string }[];
@@ -30,10 +35,17 @@ interface SessionRatingPayload {
     discordId: string;
     username: string;
     rating: number;
+    review?: string;
+    spoiler?: boolean;
 }
 
 interface WsAllRatingsPayload {
     ratings: SessionRatingPayload[];
+    timeline?: TimelineBucket[];
+}
+
+interface WsChatMessagePayload {
+    chatMessage?: ChatMessage;
 }
 
 interface WsNextEpisodePayload {
@@ -45,19 +57,40 @@ interface WsMessage {
     type: string;
 }
 
-const monitorState = {
-    socket: null as WebSocket | null,
-    roomId: null as string | null,
-    checkInterval: null as NodeJS.Timeout | null,
-    reconnectTimeout: null as NodeJS.Timeout | null,
-    reconnectAttempts: 0,
-    lastStatus: "waiting" as "waiting" | "playing" | "ended",
-    lastViewerIds: new Set<string>(),
-    finalizing: false,
-    isEpisodeTransition: false,
-    episodeTransitionMovieName: null as string | null,
-    episodeTransitionEpisode: null as SelectedEpisode | null,
-};
+interface MonitorState {
+    socket: WebSocket | null;
+    roomId: string;
+    reconnectTimeout: NodeJS.Timeout | null;
+    reconnectAttempts: number;
+    lastStatus: "waiting" | "playing" | "ended";
+    lastViewerIds: Set<string>;
+    finalizing: boolean;
+    isEpisodeTransition: boolean;
+    episodeTransitionMovieName: string | null;
+    episodeTransitionEpisode: SelectedEpisode | null;
+    chatBuffer: string[];
+    chatFlushTimeout: NodeJS.Timeout | null;
+}
+
+const monitors = new Map<string, MonitorState>();
+let checkInterval: NodeJS.Timeout | null = null;
+
+function createMonitorState(roomId: string): MonitorState {
+    return {
+        socket: null,
+        roomId,
+        reconnectTimeout: null,
+        reconnectAttempts: 0,
+        lastStatus: "waiting",
+        lastViewerIds: new Set<string>(),
+        finalizing: false,
+        isEpisodeTransition: false,
+        episodeTransitionMovieName: null,
+        episodeTransitionEpisode: null,
+        chatBuffer: [],
+        chatFlushTimeout: null,
+    };
+}
 
 function parseWebSocketMessageData(data: unknown): string {
     if (typeof data === "string") return data;
@@ -67,88 +100,88 @@ function parseWebSocketMessageData(data: unknown): string {
 }
 
 export const startSessionMonitor = (client: Client) => {
-    if (monitorState.checkInterval) clearInterval(monitorState.checkInterval);
-
-    monitorState.checkInterval = setInterval(() => {
-        const session = activeWatchSession;
-
-        if (!session) {
-            resetMonitorState();
-            closeSocket();
-            return;
-        }
+    if (checkInterval) clearInterval(checkInterval);
 
-        if (Date.now() - session.createdAt > MAX_SESSION_DURATION) {
-            logger.warn("SessionMonitor", `Sessão expirada por tempo limite (${session.roomId}). Parando monitoramento.`);
-            setActiveWatchSession(null);
-            resetMonitorState();
-            closeSocket();
-            return;
+    checkInterval = setInterval(() => {
+        for (const roomId of monitors.keys()) {
+            if (!activeWatchSessions.has(roomId)) stopMonitor(roomId);
         }
 
-        const socketClosed = !monitorState.socket || monitorState.socket.readyState === WebSocket.CLOSED;
-        if (socketClosed || monitorState.roomId !== session.roomId) {
-            logger.info("SessionMonitor", `Conectando ao WS: room=${session.roomId}`);
-            connectToSession(client, session);
+        for (const session of activeWatchSessions.values()) {
+            if (Date.now() - session.createdAt > MAX_SESSION_DURATION) {
+                logger.warn("SessionMonitor", `Sessão expirada por tempo limite (${session.roomId}). Parando monitoramento.`);
+                removeActiveWatchSession(session.roomId);
+                stopMonitor(session.roomId);
+                continue;
+            }
+
+            const monitor = monitors.get(session.roomId);
+            const socketClosed = !monitor?.socket || monitor.socket.readyState === WebSocket.CLOSED;
+            if (!monitor || (socketClosed && !monitor.reconnectTimeout)) {
+                logger.info("SessionMonitor", `Conectando ao WS: room=${session.roomId}`);
+                connectToSession(client, session);
+            }
         }
     }, SESSION_CHECK_INTERVAL);
 };
 
-function resetMonitorState() {
-    monitorState.lastStatus = "waiting";
-    monitorState.lastViewerIds = new Set();
-    monitorState.roomId = null;
-    monitorState.reconnectAttempts = 0;
-    monitorState.finalizing = false;
-    monitorState.isEpisodeTransition = false;
-    monitorState.episodeTransitionMovieName = null;
-    monitorState.episodeTransitionEpisode = null;
+function stopMonitor(roomId: string) {
+    const monitor = monitors.get(roomId);
+    if (!monitor) return;
+
+    closeSocket(monitor);
+    if (monitor.chatFlushTimeout) clearTimeout(monitor.chatFlushTimeout);
+    monitors.delete(roomId);
 }
 
-function closeSocket() {
-    if (monitorState.reconnectTimeout) {
-        clearTimeout(monitorState.reconnectTimeout);
-        monitorState.reconnectTimeout = null;
+function closeSocket(monitor: MonitorState) {
+    if (monitor.reconnectTimeout) {
+        clearTimeout(monitor.reconnectTimeout);
+        monitor.reconnectTimeout = null;
     }
 
-    if (monitorState.socket) {
-        monitorState.socket.onclose = null;
-        monitorState.socket.onerror = null;
-        monitorState.socket.onmessage = null;
-        monitorState.socket.onopen = null;
-        monitorState.socket.close();
-        monitorState.socket = null;
+    if (monitor.socket) {
+        monitor.socket.onclose = null;
+        monitor.socket.onerror = null;
+        monitor.socket.onmessage = null;
+        monitor.socket.onopen = null;
+        monitor.socket.close();
+        monitor.socket = null;
     }
 }
 
 function connectToSession(client: Client, session: ActiveWatchSession) {
-    closeSocket();
-    monitorState.roomId = session.roomId;
-    monitorState.finalizing = false;
-    monitorState.isEpisodeTransition = false;
-    monitorState.episodeTransitionMovieName = null;
-    monitorState.episodeTransitionEpisode = null;
+    const existing = monitors.get(session.roomId);
+    if (existing) closeSocket(existing);
+
+    const monitor = existing ?? createMonitorState(session.roomId);
+    monitors.set(session.roomId, monitor);
+    monitor.finalizing = false;
+    monitor.isEpisodeTransition = false;
+    monitor.episodeTransitionMovieName = null;
+    monitor.episodeTransitionEpisode = null;
 
     const wsUrl = buildWsUrl(session.roomId);
-    monitorState.socket = new WebSocket(wsUrl, {
+    const socket = new WebSocket(wsUrl, {
         headers: {
             "x-room-token": session.hostToken,
         },
     } as never);
+    monitor.socket = socket;
 
-    monitorState.socket.onopen = () => {
+    socket.onopen = () => {
         logger.info("SessionMonitor", `WS aberto: room=${session.roomId}`);
-        monitorState.reconnectAttempts = 0;
+        monitor.reconnectAttempts = 0;
         try {
-            monitorState.socket?.send(JSON.stringify({ type: "session-status" }));
+            socket.send(JSON.stringify({ type: "session-status" }));
         } catch {
-            monitorState.socket?.close();
+            socket.close();
         }
     };
 
-    monitorState.socket.onmessage = async (event) => {
-        const currentSession = activeWatchSession;
-        if (!currentSession || currentSession.roomId !== session.roomId) return;
+    socket.onmessage = async (event) => {
+        const currentSession = activeWatchSessions.get(session.roomId);
+        if (!currentSession) return;
 
         let data: WsMessage | null = null;
         try {
@@ -162,50 +195,55 @@ function connectToSession(client: Client, session: ActiveWatchSession) {
 
         switch (data.type) {
             case "viewers":
-                await handleViewersUpdate(client, currentSession, data as unknown as WsViewersPayload);
+                await handleViewersUpdate(client, monitor, currentSession, data as unknown as WsViewersPayload);
                 break;
             case "session-status":
-                await handleSessionStatus(client, currentSession, data as unknown as WsSessionStatusPayload);
+                await handleSessionStatus(client, monitor, currentSession, data as unknown as WsSessionStatusPayload);
                 break;
             case "session-ending":
             case "session-ended":
-                requestSessionStatus();
+                requestSessionStatus(monitor);
                 break;
             case "all-ratings-received":
-                if (monitorState.isEpisodeTransition) {
-                    await handleEpisodeRatingsReceived(client, currentSession, data as unknown as WsAllRatingsPayload);
+                if (monitor.isEpisodeTransition) {
+                    await handleEpisodeRatingsReceived(client, monitor, currentSession, data as unknown as WsAllRatingsPayload);
                 } else {
-                    await handleAllRatingsReceived(client, currentSession, data as unknown as WsAllRatingsPayload);
+                    await handleAllRatingsReceived(client, monitor, currentSession, data as unknown as WsAllRatingsPayload);
                 }
                 break;
             case "episode-ending":
-                monitorState.isEpisodeTransition = true;
-                monitorState.episodeTransitionMovieName = currentSession.movieName;
-                monitorState.episodeTransitionEpisode = currentSession.selectedEpisode ?? null;
+                monitor.isEpisodeTransition = true;
+                monitor.episodeTransitionMovieName = currentSession.movieName;
+                monitor.episodeTransitionEpisode = currentSession.selectedEpisode ?? null;
                 break;
             case "next-episode":
-                monitorState.isEpisodeTransition = false;
-                monitorState.episodeTransitionMovieName = null;
-                monitorState.episodeTransitionEpisode = null;
-                await handleNextEpisode(client, currentSession, data as unknown as WsNextEpisodePayload);
+                monitor.isEpisodeTransition = false;
+                monitor.episodeTransitionMovieName = null;
+                monitor.episodeTransitionEpisode = null;
+                await handleNextEpisode(client, monitor, currentSession, data as unknown as WsNextEpisodePayload);
                 break;
             case "session-cancelled":
                 await handleSessionCancelled(client, currentSession);
                 break;
+            case "chat-message":
+                if (CHAT_DISCORD_MIRROR) {
+                    queueChatMirror(client, monitor, currentSession, data as unknown as WsChatMessagePayload);
+                }
+                break;
             case "episode-ratings-received":
                 break;
         }
     };
 
-    monitorState.socket.onclose = () => {
+    socket.onclose = () => {
         logger.info("SessionMonitor", `WS fechado: room=${session.roomId}`);
-        monitorState.socket = null;
-        scheduleReconnect(client);
+        monitor.socket = null;
+        scheduleReconnect(client, monitor);
     };
 
-    monitorState.socket.onerror = () => {
+    socket.onerror = () => {
         logger.warn("SessionMonitor", `WS erro: room=${session.roomId}`);
-        monitorState.socket?.close();
+        socket.close();
     };
 }
 
@@ -218,56 +256,57 @@ function buildWsUrl(roomId: string): string {
     return `${wsBase}/ws?room=${roomId}&clientId=${clientId}`;
 }
 
-function scheduleReconnect(client: Client) {
-    if (!activeWatchSession || monitorState.roomId !== activeWatchSession.roomId) return;
-    if (monitorState.reconnectTimeout) return;
-    if (monitorState.socket && monitorState.socket.readyState === WebSocket.OPEN) return;
+function scheduleReconnect(client: Client, monitor: MonitorState) {
+    if (!activeWatchSessions.has(monitor.roomId) || monitors.get(monitor.roomId) !== monitor) return;
+    if (monitor.reconnectTimeout) return;
+    if (monitor.socket && monitor.socket.readyState === WebSocket.OPEN) return;
 
-    const delay = Math.min(RECONNECT_DELAY * Math.pow(2, monitorState.reconnectAttempts), MAX_RECONNECT_DELAY);
-    monitorState.reconnectAttempts++;
-    logger.info("SessionMonitor", `Reconectando em ${delay}ms (tentativa ${monitorState.reconnectAttempts})`);
+    const delay = Math.min(RECONNECT_DELAY * Math.pow(2, monitor.reconnectAttempts), MAX_RECONNECT_DELAY);
+    monitor.reconnectAttempts++;
+    logger.info("SessionMonitor", `Reconectando room=${monitor.roomId} em ${delay}ms (tentativa ${monitor.reconnectAttempts})`);
 
-    monitorState.reconnectTimeout = setTimeout(() => {
-        monitorState.reconnectTimeout = null;
-        if (activeWatchSession) {
-            connectToSession(client, activeWatchSession);
+    monitor.reconnectTimeout = setTimeout(() => {
+        monitor.reconnectTimeout = null;
+        const session = activeWatchSessions.get(monitor.roomId);
+        if (session) {
+            connectToSession(client, session);
         }
     }, delay);
 }
 
-function requestSessionStatus() {
-    if (!monitorState.socket || monitorState.socket.readyState !== WebSocket.OPEN) return;
-    monitorState.socket.send(JSON.stringify({ type: "session-status" }));
+function requestSessionStatus(monitor: MonitorState) {
+    if (!monitor.socket || monitor.socket.readyState !== WebSocket.OPEN) return;
+    monitor.socket.send(JSON.stringify({ type: "session-status" }));
 }
 
-async function handleViewersUpdate(client: Client, session: ActiveWatchSession, data: WsViewersPayload) {
+async function handleViewersUpdate(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsViewersPayload) {
     const viewers = data.viewers || [];
     const currentIds = new Set(viewers.map(v => v.discordId));
 
-    const hasChanges = currentIds.size !== monitorState.lastViewerIds.size ||
-        [...currentIds].some(id => !monitorState.lastViewerIds.has(id));
+    const hasChanges = currentIds.size !== monitor.lastViewerIds.size ||
+        [...currentIds].some(id => !monitor.lastViewerIds.has(id));
 
-    if (hasChanges && monitorState.lastStatus === "playing") {
-        monitorState.lastViewerIds = currentIds;
+    if (hasChanges && monitor.lastStatus === "playing") {
+        monitor.lastViewerIds = currentIds;
         await updateSessionEmbed(client, session, "playing", viewers.length, viewers);
     } else {
-        monitorState.lastViewerIds = currentIds;
+        monitor.lastViewerIds = currentIds;
     }
 }
 
-async function handleSessionStatus(client: Client, session: ActiveWatchSession, data: WsSessionStatusPayload) {
+async function handleSessionStatus(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsSessionStatusPayload) {
     const currentStatus = data.status || "waiting";
     const viewerCount = data.viewerCount ?? data.count ?? 0;
     const viewers = data.viewers || [];
     const ratings = data.ratings || [];
     const currentIds = new Set<string>(viewers.map(v => v.discordId));
 
-    const statusChanged = monitorState.lastStatus !== currentStatus;
-    const viewersChanged = currentIds.size !== monitorState.lastViewerIds.size ||
-        [...currentIds].some(id => !monitorState.lastViewerIds.has(id));
+    const statusChanged = monitor.lastStatus !== currentStatus;
+    const viewersChanged = currentIds.size !== monitor.lastViewerIds.size ||
+        [...currentIds].some(id => !monitor.lastViewerIds.has(id));
 
-    monitorState.lastStatus = currentStatus;
-    monitorState.lastViewerIds = currentIds;
+    monitor.lastStatus = currentStatus;
+    monitor.lastViewerIds = currentIds;
 
     if (statusChanged) {
         await updateSessionEmbed(client, session, currentStatus, viewerCount, viewers, ratings);
@@ -276,53 +315,135 @@ async function handleSessionStatus(client: Client, session: ActiveWatchSession,
     }
 
     if (currentStatus === "ended" && data.allRated) {
-        await finalizeSession(session, ratings);
+        await finalizeSession(client, monitor, session, ratings);
     }
 }
 
-async function handleAllRatingsReceived(client: Client, session: ActiveWatchSession, data: WsAllRatingsPayload) {
+async function handleAllRatingsReceived(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsAllRatingsPayload) {
     const ratings = data.ratings || [];
 
-    if (monitorState.lastStatus !== "ended") {
-        monitorState.lastStatus = "ended";
+    if (monitor.lastStatus !== "ended") {
+        monitor.lastStatus = "ended";
     }
 
-    await updateSessionEmbed(client, session, "ended", monitorState.lastViewerIds.size, [], ratings);
-    await finalizeSession(session, ratings);
+    await updateSessionEmbed(client, session, "ended", monitor.lastViewerIds.size, [], ratings);
+    await finalizeSession(client, monitor, session, ratings);
 }
 
-async function handleNextEpisode(client: Client, session: ActiveWatchSession, data: WsNextEpisodePayload) {
+async function handleNextEpisode(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsNextEpisodePayload) {
     const newMovieName = data.movieName || session.movieName;
     const selectedEpisode = data.selectedEpisode || undefined;
 
     session.movieName = newMovieName;
     session.selectedEpisode = selectedEpisode;
 
-    monitorState.lastStatus = "waiting";
+    monitor.lastStatus = "waiting";
 
     logger.info("SessionMonitor", `Próximo episódio: ${newMovieName}`);
-    await updateSessionEmbed(client, session, "waiting", monitorState.lastViewerIds.size, []);
+    await updateSessionEmbed(client, session, "waiting", monitor.lastViewerIds.size, []);
+}
+
+function formatMediaTime(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60).toString().padStart(2, "0");
+    const secs = (total % 60).toString().padStart(2, "0");
+    return hours > 0 ? `${hours}:${minutes}:${secs}` : `${minutes}:${secs}`;
+}
+
+function queueChatMirror(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsChatMessagePayload) {
+    const message = data.chatMessage;
+    if (!message?.text) return;
+
+    monitor.chatBuffer.push(`💬 **${escapeMarkdown(message.username)}** \`${formatMediaTime(message.mediaTime)}\` ${escapeMarkdown(message.text)}`);
+    if (monitor.chatFlushTimeout) return;
+
+    monitor.chatFlushTimeout = setTimeout(() => {
+        monitor.chatFlushTimeout = null;
+        flushChatMirror(client, monitor, session).catch((error) => {
+            logger.warn("SessionMonitor", `Falha ao repetir chat no Discord: room=${session.roomId}`, error);
+        });
+    }, CHAT_MIRROR_FLUSH_DELAY);
+}
+
+/**
+ * Envia as mensagens acumuladas do chat do player em blocos de até 2000 caracteres.
+ * Menções ficam desativadas para ninguém ser marcado pelo chat do player.
+ */
+async function flushChatMirror(client: Client, monitor: MonitorState, session: ActiveWatchSession) {
+    const lines = monitor.chatBuffer.splice(0);
+    if (!lines.length) return;
+
+    const channel = await client.channels.fetch(session.channelId) as TextChannel;
+    if (!channel) return;
+
+    let content = "";
+    for (const line of lines) {
+        const next = content ? `${content}\n${line}` : line;
+        if (next.length > DISCORD_MESSAGE_LIMIT && content) {
+            await channel.send({ content, allowedMentions: { parse: [] } });
+            content = line.slice(0, DISCORD_MESSAGE_LIMIT);
+        } else {
+            content = next.slice(0, DISCORD_MESSAGE_LIMIT);
+        }
+    }
+
+    if (content) {
+        await channel.send({ content, allowedMentions: { parse: [] } });
+    }
 }
 
 async function handleSessionCancelled(client: Client, session: ActiveWatchSession) {
     logger.info("SessionMonitor", `Sessão cancelada: room=${session.roomId}`);
     await updateSessionEmbed(client, session, "cancelled", 0, []);
-    setActiveWatchSession(null);
-    closeSocket();
-    resetMonitorState();
+    removeActiveWatchSession(session.roomId);
+    stopMonitor(session.roomId);
+}
+
+function toEpisodeRef(selectedEpisode?: SelectedEpisode | null): EpisodeRef | undefined {
+    if (!selectedEpisode?.seasonNumber) return undefined;
+    return {
+        seasonNumber: selectedEpisode.seasonNumber,
+        episodeNumber: selectedEpisode.episodeNumber,
+        name: selectedEpisode.name,
+        tmdbEpisodeId: selectedEpisode.id ?? null,
+    };
+}
+
+/** Atualiza o "onde paramos" da série no servidor (usado pelo /series). */
+async function recordProgress(session: ActiveWatchSession, episode: EpisodeRef | undefined) {
+    if (!episode || !session.guildId) return;
+    await db.recordSeriesProgress(
+        session.guildId,
+        session.tmdbInfo.title,
+        session.tmdbInfo as unknown as Record<string, unknown>,
+        episode
+    );
 }
 
-async function handleEpisodeRatingsReceived(client: Client, session: ActiveWatchSession, data: WsAllRatingsPayload) {
+async function handleEpisodeRatingsReceived(client: Client, monitor: MonitorState, session: ActiveWatchSession, data: WsAllRatingsPayload) {
     const ratings: SessionRatingPayload[] = data.ratings || [];
-    const movieName = monitorState.episodeTransitionMovieName || session.movieName;
+    const movieName = monitor.episodeTransitionMovieName || session.movieName;
 
     logger.info("SessionMonitor", `Avaliações do episódio recebidas: ${movieName} (${ratings.length} votos)`);
 
     try {
-        await db.registerMovieStart(movieName, session.tmdbInfo as unknown as Record<string, unknown>);
+        const selectedEpisode = monitor.episodeTransitionEpisode ?? session.selectedEpisode;
+        const episode = toEpisodeRef(selectedEpisode);
+        const viewingId = await db.registerMovieStart(movieName, session.tmdbInfo as unknown as Record<string, unknown>, {
+            attendees: [...monitor.lastViewerIds, ...ratings.map((r) => r.discordId)],
+            roomId: session.roomId,
+            episode,
+            runtime: selectedEpisode?.runtime ?? null,
+        });
+        await recordProgress(session, episode);
 
         for (const r of ratings) {
-            await db.addVote(movieName, r.discordId, r.username, r.rating);
+            await db.addVote(movieName, r.discordId, r.username, r.rating, r.review ?? null, r.spoiler === true, viewingId);
+        }
+
+        if (data.timeline?.length) {
+            await db.saveViewingTimeline(viewingId, data.timeline);
         }
 
         logger.info("SessionMonitor", `Votos do episódio persistidos: ${movieName}`);
@@ -338,10 +459,11 @@ async function handleEpisodeRatingsReceived(client: Client, session: ActiveWatch
                 session.tmdbInfo,
                 "ended",
                 session.hostUsername,
-                monitorState.lastViewerIds.size,
+                monitor.lastViewerIds.size,
                 ratings.map(r => ({ ...r, discordId: r.discordId || '', username: r.username || 'User' })) as SessionRating[],
-                monitorState.episodeTransitionEpisode ?? undefined,
-                session.createdAt
+                monitor.episodeTransitionEpisode ?? undefined,
+                session.createdAt,
+                await db.getGuildRatingScale(session.guildId)
             );
 
             await channel.send({ embeds: [embed] });
@@ -352,13 +474,32 @@ async function handleEpisodeRatingsReceived(client: Client, session: ActiveWatch
     }
 }
 
-async function finalizeSession(session: ActiveWatchSession, ratings: SessionRatingPayload[]) {
-    if (monitorState.finalizing) return;
-    monitorState.finalizing = true;
+async function postTimelineMoments(client: Client, session: ActiveWatchSession, timeline: TimelineBucket[]) {
+    const embed = buildTimelineMomentsEmbed(session.movieName, timeline);
+    if (!embed) return;
+
+    try {
+        const channel = await client.channels.fetch(session.channelId) as TextChannel;
+        if (channel) await channel.send({ embeds: [embed] });
+    } catch (error) {
+        logger.warn("SessionMonitor", `Falha ao enviar momentos marcantes: room=${session.roomId}`, error);
+    }
+}
+
+async function finalizeSession(client: Client, monitor: MonitorState, session: ActiveWatchSession, ratings: SessionRatingPayload[]) {
+    if (monitor.finalizing) return;
+    monitor.finalizing = true;
 
     try {
         logger.info("SessionMonitor", `Finalizando sessão: room=${session.roomId} ratings=${ratings.length}`);
-        await db.registerMovieStart(session.movieName, session.tmdbInfo as unknown as Record<string, unknown>);
+        const episode = toEpisodeRef(session.selectedEpisode);
+        const viewingId = await db.registerMovieStart(session.movieName, session.tmdbInfo as unknown as Record<string, unknown>, {
+            attendees: [...monitor.lastViewerIds, ...ratings.map((r) => r.discordId)],
+            roomId: session.roomId,
+            episode,
+            runtime: session.selectedEpisode ? session.selectedEpisode.runtime ?? null : session.tmdbInfo.runtime ?? null,
+        });
+        await recordProgress(session, episode);
 
         if (session.tmdbInfo?.title) {
             await db.removeFromWatchlistByTitle(session.tmdbInfo.title);
@@ -369,15 +510,19 @@ async function finalizeSession(session: ActiveWatchSession, ratings: SessionRati
         }
 
         for (const r of ratings) {
-            await db.addVote(session.movieName, r.discordId, r.username, r.rating);
+            await db.addVote(session.movieName, r.discordId, r.username, r.rating, r.review ?? null, r.spoiler === true, viewingId);
         }
 
-        await playerApi.finalizeSession(session.roomId, session.hostToken);
+        const result = await playerApi.finalizeSession(session.roomId, session.hostToken);
+        if (result?.timeline?.length) {
+            await db.saveViewingTimeline(viewingId, result.timeline);
+            await postTimelineMoments(client, session, result.timeline);
+        }
     } catch (dbError) {
         logger.error("SessionMonitor", "Falha ao persistir dados da sessão", dbError);
     }
 
-    setActiveWatchSession(null);
+    removeActiveWatchSession(session.roomId);
 }
 
 async function updateSessionEmbed(
@@ -403,7 +548,8 @@ async function updateSessionEmbed(
             viewerCount,
             ratings.map(r => ({ ...r, discordId: r.discordId || '', username: r.username || 'User' })) as SessionRating[],
             session.selectedEpisode,
-            session.createdAt
+            session.createdAt,
+            await db.getGuildRatingScale(session.guildId)
         );
 
         const playerBaseUrl = playerApi.getPlayerUrl();
@@ -0,0 +1,156 @@
+import { NewsChannel, TextChannel } from "discord.js";
+import type { Client } from "discord.js";
+import db from "../../database";
+import type { ScheduledSession } from "../../database/types";
+import { logger } from "../../shared/logger";
+import { buildScheduledSessionEmbed } from "../ui/embeds";
+import { buildScheduledSessionComponents } from "../ui/components";
+import { getSessionBlockReason } from "../utils";
+import { launchWatchSession } from "./session-launcher";
+
+const SCHEDULER_CHECK_INTERVAL = 30000;
+const REMINDER_LEAD_TIME = 30 * 60 * 1000;
+// Tempo que a sessão pode esperar por vaga (limite por servidor/canal) antes de ser marcada como falha
+const START_GRACE_PERIOD = 30 * 60 * 1000;
+
+let checkInterval: NodeJS.Timeout | null = null;
+let checking = false;
+
+async function fetchSessionChannel(client: Client, session: ScheduledSession): Promise<TextChannel | NewsChannel | null> {
+    const channel = await client.channels.fetch(session.channelId).catch(() => null);
+    return channel instanceof TextChannel || channel instanceof NewsChannel ? channel : null;
+}
+
+/**
+ * Reconstrói o anúncio da sessão agendada com o status e as confirmações atuais.
+ */
+async function refreshAnnouncement(channel: TextChannel | NewsChannel, session: ScheduledSession) {
+    if (!session.messageId) return;
+
+    try {
+        const message = await channel.messages.fetch(session.messageId);
+        const rsvps = await db.getScheduledSessionRsvps(session.id);
+        await message.edit({
+            embeds: [buildScheduledSessionEmbed(session, rsvps)],
+            components: buildScheduledSessionComponents(session.id, session.status !== "scheduled"),
+        });
+    } catch (error) {
+        logger.warn("SessionScheduler", `Falha ao atualizar anúncio da sessão agendada #${session.id}`, error);
+    }
+}
+
+async function getAttendingUserIds(sessionId: number): Promise<string[]> {
+    const rsvps = await db.getScheduledSessionRsvps(sessionId);
+    return rsvps.filter((rsvp) => rsvp.attending).map((rsvp) => rsvp.userId);
+}
+
+async function sendReminder(client: Client, session: ScheduledSession) {
+    await db.markScheduledSessionReminded(session.id);
+
+    const channel = await fetchSessionChannel(client, session);
+    const attending = await getAttendingUserIds(session.id);
+    if (!channel || !attending.length) return;
+
+    const unix = Math.floor(session.scheduledAt.getTime() / 1000);
+    await channel.send({
+        content:
+            `⏰ **Lembrete:** a sessão de **${session.tmdbInfo.title}** começa <t:${unix}:R>!\n` +
+            attending.map((id) => `<@${id}>`).join(" "),
+        allowedMentions: { users: attending },
+    }).catch((error) => {
+        logger.warn("SessionScheduler", `Falha ao enviar lembrete da sessão agendada #${session.id}`, error);
+    });
+}
+
+async function failSession(channel: TextChannel | NewsChannel | null, session: ScheduledSession, reason: string) {
+    await db.updateScheduledSessionStatus(session.id, "failed");
+    logger.warn("SessionScheduler", `Sessão agendada #${session.id} não iniciada: ${reason}`);
+    if (!channel) return;
+
+    await refreshAnnouncement(channel, { ...session, status: "failed" });
+    await channel.send({ content: `⚠️ Não foi possível iniciar a sessão agendada de **${session.tmdbInfo.title}**. ${reason}` }).catch(() => { });
+}
+
+async function startScheduledSession(client: Client, session: ScheduledSession) {
+    const overdue = Date.now() - session.scheduledAt.getTime() > START_GRACE_PERIOD;
+    const channel = await fetchSessionChannel(client, session);
+    if (!channel) {
+        if (overdue) await failSession(null, session, "Canal não encontrado.");
+        return;
+    }
+
+    const blockReason = getSessionBlockReason(session.guildId, session.channelId);
+    if (blockReason) {
+        // Outra sessão ocupa o canal/servidor: tenta de novo no próximo ciclo até o fim da tolerância
+        if (overdue) await failSession(channel, session, blockReason);
+        return;
+    }
+
+    const launch = await launchWatchSession({
+        channel,
+        guildId: session.guildId,
+        hostId: session.hostId,
+        hostUsername: session.hostUsername,
+        tmdbInfo: session.tmdbInfo,
+        selectedEpisode: session.selectedEpisode ?? undefined,
+    });
+
+    if (!launch.ok) {
+        if (overdue) {
+            await failSession(channel, session, launch.reason === "post_failed"
+                ? "Erro ao postar no canal (verifique permissões)."
+                : "O servidor do player está offline.");
+        }
+        return;
+    }
+
+    await db.updateScheduledSessionStatus(session.id, "started", launch.roomId);
+    logger.info("SessionScheduler", `Sessão agendada #${session.id} iniciada: room=${launch.roomId}`);
+    await refreshAnnouncement(channel, { ...session, status: "started", roomId: launch.roomId });
+
+    const attending = await getAttendingUserIds(session.id);
+    if (attending.length) {
+        await channel.send({
+            content: `🎬 A sessão de **${launch.displayTitle}** começou! ${attending.map((id) => `<@${id}>`).join(" ")}`,
+            allowedMentions: { users: attending },
+        }).catch(() => { });
+    }
+}
+
+async function checkScheduledSessions(client: Client) {
+    const now = Date.now();
+    const sessions = await db.getPendingScheduledSessions();
+
+    for (const session of sessions) {
+        const startsIn = session.scheduledAt.getTime() - now;
+
+        if (startsIn <= 0) {
+            await startScheduledSession(client, session);
+        } else if (startsIn <= REMINDER_LEAD_TIME && !session.reminderSentAt) {
+            await sendReminder(client, session);
+        }
+    }
+}
+
+/**
+ * Verifica periodicamente as sessões agendadas: envia o lembrete para quem confirmou presença
+ * e cria a sala automaticamente quando o horário chega.
+ */
+export const startSessionScheduler = (client: Client) => {
+    if (checkInterval) clearInterval(checkInterval);
+
+    const tick = async () => {
+        if (checking) return;
+        checking = true;
+        try {
+            await checkScheduledSessions(client);
+        } catch (error) {
+            logger.error("SessionScheduler", "Falha ao verificar sessões agendadas", error);
+        } finally {
+            checking = false;
+        }
+    };
+
+    checkInterval = setInterval(tick, SCHEDULER_CHECK_INTERVAL);
+    void tick();
+};
@@ -0,0 +1,75 @@
+import type { TimelineBucket } from "../../shared/types";
+
+type TimelineCounter = keyof Omit<TimelineBucket, "minute">;
+
+// Rever uma cena diz mais sobre ela do que uma pausa (que pode ser só pipoca)
+const COUNTER_WEIGHTS: Record<TimelineCounter, number> = {
+    rewinds: 2,
+    reactions: 1.5,
+    leaves: 1,
+    pauses: 0.5,
+};
+const MIN_PEAK_SCORE = 2;
+// Picos a menos de 3 minutos um do outro contam como o mesmo momento
+const MIN_PEAK_DISTANCE = 3;
+const HEATMAP_BLOCKS = "▁▂▃▄▅▆▇█";
+const MAX_HEATMAP_COLUMNS = 30;
+
+export interface TimelineMoment {
+    minute: number;
+    score: number;
+    /** Sinal que mais pesou no minuto. */
+    dominant: TimelineCounter;
+    bucket: TimelineBucket;
+}
+
+export const scoreTimelineBucket = (bucket: TimelineBucket) =>
+    (Object.keys(COUNTER_WEIGHTS) as TimelineCounter[])
+        .reduce((total, counter) => total + bucket[counter] * COUNTER_WEIGHTS[counter], 0);
+
+/**
+ * Escolhe os minutos com mais atividade, ignorando vizinhos de um pico já escolhido.
+ * @returns Momentos em ordem cronológica.
+ */
+export function findTimelinePeaks(buckets: TimelineBucket[], limit = 3): TimelineMoment[] {
+    const candidates = buckets
+        .map((bucket) => ({ bucket, score: scoreTimelineBucket(bucket) }))
+        .filter((entry) => entry.score >= MIN_PEAK_SCORE)
+        .sort((left, right) => right.score - left.score || left.bucket.minute - right.bucket.minute);
+
+    const peaks: TimelineMoment[] = [];
+    for (const { bucket, score } of candidates) {
+        if (peaks.length >= limit) break;
+        if (peaks.some((peak) => Math.abs(peak.minute - bucket.minute) < MIN_PEAK_DISTANCE)) continue;
+
+        const dominant = (Object.keys(COUNTER_WEIGHTS) as TimelineCounter[])
+            .reduce((best, counter) =>
+                bucket[counter] * COUNTER_WEIGHTS[counter] > bucket[best] * COUNTER_WEIGHTS[best] ? counter : best
+            );
+        peaks.push({ minute: bucket.minute, score, dominant, bucket });
+    }
+
+    return peaks.sort((left, right) => left.minute - right.minute);
+}
+
+/**
+ * Mapa de calor em texto: cada coluna cobre alguns minutos e usa o pico do intervalo.
+ * @returns null quando não há atividade registrada.
+ */
+export function buildTimelineHeatmap(buckets: TimelineBucket[]): string | null {
+    if (!buckets.some((bucket) => scoreTimelineBucket(bucket) > 0)) return null;
+
+    const totalMinutes = Math.max(...buckets.map((bucket) => bucket.minute)) + 1;
+    const minutesPerColumn = Math.max(1, Math.ceil(totalMinutes / MAX_HEATMAP_COLUMNS));
+    const columns = new Array<number>(Math.ceil(totalMinutes / minutesPerColumn)).fill(0);
+
+    for (const bucket of buckets) {
+        const column = Math.floor(bucket.minute / minutesPerColumn);
+        columns[column] = Math.max(columns[column]!, scoreTimelineBucket(bucket));
+    }
+
+    const max = Math.max(...columns);
+    return columns
+        .map((score) => HEATMAP_BLOCKS[Math.round((score / max) * (HEATMAP_BLOCKS.length - 1))])
+        .join("");
+}
@@ -28,6 +28,70 @@ async function fetchTmdbJson(path: string, params: Record<string, string | numbe
   }
 }
 
+/**
+ * Carrega detalhes (gêneros e, em séries, temporadas com episódios) de um item do TMDB
+ * e monta o resultado no formato usado pelo bot.
+ */
+async function loadTmdbDetails(item: any, mediaType: "movie" | "tv", fallbackTitle: string) {
+  const isMovie = mediaType === "movie";
+
+  const details = await fetchTmdbJson(`/${mediaType}/${item.id}`, {
+    api_key: TMDB_API_KEY,
+    language: "pt-BR",
+  });
+  const genres = details?.genres?.map((g: { name: string }) => g.name) || [];
+  const posterPath = item.poster_path || details.poster_path;
+
+  let seasons: any[] = [];
+  if (!isMovie && details.seasons) {
+    const seasonPromises = details.seasons
+      .filter((s: any) => s.season_number > 0)
+      .map(async (season: any) => {
+        try {
+          const seasonData = await fetchTmdbJson(`/tv/${item.id}/season/${season.season_number}`, {
+            api_key: TMDB_API_KEY,
+            language: "pt-BR",
+          });
+          return {
+            id: seasonData.id,
+            seasonNumber: seasonData.season_number,
+            name: seasonData.name,
+            episodeCount: seasonData.episodes?.length || 0,
+            episodes: (seasonData.episodes || []).map((ep: any) => ({
+              id: ep.id,
+              episodeNumber: ep.episode_number,
+              name: ep.name,
+              overview: ep.overview || "",
+              stillPath: buildTmdbImageUrl(ep.still_path),
+              airDate: ep.air_date || "",
+              runtime: ep.runtime || null,
+            })),
+          };
+        } catch {
+          logger.warn("TmdbService", `Falha ao carregar temporada ${season.season_number} de ${item.id}`);
+          return null;
+        }
+      });
+
+    seasons = (await Promise.all(seasonPromises)).filter(Boolean);
+  }
+
+  return {
+    id: item.id,
+    title: isMovie ? item.title || details.title || fallbackTitle : item.name || details.name || fallbackTitle,
+    poster_url: buildTmdbImageUrl(posterPath),
+    overview: item.overview || details.overview || "",
+    release_date: isMovie
+      ? item.release_date || details.release_date || ""
+      : item.first_air_date || details.first_air_date || "",
+    vote_average: item.vote_average || details.vote_average || 0,
+    genres,
+    media_type: mediaType,
+    runtime: isMovie ? details.runtime || null : null,
+    seasons: seasons.length ? seasons : undefined,
+  };
+}
+
 export const searchMovieTmdb = async (title: string) => {
   try {
     const searchData = await fetchTmdbJson("/search/multi", {
@@ -46,65 +110,37 @@ export const searchMovieTmdb = async (title: string) => {
     }
 
     const item = filtered[0];
-    const isMovie = item.media_type === "movie";
-    const endpoint = isMovie ? "movie" : "tv";
+    return await loadTmdbDetails(item, item.media_type, title);
+  } catch (error) {
+    logger.error("TmdbService", `Falha ao buscar mídia: ${title}`, error);
+    return null;
+  }
+};
 
-    const details = await fetchTmdbJson(`/${endpoint}/${item.id}`, {
-      api_key: TMDB_API_KEY,
-      language: "pt-BR",
-    });
-    const genres = details?.genres?.map((g: { name: string }) => g.name) || [];
-    const posterPath = item.poster_path || details.poster_path;
-
-    let seasons: any[] = [];
-    if (!isMovie && details.seasons) {
-      const seasonPromises = details.seasons
-        .filter((s: any) => s.season_number > 0)
-        .map(async (season: any) => {
-          try {
-            const seasonData = await fetchTmdbJson(`/tv/${item.id}/season/${season.season_number}`, {
-              api_key: TMDB_API_KEY,
-              language: "pt-BR",
-            });
-            return {
-              id: seasonData.id,
-              seasonNumber: seasonData.season_number,
-              name: seasonData.name,
-              episodeCount: seasonData.episodes?.length || 0,
-              episodes: (seasonData.episodes || []).map((ep: any) => ({
-                id: ep.id,
-                episodeNumber: ep.episode_number,
-                name: ep.name,
-                overview: ep.overview || "",
-                stillPath: buildTmdbImageUrl(ep.still_path),
-                airDate: ep.air_date || "",
-                runtime: ep.runtime || null,
-              })),
-            };
-          } catch {
-            logger.warn("TmdbService", `Falha ao carregar temporada ${season.season_number} de ${item.id}`);
-            return null;
-          }
-        });
-
-      seasons = (await Promise.all(seasonPromises)).filter(Boolean);
-    }
+/**
+ * Duração em minutos de um filme ou, quando temporada/episódio são informados, de um episódio da série.
+ * @returns null quando o TMDB não tem a duração ou não respondeu.
+ */
+export const getRuntimeTmdb = async (tmdbId: number, episode?: { seasonNumber: number; episodeNumber: number }) => {
+  const path = episode
+    ? `/tv/${tmdbId}/season/${episode.seasonNumber}/episode/${episode.episodeNumber}`
+    : `/movie/${tmdbId}`;
 
-    return {
-      id: item.id,
-      title: isMovie ? item.title || title : item.name || title,
-      poster_url: buildTmdbImageUrl(posterPath),
-      overview: item.overview || details.overview || "",
-      release_date: isMovie
-        ? item.release_date || ""
-        : item.first_air_date || details.first_air_date || "",
-      vote_average: item.vote_average || details.vote_average || 0,
-      genres,
-      media_type: item.media_type,
-      seasons: seasons.length ? seasons : undefined,
-    };
+  try {
+    const details = await fetchTmdbJson(path, { api_key: TMDB_API_KEY });
+    return typeof details?.runtime === "number" && details.runtime > 0 ? (details.runtime as number) : null;
   } catch (error) {
-    logger.error("TmdbService", `Falha ao buscar mídia: ${title}`, error);
+    logger.warn("TmdbService", `Falha ao buscar duração no TMDB: ${path}`, error);
+    return null;
+  }
+};
+
+/** Busca uma série diretamente pelo id do TMDB, com temporadas e episódios. */
+export const getTvShowTmdb = async (tmdbId: number, fallbackTitle = "") => {
+  try {
+    return await loadTmdbDetails({ id: tmdbId }, "tv", fallbackTitle);
+  } catch (error) {
+    logger.error("TmdbService", `Falha ao buscar série no TMDB: ${tmdbId}`, error);
     return null;
   }
 };
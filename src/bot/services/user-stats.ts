@@ -0,0 +1,200 @@
+import db from "../../database";
+import type { MovieViewing, MovieWithRatings } from "../../database/types";
+import { logger } from "../../shared/logger";
+import {
+    buildGenreInsights,
+    buildMemberInsights,
+    calculateAverage,
+    collapseRatingsByUser,
+    splitGenres,
+    type GenreInsight,
+    type MovieInsight,
+} from "./recommendations";
+import { getRuntimeTmdb } from "./tmdb";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// 01/01/1970 foi quinta-feira: desloca 3 dias para as semanas começarem na segunda
+const WEEK_OFFSET_MS = 3 * 24 * 60 * 60 * 1000;
+// Consultas ao TMDB por /stats para preencher durações de títulos antigos
+const MAX_RUNTIME_LOOKUPS = 20;
+const MIN_SHARED_TITLES = 2;
+
+export interface MemberAgreement {
+    userId: string;
+    userName: string;
+    /** 0 a 100: quanto as notas dos dois coincidem nos títulos em comum. */
+    agreement: number;
+    sharedCount: number;
+}
+
+export interface UserStats {
+    userId: string;
+    userName: string;
+    ratingsCount: number;
+    averageScore: number;
+    /** Diferença média (escala canônica) entre a nota do usuário e a média dos outros; negativa = mais exigente. */
+    harshness: number | null;
+    favoriteMovies: MovieInsight[];
+    favoriteGenres: GenreInsight[];
+    leastFavoriteGenres: GenreInsight[];
+    agreements: MemberAgreement[];
+    viewingsCount: number;
+    minutesWatched: number;
+    viewingsWithoutRuntime: number;
+    /** Semanas seguidas com pelo menos uma sessão. */
+    currentStreak: number;
+    longestStreak: number;
+}
+
+interface AttendedViewing {
+    movieId: number;
+    runtime: number | null;
+    viewing: MovieViewing;
+}
+
+/** Sessões em que o usuário estava presente ou deu nota, já com episódios de séries abertos. */
+function getAttendedViewings(movies: MovieWithRatings[], userId: string): AttendedViewing[] {
+    const titles = movies.flatMap((movie) => movie.episodes?.length ? movie.episodes : [movie]);
+
+    return titles.flatMap((title) => title.viewings
+        .filter((viewing) =>
+            viewing.attendees.includes(userId) || viewing.ratings.some((rating) => rating.user_id === userId)
+        )
+        .map((viewing) => ({ movieId: title.id, runtime: title.runtime, viewing })));
+}
+
+/**
+ * Busca no TMDB a duração dos títulos assistidos que ainda não têm runtime salvo.
+ * @returns Quantos títulos foram atualizados.
+ */
+async function fillMissingRuntimes(movieIds: number[]): Promise<number> {
+    const missing = (await db.getMoviesMissingRuntime(movieIds)).slice(0, MAX_RUNTIME_LOOKUPS);
+    let updated = 0;
+
+    for (const row of missing) {
+        const runtime = row.series_tmdb_id && row.season_number !== null && row.episode_number !== null
+            ? await getRuntimeTmdb(row.series_tmdb_id, { seasonNumber: row.season_number, episodeNumber: row.episode_number })
+            : row.tmdb_id ? await getRuntimeTmdb(row.tmdb_id) : null;
+
+        if (runtime) {
+            await db.setMovieRuntime(row.id, runtime);
+            updated++;
+        }
+    }
+
+    if (updated) {
+        logger.info("UserStats", `Duração preenchida via TMDB para ${updated} títulos`);
+    }
+    return updated;
+}
+
+const toWeekIndex = (date: string) => Math.floor((new Date(date).getTime() + WEEK_OFFSET_MS) / WEEK_MS);
+
+function calculateStreaks(viewings: AttendedViewing[]) {
+    const weeks = [...new Set(viewings.map(({ viewing }) => toWeekIndex(viewing.watchedAt)))]
+        .filter((week) => Number.isFinite(week))
+        .sort((a, b) => a - b);
+
+    let longestStreak = 0;
+    let streak = 0;
+    weeks.forEach((week, index) => {
+        streak = index > 0 && week === weeks[index - 1]! + 1 ? streak + 1 : 1;
+        longestStreak = Math.max(longestStreak, streak);
+    });
+
+    // A sequência atual continua valendo enquanto a semana passada teve sessão
+    const lastWeek = weeks[weeks.length - 1];
+    const currentWeek = toWeekIndex(new Date().toISOString());
+    const currentStreak = lastWeek !== undefined && currentWeek - lastWeek <= 1 ? streak : 0;
+
+    return { currentStreak, longestStreak };
+}
+
+function calculateAgreements(
+    scoresByTitle: Map<string, { user_id: string; user_name: string; score: number }[]>,
+    userId: string
+): MemberAgreement[] {
+    const pairs = new Map<string, { userName: string; differences: number[] }>();
+
+    for (const scores of scoresByTitle.values()) {
+        const own = scores.find((rating) => rating.user_id === userId);
+        if (!own) continue;
+
+        for (const other of scores) {
+            if (other.user_id === userId) continue;
+            const current = pairs.get(other.user_id) ?? { userName: other.user_name || "Usuário", differences: [] };
+            current.differences.push(Math.abs(own.score - other.score));
+            pairs.set(other.user_id, current);
+        }
+    }
+
+    return Array.from(pairs.entries())
+        .filter(([, pair]) => pair.differences.length >= MIN_SHARED_TITLES)
+        .map(([otherId, pair]) => ({
+            userId: otherId,
+            userName: pair.userName,
+            agreement: Math.round(100 * (1 - calculateAverage(pair.differences) / 10)),
+            sharedCount: pair.differences.length,
+        }))
+        .sort((left, right) => right.agreement - left.agreement || right.sharedCount - left.sharedCount);
+}
+
+/**
+ * Calcula as estatísticas de um membro a partir do histórico do grupo.
+ * @returns null quando o usuário ainda não avaliou nenhum título.
+ */
+export function buildUserStats(movies: MovieWithRatings[], userId: string, fallbackName: string): UserStats | null {
+    const member = buildMemberInsights(movies).find((insight) => insight.userId === userId);
+    if (!member) return null;
+
+    const scoresByTitle = new Map(movies.map((movie) => [movie.title, collapseRatingsByUser(movie.avaliacoes)]));
+    const genreEntries: { genres: string[]; score: number; movieTitle: string }[] = [];
+    const differences: number[] = [];
+
+    for (const movie of movies) {
+        const scores = scoresByTitle.get(movie.title) ?? [];
+        const own = scores.find((rating) => rating.user_id === userId);
+        if (!own) continue;
+
+        genreEntries.push({ genres: splitGenres(movie.genres), score: own.score, movieTitle: movie.title });
+
+        const others = scores.filter((rating) => rating.user_id !== userId).map((rating) => rating.score);
+        if (others.length) {
+            differences.push(own.score - calculateAverage(others));
+        }
+    }
+
+    const genres = buildGenreInsights(genreEntries).filter((genre) => genre.ratingsCount >= 2);
+    const attended = getAttendedViewings(movies, userId);
+    const withRuntime = attended.filter((entry) => entry.runtime);
+
+    return {
+        userId,
+        userName: member.userName || fallbackName,
+        ratingsCount: member.ratingsCount,
+        averageScore: member.averageScore,
+        harshness: differences.length ? calculateAverage(differences) : null,
+        favoriteMovies: member.favoriteMovies,
+        favoriteGenres: genres.slice(0, 5),
+        leastFavoriteGenres: [...genres].reverse().slice(0, 3),
+        agreements: calculateAgreements(scoresByTitle, userId),
+        viewingsCount: attended.length,
+        minutesWatched: withRuntime.reduce((total, entry) => total + entry.runtime!, 0),
+        viewingsWithoutRuntime: attended.length - withRuntime.length,
+        ...calculateStreaks(attended),
+    };
+}
+
+/**
+ * Carrega o histórico, completa durações faltantes no TMDB e monta as estatísticas do usuário.
+ */
+export async function getUserStats(userId: string, fallbackName: string): Promise<UserStats | null> {
+    let movies = await db.getAllMoviesWithRatings();
+
+    const attendedIds = [...new Set(getAttendedViewings(movies, userId).map((entry) => entry.movieId))];
+    if (await fillMissingRuntimes(attendedIds)) {
+        movies = await db.getAllMoviesWithRatings();
+    }
+
+    return buildUserStats(movies, userId, fallbackName);
+}
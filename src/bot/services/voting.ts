@@ -0,0 +1,140 @@
+import type { Client, Message } from "discord.js";
+import db from "../../database";
+import type { ActiveVoting } from "../../database/types";
+import { VOTING_DEADLINE_HOURS, VOTING_REMINDER_MINUTES } from "../../config";
+import { logger } from "../../shared/logger";
+import { buildVotingResultEmbed } from "../ui/embeds";
+import { toMovieId } from "../utils";
+import { votingCache, type VotingEntry } from "../state";
+
+const VOTING_CHECK_INTERVAL = 30000;
+
+let checkInterval: NodeJS.Timeout | null = null;
+let checking = false;
+
+export function getDefaultVotingDeadline(from: number = Date.now()): Date {
+    return new Date(from + VOTING_DEADLINE_HOURS * 60 * 60 * 1000);
+}
+
+function toVotingEntry(voting: ActiveVoting): VotingEntry {
+    return {
+        movieKey: voting.movieKey,
+        tmdbInfo: voting.tmdbInfo,
+        allowedUsers: voting.allowedUsers,
+        deadline: voting.deadline,
+    };
+}
+
+/**
+ * Busca a votação pelo id do botão. Quando o cache expirou, procura nas votações ativas do banco
+ * e repopula votingCache.
+ */
+export async function resolveVoting(movieId: string): Promise<VotingEntry | null> {
+    const cached = votingCache.get(movieId);
+    if (cached) return cached;
+
+    const votings = await db.getActiveVotings();
+    const voting = votings.find((item) => toMovieId(item.movieKey) === movieId);
+    if (!voting) return null;
+
+    const entry = toVotingEntry(voting);
+    votingCache.set(movieId, entry);
+    return entry;
+}
+
+/**
+ * Encerra a votação: troca a mensagem pelo resultado final e remove o registro ativo.
+ */
+export async function closeVoting(message: Message, voting: VotingEntry) {
+    await db.removeActiveVoting(voting.movieKey);
+    votingCache.delete(toMovieId(voting.movieKey));
+
+    const embed = await buildVotingResultEmbed(voting.movieKey, voting.tmdbInfo, voting.allowedUsers, message.guild);
+    await message.edit({ embeds: [embed], components: [] });
+    logger.info("Voting", `Votação encerrada: ${voting.movieKey}`);
+}
+
+async function fetchVotingMessage(client: Client, voting: ActiveVoting): Promise<Message | null> {
+    try {
+        const channel = await client.channels.fetch(voting.channelId);
+        if (!channel?.isTextBased()) return null;
+        return await channel.messages.fetch(voting.messageId);
+    } catch {
+        return null;
+    }
+}
+
+async function sendVotingReminder(client: Client, voting: ActiveVoting) {
+    await db.markVotingReminded(voting.movieKey);
+
+    const ratings = await db.getMovieRatings(voting.movieKey);
+    const usuariosVotaram = new Set(ratings.map((rating) => String(rating.user_id)));
+    const usuariosFaltam = voting.allowedUsers.filter((uid) => !usuariosVotaram.has(uid));
+    if (!usuariosFaltam.length || !voting.deadline) return;
+
+    const message = await fetchVotingMessage(client, voting);
+    if (!message) return;
+
+    const unix = Math.floor(voting.deadline.getTime() / 1000);
+    await message.reply({
+        content:
+            `⏳ **Faltam ${usuariosFaltam.length} voto(s)!** A votação de **${voting.movieKey}** encerra <t:${unix}:R>.\n` +
+            `📢 ${usuariosFaltam.map((uid) => `<@${uid}>`).join(" ")}`,
+        allowedMentions: { users: usuariosFaltam },
+    }).catch((error) => {
+        logger.warn("Voting", `Falha ao enviar lembrete da votação: ${voting.movieKey}`, error);
+    });
+}
+
+async function checkVotings(client: Client) {
+    const now = Date.now();
+    const votings = await db.getActiveVotings();
+
+    for (const voting of votings) {
+        if (!voting.deadline) {
+            // Votações antigas, criadas antes do prazo existir
+            await db.setVotingDeadline(voting.movieKey, getDefaultVotingDeadline(now));
+            continue;
+        }
+
+        const remaining = voting.deadline.getTime() - now;
+        if (remaining <= 0) {
+            const message = await fetchVotingMessage(client, voting);
+            if (message) {
+                await closeVoting(message, toVotingEntry(voting));
+            } else {
+                logger.warn("Voting", `Mensagem da votação não encontrada, removendo: ${voting.movieKey}`);
+                await db.removeActiveVoting(voting.movieKey);
+                votingCache.delete(toMovieId(voting.movieKey));
+            }
+            continue;
+        }
+
+        if (VOTING_REMINDER_MINUTES > 0 && !voting.reminderSentAt && remaining <= VOTING_REMINDER_MINUTES * 60 * 1000) {
+            await sendVotingReminder(client, voting);
+        }
+    }
+}
+
+/**
+ * Verifica periodicamente as votações de nota: lembra quem falta votar antes do prazo
+ * e encerra as que expiraram com o embed de resultado final.
+ */
+export const startVotingScheduler = (client: Client) => {
+    if (checkInterval) clearInterval(checkInterval);
+
+    const tick = async () => {
+        if (checking) return;
+        checking = true;
+        try {
+            await checkVotings(client);
+        } catch (error) {
+            logger.error("Voting", "Falha ao verificar votações ativas", error);
+        } finally {
+            checking = false;
+        }
+    };
+
+    checkInterval = setInterval(tick, VOTING_CHECK_INTERVAL);
+    void tick();
+};
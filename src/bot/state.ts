@@ -1,5 +1,6 @@
 import { TTLCache } from "./utils/ttl-cache";
 import type { SelectedEpisode, SessionRating, TmdbSearchResult } from "../shared/types";
+import type { UserStats } from "./services/user-stats";
 
 export type { TmdbSearchResult };
 
@@ -8,6 +9,7 @@ export interface VotingEntry {
     movieKey: string;
     tmdbInfo: TmdbSearchResult | null;
     allowedUsers: string[];
+    deadline: Date | null;
 }
 
 export interface ListEntry {
@@ -21,6 +23,12 @@ export interface WatchlistEntry {
     botAvatarUrl: string | undefined;
 }
 
+export interface StatsEntry {
+    stats: UserStats;
+    page: number;
+    avatarUrl: string;
+}
+
 export interface RecEntry {
   recommendations: { titulo: string; motivo: string }[];
 }
@@ -36,6 +44,7 @@ export const votingCache = new TTLCache<string, VotingEntry>();
 export const listCache = new TTLCache<string, ListEntry>();
 export const watchlistCache = new TTLCache<string, WatchlistEntry>();
 export const recCache = new TTLCache<string, RecEntry>();
+export const statsCache = new TTLCache<string, StatsEntry>();
 export const pendingWatchlistCache = new TTLCache<string, PendingWatchlistEntry>();
 export const pendingRemovalCache = new TTLCache<string, string>();
 export const pendingSessionCache = new TTLCache<string, PendingSession>();
@@ -64,8 +73,23 @@ export interface ActiveWatchSession {
     createdAt: number;
 }
 
-export let activeWatchSession: ActiveWatchSession | null = null;
+export const activeWatchSessions = new Map<string, ActiveWatchSession>();
+
+export function setActiveWatchSession(session: ActiveWatchSession) {
+    activeWatchSessions.set(session.roomId, session);
+}
+
+export function removeActiveWatchSession(roomId: string) {
+    activeWatchSessions.delete(roomId);
+}
+
+export function getChannelWatchSession(channelId: string): ActiveWatchSession | null {
+    for (const session of activeWatchSessions.values()) {
+        if (session.channelId === channelId) return session;
+    }
+    return null;
+}
 
-export function setActiveWatchSession(session: ActiveWatchSession | null) {
-    activeWatchSession = session;
+export function getGuildWatchSessions(guildId: string): ActiveWatchSession[] {
+    return Array.from(activeWatchSessions.values()).filter(session => session.guildId === guildId);
 }
@@ -6,7 +6,18 @@ import {
   ModalBuilder,
   StringSelectMenuBuilder,
   StringSelectMenuOptionBuilder,
+  TextInputBuilder,
+  TextInputStyle,
 } from "discord.js";
+import type { MoviePoll, RatingRow } from "../../database/types";
+import type { SeriesProgressEntry } from "../services/series-progress";
+import {
+  DEFAULT_RATING_SCALE,
+  MAX_REVIEW_LENGTH,
+  getRatingScaleValues,
+  toCanonicalRating,
+  type RatingScale,
+} from "../../shared/rating-scale";
 import { getNotaEmoji, getButtonStyle } from "../utils";
 
 const recommendationGenres = [
@@ -37,32 +48,81 @@ const recommendationGenres = [
   "War & Politics",
 ];
 
-export const buildVotingComponents = (movieId: string) => {
-  const row1 = new ActionRowBuilder<ButtonBuilder>();
-  const row2 = new ActionRowBuilder<ButtonBuilder>();
+export const buildVotingComponents = (movieId: string, scale: RatingScale = DEFAULT_RATING_SCALE) => {
+  const rows: ActionRowBuilder<ButtonBuilder>[] = [];
 
-  for (let nota = 1; nota <= 10; nota += 1) {
+  getRatingScaleValues(scale).forEach((value, index) => {
+    // O customId leva a nota canônica (0–10) para não depender da escala no momento do clique
+    const nota = toCanonicalRating(value, scale);
     const button = new ButtonBuilder()
       .setCustomId(`vote:${movieId}:${nota}`)
-      .setLabel(String(nota))
+      .setLabel(String(value))
       .setEmoji(getNotaEmoji(nota))
       .setStyle(getButtonStyle(nota));
 
-    if (nota <= 5) {
-      row1.addComponents(button);
-    } else {
-      row2.addComponents(button);
+    if (index % 5 === 0) {
+      rows.push(new ActionRowBuilder<ButtonBuilder>());
     }
-  }
+    rows[rows.length - 1]!.addComponents(button);
+  });
+
+  return rows;
+};
 
-  const row3 = new ActionRowBuilder<ButtonBuilder>().addComponents(
+export const buildReviewPromptComponents = (ratingId: number) => [
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
     new ButtonBuilder()
-      .setCustomId(`remind:${movieId}`)
-      .setLabel("📢 Quem falta votar?")
+      .setCustomId(`review_open:${ratingId}`)
+      .setLabel("Escrever resenha")
+      .setEmoji("✍️")
       .setStyle(ButtonStyle.Secondary)
-  );
+  ),
+];
+
+export const buildReviewModal = (movieTitle: string, rating: RatingRow) => {
+  const reviewInput = new TextInputBuilder()
+    .setCustomId("review_text")
+    .setStyle(TextInputStyle.Paragraph)
+    .setPlaceholder("O que você achou? Deixe em branco para apagar a resenha.")
+    .setMaxLength(MAX_REVIEW_LENGTH)
+    .setRequired(false);
+
+  if (rating.review) {
+    reviewInput.setValue(rating.review);
+  }
 
-  return [row1, row2, row3];
+  const hasSpoiler = rating.review_spoiler === 1;
+  const spoilerOptions = [
+    new StringSelectMenuOptionBuilder()
+      .setLabel("Não")
+      .setDescription("Resenha aparece normalmente")
+      .setValue("no")
+      .setDefault(!hasSpoiler),
+    new StringSelectMenuOptionBuilder()
+      .setLabel("Sim")
+      .setDescription("Resenha fica oculta até alguém clicar")
+      .setValue("yes")
+      .setDefault(hasSpoiler),
+  ];
+
+  return new ModalBuilder()
+    .setTitle(`✍️ ${movieTitle}`.slice(0, 45))
+    .setCustomId(`review_modal:${rating.id}`)
+    .addLabelComponents(
+      new LabelBuilder()
+        .setLabel("Resenha")
+        .setDescription(`Até ${MAX_REVIEW_LENGTH} caracteres`)
+        .setTextInputComponent(reviewInput),
+      new LabelBuilder()
+        .setLabel("Contém spoiler?")
+        .setStringSelectMenuComponent(
+          new StringSelectMenuBuilder()
+            .setCustomId("review_spoiler")
+            .setMinValues(1)
+            .setMaxValues(1)
+            .addOptions(spoilerOptions)
+        )
+    );
 };
 
 export const buildListComponents = (filmes: any[], page: number) => {
@@ -234,6 +294,21 @@ export const buildChangelogComponents = (
   return [row];
 };
 
+export const buildUserStatsComponents = (page: number, total: number) => [
+  new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`stats_nav:${page - 1}`)
+      .setLabel("◀ Anterior")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page === 0),
+    new ButtonBuilder()
+      .setCustomId(`stats_nav:${page + 1}`)
+      .setLabel("Próxima ▶")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page === total - 1)
+  ),
+];
+
 export const buildConfirmRow = (
   confirmId: string,
   cancelId: string,
@@ -281,6 +356,115 @@ export const buildSessionConfirmComponents = () => {
   ];
 };
 
+export const buildScheduledSessionComponents = (sessionId: number, disabled: boolean = false) => {
+  if (disabled) {
+    return [];
+  }
+
+  return [
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`schedule_rsvp:${sessionId}:yes`)
+        .setLabel("✅ Vou")
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`schedule_rsvp:${sessionId}:no`)
+        .setLabel("❌ Não vou")
+        .setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder()
+        .setCustomId(`schedule_cancel:${sessionId}`)
+        .setLabel("🗑️ Cancelar")
+        .setStyle(ButtonStyle.Danger)
+    ),
+  ];
+};
+
+export const buildSeriesProgressComponents = (entries: SeriesProgressEntry[]) => {
+  const continuable = entries.filter((entry) => entry.nextEpisode);
+  if (!continuable.length) {
+    return [];
+  }
+
+  const select = new StringSelectMenuBuilder()
+    .setCustomId("series_continue")
+    .setPlaceholder("▶️ Continuar uma série...")
+    .setMinValues(1)
+    .setMaxValues(1)
+    .addOptions(
+      continuable.map(({ progress, nextEpisode }) =>
+        new StringSelectMenuOptionBuilder()
+          .setLabel(progress.title.slice(0, 100))
+          .setDescription(`T${nextEpisode!.seasonNumber}E${nextEpisode!.episodeNumber} — ${nextEpisode!.name}`.slice(0, 100))
+          .setValue(String(progress.seriesId))
+      )
+    );
+
+  return [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select)];
+};
+
+const RANK_PLACEHOLDERS = ["🥇 Sua 1ª escolha...", "🥈 Sua 2ª escolha...", "🥉 Sua 3ª escolha..."];
+
+const buildMoviePollOptions = (poll: MoviePoll) =>
+  poll.options.map((option, index) =>
+    new StringSelectMenuOptionBuilder()
+      .setLabel(`${index + 1}. ${option.title}`.slice(0, 100))
+      .setValue(String(index))
+  );
+
+export const buildMoviePollComponents = (poll: MoviePoll) => {
+  if (poll.status === "closed") {
+    if (poll.winnerIndex === null) return [];
+    return [
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+          .setCustomId(`movie_poll_session:${poll.id}`)
+          .setLabel("🎬 Criar sessão com o vencedor")
+          .setStyle(ButtonStyle.Success)
+      ),
+    ];
+  }
+
+  const rows: ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] = [];
+
+  if (poll.mode === "ranked") {
+    const positions = Math.min(poll.options.length, RANK_PLACEHOLDERS.length);
+    for (let position = 0; position < positions; position += 1) {
+      rows.push(
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+          new StringSelectMenuBuilder()
+            .setCustomId(`movie_poll_rank:${poll.id}:${position}`)
+            .setPlaceholder(RANK_PLACEHOLDERS[position]!)
+            .setMinValues(1)
+            .setMaxValues(1)
+            .addOptions(buildMoviePollOptions(poll))
+        )
+      );
+    }
+  } else {
+    rows.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId(`movie_poll_approve:${poll.id}`)
+          .setPlaceholder("✅ Marque todos os filmes que você toparia ver...")
+          .setMinValues(0)
+          .setMaxValues(poll.options.length)
+          .addOptions(buildMoviePollOptions(poll))
+      )
+    );
+  }
+
+  rows.push(
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`movie_poll_close:${poll.id}`)
+        .setLabel("🏁 Encerrar votação")
+        .setStyle(ButtonStyle.Secondary)
+    )
+  );
+
+  return rows;
+};
+
 export const buildEpisodeSelectComponents = (
   seasons: any[],
   selectedSeason?: number,
@@ -1,5 +1,13 @@
 import { EmbedBuilder, Guild } from "discord.js";
 import db from "../../database";
+import type { MoviePoll, MovieViewing, RatingRow, ScheduledSession, ScheduledSessionRsvp } from "../../database/types";
+import type { MoviePollTally } from "../services/movie-poll";
+import type { SeriesProgressEntry } from "../services/series-progress";
+import type { UserStats } from "../services/user-stats";
+import type { GroupRecap } from "../services/recap";
+import { buildTimelineHeatmap, findTimelinePeaks, type TimelineMoment } from "../services/timeline-moments";
+import type { TimelineBucket } from "../../shared/types";
+import { DEFAULT_RATING_SCALE, formatRating, fromCanonicalRating, type RatingScale } from "../../shared/rating-scale";
 import { formatWatchDate } from "../utils";
 import { searchMovieTmdb } from "../services/tmdb";
 import { searchTrailerYoutube } from "../services/youtube";
@@ -9,9 +17,11 @@ export const buildMovieVoteEmbed = async (
   movieKey: string,
   tmdbInfo: any,
   allowedUsers: string[],
-  guild: any
+  guild: any,
+  deadline?: Date | null
 ) => {
   const ratings = await db.getMovieRatings(movieKey);
+  const scale = await db.getGuildRatingScale(guild?.id);
   const embed = new EmbedBuilder().setTitle(`🎬 ${movieKey}`).setColor(0x9370db);
 
   if (tmdbInfo) {
@@ -42,12 +52,12 @@ export const buildMovieVoteEmbed = async (
     const media = notas.reduce((acc: number, value: number) => acc + value, 0) / notas.length;
     const stars = "★".repeat(Math.round(media / 2)) + "☆".repeat(5 - Math.round(media / 2));
 
-    embed.addFields({ name: "📊 Média do Grupo", value: `${stars}\n**${media.toFixed(1)}/10**`, inline: false });
+    embed.addFields({ name: "📊 Média do Grupo", value: `${stars}\n**${formatRating(media, scale, 1)}**`, inline: false });
 
     const votosTexto = ratings
       .map(
         (rating: any) =>
-          `✅ **${rating.user_name}**: ${"⭐".repeat(Math.round(rating.score / 2))} ${rating.score}/10`
+          `✅ **${rating.user_name}**: ${"⭐".repeat(Math.round(rating.score / 2))} ${formatRating(rating.score, scale)}`
       )
       .join("\n");
 
@@ -68,6 +78,10 @@ export const buildMovieVoteEmbed = async (
     embed.addFields({ name: "⏳ Aguardando voto", value: nomes.join(" • "), inline: false });
   }
 
+  if (deadline) {
+    embed.addFields({ name: "⏰ Encerra", value: `<t:${Math.floor(deadline.getTime() / 1000)}:R>`, inline: false });
+  }
+
   const totalVotos = ratings.length;
   const totalPermitidos = allowedUsers.length;
   const status = totalVotos >= totalPermitidos ? "✅ Votação completa!" : `⏳ ${totalVotos}/${totalPermitidos} votos`;
@@ -76,7 +90,65 @@ export const buildMovieVoteEmbed = async (
   return embed;
 };
 
-export const buildListEmbed = (filmes: any[], page: number, botAvatarUrl?: string | null) => {
+export const buildVotingResultEmbed = async (
+  movieKey: string,
+  tmdbInfo: any,
+  allowedUsers: string[],
+  guild: any
+) => {
+  const ratings = await db.getMovieRatings(movieKey);
+  const scale = await db.getGuildRatingScale(guild?.id);
+  const embed = new EmbedBuilder().setTitle(`🏁 ${movieKey} • Resultado final`).setColor(0x2ecc71);
+
+  if (tmdbInfo?.poster_url) {
+    embed.setThumbnail(tmdbInfo.poster_url);
+  }
+
+  if (!ratings.length) {
+    embed.setDescription("Ninguém votou antes do prazo.");
+  } else {
+    const media = ratings.reduce((acc, rating) => acc + rating.score, 0) / ratings.length;
+    const stars = "★".repeat(Math.round(media / 2)) + "☆".repeat(5 - Math.round(media / 2));
+    embed.addFields({ name: "📊 Média do Grupo", value: `${stars}\n**${formatRating(media, scale, 1)}**`, inline: false });
+
+    const distribution = new Map<number, number>();
+    for (const rating of ratings) {
+      distribution.set(rating.score, (distribution.get(rating.score) ?? 0) + 1);
+    }
+    const maxCount = Math.max(...distribution.values());
+    const distributionText = [...distribution.keys()]
+      .sort((a, b) => b - a)
+      .map((score) => {
+        const count = distribution.get(score) ?? 0;
+        const bar = "█".repeat(Math.max(1, Math.round((count / maxCount) * 10)));
+        return `\`${String(fromCanonicalRating(score, scale)).padStart(3, " ")}\` ${bar} ${count}`;
+      })
+      .join("\n");
+    embed.addFields({ name: "📈 Distribuição", value: distributionText, inline: false });
+
+    const votosTexto = ratings
+      .map((rating) => `✅ **${rating.user_name}**: ${formatRating(rating.score, scale)}`)
+      .join("\n");
+    embed.addFields({ name: "🗳️ Votos", value: votosTexto, inline: false });
+  }
+
+  const usuariosVotaram = new Set(ratings.map((rating) => String(rating.user_id)));
+  const abstencoes = allowedUsers.filter((uid) => !usuariosVotaram.has(uid));
+  if (abstencoes.length) {
+    const nomes = abstencoes.map((uid) => guild?.members.cache.get(uid)?.displayName || `<@${uid}>`);
+    embed.addFields({ name: "🙈 Não votaram", value: nomes.join(" • "), inline: false });
+  }
+
+  embed.setFooter({ text: `Votação encerrada • ${ratings.length}/${allowedUsers.length} votos` });
+  return embed;
+};
+
+export const buildListEmbed = (
+  filmes: any[],
+  page: number,
+  botAvatarUrl?: string | null,
+  scale: RatingScale = DEFAULT_RATING_SCALE
+) => {
   const perPage = 5;
   const maxPages = filmes.length ? Math.floor((filmes.length - 1) / perPage) + 1 : 1;
   const start = page * perPage;
@@ -108,7 +180,9 @@ export const buildListEmbed = (filmes: any[], page: number, botAvatarUrl?: strin
 
     let watchedText = "";
     if (isSeries && filme.episodes) {
-      watchedText = ` • ${filme.episodes.length} episódios`;
+      const seasonsCount = filme.seasons?.length ?? 0;
+      const seasonsText = seasonsCount > 1 ? `${seasonsCount} temporadas, ` : "";
+      watchedText = ` • ${seasonsText}${filme.episodes.length} episódios`;
     } else {
       const watchedDate = formatWatchDate(filme.watched_at);
       watchedText = watchedDate ? ` • 📅 ${watchedDate}` : "";
@@ -116,7 +190,7 @@ export const buildListEmbed = (filmes: any[], page: number, botAvatarUrl?: strin
 
     embed.addFields({
       name: `${icon} ${title}`,
-      value: `${stars} **${media.toFixed(1)}/10** (${notas.length} votos)${watchedText}`,
+      value: `${stars} **${formatRating(media, scale, 1)}** (${notas.length} votos)${watchedText}`,
       inline: false,
     });
   }
@@ -260,7 +334,67 @@ export const buildRecommendationDetailEmbed = async (titulo: string, motivo: str
   return embed;
 };
 
-export const buildMovieDetailEmbed = (filme: any) => {
+const MAX_REVIEWS_SHOWN = 5;
+const MAX_REVIEW_PREVIEW_LENGTH = 150;
+
+/**
+ * Monta o texto do campo de resenhas (mais recentes primeiro). Resenhas com spoiler ficam ocultas com ||...||.
+ * @returns null quando nenhuma nota tem resenha.
+ */
+export const formatReviewsField = (ratings: RatingRow[], scale: RatingScale = DEFAULT_RATING_SCALE): string | null => {
+  const lines = [...ratings]
+    .filter((rating) => rating.review)
+    .sort((a, b) => (b.timestamp || "").localeCompare(a.timestamp || ""))
+    .slice(0, MAX_REVIEWS_SHOWN)
+    .map((rating) => {
+      const review = rating.review!.replace(/\|\|/g, "").replace(/\s+/g, " ");
+      const preview = review.length > MAX_REVIEW_PREVIEW_LENGTH
+        ? `${review.slice(0, MAX_REVIEW_PREVIEW_LENGTH - 3)}...`
+        : review;
+      const body = rating.review_spoiler ? `⚠️ *Spoiler:* ||${preview}||` : `*"${preview}"*`;
+      return `👤 **${rating.user_name}** (${formatRating(rating.score, scale)}): ${body}`;
+    });
+
+  while (lines.length && lines.join("\n").length > 1024) {
+    lines.pop();
+  }
+
+  return lines.length ? lines.join("\n") : null;
+};
+
+/**
+ * Média de cada vez que o grupo assistiu o título e, para quem votou mais de uma vez, como a nota mudou.
+ */
+const formatViewingEvolution = (viewings: MovieViewing[], scale: RatingScale): string => {
+  const viewingLines = viewings.map((viewing, index) => {
+    const date = formatWatchDate(viewing.watchedAt) || "Data desconhecida";
+    if (!viewing.ratings.length) {
+      return `**${index + 1}ª vez** • ${date} — sem notas`;
+    }
+
+    const media = viewing.ratings.reduce((acc, rating) => acc + rating.score, 0) / viewing.ratings.length;
+    return `**${index + 1}ª vez** • ${date} — ⭐ ${formatRating(media, scale, 1)} (${viewing.ratings.length} votos)`;
+  });
+
+  const historyByUser = new Map<string, { userName: string; scores: number[] }>();
+  for (const viewing of viewings) {
+    for (const rating of viewing.ratings) {
+      const history = historyByUser.get(rating.user_id) ?? { userName: rating.user_name, scores: [] };
+      history.userName = rating.user_name || history.userName;
+      history.scores.push(rating.score);
+      historyByUser.set(rating.user_id, history);
+    }
+  }
+
+  const userLines = [...historyByUser.values()]
+    .filter((history) => history.scores.length > 1)
+    .map((history) => `👤 **${history.userName}**: ${history.scores.map((score) => formatRating(score, scale)).join(" → ")}`);
+
+  const text = [...viewingLines, ...(userLines.length ? ["", ...userLines] : [])].join("\n");
+  return text.length > 1024 ? `${text.slice(0, 1021)}...` : text;
+};
+
+export const buildMovieDetailEmbed = (filme: any, scale: RatingScale = DEFAULT_RATING_SCALE) => {
   const isSeries = filme.isSeries;
   const icon = isSeries ? "📺" : "🎬";
   const embed = new EmbedBuilder().setTitle(`${icon} ${filme.title}`).setColor(0xf1c40f);
@@ -277,25 +411,36 @@ export const buildMovieDetailEmbed = (filme: any) => {
 
   if (!isSeries && filme.watched_at) {
     const watchDate = formatWatchDate(filme.watched_at) || "Data desconhecida";
-    embed.addFields({ name: "📅 Assistido em", value: watchDate, inline: true });
+    const timesWatched = filme.viewings?.length ?? 0;
+    embed.addFields({
+      name: timesWatched > 1 ? "📅 Última sessão" : "📅 Assistido em",
+      value: timesWatched > 1 ? `${watchDate} (${timesWatched} vezes)` : watchDate,
+      inline: true,
+    });
   }
 
   if (filme.avaliacoes?.length) {
     const notas = filme.avaliacoes.map((av: any) => av.score);
     const media = notas.reduce((acc: number, value: number) => acc + value, 0) / notas.length;
-    embed.addFields({ name: "⭐ Média Geral", value: `**${media.toFixed(1)}/10** (${notas.length} votos)`, inline: true });
+    embed.addFields({ name: "⭐ Média Geral", value: `**${formatRating(media, scale, 1)}** (${notas.length} votos)`, inline: true });
   }
 
   if (filme.genres) {
     embed.addFields({ name: "🎭 Gêneros", value: filme.genres, inline: true });
   }
 
-  if (isSeries && filme.episodes) {
+  if (isSeries && filme.seasons) {
+    const formatAverage = (avaliacoes: any[]) => avaliacoes.length
+      ? formatRating(avaliacoes.reduce((acc: number, av: any) => acc + av.score, 0) / avaliacoes.length, scale, 1)
+      : "N/A";
+
     let episodesText = "";
-    filme.episodes.forEach((ep: any) => {
-      const epNotas = ep.avaliacoes.map((av: any) => av.score);
-      const epMedia = epNotas.length ? (epNotas.reduce((a: number, b: number) => a + b, 0) / epNotas.length).toFixed(1) : "N/A";
-      episodesText += `**T${ep.season}E${ep.episode}**: ⭐ ${epMedia} (${ep.avaliacoes.length} votos)\n`;
+    filme.seasons.forEach((season: any) => {
+      episodesText += `__**Temporada ${season.seasonNumber}**__ — ⭐ ${formatAverage(season.avaliacoes)} (${season.episodes.length} episódios)\n`;
+      season.episodes.forEach((ep: any) => {
+        const episodeName = ep.episodeName ? ` ${ep.episodeName}` : "";
+        episodesText += `**T${ep.season}E${ep.episode}**${episodeName}: ⭐ ${formatAverage(ep.avaliacoes)} (${ep.avaliacoes.length} votos)\n`;
+      });
     });
 
     if (episodesText.length > 1024) {
@@ -305,11 +450,20 @@ export const buildMovieDetailEmbed = (filme: any) => {
     }
   } else {
     if (filme.avaliacoes?.length) {
-      const votos = filme.avaliacoes.map((av: any) => `👤 **${av.user_name}**: ${av.score}/10`).join("\n");
+      const votos = filme.avaliacoes.map((av: any) => `👤 **${av.user_name}**: ${formatRating(av.score, scale)}`).join("\n");
       embed.addFields({ name: "📝 Avaliações Individuais", value: votos || "Sem detalhes", inline: false });
     }
   }
 
+  if (!isSeries && filme.viewings?.length > 1) {
+    embed.addFields({ name: "📈 Evolução entre sessões", value: formatViewingEvolution(filme.viewings, scale), inline: false });
+  }
+
+  const reviews = formatReviewsField(filme.avaliacoes ?? [], scale);
+  if (reviews) {
+    embed.addFields({ name: "💬 Resenhas", value: reviews, inline: false });
+  }
+
   return embed;
 };
 
@@ -332,6 +486,196 @@ export const buildChangelogEmbed = (entry: ChangelogEntry, pageIndex: number): E
   return embed;
 };
 
+export const USER_STATS_PAGES = ["📊 Visão geral", "🎭 Gêneros", "🤝 Afinidade"] as const;
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours ? `${hours}h${rest ? String(rest).padStart(2, "0") : ""}` : `${rest}min`;
+};
+
+const formatHarshness = (harshness: number | null, scale: RatingScale) => {
+  if (harshness === null) return "Sem títulos em comum com o grupo";
+
+  const difference = fromCanonicalRating(Math.abs(harshness), scale).toFixed(1);
+  if (Math.abs(harshness) < 0.25) return `Na média do grupo (±${difference})`;
+  return harshness < 0
+    ? `🧊 **${difference}** abaixo da média do grupo — mais exigente`
+    : `🔥 **${difference}** acima da média do grupo — mais generoso`;
+};
+
+const formatGenreLines = (genres: UserStats["favoriteGenres"], scale: RatingScale) =>
+  genres
+    .map((genre) => `**${genre.genre}** — ⭐ ${formatRating(genre.averageScore, scale, 1)} (${genre.ratingsCount} notas)`)
+    .join("\n");
+
+export const buildUserStatsEmbed = (stats: UserStats, page: number, scale: RatingScale = DEFAULT_RATING_SCALE) => {
+  const embed = new EmbedBuilder()
+    .setTitle(`${USER_STATS_PAGES[page]} — ${stats.userName}`)
+    .setColor(0x9b59b6)
+    .setFooter({ text: `Página ${page + 1} de ${USER_STATS_PAGES.length}` });
+
+  if (page === 0) {
+    const hours = stats.minutesWatched
+      ? `**${formatMinutes(stats.minutesWatched)}** em ${stats.viewingsCount} sessões`
+      : `${stats.viewingsCount} sessões`;
+    const missing = stats.viewingsWithoutRuntime ? `\n-# ${stats.viewingsWithoutRuntime} sem duração no TMDB` : "";
+
+    embed.addFields(
+      { name: "⭐ Média", value: `**${formatRating(stats.averageScore, scale, 1)}**`, inline: true },
+      { name: "🎬 Títulos avaliados", value: String(stats.ratingsCount), inline: true },
+      { name: "⏱️ Tempo assistido", value: `${hours}${missing}`, inline: true },
+      { name: "⚖️ Rigor vs grupo", value: formatHarshness(stats.harshness, scale), inline: false },
+      {
+        name: "📆 Sequência semanal",
+        value: `Atual: **${stats.currentStreak}** ${stats.currentStreak === 1 ? "semana" : "semanas"} • Recorde: **${stats.longestStreak}**`,
+        inline: false,
+      }
+    );
+
+    if (stats.favoriteMovies.length) {
+      embed.addFields({
+        name: "🏆 Favoritos",
+        value: stats.favoriteMovies.map((movie, index) => `${index + 1}. ${movie.title}`).join("\n"),
+        inline: false,
+      });
+    }
+    return embed;
+  }
+
+  if (page === 1) {
+    if (!stats.favoriteGenres.length) {
+      embed.setDescription("Avalie pelo menos dois títulos do mesmo gênero para ver suas preferências.");
+      return embed;
+    }
+
+    embed.addFields({ name: "💚 Gêneros favoritos", value: formatGenreLines(stats.favoriteGenres, scale), inline: false });
+    const least = stats.leastFavoriteGenres.filter(
+      (genre) => !stats.favoriteGenres.some((favorite) => favorite.genre === genre.genre)
+    );
+    if (least.length) {
+      embed.addFields({ name: "💔 Menos curtidos", value: formatGenreLines(least, scale), inline: false });
+    }
+    return embed;
+  }
+
+  if (!stats.agreements.length) {
+    embed.setDescription("Ainda não há títulos suficientes avaliados junto com outros membros.");
+    return embed;
+  }
+
+  const lines = stats.agreements.map((member) => {
+    const icon = member.agreement >= 85 ? "💞" : member.agreement >= 70 ? "🤝" : "⚔️";
+    return `${icon} **${member.userName}** — ${member.agreement}% (${member.sharedCount} títulos em comum)`;
+  });
+  embed.setDescription(lines.join("\n").slice(0, 4096));
+  return embed;
+};
+
+export const RECAP_CARD_FILENAME = "retrospectiva.png";
+
+export const buildRecapEmbed = (recap: GroupRecap, scale: RatingScale = DEFAULT_RATING_SCALE, withCard = false) => {
+  const embed = new EmbedBuilder()
+    .setTitle(`🎞️ Retrospectiva — ${recap.period.label}`)
+    .setColor(0xe67e22);
+
+  if (!recap.sessionsCount) {
+    embed.setDescription("Nenhuma sessão registrada neste período.");
+    return embed;
+  }
+
+  const hours = recap.minutesWatched ? ` • ⏱️ ${formatMinutes(recap.minutesWatched)}` : "";
+  embed.setDescription(
+    `🎬 **${recap.sessionsCount}** sessões • **${recap.titlesCount}** títulos • ⭐ **${recap.ratingsCount}** notas${hours}`
+  );
+
+  const formatMovies = (movies: GroupRecap["bestRated"]) =>
+    movies
+      .map((movie, index) => `${index + 1}. **${movie.title}** — ${formatRating(movie.averageScore, scale, 1)} (${movie.ratingsCount} notas)`)
+      .join("\n");
+
+  if (recap.topGenres.length) {
+    embed.addFields({
+      name: "🎭 Gêneros mais vistos",
+      value: recap.topGenres.map((genre) => `**${genre.genre}** — ${genre.movieCount} títulos`).join("\n"),
+      inline: false,
+    });
+  }
+  if (recap.bestRated.length) {
+    embed.addFields({ name: "🏆 Mais bem avaliados", value: formatMovies(recap.bestRated), inline: true });
+  }
+  if (recap.worstRated.length) {
+    embed.addFields({ name: "💔 Piores avaliados", value: formatMovies(recap.worstRated), inline: true });
+  }
+  if (recap.polarizing) {
+    embed.addFields({
+      name: "⚔️ Mais polêmico",
+      value: `**${recap.polarizing.title}** — média ${formatRating(recap.polarizing.averageScore, scale, 1)}, notas bem divididas`,
+      inline: false,
+    });
+  }
+  if (recap.mostActive) {
+    embed.addFields({
+      name: "🥇 Membro mais ativo",
+      value: `**${recap.mostActive.userName}** — ${recap.mostActive.ratingsCount} notas (média ${formatRating(recap.mostActive.averageScore, scale, 1)})`,
+      inline: false,
+    });
+  }
+
+  if (withCard) {
+    embed.setImage(`attachment://${RECAP_CARD_FILENAME}`);
+  }
+
+  return embed;
+};
+
+const MOMENT_LABELS: Record<TimelineMoment["dominant"], string> = {
+  rewinds: "🔁 cena revista",
+  reactions: "😂 chuva de reações",
+  leaves: "🚪 gente saindo",
+  pauses: "⏸️ pausa geral",
+};
+
+const formatMinuteMark = (minute: number) => {
+  const hours = Math.floor(minute / 60);
+  const minutes = String(minute % 60).padStart(2, "0");
+  return hours ? `${hours}:${minutes}:00` : `${minutes}:00`;
+};
+
+const formatMomentLine = (moment: TimelineMoment) => {
+  const { pauses, rewinds, leaves, reactions } = moment.bucket;
+  const counts = [
+    rewinds ? `🔁 ${rewinds}` : null,
+    reactions ? `😂 ${reactions}` : null,
+    pauses ? `⏸️ ${pauses}` : null,
+    leaves ? `🚪 ${leaves}` : null,
+  ].filter(Boolean).join(" · ");
+  return `\`${formatMinuteMark(moment.minute)}\` **${MOMENT_LABELS[moment.dominant]}** — ${counts}`;
+};
+
+/**
+ * Resumo de momentos marcantes (pausas, voltas, saídas e reações) para um título.
+ * @returns Texto do campo, ou null quando não houve atividade suficiente.
+ */
+export const formatTimelineMoments = (buckets: TimelineBucket[]): string | null => {
+  const moments = findTimelinePeaks(buckets);
+  const heatmap = buildTimelineHeatmap(buckets);
+  if (!moments.length || !heatmap) return null;
+
+  return `\`${heatmap}\`\n${moments.map(formatMomentLine).join("\n")}`;
+};
+
+export const buildTimelineMomentsEmbed = (movieName: string, buckets: TimelineBucket[]) => {
+  const moments = formatTimelineMoments(buckets);
+  if (!moments) return null;
+
+  return new EmbedBuilder()
+    .setTitle(`✨ Momentos marcantes — ${movieName}`)
+    .setColor(0xf1c40f)
+    .setDescription(moments)
+    .setFooter({ text: "Com base em pausas, voltas, saídas e reações durante a sessão" });
+};
+
 export type SessionStatusType = "waiting" | "playing" | "ended" | "cancelled";
 
 interface SessionRating {
@@ -348,7 +692,8 @@ export const buildSessionEmbed = (
   viewerCount: number = 0,
   ratings: SessionRating[] = [],
   selectedEpisode?: any,
-  createdAt?: number
+  createdAt?: number,
+  scale: RatingScale = DEFAULT_RATING_SCALE
 ) => {
   const statusConfig: Record<SessionStatusType, { emoji: string; text: string; color: number }> = {
     waiting: { emoji: "⏳", text: "Aguardando host", color: 0xf39c12 },
@@ -411,12 +756,12 @@ export const buildSessionEmbed = (
 
     embed.addFields({
       name: "📊 Média do Grupo",
-      value: `${starsAvg} **${average.toFixed(1)}/10**`,
+      value: `${starsAvg} **${formatRating(average, scale, 1)}**`,
       inline: false
     });
 
     const votosTexto = ratings
-      .map(r => `✅ **${r.username}**: ${"⭐".repeat(Math.round(r.rating))} ${r.rating}/10`)
+      .map(r => `✅ **${r.username}**: ${"⭐".repeat(Math.round(r.rating))} ${formatRating(r.rating, scale)}`)
       .join("\n");
 
     if (votosTexto) {
@@ -441,3 +786,152 @@ export const buildSessionEmbed = (
 
   return embed;
 };
+
+const formatRsvpList = (rsvps: ScheduledSessionRsvp[]) => {
+  if (!rsvps.length) return "—";
+  const names = rsvps.slice(0, 30).map((r) => `<@${r.userId}>`).join(", ");
+  return rsvps.length > 30 ? `${names} e mais ${rsvps.length - 30}` : names;
+};
+
+const formatEpisodeCode = (episode: { seasonNumber: number; episodeNumber: number }) =>
+  `T${episode.seasonNumber}E${episode.episodeNumber}`;
+
+export const buildSeriesProgressEmbed = (entries: SeriesProgressEntry[]) => {
+  const embed = new EmbedBuilder().setTitle("📺 Séries em andamento").setColor(0x1abc9c);
+
+  if (!entries.length) {
+    embed.setDescription("Nenhuma série em andamento. Assista um episódio com `/sessao agora` para começar a acompanhar.");
+    return embed;
+  }
+
+  for (const { progress, tmdbInfo, nextEpisode, upcomingEpisode } of entries) {
+    const watchedUnix = Math.floor(progress.watchedAt.getTime() / 1000);
+    const lines = [`⏸️ Paramos em **${formatEpisodeCode(progress)}** <t:${watchedUnix}:R>`];
+
+    if (nextEpisode) {
+      lines.push(`▶️ Próximo: **${formatEpisodeCode(nextEpisode)}** — ${nextEpisode.name}`);
+    } else if (upcomingEpisode) {
+      const airDate = formatWatchDate(upcomingEpisode.airDate) || "data a confirmar";
+      lines.push(`⏳ **${formatEpisodeCode(upcomingEpisode)}** estreia em ${airDate}`);
+    } else if (tmdbInfo) {
+      lines.push("✅ Em dia com todos os episódios lançados");
+    } else {
+      lines.push("⚠️ Não foi possível consultar o TMDB");
+    }
+
+    embed.addFields({ name: `📺 ${progress.title}`, value: lines.join("\n"), inline: false });
+  }
+
+  const firstPoster = entries.find((entry) => entry.progress.posterUrl)?.progress.posterUrl;
+  if (firstPoster) {
+    embed.setThumbnail(firstPoster);
+  }
+
+  if (entries.some((entry) => entry.nextEpisode)) {
+    embed.setFooter({ text: "Escolha uma série abaixo para criar a sessão já no próximo episódio" });
+  }
+
+  return embed;
+};
+
+export const buildScheduledSessionEmbed = (session: ScheduledSession, rsvps: ScheduledSessionRsvp[]) => {
+  const statusConfig: Record<ScheduledSession["status"], { emoji: string; text: string; color: number }> = {
+    scheduled: { emoji: "📅", text: "Agendada", color: 0x3498db },
+    started: { emoji: "🎬", text: "Sessão iniciada", color: 0x2ecc71 },
+    cancelled: { emoji: "❌", text: "Cancelada", color: 0xe74c3c },
+    failed: { emoji: "⚠️", text: "Não foi possível iniciar", color: 0x95a5a6 },
+  };
+
+  const config = statusConfig[session.status];
+  const { tmdbInfo, selectedEpisode } = session;
+  let title = `${config.emoji} ${tmdbInfo.title}`;
+  if (selectedEpisode?.seasonNumber) {
+    title += ` - T${selectedEpisode.seasonNumber}E${selectedEpisode.episodeNumber}`;
+  }
+
+  const embed = new EmbedBuilder().setTitle(title).setColor(config.color);
+
+  if (tmdbInfo.overview) {
+    const overview = tmdbInfo.overview.length > 250 ? `${tmdbInfo.overview.slice(0, 247)}...` : tmdbInfo.overview;
+    embed.setDescription(`*${overview}*`);
+  }
+
+  if (tmdbInfo.poster_url) {
+    embed.setThumbnail(tmdbInfo.poster_url);
+  }
+
+  const unix = Math.floor(session.scheduledAt.getTime() / 1000);
+  const going = rsvps.filter((r) => r.attending);
+  const notGoing = rsvps.filter((r) => !r.attending);
+
+  embed.addFields(
+    { name: "🗓️ Quando", value: `<t:${unix}:F> (<t:${unix}:R>)`, inline: false },
+    { name: "📡 Status", value: config.text, inline: true },
+    { name: "👤 Host", value: session.hostUsername, inline: true },
+    { name: `✅ Vão (${going.length})`, value: formatRsvpList(going), inline: false },
+    { name: `❌ Não vão (${notGoing.length})`, value: formatRsvpList(notGoing), inline: false }
+  );
+
+  const footerText = session.status === "scheduled"
+    ? "Confirme presença pelos botões abaixo • A sala é criada automaticamente no horário"
+    : session.status === "started"
+      ? "A sessão já começou, veja a mensagem abaixo"
+      : session.status === "cancelled"
+        ? "Sessão cancelada"
+        : "O horário passou sem vaga para a sessão";
+  embed.setFooter({ text: `${footerText} • #${session.id}` });
+
+  return embed;
+};
+
+export const buildMoviePollEmbed = (poll: MoviePoll, tally: MoviePollTally) => {
+  const closed = poll.status === "closed";
+  const ranked = poll.mode === "ranked";
+  const counts = closed ? tally.counts : tally.firstChoiceCounts;
+  const maxCount = Math.max(1, ...counts);
+
+  const lines = poll.options.map((option, index) => {
+    const count = counts[index] ?? 0;
+    const bar = "█".repeat(Math.round((count / maxCount) * 10)).padEnd(10, "░");
+    const crown = closed && poll.winnerIndex === index ? " 🏆" : "";
+    return `**${index + 1}. ${option.title}**${crown}\n\`${bar}\` ${count}`;
+  });
+
+  const embed = new EmbedBuilder()
+    .setTitle(closed ? "🏆 Resultado: o que vamos assistir?" : "🗳️ Votação: o que vamos assistir?")
+    .setColor(closed ? 0x2ecc71 : 0x9b59b6)
+    .setDescription(
+      (ranked
+        ? "Voto **ranqueado**: escolha sua 1ª, 2ª e 3ª opção. Se ninguém passar de 50%, a menos votada sai e os votos vão para a próxima preferência."
+        : "Voto por **aprovação**: marque todos os filmes que você toparia ver. Vence o mais aprovado.") +
+        `\n\n${lines.join("\n\n")}`
+    );
+
+  const winner = poll.winnerIndex !== null ? poll.options[poll.winnerIndex] : null;
+  if (closed) {
+    embed.addFields({
+      name: "🎬 Vencedor",
+      value: winner
+        ? `**${winner.title}**${ranked && tally.rounds > 1 ? ` (após ${tally.rounds} rodadas)` : ""}`
+        : "Nenhum voto registrado",
+      inline: false,
+    });
+    if (winner?.posterUrl) embed.setThumbnail(winner.posterUrl);
+  } else {
+    const unix = Math.floor(poll.deadline.getTime() / 1000);
+    embed.addFields({ name: "⏰ Encerra", value: `<t:${unix}:R>`, inline: true });
+  }
+
+  embed.addFields(
+    { name: "👥 Votantes", value: `${tally.voters}`, inline: true },
+    { name: "👤 Criada por", value: poll.createdByName, inline: true }
+  );
+
+  embed.setFooter({
+    text: closed
+      ? `Votação #${poll.id} encerrada`
+      : `Votação #${poll.id}${ranked ? " • Contagem parcial de 1ª escolha" : ""}`,
+  });
+
+  return embed;
+};
@@ -1,4 +1,6 @@
 import { ButtonStyle } from "discord.js";
+import { MAX_SESSIONS_PER_GUILD, SCHEDULE_UTC_OFFSET } from "../../config";
+import { getChannelWatchSession, getGuildWatchSessions } from "../state";
 
 export const toMovieId = (movieKey: string): string => {
     let hash = 5381;
@@ -29,3 +31,56 @@ export const formatWatchDate = (value?: string | null): string => {
     if (Number.isNaN(date.getTime())) return "";
     return date.toLocaleDateString("pt-BR");
 };
+
+export const getSessionBlockReason = (guildId: string | null, channelId: string): string | null => {
+    if (!guildId) return "❌ Sessões só podem ser criadas dentro de um servidor.";
+
+    if (getChannelWatchSession(channelId)) {
+        return "❌ Já existe uma sessão ativa neste canal! Aguarde ela terminar ou use outro canal.";
+    }
+
+    if (getGuildWatchSessions(guildId).length >= MAX_SESSIONS_PER_GUILD) {
+        return `❌ Este servidor já tem ${MAX_SESSIONS_PER_GUILD} sessões ativas. Aguarde uma delas terminar antes de criar outra.`;
+    }
+
+    return null;
+};
+
+export const parseUtcOffsetMinutes = (offset: string): number => {
+    const match = offset.trim().match(/^([+-])(\d{2}):?(\d{2})$/);
+    if (!match) return 0;
+    const minutes = Number(match[2]) * 60 + Number(match[3]);
+    return match[1] === "-" ? -minutes : minutes;
+};
+
+/**
+ * Converte data (DD/MM ou DD/MM/AAAA) e hora (HH:MM) no fuso SCHEDULE_UTC_OFFSET.
+ * Sem ano, usa o ano corrente ou o próximo quando a data já passou.
+ * @returns Date correspondente, ou null quando o formato ou a data são inválidos.
+ */
+export const parseScheduleDateTime = (dateText: string, timeText: string, now: Date = new Date()): Date | null => {
+    const dateMatch = dateText.trim().match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+    const timeMatch = timeText.trim().match(/^(\d{1,2})[:h](\d{2})$/i);
+    if (!dateMatch || !timeMatch) return null;
+
+    const day = Number(dateMatch[1]);
+    const month = Number(dateMatch[2]);
+    const hour = Number(timeMatch[1]);
+    const minute = Number(timeMatch[2]);
+    if (hour > 23 || minute > 59) return null;
+
+    const offsetMs = parseUtcOffsetMinutes(SCHEDULE_UTC_OFFSET) * 60_000;
+    const build = (year: number): Date | null => {
+        const calendarDay = new Date(Date.UTC(year, month - 1, day));
+        // Rejeita datas que o Date "corrige" (ex: 31/02 → 03/03)
+        if (calendarDay.getUTCMonth() !== month - 1 || calendarDay.getUTCDate() !== day) return null;
+        return new Date(Date.UTC(year, month - 1, day, hour, minute) - offsetMs);
+    };
+
+    if (dateMatch[3]) return build(Number(dateMatch[3]));
+
+    const currentYear = now.getUTCFullYear();
+    const thisYear = build(currentYear);
+    if (thisYear && thisYear.getTime() > now.getTime()) return thisYear;
+    return build(currentYear + 1);
+};
@@ -19,6 +19,37 @@ export const ADMIN_USER_ID = process.env.ADMIN_USER_ID || "";
 export const PORT = process.env.PORT || 3000;
 export const IS_PROD = process.env.NODE_ENV === "production";
 
+// Limite de sessões simultâneas por servidor do Discord (uma por canal)
+export const MAX_SESSIONS_PER_GUILD = Math.max(1, Number(process.env.MAX_SESSIONS_PER_GUILD) || 2);
+
+// Prazo das votações de nota (horas) e antecedência do lembrete automático (minutos)
+export const VOTING_DEADLINE_HOURS = Math.max(1, Number(process.env.VOTING_DEADLINE_HOURS) || 24);
+export const VOTING_REMINDER_MINUTES = Math.max(0, Number(process.env.VOTING_REMINDER_MINUTES ?? 60) || 0);
+
+// Fuso usado para interpretar data/hora do /sessao agendar (ex: "-03:00" para Brasília)
+export const SCHEDULE_UTC_OFFSET = process.env.SCHEDULE_UTC_OFFSET || "-03:00";
+
+// Transcodificação de vídeos que o navegador não reproduz (HEVC, AV1, 10-bit...)
+export const VIDEO_TRANSCODE_ENABLED = process.env.VIDEO_TRANSCODE_ENABLED !== "false";
+export const VIDEO_TRANSCODE_PRESET = process.env.VIDEO_TRANSCODE_PRESET || "veryfast";
+
+// Streaming adaptativo (HLS) gerado após o processamento do vídeo
+export const HLS_ENABLED = process.env.HLS_ENABLED !== "false";
+
+// Busca automática de legendas: "opensubtitles", "local" (diretório, para testes) ou vazio para desligar
+export const OPENSUBTITLES_API_KEY = process.env.OPENSUBTITLES_API_KEY || "";
+export const OPENSUBTITLES_USER_AGENT = process.env.OPENSUBTITLES_USER_AGENT || "ManoelFilmes v1.0";
+export const SUBTITLE_PROVIDER = (process.env.SUBTITLE_PROVIDER || (OPENSUBTITLES_API_KEY ? "opensubtitles" : "")).toLowerCase();
+export const SUBTITLE_LOCAL_DIR = process.env.SUBTITLE_LOCAL_DIR || "";
+export const SUBTITLE_DEFAULT_LANGUAGE = process.env.SUBTITLE_DEFAULT_LANGUAGE || "pt-br";
+
+// Cartão PNG do /retrospectiva (gerado com ffmpeg); fonte opcional para o drawtext
+export const RECAP_CARD_ENABLED = process.env.RECAP_CARD_ENABLED !== "false";
+export const RECAP_CARD_FONT_FILE = process.env.RECAP_CARD_FONT_FILE || "";
+
+// Repete as mensagens do chat do player no canal da sessão no Discord
+export const CHAT_DISCORD_MIRROR = process.env.CHAT_DISCORD_MIRROR === "true";
+
 // Caminhos do projeto
 export const ROOT_DIR = path.resolve(__dirname, "..", "..");
 export const PUBLIC_DIR = path.join(ROOT_DIR, "public");
@@ -69,6 +69,10 @@ export function isHostByToken(room: Room, token: string): boolean {
     return room.tokenMap.get(token)?.isHost ?? false;
 }
 
+export function isOwnerByToken(room: Room, token: string): boolean {
+    return room.tokenMap.get(token)?.isOwner ?? false;
+}
+
 export function getOldestConnectedUser(room: Room): { token: string; user: DiscordUser } | null {
     let oldest: { token: string; user: DiscordUser } | null = null;
 
@@ -82,17 +86,27 @@ export function getOldestConnectedUser(room: Room): { token: string; user: Disco
     return oldest;
 }
 
+/**
+ * Passa o controle da sala para o usuário indicado. Quem assume deixa de ser co-host.
+ */
+export function assignHost(room: Room, user: DiscordUser): void {
+    for (const other of room.tokenMap.values()) other.isHost = false;
+
+    user.isHost = true;
+    user.isCoHost = false;
+    if (room.discordSession) room.discordSession.hostDiscordId = user.discordId;
+    room.state.hostLastHeartbeat = Date.now();
+    // O seq dos comandos é contado no cliente; o novo host começa do zero
+    room.state.lastCommandSeq = 0;
+}
+
 export function transferHost(room: Room): { newHostId: string; newHostUsername: string; token: string } | null {
     if (!room.discordSession) return null;
 
     const oldest = getOldestConnectedUser(room);
     if (!oldest) return null;
 
-    for (const user of room.tokenMap.values()) user.isHost = false;
-
-    oldest.user.isHost = true;
-    room.discordSession.hostDiscordId = oldest.user.discordId;
-    room.state.hostLastHeartbeat = Date.now();
+    assignHost(room, oldest.user);
 
     return {
         newHostId: oldest.user.discordId,
@@ -1,5 +1,6 @@
 import type { Room, WSMessage, ExtendedWebSocket, DiscordUser } from "../shared/types";
 import { logger } from "../shared/logger";
+import { isHostByToken } from "./room-auth";
 
 export function broadcast(room: Room, message: WSMessage | string, exclude?: ExtendedWebSocket): void {
     const data = typeof message === 'string' ? message : JSON.stringify(message);
@@ -29,6 +30,19 @@ export function broadcastAll(room: Room, message: WSMessage | string): void {
     }
 }
 
+export function broadcastToHost(room: Room, message: WSMessage | string): void {
+    const data = typeof message === 'string' ? message : JSON.stringify(message);
+
+    for (const client of room.clients) {
+        if (client.readyState !== WebSocket.OPEN || !client.data.token || !isHostByToken(room, client.data.token)) continue;
+        try {
+            client.send(data);
+        } catch (e) {
+            logger.error("Room", "Falha ao enviar mensagem ao host", e);
+        }
+    }
+}
+
 export function broadcastViewerCount(room: Room, connectedUsers: DiscordUser[]): void {
     const message = JSON.stringify({
         type: "viewers",
@@ -37,7 +51,9 @@ export function broadcastViewerCount(room: Room, connectedUsers: DiscordUser[]):
             discordId: u.discordId,
             username: u.username,
             avatarUrl: u.avatarUrl,
-            ping: u.ping
+            ping: u.ping,
+            isHost: u.isHost,
+            isCoHost: Boolean(u.isCoHost)
         }))
     });
 
@@ -0,0 +1,76 @@
+import type { BufferingHold, Room } from "../shared/types";
+import * as auth from "./room-auth";
+import { getCurrentTime } from "./room-playback";
+
+// Travas curtas (seek de sincronia, troca de qualidade) não seguram a sala
+export const BUFFERING_STALL_MS = 2500;
+
+export type BufferingHoldChange =
+    | { action: "hold" | "update"; hold: BufferingHold }
+    | { action: "release" };
+
+export function setClientBuffering(room: Room, discordId: string, buffering: boolean): void {
+    if (buffering) {
+        room.bufferingSince[discordId] ??= Date.now();
+    } else {
+        delete room.bufferingSince[discordId];
+    }
+}
+
+/**
+ * Encerra a espera sem retomar a reprodução (o host deu play ou pause manualmente).
+ * Quem ainda estava travado só volta a contar no próximo buffering.
+ * @returns true quando havia uma espera ativa.
+ */
+export function releaseBufferingHold(room: Room): boolean {
+    const hadHold = Boolean(room.bufferingHold);
+    room.bufferingHold = undefined;
+    room.bufferingSince = {};
+    return hadHold;
+}
+
+/**
+ * Aplica o modo de espera: pausa quando espectadores suficientes ficam travados além
+ * de BUFFERING_STALL_MS e retoma quando ninguém mais está carregando.
+ * @returns Mudança a ser anunciada para a sala, ou null quando nada mudou.
+ */
+export function evaluateBufferingHold(room: Room, now = Date.now()): BufferingHoldChange | null {
+    const connectedIds = new Set(auth.getConnectedUsers(room).map(user => user.discordId));
+    const pending = Object.entries(room.bufferingSince).filter(([discordId]) => connectedIds.has(discordId));
+    const hold = room.bufferingHold;
+
+    if (hold) {
+        if (room.controls.waitForBuffering && pending.length > 0) {
+            const holderIds = pending.map(([discordId]) => discordId);
+            if (holderIds.length === hold.holderIds.length && holderIds.every(id => hold.holderIds.includes(id))) {
+                return null;
+            }
+
+            hold.holderIds = holderIds;
+            return { action: "update", hold };
+        }
+
+        room.bufferingHold = undefined;
+        room.state.isPlaying = true;
+        room.state.lastUpdate = now;
+        return { action: "release" };
+    }
+
+    if (!room.controls.waitForBuffering || !room.state.isPlaying) return null;
+
+    const stalledIds = pending
+        .filter(([, since]) => now - since >= BUFFERING_STALL_MS)
+        .map(([discordId]) => discordId);
+    if (stalledIds.length < room.controls.minStalledViewers) return null;
+
+    room.state.currentTime = getCurrentTime(room);
+    room.state.isPlaying = false;
+    room.state.lastUpdate = now;
+    room.bufferingHold = { holderIds: stalledIds, since: now };
+    return { action: "hold", hold: room.bufferingHold };
+}
+
+export function getHolderNames(room: Room, holderIds: string[]): string[] {
+    const users = Array.from(room.tokenMap.values());
+    return holderIds.map(discordId => users.find(user => user.discordId === discordId)?.username ?? "Alguém");
+}
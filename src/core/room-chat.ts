@@ -0,0 +1,100 @@
+import { randomUUID } from "crypto";
+import type { ChatMessage, ChatReaction, DiscordUser, Room } from "../shared/types";
+import { getCurrentTime } from "./room-playback";
+
+export const MAX_CHAT_MESSAGE_LENGTH = 500;
+export const CHAT_REACTION_EMOJIS = ["😂", "😱", "😍", "👏", "🔥", "😢", "🤯", "💀"];
+
+const MAX_CHAT_HISTORY = 200;
+const MAX_CHAT_REACTIONS = 300;
+const RATE_LIMIT_WINDOW_MS = 10_000;
+const MAX_MESSAGES_PER_WINDOW = 5;
+const MAX_REACTIONS_PER_WINDOW = 10;
+
+export type ChatRejectReason = "empty" | "too_long" | "invalid_emoji" | "rate_limited";
+
+export type ChatResult<T> = { ok: true; value: T } | { ok: false; reason: ChatRejectReason };
+
+interface RateLimitEntry {
+    count: number;
+    resetTime: number;
+}
+
+// Janela fixa por sala + usuário; não entra no snapshot da sala
+const rateLimits = new Map<string, RateLimitEntry>();
+
+function consumeRateLimit(key: string, limit: number): boolean {
+    const now = Date.now();
+    const entry = rateLimits.get(key);
+
+    if (!entry || now > entry.resetTime) {
+        rateLimits.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
+        return true;
+    }
+
+    if (entry.count >= limit) return false;
+    entry.count++;
+    return true;
+}
+
+const pushCapped = <T>(list: T[], item: T, max: number) => {
+    list.push(item);
+    if (list.length > max) list.splice(0, list.length - max);
+};
+
+/**
+ * Registra uma mensagem no chat da sala, fixada na posição atual do vídeo.
+ * @returns Mensagem criada, ou o motivo da recusa (vazia, longa demais ou limite de envio).
+ */
+export function addChatMessage(room: Room, user: DiscordUser, rawText: string): ChatResult<ChatMessage> {
+    const text = rawText.replace(/\s+/g, " ").trim();
+    if (!text) return { ok: false, reason: "empty" };
+    if (text.length > MAX_CHAT_MESSAGE_LENGTH) return { ok: false, reason: "too_long" };
+
+    if (!consumeRateLimit(`${room.id}:${user.discordId}:message`, MAX_MESSAGES_PER_WINDOW)) {
+        return { ok: false, reason: "rate_limited" };
+    }
+
+    const message: ChatMessage = {
+        id: randomUUID(),
+        discordId: user.discordId,
+        username: user.username,
+        avatarUrl: user.avatarUrl,
+        text,
+        mediaTime: getCurrentTime(room),
+        sentAt: Date.now(),
+    };
+
+    pushCapped(room.chatHistory, message, MAX_CHAT_HISTORY);
+    return { ok: true, value: message };
+}
+
+/**
+ * Registra uma reação de emoji na posição atual do vídeo.
+ * Só aceita os emojis de CHAT_REACTION_EMOJIS.
+ */
+export function addChatReaction(room: Room, user: DiscordUser, emoji: string): ChatResult<ChatReaction> {
+    if (!CHAT_REACTION_EMOJIS.includes(emoji)) return { ok: false, reason: "invalid_emoji" };
+
+    if (!consumeRateLimit(`${room.id}:${user.discordId}:reaction`, MAX_REACTIONS_PER_WINDOW)) {
+        return { ok: false, reason: "rate_limited" };
+    }
+
+    const reaction: ChatReaction = {
+        id: randomUUID(),
+        discordId: user.discordId,
+        username: user.username,
+        emoji,
+        mediaTime: getCurrentTime(room),
+        sentAt: Date.now(),
+    };
+
+    pushCapped(room.chatReactions, reaction, MAX_CHAT_REACTIONS);
+    return { ok: true, value: reaction };
+}
+
+export function clearChatRateLimits(roomId: string): void {
+    for (const key of rateLimits.keys()) {
+        if (key.startsWith(`${roomId}:`)) rateLimits.delete(key);
+    }
+}
@@ -0,0 +1,81 @@
+import type { Room, RoomControls } from "../shared/types";
+import * as auth from "./room-auth";
+import { getCurrentTime } from "./room-playback";
+
+export const DEFAULT_ROOM_CONTROLS: RoomControls = {
+    guestPause: false,
+    rewindVotes: false,
+    waitForBuffering: false,
+    minStalledViewers: 1,
+};
+export const REWIND_VOTE_SECONDS = 30;
+
+const REWIND_VOTE_WINDOW_MS = 30_000;
+const PAUSE_REQUEST_COOLDOWN_MS = 20_000;
+
+// Fim do intervalo de espera de cada espectador (sala + usuário); não entra no snapshot
+const pauseRequestCooldowns = new Map<string, number>();
+
+export interface RewindVoteResult {
+    votes: number;
+    votesNeeded: number;
+    accepted: boolean;
+    /** Posição para onde a sala voltou quando a votação passou. */
+    targetTime?: number;
+}
+
+export function setRoomControls(room: Room, controls: Partial<RoomControls>): RoomControls {
+    room.controls = { ...room.controls, ...controls };
+    if (!room.controls.rewindVotes) room.rewindVote = undefined;
+    // Sem o modo de espera os clientes param de reportar; marcas antigas não podem segurar a sala depois
+    if (!room.controls.waitForBuffering) room.bufferingSince = {};
+    return room.controls;
+}
+
+/**
+ * Controla o intervalo entre pedidos de pausa de um mesmo espectador.
+ * @returns false enquanto o pedido anterior ainda está no intervalo de espera.
+ */
+export function consumePauseRequest(room: Room, discordId: string): boolean {
+    const key = `${room.id}:${discordId}`;
+    const now = Date.now();
+    if ((pauseRequestCooldowns.get(key) ?? 0) > now) return false;
+
+    pauseRequestCooldowns.set(key, now + PAUSE_REQUEST_COOLDOWN_MS);
+    return true;
+}
+
+/**
+ * Registra o voto para voltar REWIND_VOTE_SECONDS segundos.
+ * Passa com a maioria dos usuários conectados; a votação expira se ficar parada.
+ * @returns Placar da votação, ou null quando o modo está desligado ou não há vídeo tocando.
+ */
+export function registerRewindVote(room: Room, discordId: string): RewindVoteResult | null {
+    if (!room.controls.rewindVotes || !room.state.playbackStarted) return null;
+
+    const now = Date.now();
+    if (!room.rewindVote || room.rewindVote.expiresAt < now) {
+        room.rewindVote = { voters: [], expiresAt: now + REWIND_VOTE_WINDOW_MS };
+    }
+    if (!room.rewindVote.voters.includes(discordId)) {
+        room.rewindVote.voters.push(discordId);
+    }
+
+    const votes = room.rewindVote.voters.length;
+    const votesNeeded = Math.max(1, Math.ceil(auth.getConnectedUsers(room).length / 2));
+    if (votes < votesNeeded) {
+        return { votes, votesNeeded, accepted: false };
+    }
+
+    const targetTime = Math.max(0, getCurrentTime(room) - REWIND_VOTE_SECONDS);
+    room.state.currentTime = targetTime;
+    room.state.lastUpdate = now;
+    room.rewindVote = undefined;
+    return { votes, votesNeeded, accepted: true, targetTime };
+}
+
+export function clearControlCooldowns(roomId: string): void {
+    for (const key of pauseRequestCooldowns.keys()) {
+        if (key.startsWith(`${roomId}:`)) pauseRequestCooldowns.delete(key);
+    }
+}
@@ -13,28 +13,44 @@ import type {
     EpisodeRating,
     RatingProgress,
     RatingRoundCompletionReason,
-    RatingRoundScope
+    SubtitleFormat,
+    SubtitleInfo,
+    RatingRoundScope,
+    ChatMessage,
+    ChatReaction,
+    TimelineBucket,
+    TimelineEventKind,
+    RoomControls
 } from "../shared/types";
 import { randomUUID } from "crypto";
 import { logger } from "../shared/logger";
+import { findNextEpisode } from "../shared/episodes";
+import { MAX_SESSIONS_PER_GUILD } from "../config";
 import * as auth from "./room-auth";
 import * as playback from "./room-playback";
 import * as broadcast from "./room-broadcast";
 import * as ratings from "./room-rating";
+import * as chat from "./room-chat";
+import * as timeline from "./room-timeline";
+import * as controls from "./room-controls";
+import * as moderation from "./room-moderation";
+import * as buffering from "./room-buffering";
 import { removeRoomMediaFiles } from "./room-media";
+import { restoreRoom, serializeRoom, type RoomSnapshot } from "./room-persistence";
+import db from "../database";
 
 const ROOM_TIMEOUT_MS = 10 * 60 * 1000;
 const MAX_CLIENTS_PER_ROOM = 10;
 const MAX_BANDWIDTH_MBPS = 150;
 const VIEWER_BROADCAST_DEBOUNCE = 500;
+const ROOM_SNAPSHOT_INTERVAL_MS = 5000;
 
 export class RoomManager {
     private rooms = new Map<string, Room>();
     private cleanupInterval: NodeJS.Timeout | null = null;
     private cleanupTimers = new Map<string, NodeJS.Timeout>();
     private viewerBroadcastTimeouts = new Map<string, NodeJS.Timeout>();
-    // TODO: quando abrir para vários servidores, trocar isso por sessão ativa por guild.
-    private activeDiscordSession: string | null = null;
+    private snapshotInterval: NodeJS.Timeout | null = null;
 
     constructor() {
         this.cleanupInterval = setInterval(() => this.cleanupInactiveRooms(), 5 * 60 * 1000);
@@ -45,10 +61,20 @@ export class RoomManager {
     hasAnyRooms(): boolean { return this.rooms.size > 0; }
     getRoom(id: string): Room | undefined { return this.rooms.get(id); }
     forEachRoom(callback: (room: Room) => void): void { for (const room of this.rooms.values()) callback(room); }
-    hasActiveDiscordSession(): boolean { return this.activeDiscordSession !== null; }
 
-    getActiveDiscordSessionRoom(): Room | null {
-        return this.activeDiscordSession ? (this.rooms.get(this.activeDiscordSession) ?? null) : null;
+    getGuildSessionRooms(guildId: string): Room[] {
+        return Array.from(this.rooms.values()).filter(room => room.discordSession?.guildId === guildId);
+    }
+
+    getChannelSessionRoom(channelId: string): Room | null {
+        for (const room of this.rooms.values()) {
+            if (room.discordSession?.channelId === channelId) return room;
+        }
+        return null;
+    }
+
+    hasGuildReachedSessionLimit(guildId: string): boolean {
+        return this.getGuildSessionRooms(guildId).length >= MAX_SESSIONS_PER_GUILD;
     }
 
     // ─── Room Lifecycle ───────────────────────────────────────────────────────
@@ -59,8 +85,8 @@ export class RoomManager {
         discordSession: DiscordSession & { hostUsername?: string },
         selectedEpisode?: SelectedEpisode
     ): { roomId: string; hostToken: string } | null {
-        // TODO: por enquanto eu bloqueio novas salas se já tiver uma ativa.
-        if (this.activeDiscordSession || this.rooms.size > 0) return null;
+        if (this.getChannelSessionRoom(discordSession.channelId)) return null;
+        if (this.hasGuildReachedSessionLimit(discordSession.guildId)) return null;
 
         const roomId = randomUUID();
         const hostToken = auth.generateToken();
@@ -70,6 +96,7 @@ export class RoomManager {
             username: discordSession.hostUsername || 'Host',
             avatarUrl: null,
             isHost: true,
+            isOwner: true,
             connected: false,
             connectedAt: Date.now(),
             ping: -1
@@ -85,8 +112,8 @@ export class RoomManager {
         };
 
         this.rooms.set(roomId, room);
-        this.activeDiscordSession = roomId;
-        logger.success("RoomManager", `Sessão Discord criada: ${roomId} (Host: ${hostUser.username})`);
+        this.persistRoom(roomId);
+        logger.success("RoomManager", `Sessão Discord criada: ${roomId} (Host: ${hostUser.username}, guild: ${discordSession.guildId})`);
         return { roomId, hostToken };
     }
 
@@ -102,8 +129,12 @@ export class RoomManager {
 
         await removeRoomMediaFiles(room, "remoção de sala");
 
-        if (this.activeDiscordSession === roomId) this.activeDiscordSession = null;
         this.rooms.delete(roomId);
+        chat.clearChatRateLimits(roomId);
+        controls.clearControlCooldowns(roomId);
+        await db.removeRoomSnapshot(roomId).catch((error) => {
+            logger.error("RoomManager", `Falha ao remover snapshot da sala ${roomId}`, error);
+        });
     }
 
     private cleanupInactiveRooms(): void {
@@ -115,6 +146,45 @@ export class RoomManager {
         }
     }
 
+    // ─── Persistence ──────────────────────────────────────────────────────────
+
+    /**
+     * Recarrega as salas salvas no banco e inicia o snapshot periódico.
+     * @returns IDs das salas restauradas, usados para preservar seus arquivos em disco.
+     */
+    async restoreRooms(): Promise<string[]> {
+        const snapshots = await db.getRoomSnapshots();
+
+        for (const snapshot of snapshots) {
+            try {
+                const room = await restoreRoom(snapshot.data as RoomSnapshot);
+                this.rooms.set(room.id, room);
+                logger.info("RoomManager", `Sala restaurada: ${room.id} (${room.movieName || 'sem título'}, ${room.tokenMap.size} token(s))`);
+            } catch (error) {
+                logger.error("RoomManager", `Falha ao restaurar sala ${snapshot.roomId}`, error);
+                await db.removeRoomSnapshot(snapshot.roomId);
+            }
+        }
+
+        if (this.snapshotInterval) clearInterval(this.snapshotInterval);
+        this.snapshotInterval = setInterval(() => this.persistAllRooms(), ROOM_SNAPSHOT_INTERVAL_MS);
+
+        return Array.from(this.rooms.keys());
+    }
+
+    persistRoom(roomId: string): void {
+        const room = this.rooms.get(roomId);
+        if (!room) return;
+
+        db.saveRoomSnapshot(roomId, serializeRoom(room)).catch((error) => {
+            logger.error("RoomManager", `Falha ao salvar snapshot da sala ${roomId}`, error);
+        });
+    }
+
+    persistAllRooms(): void {
+        for (const roomId of this.rooms.keys()) this.persistRoom(roomId);
+    }
+
     // ─── Client Management ────────────────────────────────────────────────────
 
     addClient(roomId: string, ws: ExtendedWebSocket): boolean {
@@ -155,6 +225,14 @@ export class RoomManager {
         if (ws.data.token) {
             const stillConnected = Array.from(room.clients).some(c => c.data.token === ws.data.token);
             if (!stillConnected) auth.markUserDisconnected(room, ws.data.token);
+
+            const user = room.tokenMap.get(ws.data.token);
+            if (!stillConnected && user) buffering.setClientBuffering(room, user.discordId, false);
+
+            // O monitor do bot conecta sem clientId; só saídas de espectadores entram na linha do tempo
+            if (!stillConnected && ws.data.clientId && room.state.isPlaying) {
+                timeline.recordTimelineEvent(room, 'leave', playback.getCurrentTime(room));
+            }
         }
 
         if (room.clients.size === 0) {
@@ -186,12 +264,14 @@ export class RoomManager {
     generateUserToken(roomId: string, discordId: string, username: string, avatarUrl: string | null = null): string | null {
         const room = this.rooms.get(roomId);
         if (!room || !room.discordSession) return null;
+        if (moderation.isBanned(room, discordId)) return null;
         return auth.generateUserToken(room, discordId, username, avatarUrl);
     }
 
     authorizeUserByOAuth(roomId: string, discordId: string, username: string, avatarUrl: string | null): string | null {
         const room = this.rooms.get(roomId);
         if (!room || !room.discordSession) return null;
+        if (moderation.isBanned(room, discordId)) return null;
 
         for (const [token, user] of room.tokenMap) {
             if (user.discordId === discordId) {
@@ -251,6 +331,21 @@ export class RoomManager {
         return room ? auth.isHostByToken(room, token) : false;
     }
 
+    isOwnerByToken(roomId: string, token: string): boolean {
+        const room = this.rooms.get(roomId);
+        return room ? auth.isOwnerByToken(room, token) : false;
+    }
+
+    canControlPlayback(roomId: string, token: string): boolean {
+        const room = this.rooms.get(roomId);
+        return room ? moderation.canControlPlayback(room, token) : false;
+    }
+
+    isUserBanned(roomId: string, discordId: string): boolean {
+        const room = this.rooms.get(roomId);
+        return room ? moderation.isBanned(room, discordId) : false;
+    }
+
     isHostInactive(roomId: string): boolean {
         const room = this.rooms.get(roomId);
         return room ? playback.isHostInactive(room) : false;
@@ -315,6 +410,11 @@ export class RoomManager {
         if (room) broadcast.broadcastAll(room, message);
     }
 
+    broadcastToHost(roomId: string, message: WSMessage | string): void {
+        const room = this.rooms.get(roomId);
+        if (room) broadcast.broadcastToHost(room, message);
+    }
+
     broadcastViewerCountDebounced(roomId: string): void {
         const existing = this.viewerBroadcastTimeouts.get(roomId);
         if (existing) clearTimeout(existing);
@@ -341,9 +441,16 @@ export class RoomManager {
         logger.info("Room", `Status atualizado para '${status}' na sala ${roomId}`);
     }
 
-    addRating(roomId: string, discordId: string, username: string, rating: number): boolean {
+    addRating(
+        roomId: string,
+        discordId: string,
+        username: string,
+        rating: number,
+        review?: string,
+        spoiler = false
+    ): boolean {
         const room = this.rooms.get(roomId);
-        return room ? ratings.addRating(room, discordId, username, rating) : false;
+        return room ? ratings.addRating(room, discordId, username, rating, review, spoiler) : false;
     }
 
     getRatings(roomId: string): { ratings: SessionRating[]; average: number } {
@@ -381,13 +488,157 @@ export class RoomManager {
         if (room) ratings.clearRatingRound(room);
     }
 
+    // ─── Chat ─────────────────────────────────────────────────────────────────
+
+    addChatMessage(roomId: string, user: DiscordUser, text: string): chat.ChatResult<ChatMessage> | null {
+        const room = this.rooms.get(roomId);
+        return room ? chat.addChatMessage(room, user, text) : null;
+    }
+
+    addChatReaction(roomId: string, user: DiscordUser, emoji: string): chat.ChatResult<ChatReaction> | null {
+        const room = this.rooms.get(roomId);
+        return room ? chat.addChatReaction(room, user, emoji) : null;
+    }
+
+    // ─── Playback Controls ────────────────────────────────────────────────────
+
+    getRoomControls(roomId: string): RoomControls | null {
+        return this.rooms.get(roomId)?.controls ?? null;
+    }
+
+    setRoomControls(roomId: string, updates: Partial<RoomControls>): RoomControls | null {
+        const room = this.rooms.get(roomId);
+        if (!room) return null;
+        const updated = controls.setRoomControls(room, updates);
+        this.persistRoom(roomId);
+        logger.info("RoomManager", `Controles da sala ${roomId}: pausa livre=${updated.guestPause}, votação para voltar=${updated.rewindVotes}, espera por buffering=${updated.waitForBuffering} (mín. ${updated.minStalledViewers})`);
+        return updated;
+    }
+
+    consumePauseRequest(roomId: string, discordId: string): boolean {
+        const room = this.rooms.get(roomId);
+        return room ? controls.consumePauseRequest(room, discordId) : false;
+    }
+
+    registerRewindVote(roomId: string, discordId: string): controls.RewindVoteResult | null {
+        const room = this.rooms.get(roomId);
+        return room ? controls.registerRewindVote(room, discordId) : null;
+    }
+
+    // ─── Buffering ────────────────────────────────────────────────────────────
+
+    setClientBuffering(roomId: string, discordId: string, isBuffering: boolean): void {
+        const room = this.rooms.get(roomId);
+        if (room) buffering.setClientBuffering(room, discordId, isBuffering);
+    }
+
+    releaseBufferingHold(roomId: string): boolean {
+        const room = this.rooms.get(roomId);
+        return room ? buffering.releaseBufferingHold(room) : false;
+    }
+
+    /**
+     * Avalia o modo de espera da sala e devolve o aviso para os clientes.
+     * @returns Mensagem buffering-hold quando a espera começou, mudou ou terminou.
+     */
+    evaluateBufferingHold(roomId: string): WSMessage | null {
+        const room = this.rooms.get(roomId);
+        if (!room) return null;
+
+        const change = buffering.evaluateBufferingHold(room);
+        if (!change) return null;
+
+        if (change.action === "release") {
+            logger.info("RoomManager", `▶️ Todos prontos, retomando sala ${roomId}`);
+            return { type: "buffering-hold", holding: false, holders: [] };
+        }
+
+        const holders = buffering.getHolderNames(room, change.hold.holderIds);
+        if (change.action === "hold") {
+            logger.info("RoomManager", `⏳ Sala ${roomId} pausada esperando: ${holders.join(", ")}`);
+        }
+        return { type: "buffering-hold", holding: true, holders };
+    }
+
+    getBufferingHolders(roomId: string): string[] | null {
+        const room = this.rooms.get(roomId);
+        if (!room?.bufferingHold) return null;
+        return buffering.getHolderNames(room, room.bufferingHold.holderIds);
+    }
+
+    // ─── Moderation ───────────────────────────────────────────────────────────
+
+    transferHostTo(roomId: string, actorToken: string, discordId: string): moderation.ModerationResult | null {
+        const room = this.rooms.get(roomId);
+        if (!room) return null;
+
+        const actor = room.tokenMap.get(actorToken);
+        const result = moderation.handOffHost(room, actorToken, discordId);
+        if (result.ok) {
+            this.persistRoom(roomId);
+            logger.info("Moderation", `Host da sala ${roomId} passado de ${actor?.username} para ${result.user.username}`);
+        }
+        return result;
+    }
+
+    setCoHost(roomId: string, actorToken: string, discordId: string, enabled: boolean): moderation.ModerationResult | null {
+        const room = this.rooms.get(roomId);
+        if (!room) return null;
+
+        const actor = room.tokenMap.get(actorToken);
+        const result = moderation.setCoHost(room, actorToken, discordId, enabled);
+        if (result.ok) {
+            this.persistRoom(roomId);
+            logger.info("Moderation", `${actor?.username} ${enabled ? 'promoveu' : 'removeu'} co-host ${result.user.username} (Room: ${roomId})`);
+        }
+        return result;
+    }
+
+    /**
+     * Tira o usuário da sala e fecha as conexões dele (4004 para kick, 4005 para ban).
+     */
+    removeUser(roomId: string, actorToken: string, discordId: string, ban: boolean): moderation.ModerationResult | null {
+        const room = this.rooms.get(roomId);
+        if (!room) return null;
+
+        const actor = room.tokenMap.get(actorToken);
+        const result = moderation.removeUser(room, actorToken, discordId, ban);
+        if (!result.ok) return result;
+
+        for (const client of room.clients) {
+            if (client.data.token !== result.token || client.readyState !== WebSocket.OPEN) continue;
+            client.close(ban ? 4005 : 4004, ban ? "Banned" : "Kicked");
+        }
+
+        this.persistRoom(roomId);
+        logger.info("Moderation", `${actor?.username} ${ban ? 'baniu' : 'removeu'} ${result.user.username} (${discordId}) da sala ${roomId}`);
+        return result;
+    }
+
+    // ─── Timeline ─────────────────────────────────────────────────────────────
+
+    recordTimelineEvent(roomId: string, kind: TimelineEventKind, mediaTime: number): void {
+        const room = this.rooms.get(roomId);
+        if (room) timeline.recordTimelineEvent(room, kind, mediaTime);
+    }
+
+    getTimeline(roomId: string): TimelineBucket[] {
+        const room = this.rooms.get(roomId);
+        return room ? timeline.getTimeline(room) : [];
+    }
+
+    getChatHistory(roomId: string): { messages: ChatMessage[]; reactions: ChatReaction[] } {
+        const room = this.rooms.get(roomId);
+        return { messages: room?.chatHistory ?? [], reactions: room?.chatReactions ?? [] };
+    }
+
     // ─── Subtitles ────────────────────────────────────────────────────────────
 
-    addSubtitle(roomId: string, filename: string, displayName: string): boolean {
+    addSubtitle(roomId: string, filename: string, displayName: string, format: SubtitleFormat = 'srt'): boolean {
         const room = this.rooms.get(roomId);
         if (!room) return false;
         if (!room.state.subtitles.some(s => s.filename === filename)) {
-            room.state.subtitles.push({ filename, displayName });
+            room.state.subtitles.push({ filename, displayName, format, offsetSeconds: 0 });
         }
         return true;
     }
@@ -400,7 +651,18 @@ export class RoomManager {
         return false;
     }
 
-    getSubtitles(roomId: string): { filename: string; displayName: string }[] {
+    /**
+     * Define o atraso da legenda para toda a sala. Positivo atrasa, negativo adianta.
+     */
+    setSubtitleOffset(roomId: string, filename: string, offsetSeconds: number): SubtitleInfo | null {
+        const subtitle = this.rooms.get(roomId)?.state.subtitles.find(s => s.filename === filename);
+        if (!subtitle) return null;
+        subtitle.offsetSeconds = offsetSeconds;
+        this.persistRoom(roomId);
+        return subtitle;
+    }
+
+    getSubtitles(roomId: string): SubtitleInfo[] {
         return this.rooms.get(roomId)?.state.subtitles ?? [];
     }
 
@@ -447,8 +709,15 @@ export class RoomManager {
         room.state.playbackStarted = false;
         room.state.lastCommandSeq = 0;
         room.state.subtitles = [];
+        room.state.mediaInfo = null;
+        room.state.hls = null;
+        room.state.isGeneratingHls = false;
         room.ratings = [];
         room.ratingRound = undefined;
+        room.chatReactions = [];
+        room.timeline = [];
+        room.rewindVote = undefined;
+        buffering.releaseBufferingHold(room);
         room.status = 'waiting';
 
         logger.info("RoomManager", `Sala ${roomId} resetada para próximo episódio`);
@@ -470,22 +739,7 @@ export class RoomManager {
         const room = this.rooms.get(roomId);
         if (!room?.selectedEpisode || !room.movieInfo?.seasons) return null;
 
-        const { seasonNumber, episodeNumber } = room.selectedEpisode;
-        const season = room.movieInfo.seasons.find(s => s.seasonNumber === seasonNumber);
-        if (!season) return null;
-
-        const nextEp = season.episodes.find(e => e.episodeNumber === episodeNumber + 1);
-        if (nextEp) {
-            return { ...nextEp, seasonNumber };
-        }
-
-        const nextSeason = room.movieInfo.seasons.find(s => s.seasonNumber === seasonNumber + 1);
-        if (nextSeason?.episodes?.length) {
-            const firstEp = nextSeason.episodes[0];
-            return { ...firstEp, seasonNumber: nextSeason.seasonNumber };
-        }
-
-        return null;
+        return findNextEpisode(room.movieInfo.seasons, room.selectedEpisode);
     }
 
     // ─── Private Helpers ──────────────────────────────────────────────────────
@@ -510,13 +764,22 @@ export class RoomManager {
                 playbackStarted: false,
                 hostLastHeartbeat: Date.now(),
                 lastCommandSeq: 0,
-                subtitles: []
+                subtitles: [],
+                mediaInfo: null,
+                hls: null,
+                isGeneratingHls: false
             },
             clients: new Set(),
             tokenMap: new Map(),
             ratings: [],
             episodeHistory: [],
-            status: 'waiting'
+            status: 'waiting',
+            chatHistory: [],
+            chatReactions: [],
+            timeline: [],
+            controls: { ...controls.DEFAULT_ROOM_CONTROLS },
+            bannedDiscordIds: [],
+            bufferingSince: {}
         };
     }
 
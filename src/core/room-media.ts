@@ -24,4 +24,14 @@ export async function removeRoomMediaFiles(room: Room, context: string): Promise
             logger.error("RoomManager", `Erro ao deletar arquivo de mídia (${context})`, error);
         }
     }
+
+    const hlsDir = room.state.hls?.dir;
+    if (hlsDir && existsSync(hlsDir) && isPathInsideDirectory(UPLOADS_DIR, hlsDir)) {
+        try {
+            await rm(hlsDir, { recursive: true, force: true });
+            logger.info("RoomManager", `Saída HLS removida (${context}): ${hlsDir}`);
+        } catch (error) {
+            logger.error("RoomManager", `Erro ao deletar saída HLS (${context})`, error);
+        }
+    }
 }
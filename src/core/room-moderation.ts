@@ -0,0 +1,67 @@
+import type { DiscordUser, Room } from "../shared/types";
+import { assignHost } from "./room-auth";
+
+export type ModerationRejectReason = "not_found" | "self" | "offline" | "owner";
+
+export type ModerationResult =
+    | { ok: true; token: string; user: DiscordUser }
+    | { ok: false; reason: ModerationRejectReason };
+
+/**
+ * Localiza o alvo de uma ação do host. O host não age sobre si mesmo.
+ */
+function findTarget(room: Room, actorToken: string, discordId: string): ModerationResult {
+    for (const [token, user] of room.tokenMap) {
+        if (user.discordId !== discordId) continue;
+        if (token === actorToken) return { ok: false, reason: "self" };
+        return { ok: true, token, user };
+    }
+
+    return { ok: false, reason: "not_found" };
+}
+
+/**
+ * Passa o host para outro usuário conectado. O host anterior vira espectador.
+ */
+export function handOffHost(room: Room, actorToken: string, discordId: string): ModerationResult {
+    const target = findTarget(room, actorToken, discordId);
+    if (!target.ok) return target;
+    if (!target.user.connected) return { ok: false, reason: "offline" };
+
+    assignHost(room, target.user);
+    return target;
+}
+
+export function setCoHost(room: Room, actorToken: string, discordId: string, enabled: boolean): ModerationResult {
+    const target = findTarget(room, actorToken, discordId);
+    if (!target.ok) return target;
+
+    target.user.isCoHost = enabled;
+    return target;
+}
+
+/**
+ * Revoga o token do usuário. Com ban, o Discord ID fica bloqueado até a sala acabar;
+ * sem ban, ele pode voltar autorizando a sala de novo.
+ * O dono da sessão não sai: o bot depende do token dele para finalizar a sessão.
+ */
+export function removeUser(room: Room, actorToken: string, discordId: string, ban: boolean): ModerationResult {
+    const target = findTarget(room, actorToken, discordId);
+    if (!target.ok) return target;
+    if (target.user.isOwner) return { ok: false, reason: "owner" };
+
+    room.tokenMap.delete(target.token);
+    if (ban && !room.bannedDiscordIds.includes(discordId)) {
+        room.bannedDiscordIds.push(discordId);
+    }
+    return target;
+}
+
+export function isBanned(room: Room, discordId: string): boolean {
+    return room.bannedDiscordIds.includes(discordId);
+}
+
+export function canControlPlayback(room: Room, token: string): boolean {
+    const user = room.tokenMap.get(token);
+    return Boolean(user && (user.isHost || user.isCoHost));
+}
@@ -0,0 +1,148 @@
+import { existsSync } from "fs";
+import { readdir, rm } from "fs/promises";
+import { join } from "path";
+import { UPLOADS_DIR } from "../config";
+import { logger } from "../shared/logger";
+import { isPathInsideDirectory } from "../shared/path-containment";
+import type { DiscordUser, Room } from "../shared/types";
+import { getCurrentTime } from "./room-playback";
+import { DEFAULT_ROOM_CONTROLS } from "./room-controls";
+
+const INTERRUPTED_PROCESSING_MESSAGE = "O processamento foi interrompido pela reinicialização do servidor. Selecione a faixa de áudio novamente.";
+
+export interface RoomSnapshot extends Omit<Room, 'clients' | 'tokenMap'> {
+    tokens: Array<[string, DiscordUser]>;
+}
+
+export function serializeRoom(room: Room): RoomSnapshot {
+    const { clients: _clients, tokenMap, ...rest } = room;
+
+    return {
+        ...rest,
+        state: {
+            ...room.state,
+            currentTime: getCurrentTime(room),
+            lastUpdate: Date.now(),
+        },
+        tokens: Array.from(tokenMap.entries()),
+    };
+}
+
+function isUsableMediaPath(mediaPath: string): boolean {
+    return Boolean(mediaPath) && isPathInsideDirectory(UPLOADS_DIR, mediaPath) && existsSync(mediaPath);
+}
+
+/**
+ * Remove pastas HLS que não são a saída registrada da sala (geração interrompida pela reinicialização).
+ * A sala volta para a fila do HLS na inicialização do servidor.
+ */
+async function discardPartialHlsDirs(room: Room): Promise<void> {
+    const entries = await readdir(UPLOADS_DIR, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+        if (!entry.isDirectory() || !entry.name.startsWith(`${room.id}_`) || !entry.name.endsWith('_hls')) continue;
+
+        const hlsDir = join(UPLOADS_DIR, entry.name);
+        if (hlsDir === room.state.hls?.dir) continue;
+
+        try {
+            await rm(hlsDir, { recursive: true, force: true });
+            logger.warn("RoomPersistence", `HLS incompleto da sala ${room.id} descartado: ${entry.name}`);
+        } catch (error) {
+            logger.error("RoomPersistence", `Falha ao remover HLS incompleto ${hlsDir}`, error);
+        }
+    }
+}
+
+async function discardMediaFile(mediaPath: string): Promise<void> {
+    if (!isUsableMediaPath(mediaPath)) return;
+
+    try {
+        await rm(mediaPath, { force: true });
+    } catch (error) {
+        logger.error("RoomPersistence", `Falha ao remover arquivo órfão ${mediaPath}`, error);
+    }
+}
+
+/**
+ * Reconstrói uma sala a partir do snapshot salvo, reanexando arquivos que ainda existem em disco.
+ * Uploads e processamentos interrompidos voltam para um estado em que o host consegue continuar.
+ * @param snapshot Snapshot serializado da sala.
+ * @returns Sala pronta para ser registrada no RoomManager.
+ */
+export async function restoreRoom(snapshot: RoomSnapshot): Promise<Room> {
+    const { tokens, ...rest } = snapshot;
+    const now = Date.now();
+
+    const tokenMap = new Map<string, DiscordUser>(
+        tokens.map(([token, user]) => [token, { ...user, connected: false, ping: -1 }])
+    );
+
+    const room: Room = {
+        ...rest,
+        clients: new Set(),
+        tokenMap,
+        chatHistory: rest.chatHistory ?? [],
+        chatReactions: rest.chatReactions ?? [],
+        timeline: rest.timeline ?? [],
+        controls: { ...DEFAULT_ROOM_CONTROLS, ...rest.controls },
+        rewindVote: undefined,
+        bannedDiscordIds: rest.bannedDiscordIds ?? [],
+        bufferingSince: {},
+        bufferingHold: undefined,
+        state: {
+            ...rest.state,
+            isPlaying: false,
+            lastUpdate: now,
+            hostLastHeartbeat: now,
+            isUploading: false,
+            uploadProgress: 0,
+            lastCommandSeq: 0,
+        },
+    };
+
+    const { state } = room;
+
+    if (state.videoPath && !isUsableMediaPath(state.videoPath)) {
+        logger.warn("RoomPersistence", `Vídeo da sala ${room.id} não encontrado em disco, aguardando novo envio`);
+        state.videoPath = '';
+        state.currentTime = 0;
+        state.playbackStarted = false;
+    }
+
+    if (state.isProcessing) {
+        state.isProcessing = false;
+        state.processingMessage = '';
+
+        if (isUsableMediaPath(state.pendingVideoPath) && state.audioTracks.length > 0) {
+            state.isAwaitingAudioSelection = true;
+            state.selectedAudioStreamIndex = null;
+            state.audioSelectionErrorMessage = INTERRUPTED_PROCESSING_MESSAGE;
+        } else {
+            await discardMediaFile(state.pendingVideoPath);
+            state.pendingVideoPath = '';
+            state.audioTracks = [];
+            state.selectedAudioStreamIndex = null;
+        }
+    }
+
+    if (state.isAwaitingAudioSelection && !isUsableMediaPath(state.pendingVideoPath)) {
+        state.isAwaitingAudioSelection = false;
+        state.pendingVideoPath = '';
+        state.audioTracks = [];
+        state.selectedAudioStreamIndex = null;
+        state.audioSelectionErrorMessage = '';
+    }
+
+    state.mediaInfo = state.videoPath ? state.mediaInfo ?? null : null;
+    state.hls = state.hls && state.videoPath && isUsableMediaPath(state.hls.dir) ? state.hls : null;
+    state.isGeneratingHls = false;
+    await discardPartialHlsDirs(room);
+
+    const subtitlesDir = join(UPLOADS_DIR, `${room.id}_subtitles`);
+    state.subtitles = state.subtitles
+        .filter(subtitle => existsSync(join(subtitlesDir, subtitle.filename)))
+        .map(subtitle => ({ ...subtitle, format: subtitle.format ?? 'srt', offsetSeconds: subtitle.offsetSeconds ?? 0 }));
+
+    return room;
+}
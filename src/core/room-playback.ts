@@ -1,8 +1,8 @@
-import { existsSync, statSync } from "fs";
 import type { Room, RoomState } from "../shared/types";
-import { logger } from "../shared/logger";
 
 const DEFAULT_BITRATE_MBPS = 15;
+const MIN_BITRATE_MBPS = 2;
+const MAX_BITRATE_MBPS = 50;
 const HOST_INACTIVE_TIMEOUT = 60 * 1000;
 
 export function getCurrentTime(room: Room): number {
@@ -28,6 +28,9 @@ export function hasVideo(room: Room): boolean {
 
 export function setVideoPath(room: Room, path: string): void {
     room.state.videoPath = path;
+    room.state.mediaInfo = null;
+    room.state.hls = null;
+    room.state.isGeneratingHls = false;
     room.state.pendingVideoPath = '';
     room.state.isAwaitingAudioSelection = false;
     room.state.audioTracks = [];
@@ -55,18 +58,20 @@ export function getLastCommandSeq(room: Room): number {
     return room.state.lastCommandSeq;
 }
 
+/**
+ * Estima a banda consumida por espectador, em Mbps, para o controle de admissão da sala.
+ * Conta a maior variante HLS ou o bitrate real medido pelo ffprobe, o que for maior:
+ * o hls.js escolhe a variante pela banda e pelo tamanho do player, e em tela cheia sobe até a de 1080p.
+ */
 export function estimateBitrate(room: Room): number {
-    if (!room.state.videoPath || !existsSync(room.state.videoPath)) {
-        return DEFAULT_BITRATE_MBPS;
-    }
+    const renditions = room.state.hls?.renditions ?? [];
+    const highestRenditionMbps = renditions.length > 0
+        ? Math.max(...renditions.map(rendition => rendition.bandwidth)) / 1_000_000
+        : 0;
+    const sourceMbps = (room.state.mediaInfo?.bitrate ?? 0) / 1_000_000;
 
-    try {
-        const stats = statSync(room.state.videoPath);
-        // Assume duração de 2h (7200s) como fallback — idealmente usar metadados do ffprobe
-        const bitrateMbps = (stats.size * 8) / 7200 / 1_000_000;
-        return Math.max(2, Math.min(bitrateMbps, 50));
-    } catch (e) {
-        logger.warn("Room", `Erro ao estimar bitrate para sala ${room.id}`, e);
-        return DEFAULT_BITRATE_MBPS;
-    }
+    const bitrateMbps = Math.max(highestRenditionMbps, sourceMbps);
+    if (bitrateMbps <= 0) return DEFAULT_BITRATE_MBPS;
+
+    return Math.max(MIN_BITRATE_MBPS, Math.min(bitrateMbps, MAX_BITRATE_MBPS));
 }
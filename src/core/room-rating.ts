@@ -9,7 +9,14 @@ import type {
 import { logger } from "../shared/logger";
 import * as auth from "./room-auth";
 
-export function addRating(room: Room, discordId: string, username: string, rating: number): boolean {
+export function addRating(
+    room: Room,
+    discordId: string,
+    username: string,
+    rating: number,
+    review?: string,
+    spoiler = false
+): boolean {
     if (room.ratingRound?.isClosed) {
         return false;
     }
@@ -21,11 +28,15 @@ export function addRating(room: Room, discordId: string, username: string, ratin
         return false;
     }
 
+    const entry: SessionRating = review
+        ? { discordId, username, rating, review, spoiler }
+        : { discordId, username, rating };
+
     const existingIndex = room.ratings.findIndex((currentRating) => currentRating.discordId === discordId);
     if (existingIndex >= 0) {
-        room.ratings[existingIndex].rating = rating;
+        room.ratings[existingIndex] = { ...entry, username: room.ratings[existingIndex].username };
     } else {
-        room.ratings.push({ discordId, username, rating });
+        room.ratings.push(entry);
     }
 
     logger.info("Room", `Nota registrada: ${username} deu nota ${rating} na sala ${room.id}`);
@@ -0,0 +1,36 @@
+import type { Room, TimelineBucket, TimelineEventKind } from "../shared/types";
+
+// Voltar menos que isso costuma ser ajuste fino, não "rever a cena"
+const MIN_REWIND_SECONDS = 5;
+
+const counterByKind: Record<TimelineEventKind, keyof Omit<TimelineBucket, 'minute'>> = {
+    pause: 'pauses',
+    rewind: 'rewinds',
+    leave: 'leaves',
+    reaction: 'reactions',
+};
+
+/**
+ * Soma um evento no minuto do vídeo em que aconteceu.
+ * Só conta depois que a reprodução começou, para não registrar a preparação da sala.
+ */
+export function recordTimelineEvent(room: Room, kind: TimelineEventKind, mediaTime: number): void {
+    if (!room.state.playbackStarted || !Number.isFinite(mediaTime) || mediaTime < 0) return;
+
+    const minute = Math.floor(mediaTime / 60);
+    let bucket = room.timeline.find((entry) => entry.minute === minute);
+    if (!bucket) {
+        bucket = { minute, pauses: 0, rewinds: 0, leaves: 0, reactions: 0 };
+        room.timeline.push(bucket);
+    }
+
+    bucket[counterByKind[kind]]++;
+}
+
+export function isRewind(fromTime: number, toTime: number): boolean {
+    return fromTime - toTime >= MIN_REWIND_SECONDS;
+}
+
+export function getTimeline(room: Room): TimelineBucket[] {
+    return [...room.timeline].sort((a, b) => a.minute - b.minute);
+}
@@ -0,0 +1,25 @@
+import { getDb } from "./connection";
+import { DEFAULT_RATING_SCALE, normalizeRatingScale, type RatingScale } from "../shared/rating-scale";
+import type { GuildSettingsRow } from "./types";
+
+export const getGuildRatingScale = async (guildId: string | null | undefined): Promise<RatingScale> => {
+    if (!guildId) return DEFAULT_RATING_SCALE;
+
+    const db = getDb();
+    const row = db.prepare("SELECT * FROM guild_settings WHERE guild_id = ?").get(guildId) as GuildSettingsRow | null;
+    if (!row) return DEFAULT_RATING_SCALE;
+
+    return normalizeRatingScale({ max: row.rating_scale_max, step: row.rating_scale_step });
+};
+
+export const setGuildRatingScale = async (guildId: string, scale: RatingScale) => {
+    const db = getDb();
+    db.prepare(
+        `INSERT INTO guild_settings (guild_id, rating_scale_max, rating_scale_step, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(guild_id) DO UPDATE SET
+            rating_scale_max = excluded.rating_scale_max,
+            rating_scale_step = excluded.rating_scale_step,
+            updated_at = excluded.updated_at`
+    ).run(guildId, scale.max, scale.step, new Date().toISOString());
+};
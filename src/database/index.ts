@@ -1,7 +1,57 @@
 import { initDb, migrateFromJson } from "./schema";
-import { registerMovieStart, addVote, getMovieRatings, getAllMoviesWithRatings, deleteMovie, isMovieWatched } from "./movies";
-import { addToWatchlist, getWatchlist, removeFromWatchlist, removeFromWatchlistByTitle } from "./watchlist";
-import { saveActiveVoting, removeActiveVoting, getActiveVotings } from "./votings";
+import {
+    registerMovieStart,
+    addVote,
+    getRatingById,
+    setRatingReview,
+    getMovieReviews,
+    getMovieRatings,
+    getAllMoviesWithRatings,
+    getMoviesMissingRuntime,
+    setMovieRuntime,
+    deleteMovie,
+    isMovieWatched,
+} from "./movies";
+import {
+    addToWatchlist,
+    getWatchlist,
+    removeFromWatchlist,
+    removeFromWatchlistByTitle,
+    getRandomWatchlistItems,
+    findWatchlistItemByTitle,
+} from "./watchlist";
+import {
+    saveActiveVoting,
+    removeActiveVoting,
+    getActiveVotings,
+    getActiveVoting,
+    setVotingDeadline,
+    markVotingReminded,
+} from "./votings";
+import { saveRoomSnapshot, removeRoomSnapshot, getRoomSnapshots } from "./rooms";
+import {
+    createScheduledSession,
+    getScheduledSession,
+    getPendingScheduledSessions,
+    getGuildScheduledSessions,
+    setScheduledSessionMessage,
+    markScheduledSessionReminded,
+    updateScheduledSessionStatus,
+    setScheduledSessionRsvp,
+    getScheduledSessionRsvps,
+} from "./scheduled-sessions";
+import { getGuildRatingScale, setGuildRatingScale } from "./guild-settings";
+import { recordSeriesProgress, getGuildSeriesProgress, getSeriesProgress } from "./series";
+import {
+    createMoviePoll,
+    getMoviePoll,
+    getOpenMoviePolls,
+    setMoviePollMessage,
+    finishMoviePoll,
+    setMoviePollBallot,
+    getMoviePollBallots,
+} from "./movie-polls";
+import { saveViewingTimeline, getMovieTimeline } from "./timeline";
 
 const dbApi = {
     initDb,
@@ -9,14 +59,50 @@ const dbApi = {
     saveActiveVoting,
     removeActiveVoting,
     getActiveVotings,
+    getActiveVoting,
+    setVotingDeadline,
+    markVotingReminded,
+    saveRoomSnapshot,
+    removeRoomSnapshot,
+    getRoomSnapshots,
+    createScheduledSession,
+    getScheduledSession,
+    getPendingScheduledSessions,
+    getGuildScheduledSessions,
+    setScheduledSessionMessage,
+    markScheduledSessionReminded,
+    updateScheduledSessionStatus,
+    setScheduledSessionRsvp,
+    getScheduledSessionRsvps,
+    createMoviePoll,
+    getMoviePoll,
+    getOpenMoviePolls,
+    setMoviePollMessage,
+    finishMoviePoll,
+    setMoviePollBallot,
+    getMoviePollBallots,
+    getGuildRatingScale,
+    setGuildRatingScale,
+    recordSeriesProgress,
+    getGuildSeriesProgress,
+    getSeriesProgress,
     registerMovieStart,
     addVote,
+    getRatingById,
+    setRatingReview,
+    getMovieReviews,
     getMovieRatings,
     getAllMoviesWithRatings,
+    getMoviesMissingRuntime,
+    setMovieRuntime,
+    saveViewingTimeline,
+    getMovieTimeline,
     addToWatchlist,
     getWatchlist,
     removeFromWatchlist,
     removeFromWatchlistByTitle,
+    getRandomWatchlistItems,
+    findWatchlistItemByTitle,
     deleteMovie,
     isMovieWatched,
 };
@@ -0,0 +1,92 @@
+import { getDb } from "./connection";
+import type {
+    MoviePoll,
+    MoviePollBallot,
+    MoviePollBallotRow,
+    MoviePollMode,
+    MoviePollOption,
+    MoviePollRow,
+    MoviePollStatus,
+} from "./types";
+
+const toMoviePoll = (row: MoviePollRow): MoviePoll => ({
+    id: row.id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    messageId: row.message_id,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    mode: row.mode,
+    options: JSON.parse(row.options) as MoviePollOption[],
+    deadline: new Date(row.deadline),
+    status: row.status,
+    winnerIndex: row.winner_index,
+});
+
+export const createMoviePoll = async (data: {
+    guildId: string;
+    channelId: string;
+    createdBy: string;
+    createdByName: string;
+    mode: MoviePollMode;
+    options: MoviePollOption[];
+    deadline: Date;
+}): Promise<number> => {
+    const db = getDb();
+    const result = db.prepare(
+        `INSERT INTO movie_polls (guild_id, channel_id, created_by, created_by_name, mode, options, deadline, status, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'open', ?)`
+    ).run(
+        data.guildId,
+        data.channelId,
+        String(data.createdBy),
+        data.createdByName,
+        data.mode,
+        JSON.stringify(data.options),
+        data.deadline.toISOString(),
+        new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+};
+
+export const getMoviePoll = async (id: number): Promise<MoviePoll | null> => {
+    const db = getDb();
+    const row = db.prepare("SELECT * FROM movie_polls WHERE id = ?").get(id) as MoviePollRow | null;
+    return row ? toMoviePoll(row) : null;
+};
+
+export const getOpenMoviePolls = async (): Promise<MoviePoll[]> => {
+    const db = getDb();
+    const rows = db.prepare("SELECT * FROM movie_polls WHERE status = 'open' ORDER BY deadline ASC").all() as MoviePollRow[];
+    return rows.map(toMoviePoll);
+};
+
+export const setMoviePollMessage = async (id: number, messageId: string) => {
+    const db = getDb();
+    db.prepare("UPDATE movie_polls SET message_id = ? WHERE id = ?").run(messageId, id);
+};
+
+export const finishMoviePoll = async (id: number, status: MoviePollStatus, winnerIndex: number | null) => {
+    const db = getDb();
+    db.prepare("UPDATE movie_polls SET status = ?, winner_index = ? WHERE id = ?").run(status, winnerIndex, id);
+};
+
+export const setMoviePollBallot = async (pollId: number, userId: string, userName: string, choices: (number | null)[]) => {
+    const db = getDb();
+    db.prepare(
+        `INSERT OR REPLACE INTO movie_poll_ballots (poll_id, user_id, user_name, choices, updated_at)
+         VALUES (?, ?, ?, ?, ?)`
+    ).run(pollId, String(userId), userName, JSON.stringify(choices), new Date().toISOString());
+};
+
+export const getMoviePollBallots = async (pollId: number): Promise<MoviePollBallot[]> => {
+    const db = getDb();
+    const rows = db.prepare(
+        "SELECT * FROM movie_poll_ballots WHERE poll_id = ? ORDER BY updated_at ASC"
+    ).all(pollId) as MoviePollBallotRow[];
+    return rows.map((row) => ({
+        userId: row.user_id,
+        userName: row.user_name,
+        choices: JSON.parse(row.choices) as (number | null)[],
+    }));
+};
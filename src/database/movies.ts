@@ -1,110 +1,318 @@
 import { getDb } from "./connection";
-import type { MovieRow, RatingRow, MovieWithRatings } from "./types";
+import { getAllSeries, getEpisodeLinks, linkEpisodeToMovie } from "./series";
+import type {
+    EpisodeRef,
+    EpisodeWithRatings,
+    MissingRuntimeRow,
+    MovieRow,
+    MovieViewing,
+    MovieWithRatings,
+    RatingRow,
+    SeasonWithRatings,
+    ViewingRow,
+} from "./types";
 
-export const registerMovieStart = async (title: string, tmdbInfo: Record<string, unknown>) => {
+export interface RegisterViewingOptions {
+    /** Discord IDs de quem estava na sessão. */
+    attendees?: string[];
+    /** Sala do player; reaproveita a mesma sessão se o registro for repetido (ex: reconexão do monitor). */
+    roomId?: string;
+    /** Quando o título é um episódio, vincula à série (tmdbInfo) e temporada correspondentes. */
+    episode?: EpisodeRef;
+    /** Duração em minutos do filme/episódio, usada nas estatísticas de horas assistidas. */
+    runtime?: number | null;
+}
+
+const parseAttendees = (raw: string): string[] => {
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch {
+        return [];
+    }
+};
+
+const getLatestViewingId = (movieId: number): number | null => {
     const db = getDb();
-    const existing = db.prepare("SELECT id FROM movies WHERE title = ?").get(title);
-    if (existing) return;
+    const row = db.prepare(
+        "SELECT id FROM viewings WHERE movie_id = ? ORDER BY watched_at DESC, id DESC LIMIT 1"
+    ).get(movieId) as { id: number } | null;
+    return row?.id ?? null;
+};
 
-    const genres = Array.isArray(tmdbInfo?.genres) && tmdbInfo.genres.length
-        ? (tmdbInfo.genres as string[]).join(", ")
-        : null;
+/**
+ * Registra uma nova sessão assistida do título, criando o filme na primeira vez.
+ * @returns id da sessão (viewing) onde as notas devem ser gravadas.
+ */
+export const registerMovieStart = async (
+    title: string,
+    tmdbInfo: Record<string, unknown>,
+    options: RegisterViewingOptions = {}
+): Promise<number> => {
+    const db = getDb();
     const now = new Date().toISOString();
+    const attendees = JSON.stringify([...new Set(options.attendees ?? [])]);
 
-    db.prepare(
-        `INSERT INTO movies (title, tmdb_id, poster_url, overview, release_date, genres, watched_at, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-    ).run(
-        title,
-        (tmdbInfo?.id as number) || null,
-        (tmdbInfo?.poster_url as string) || null,
-        (tmdbInfo?.overview as string) || "",
-        (tmdbInfo?.release_date as string) || "",
-        genres,
-        now,
-        now
-    );
+    let movie = db.prepare("SELECT id FROM movies WHERE title = ?").get(title) as { id: number } | null;
+    if (!movie) {
+        const genres = Array.isArray(tmdbInfo?.genres) && tmdbInfo.genres.length
+            ? (tmdbInfo.genres as string[]).join(", ")
+            : null;
+
+        db.prepare(
+            `INSERT INTO movies (title, tmdb_id, poster_url, overview, release_date, genres, runtime, watched_at, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+            title,
+            (tmdbInfo?.id as number) || null,
+            (tmdbInfo?.poster_url as string) || null,
+            (tmdbInfo?.overview as string) || "",
+            (tmdbInfo?.release_date as string) || "",
+            genres,
+            options.runtime ?? null,
+            now,
+            now
+        );
+        movie = db.prepare("SELECT id FROM movies WHERE title = ?").get(title) as { id: number };
+    } else if (options.runtime) {
+        db.prepare("UPDATE movies SET runtime = COALESCE(runtime, ?) WHERE id = ?").run(options.runtime, movie.id);
+    }
+
+    if (options.episode) {
+        linkEpisodeToMovie(movie.id, (tmdbInfo?.title as string) || title, tmdbInfo, options.episode);
+    }
+
+    if (options.roomId) {
+        const existing = db.prepare(
+            "SELECT id FROM viewings WHERE movie_id = ? AND room_id = ?"
+        ).get(movie.id, options.roomId) as { id: number } | null;
+
+        if (existing) {
+            db.prepare("UPDATE viewings SET attendees = ? WHERE id = ?").run(attendees, existing.id);
+            return existing.id;
+        }
+    }
+
+    const result = db.prepare(
+        "INSERT INTO viewings (movie_id, watched_at, attendees, room_id) VALUES (?, ?, ?, ?)"
+    ).run(movie.id, now, attendees, options.roomId ?? null);
+    db.prepare("UPDATE movies SET watched_at = ? WHERE id = ?").run(now, movie.id);
+
+    return Number(result.lastInsertRowid);
 };
 
-export const addVote = async (title: string, userId: string, userName: string, score: number) => {
+/**
+ * Registra (ou atualiza) a nota de um usuário em uma sessão do filme (a mais recente, se não informada).
+ * Sem resenha, mantém a resenha já salva para aquela sessão.
+ */
+export const addVote = async (
+    title: string,
+    userId: string,
+    userName: string,
+    score: number,
+    review: string | null = null,
+    spoiler = false,
+    viewingId: number | null = null
+) => {
     const db = getDb();
     const movie = db.prepare("SELECT id FROM movies WHERE title = ?").get(title) as { id: number } | undefined;
 
     if (!movie) return false;
 
+    const targetViewingId = viewingId ?? getLatestViewingId(movie.id);
+    if (!targetViewingId) return false;
+
     db.prepare(
-        `INSERT OR REPLACE INTO ratings (movie_id, user_id, user_name, score, timestamp)
-         VALUES (?, ?, ?, ?, ?)`
-    ).run(movie.id, String(userId), userName, score, new Date().toISOString());
+        `INSERT INTO ratings (movie_id, viewing_id, user_id, user_name, score, timestamp, review, review_spoiler)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(viewing_id, user_id) DO UPDATE SET
+            user_name = excluded.user_name,
+            score = excluded.score,
+            timestamp = excluded.timestamp,
+            review = COALESCE(excluded.review, ratings.review),
+            review_spoiler = CASE WHEN excluded.review IS NULL THEN ratings.review_spoiler ELSE excluded.review_spoiler END`
+    ).run(movie.id, targetViewingId, String(userId), userName, score, new Date().toISOString(), review, spoiler ? 1 : 0);
 
     return true;
 };
 
+export const getRatingById = async (ratingId: number) => {
+    const db = getDb();
+    const row = db.prepare(
+        `SELECT ratings.*, movies.title AS movie_title FROM ratings
+         JOIN movies ON movies.id = ratings.movie_id
+         WHERE ratings.id = ?`
+    ).get(ratingId) as (RatingRow & { movie_title: string }) | null;
+
+    return row ?? null;
+};
+
+/**
+ * Salva a resenha de uma nota já registrada. Resenha vazia remove a resenha existente.
+ * @returns false quando a nota não existe ou pertence a outro usuário.
+ */
+export const setRatingReview = async (ratingId: number, userId: string, review: string | null, spoiler: boolean) => {
+    const db = getDb();
+    const result = db.prepare(
+        "UPDATE ratings SET review = ?, review_spoiler = ? WHERE id = ? AND user_id = ?"
+    ).run(review, review && spoiler ? 1 : 0, ratingId, String(userId));
+
+    return result.changes > 0;
+};
+
+/**
+ * Resenhas do grupo para um título, incluindo os episódios quando for série (mesmo tmdb_id).
+ */
+export const getMovieReviews = async (title: string, tmdbId: number | null = null) => {
+    const db = getDb();
+    return db.prepare(
+        `SELECT ratings.* FROM ratings
+         JOIN movies ON movies.id = ratings.movie_id
+         WHERE ratings.review IS NOT NULL AND (movies.title = ? OR (? IS NOT NULL AND movies.tmdb_id = ?))
+         ORDER BY ratings.timestamp DESC`
+    ).all(title, tmdbId, tmdbId) as RatingRow[];
+};
+
+/** Notas da sessão mais recente do título (a que está em votação). */
 export const getMovieRatings = async (title: string) => {
     const db = getDb();
     const movie = db.prepare("SELECT id FROM movies WHERE title = ?").get(title) as { id: number } | undefined;
 
     if (!movie) return [];
 
-    return db.prepare("SELECT * FROM ratings WHERE movie_id = ?").all(movie.id) as RatingRow[];
+    const viewingId = getLatestViewingId(movie.id);
+    if (!viewingId) return [];
+
+    return db.prepare("SELECT * FROM ratings WHERE viewing_id = ?").all(viewingId) as RatingRow[];
 };
 
 export const getAllMoviesWithRatings = async (): Promise<MovieWithRatings[]> => {
     const db = getDb();
     const movies = db.prepare("SELECT * FROM movies").all() as MovieRow[];
+    const allViewings = db.prepare("SELECT * FROM viewings ORDER BY watched_at ASC, id ASC").all() as ViewingRow[];
     const allRatings = db.prepare("SELECT * FROM ratings").all() as RatingRow[];
 
-    const ratingsMap = new Map<number, RatingRow[]>();
+    const ratingsByViewing = new Map<number, RatingRow[]>();
     for (const rating of allRatings) {
-        const existing = ratingsMap.get(rating.movie_id) ?? [];
+        const existing = ratingsByViewing.get(rating.viewing_id) ?? [];
         existing.push(rating);
-        ratingsMap.set(rating.movie_id, existing);
+        ratingsByViewing.set(rating.viewing_id, existing);
     }
 
-    const rawMovies: MovieWithRatings[] = movies.map((movie) => ({
-        ...movie,
-        avaliacoes: ratingsMap.get(movie.id) ?? [],
-    }));
+    const viewingsMap = new Map<number, MovieViewing[]>();
+    for (const viewing of allViewings) {
+        const existing = viewingsMap.get(viewing.movie_id) ?? [];
+        existing.push({
+            id: viewing.id,
+            watchedAt: viewing.watched_at,
+            attendees: parseAttendees(viewing.attendees),
+            ratings: ratingsByViewing.get(viewing.id) ?? [],
+        });
+        viewingsMap.set(viewing.movie_id, existing);
+    }
 
-    const seriesMap = new Map<string, MovieWithRatings & { isSeries?: boolean; episodes?: unknown[] }>();
-    const independentMovies: MovieWithRatings[] = [];
+    const rawMovies: MovieWithRatings[] = movies.map((movie) => {
+        const viewings = viewingsMap.get(movie.id) ?? [];
 
-    for (const movie of rawMovies) {
-        const match = movie.title.match(/^(.*?) - T(\d+)E(\d+)$/);
-        if (match) {
-            const seriesTitle = match[1];
-            const season = parseInt(match[2]);
-            const episode = parseInt(match[3]);
-
-            if (!seriesMap.has(seriesTitle)) {
-                seriesMap.set(seriesTitle, {
-                    ...movie,
-                    title: seriesTitle,
-                    isSeries: true,
-                    episodes: [],
-                    avaliacoes: [],
-                });
+        // Sessões em ordem cronológica: a última nota de cada pessoa prevalece
+        const latestByUser = new Map<string, RatingRow>();
+        for (const viewing of viewings) {
+            for (const rating of viewing.ratings) {
+                latestByUser.set(rating.user_id, rating);
             }
+        }
 
-            const series = seriesMap.get(seriesTitle)!;
-            series.episodes!.push({ ...movie, season, episode });
-            series.avaliacoes.push(...movie.avaliacoes);
-        } else {
+        return { ...movie, avaliacoes: [...latestByUser.values()], viewings };
+    });
+
+    const episodeLinks = new Map((await getEpisodeLinks()).map((link) => [link.movie_id, link]));
+    const seriesRows = new Map((await getAllSeries()).map((series) => [series.id, series]));
+    const seriesMap = new Map<number, MovieWithRatings & { seasons: SeasonWithRatings[]; episodes: EpisodeWithRatings[] }>();
+    const independentMovies: MovieWithRatings[] = [];
+
+    for (const movie of rawMovies) {
+        const link = episodeLinks.get(movie.id);
+        const seriesRow = link ? seriesRows.get(link.series_id) : undefined;
+        if (!link || !seriesRow) {
             independentMovies.push(movie);
+            continue;
+        }
+
+        let series = seriesMap.get(seriesRow.id);
+        if (!series) {
+            series = {
+                ...seriesRow,
+                runtime: null,
+                watched_at: movie.watched_at,
+                isSeries: true,
+                seasons: [],
+                episodes: [],
+                avaliacoes: [],
+                viewings: [],
+            };
+            seriesMap.set(seriesRow.id, series);
+        }
+
+        const episode: EpisodeWithRatings = {
+            ...movie,
+            season: link.season_number,
+            episode: link.episode_number,
+            episodeName: link.episode_name,
+        };
+
+        let season = series.seasons.find((current) => current.seasonNumber === link.season_number);
+        if (!season) {
+            season = { seasonNumber: link.season_number, episodes: [], avaliacoes: [] };
+            series.seasons.push(season);
+        }
+
+        season.episodes.push(episode);
+        season.avaliacoes.push(...movie.avaliacoes);
+        series.episodes.push(episode);
+        series.avaliacoes.push(...movie.avaliacoes);
+        if (movie.watched_at > series.watched_at) {
+            series.watched_at = movie.watched_at;
         }
     }
 
-    const aggregatedSeries = Array.from(seriesMap.values()).map(series => {
-        (series.episodes as { season: number; episode: number }[]).sort((a, b) => {
-            if (a.season !== b.season) return a.season - b.season;
-            return a.episode - b.episode;
-        });
+    const byEpisodeOrder = (a: EpisodeWithRatings, b: EpisodeWithRatings) =>
+        a.season !== b.season ? a.season - b.season : a.episode - b.episode;
+
+    const aggregatedSeries = Array.from(seriesMap.values()).map((series) => {
+        series.episodes.sort(byEpisodeOrder);
+        series.seasons.sort((a, b) => a.seasonNumber - b.seasonNumber);
+        series.seasons.forEach((season) => season.episodes.sort(byEpisodeOrder));
         return series;
     });
 
     return [...independentMovies, ...aggregatedSeries];
 };
 
+/**
+ * Títulos assistidos sem duração salva (registrados antes da coluna runtime).
+ * Episódios trazem o id TMDB da série para buscar a duração do episódio.
+ */
+export const getMoviesMissingRuntime = async (movieIds: number[]) => {
+    if (!movieIds.length) return [];
+
+    const db = getDb();
+    const placeholders = movieIds.map(() => "?").join(", ");
+    return db.prepare(
+        `SELECT movies.id, movies.tmdb_id, series.tmdb_id AS series_tmdb_id,
+                seasons.season_number, episodes.episode_number
+         FROM movies
+         LEFT JOIN episodes ON episodes.movie_id = movies.id
+         LEFT JOIN seasons ON seasons.id = episodes.season_id
+         LEFT JOIN series ON series.id = seasons.series_id
+         WHERE movies.runtime IS NULL AND movies.id IN (${placeholders})`
+    ).all(...movieIds) as MissingRuntimeRow[];
+};
+
+export const setMovieRuntime = async (movieId: number, runtime: number) => {
+    const db = getDb();
+    db.prepare("UPDATE movies SET runtime = ? WHERE id = ?").run(runtime, movieId);
+};
+
 export const deleteMovie = async (title: string) => {
     const db = getDb();
     const movie = db.prepare("SELECT id FROM movies WHERE title LIKE ?").get(title) as { id: number } | undefined;
@@ -0,0 +1,30 @@
+import { getDb } from "./connection";
+import type { RoomSnapshotRow } from "./types";
+
+export const saveRoomSnapshot = async (roomId: string, data: unknown) => {
+    const db = getDb();
+    db.prepare(
+        `INSERT OR REPLACE INTO room_snapshots (room_id, data, updated_at)
+         VALUES (?, ?, ?)`
+    ).run(roomId, JSON.stringify(data), new Date().toISOString());
+};
+
+export const removeRoomSnapshot = async (roomId: string) => {
+    const db = getDb();
+    db.prepare("DELETE FROM room_snapshots WHERE room_id = ?").run(roomId);
+};
+
+export const getRoomSnapshots = async () => {
+    const db = getDb();
+    const rows = db.prepare("SELECT * FROM room_snapshots").all() as RoomSnapshotRow[];
+
+    const snapshots: { roomId: string; data: unknown; updatedAt: string }[] = [];
+    for (const row of rows) {
+        try {
+            snapshots.push({ roomId: row.room_id, data: JSON.parse(row.data), updatedAt: row.updated_at });
+        } catch {
+            db.prepare("DELETE FROM room_snapshots WHERE room_id = ?").run(row.room_id);
+        }
+    }
+    return snapshots;
+};
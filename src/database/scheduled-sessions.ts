@@ -0,0 +1,107 @@
+import { getDb } from "./connection";
+import type { SelectedEpisode, TmdbSearchResult } from "../shared/types";
+import type {
+    ScheduledSession,
+    ScheduledSessionRow,
+    ScheduledSessionRsvp,
+    ScheduledSessionRsvpRow,
+    ScheduledSessionStatus,
+} from "./types";
+
+const toScheduledSession = (row: ScheduledSessionRow): ScheduledSession => ({
+    id: row.id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    messageId: row.message_id,
+    hostId: row.host_id,
+    hostUsername: row.host_username,
+    tmdbInfo: JSON.parse(row.tmdb_info) as TmdbSearchResult,
+    selectedEpisode: row.selected_episode ? JSON.parse(row.selected_episode) as SelectedEpisode : null,
+    scheduledAt: new Date(row.scheduled_at),
+    status: row.status,
+    reminderSentAt: row.reminder_sent_at,
+    roomId: row.room_id,
+});
+
+export const createScheduledSession = async (data: {
+    guildId: string;
+    channelId: string;
+    hostId: string;
+    hostUsername: string;
+    tmdbInfo: TmdbSearchResult;
+    selectedEpisode?: SelectedEpisode;
+    scheduledAt: Date;
+}): Promise<number> => {
+    const db = getDb();
+    const result = db.prepare(
+        `INSERT INTO scheduled_sessions (guild_id, channel_id, host_id, host_username, tmdb_info, selected_episode, scheduled_at, status, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'scheduled', ?)`
+    ).run(
+        data.guildId,
+        data.channelId,
+        data.hostId,
+        data.hostUsername,
+        JSON.stringify(data.tmdbInfo),
+        data.selectedEpisode ? JSON.stringify(data.selectedEpisode) : null,
+        data.scheduledAt.toISOString(),
+        new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+};
+
+export const getScheduledSession = async (id: number): Promise<ScheduledSession | null> => {
+    const db = getDb();
+    const row = db.prepare("SELECT * FROM scheduled_sessions WHERE id = ?").get(id) as ScheduledSessionRow | null;
+    return row ? toScheduledSession(row) : null;
+};
+
+export const getPendingScheduledSessions = async (): Promise<ScheduledSession[]> => {
+    const db = getDb();
+    const rows = db.prepare(
+        "SELECT * FROM scheduled_sessions WHERE status = 'scheduled' ORDER BY scheduled_at ASC"
+    ).all() as ScheduledSessionRow[];
+    return rows.map(toScheduledSession);
+};
+
+export const getGuildScheduledSessions = async (guildId: string): Promise<ScheduledSession[]> => {
+    const db = getDb();
+    const rows = db.prepare(
+        "SELECT * FROM scheduled_sessions WHERE guild_id = ? AND status = 'scheduled' ORDER BY scheduled_at ASC"
+    ).all(guildId) as ScheduledSessionRow[];
+    return rows.map(toScheduledSession);
+};
+
+export const setScheduledSessionMessage = async (id: number, messageId: string) => {
+    const db = getDb();
+    db.prepare("UPDATE scheduled_sessions SET message_id = ? WHERE id = ?").run(messageId, id);
+};
+
+export const markScheduledSessionReminded = async (id: number) => {
+    const db = getDb();
+    db.prepare("UPDATE scheduled_sessions SET reminder_sent_at = ? WHERE id = ?").run(new Date().toISOString(), id);
+};
+
+export const updateScheduledSessionStatus = async (
+    id: number,
+    status: ScheduledSessionStatus,
+    roomId: string | null = null
+) => {
+    const db = getDb();
+    db.prepare("UPDATE scheduled_sessions SET status = ?, room_id = COALESCE(?, room_id) WHERE id = ?").run(status, roomId, id);
+};
+
+export const setScheduledSessionRsvp = async (sessionId: number, userId: string, userName: string, attending: boolean) => {
+    const db = getDb();
+    db.prepare(
+        `INSERT OR REPLACE INTO scheduled_session_rsvps (session_id, user_id, user_name, attending, updated_at)
+         VALUES (?, ?, ?, ?, ?)`
+    ).run(sessionId, String(userId), userName, attending ? 1 : 0, new Date().toISOString());
+};
+
+export const getScheduledSessionRsvps = async (sessionId: number): Promise<ScheduledSessionRsvp[]> => {
+    const db = getDb();
+    const rows = db.prepare(
+        "SELECT * FROM scheduled_session_rsvps WHERE session_id = ? ORDER BY updated_at ASC"
+    ).all(sessionId) as ScheduledSessionRsvpRow[];
+    return rows.map((row) => ({ userId: row.user_id, userName: row.user_name, attending: row.attending === 1 }));
+};
@@ -3,6 +3,7 @@ import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { getDb } from "./connection";
 import { logger } from "../shared/logger";
+import { linkLegacyEpisodeTitles } from "./series";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const JSON_FILE = join(__dirname, "..", "movies_data.json");
@@ -19,19 +20,75 @@ export const initDb = async () => {
             overview TEXT,
             release_date TEXT,
             genres TEXT,
+            runtime INTEGER,
             watched_at TEXT,
             created_at TEXT
         );
 
+        CREATE TABLE IF NOT EXISTS series (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            tmdb_id INTEGER UNIQUE,
+            title TEXT NOT NULL,
+            poster_url TEXT,
+            overview TEXT,
+            release_date TEXT,
+            genres TEXT,
+            created_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS seasons (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            series_id INTEGER NOT NULL,
+            season_number INTEGER NOT NULL,
+            name TEXT,
+            FOREIGN KEY (series_id) REFERENCES series (id) ON DELETE CASCADE,
+            UNIQUE(series_id, season_number)
+        );
+
+        CREATE TABLE IF NOT EXISTS episodes (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            season_id INTEGER NOT NULL,
+            episode_number INTEGER NOT NULL,
+            name TEXT,
+            tmdb_episode_id INTEGER,
+            movie_id INTEGER UNIQUE,
+            FOREIGN KEY (season_id) REFERENCES seasons (id) ON DELETE CASCADE,
+            FOREIGN KEY (movie_id) REFERENCES movies (id) ON DELETE SET NULL,
+            UNIQUE(season_id, episode_number)
+        );
+
+        CREATE TABLE IF NOT EXISTS series_progress (
+            guild_id TEXT NOT NULL,
+            series_id INTEGER NOT NULL,
+            season_number INTEGER NOT NULL,
+            episode_number INTEGER NOT NULL,
+            watched_at TEXT NOT NULL,
+            FOREIGN KEY (series_id) REFERENCES series (id) ON DELETE CASCADE,
+            PRIMARY KEY (guild_id, series_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS viewings (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            movie_id INTEGER NOT NULL,
+            watched_at TEXT NOT NULL,
+            attendees TEXT NOT NULL DEFAULT '[]',
+            room_id TEXT,
+            FOREIGN KEY (movie_id) REFERENCES movies (id) ON DELETE CASCADE
+        );
+
         CREATE TABLE IF NOT EXISTS ratings (
             id INTEGER PRIMARY KEY AUTOINCREMENT,
             movie_id INTEGER NOT NULL,
+            viewing_id INTEGER NOT NULL,
             user_id TEXT NOT NULL,
             user_name TEXT,
-            score INTEGER NOT NULL,
+            score REAL NOT NULL,
             timestamp TEXT,
+            review TEXT,
+            review_spoiler INTEGER NOT NULL DEFAULT 0,
             FOREIGN KEY (movie_id) REFERENCES movies (id) ON DELETE CASCADE,
-            UNIQUE(movie_id, user_id)
+            FOREIGN KEY (viewing_id) REFERENCES viewings (id) ON DELETE CASCADE,
+            UNIQUE(viewing_id, user_id)
         );
 
         CREATE TABLE IF NOT EXISTS watchlist (
@@ -53,12 +110,92 @@ export const initDb = async () => {
             message_id TEXT,
             channel_id TEXT,
             tmdb_info TEXT,
-            allowed_users TEXT
+            allowed_users TEXT,
+            deadline TEXT,
+            reminder_sent_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS room_snapshots (
+            room_id TEXT PRIMARY KEY,
+            data TEXT NOT NULL,
+            updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS scheduled_sessions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            guild_id TEXT NOT NULL,
+            channel_id TEXT NOT NULL,
+            message_id TEXT,
+            host_id TEXT NOT NULL,
+            host_username TEXT NOT NULL,
+            tmdb_info TEXT NOT NULL,
+            selected_episode TEXT,
+            scheduled_at TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'scheduled',
+            reminder_sent_at TEXT,
+            room_id TEXT,
+            created_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS scheduled_session_rsvps (
+            session_id INTEGER NOT NULL,
+            user_id TEXT NOT NULL,
+            user_name TEXT,
+            attending INTEGER NOT NULL,
+            updated_at TEXT,
+            FOREIGN KEY (session_id) REFERENCES scheduled_sessions (id) ON DELETE CASCADE,
+            PRIMARY KEY (session_id, user_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS guild_settings (
+            guild_id TEXT PRIMARY KEY,
+            rating_scale_max INTEGER NOT NULL DEFAULT 10,
+            rating_scale_step REAL NOT NULL DEFAULT 0.5,
+            updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS movie_polls (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            guild_id TEXT NOT NULL,
+            channel_id TEXT NOT NULL,
+            message_id TEXT,
+            created_by TEXT NOT NULL,
+            created_by_name TEXT,
+            mode TEXT NOT NULL,
+            options TEXT NOT NULL,
+            deadline TEXT NOT NULL,
+            status TEXT NOT NULL DEFAULT 'open',
+            winner_index INTEGER,
+            created_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS movie_poll_ballots (
+            poll_id INTEGER NOT NULL,
+            user_id TEXT NOT NULL,
+            user_name TEXT,
+            choices TEXT NOT NULL,
+            updated_at TEXT,
+            FOREIGN KEY (poll_id) REFERENCES movie_polls (id) ON DELETE CASCADE,
+            PRIMARY KEY (poll_id, user_id)
+        );
+
+        CREATE TABLE IF NOT EXISTS viewing_timeline (
+            viewing_id INTEGER NOT NULL,
+            minute INTEGER NOT NULL,
+            pauses INTEGER NOT NULL DEFAULT 0,
+            rewinds INTEGER NOT NULL DEFAULT 0,
+            leaves INTEGER NOT NULL DEFAULT 0,
+            reactions INTEGER NOT NULL DEFAULT 0,
+            FOREIGN KEY (viewing_id) REFERENCES viewings (id) ON DELETE CASCADE,
+            PRIMARY KEY (viewing_id, minute)
         );
 
         CREATE INDEX IF NOT EXISTS idx_ratings_movie_id ON ratings(movie_id);
+        CREATE INDEX IF NOT EXISTS idx_viewings_movie_id ON viewings(movie_id, watched_at);
         CREATE INDEX IF NOT EXISTS idx_movies_tmdb_id ON movies(tmdb_id);
         CREATE INDEX IF NOT EXISTS idx_watchlist_added_at ON watchlist(added_at);
+        CREATE INDEX IF NOT EXISTS idx_scheduled_sessions_status ON scheduled_sessions(status, scheduled_at);
+        CREATE INDEX IF NOT EXISTS idx_movie_polls_status ON movie_polls(status, deadline);
     `);
 
     const watchlistColumns = db.prepare("PRAGMA table_info(watchlist)").all() as { name: string }[];
@@ -75,6 +212,9 @@ export const initDb = async () => {
     if (!movieColumnNames.includes("genres")) {
         db.prepare("ALTER TABLE movies ADD COLUMN genres TEXT").run();
     }
+    if (!movieColumnNames.includes("runtime")) {
+        db.prepare("ALTER TABLE movies ADD COLUMN runtime INTEGER").run();
+    }
 
     const activeVotingColumns = db.prepare("PRAGMA table_info(active_votings)").all() as { name: string; type: string }[];
     const messageIdColumn = activeVotingColumns.find((column) => column.name === "message_id");
@@ -94,6 +234,97 @@ export const initDb = async () => {
             DROP TABLE active_votings_legacy;
         `);
     }
+
+    // Notas passaram a aceitar meio ponto: recria a tabela com score REAL
+    const ratingColumns = db.prepare("PRAGMA table_info(ratings)").all() as { name: string; type: string }[];
+    const scoreColumn = ratingColumns.find((column) => column.name === "score");
+    if (scoreColumn && scoreColumn.type.toUpperCase() !== "REAL") {
+        db.exec(`
+            ALTER TABLE ratings RENAME TO ratings_legacy;
+            CREATE TABLE ratings (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                movie_id INTEGER NOT NULL,
+                user_id TEXT NOT NULL,
+                user_name TEXT,
+                score REAL NOT NULL,
+                timestamp TEXT,
+                FOREIGN KEY (movie_id) REFERENCES movies (id) ON DELETE CASCADE,
+                UNIQUE(movie_id, user_id)
+            );
+            INSERT INTO ratings (id, movie_id, user_id, user_name, score, timestamp)
+            SELECT id, movie_id, user_id, user_name, CAST(score AS REAL), timestamp
+            FROM ratings_legacy;
+            DROP TABLE ratings_legacy;
+            CREATE INDEX IF NOT EXISTS idx_ratings_movie_id ON ratings(movie_id);
+        `);
+    }
+
+    const ratingColumnNames = (db.prepare("PRAGMA table_info(ratings)").all() as { name: string }[]).map((row) => row.name);
+    if (!ratingColumnNames.includes("review")) {
+        db.prepare("ALTER TABLE ratings ADD COLUMN review TEXT").run();
+    }
+    if (!ratingColumnNames.includes("review_spoiler")) {
+        db.prepare("ALTER TABLE ratings ADD COLUMN review_spoiler INTEGER NOT NULL DEFAULT 0").run();
+    }
+
+    // Reassistir: cada nota pertence a uma sessão (viewing) do filme, e não mais ao filme direto
+    if (!ratingColumnNames.includes("viewing_id")) {
+        const migrateToViewings = db.transaction(() => {
+            db.exec(`
+                INSERT INTO viewings (movie_id, watched_at, attendees)
+                SELECT
+                    movies.id,
+                    COALESCE(movies.watched_at, movies.created_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+                    COALESCE((SELECT json_group_array(ratings.user_id) FROM ratings WHERE ratings.movie_id = movies.id), '[]')
+                FROM movies
+                WHERE NOT EXISTS (SELECT 1 FROM viewings WHERE viewings.movie_id = movies.id);
+
+                ALTER TABLE ratings RENAME TO ratings_legacy;
+                CREATE TABLE ratings (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    movie_id INTEGER NOT NULL,
+                    viewing_id INTEGER NOT NULL,
+                    user_id TEXT NOT NULL,
+                    user_name TEXT,
+                    score REAL NOT NULL,
+                    timestamp TEXT,
+                    review TEXT,
+                    review_spoiler INTEGER NOT NULL DEFAULT 0,
+                    FOREIGN KEY (movie_id) REFERENCES movies (id) ON DELETE CASCADE,
+                    FOREIGN KEY (viewing_id) REFERENCES viewings (id) ON DELETE CASCADE,
+                    UNIQUE(viewing_id, user_id)
+                );
+                INSERT INTO ratings (id, movie_id, viewing_id, user_id, user_name, score, timestamp, review, review_spoiler)
+                SELECT
+                    ratings_legacy.id,
+                    ratings_legacy.movie_id,
+                    (SELECT MIN(viewings.id) FROM viewings WHERE viewings.movie_id = ratings_legacy.movie_id),
+                    ratings_legacy.user_id,
+                    ratings_legacy.user_name,
+                    ratings_legacy.score,
+                    ratings_legacy.timestamp,
+                    ratings_legacy.review,
+                    ratings_legacy.review_spoiler
+                FROM ratings_legacy;
+                DROP TABLE ratings_legacy;
+                CREATE INDEX IF NOT EXISTS idx_ratings_movie_id ON ratings(movie_id);
+            `);
+        });
+        migrateToViewings();
+        logger.info("DB", "Notas migradas para o modelo de sessões assistidas (viewings)");
+    }
+
+    db.exec("CREATE INDEX IF NOT EXISTS idx_ratings_viewing_id ON ratings(viewing_id)");
+
+    linkLegacyEpisodeTitles();
+
+    const votingColumnNames = (db.prepare("PRAGMA table_info(active_votings)").all() as { name: string }[]).map((row) => row.name);
+    if (!votingColumnNames.includes("deadline")) {
+        db.prepare("ALTER TABLE active_votings ADD COLUMN deadline TEXT").run();
+    }
+    if (!votingColumnNames.includes("reminder_sent_at")) {
+        db.prepare("ALTER TABLE active_votings ADD COLUMN reminder_sent_at TEXT").run();
+    }
 };
 
 export const migrateFromJson = async () => {
@@ -123,9 +354,14 @@ export const migrateFromJson = async () => {
     const selectMovieId = db.prepare("SELECT id FROM movies WHERE title = ?");
     const lastInsertRowId = db.prepare("SELECT last_insert_rowid() as id");
 
+    const insertViewing = db.prepare(
+        `INSERT INTO viewings (movie_id, watched_at, attendees)
+         VALUES (?, ?, ?)`
+    );
+
     const insertRating = db.prepare(
-        `INSERT OR IGNORE INTO ratings (movie_id, user_id, user_name, score, timestamp)
-         VALUES (?, ?, ?, ?, ?)`
+        `INSERT OR IGNORE INTO ratings (movie_id, viewing_id, user_id, user_name, score, timestamp)
+         VALUES (?, ?, ?, ?, ?, ?)`
     );
 
     const insertVoting = db.prepare(
@@ -158,9 +394,17 @@ export const migrateFromJson = async () => {
             }
 
             const avaliacoes = (info.avaliacoes || []) as Record<string, unknown>[];
+            insertViewing.run(
+                movieId,
+                new Date().toISOString(),
+                JSON.stringify(avaliacoes.map((av) => String(av.user_id)))
+            );
+            const viewingId = (lastInsertRowId.get() as { id: number }).id;
+
             for (const av of avaliacoes) {
                 insertRating.run(
                     movieId,
+                    viewingId,
                     String(av.user_id),
                     (av.user_name as string) || "",
                     Number(av.nota),
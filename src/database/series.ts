@@ -0,0 +1,175 @@
+import { getDb } from "./connection";
+import { logger } from "../shared/logger";
+import type { EpisodeLinkRow, EpisodeRef, SeriesProgress, SeriesProgressRow, SeriesRow } from "./types";
+
+/** Títulos antigos de episódio gravados como "Série - T1E2" antes das tabelas de séries. */
+const LEGACY_EPISODE_TITLE = /^(.*?) - T(\d+)E(\d+)$/;
+
+const upsertSeries = (seriesTitle: string, tmdbInfo: Record<string, unknown>): number => {
+    const db = getDb();
+    const tmdbId = (tmdbInfo?.id as number) || null;
+
+    const existing = tmdbId
+        ? db.prepare("SELECT id FROM series WHERE tmdb_id = ?").get(tmdbId) as { id: number } | null
+        : db.prepare("SELECT id FROM series WHERE tmdb_id IS NULL AND title = ?").get(seriesTitle) as { id: number } | null;
+    if (existing) return existing.id;
+
+    const genres = Array.isArray(tmdbInfo?.genres) && tmdbInfo.genres.length
+        ? (tmdbInfo.genres as string[]).join(", ")
+        : (typeof tmdbInfo?.genres === "string" ? tmdbInfo.genres : null);
+
+    const result = db.prepare(
+        `INSERT INTO series (tmdb_id, title, poster_url, overview, release_date, genres, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+        tmdbId,
+        seriesTitle,
+        (tmdbInfo?.poster_url as string) || null,
+        (tmdbInfo?.overview as string) || "",
+        (tmdbInfo?.release_date as string) || "",
+        genres,
+        new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+};
+
+const upsertSeason = (seriesId: number, seasonNumber: number): number => {
+    const db = getDb();
+    db.prepare("INSERT OR IGNORE INTO seasons (series_id, season_number) VALUES (?, ?)").run(seriesId, seasonNumber);
+    const season = db.prepare(
+        "SELECT id FROM seasons WHERE series_id = ? AND season_number = ?"
+    ).get(seriesId, seasonNumber) as { id: number };
+    return season.id;
+};
+
+/**
+ * Vincula o registro de um episódio (linha em movies, onde ficam sessões e notas) à série/temporada.
+ * Cria série e temporada na primeira vez que aparecem.
+ */
+export const linkEpisodeToMovie = (
+    movieId: number,
+    seriesTitle: string,
+    tmdbInfo: Record<string, unknown>,
+    episode: EpisodeRef
+): void => {
+    const db = getDb();
+    const seriesId = upsertSeries(seriesTitle, tmdbInfo);
+    const seasonId = upsertSeason(seriesId, episode.seasonNumber);
+
+    db.prepare(
+        `INSERT INTO episodes (season_id, episode_number, name, tmdb_episode_id, movie_id)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(season_id, episode_number) DO UPDATE SET
+            name = COALESCE(excluded.name, episodes.name),
+            tmdb_episode_id = COALESCE(excluded.tmdb_episode_id, episodes.tmdb_episode_id),
+            movie_id = excluded.movie_id`
+    ).run(seasonId, episode.episodeNumber, episode.name ?? null, episode.tmdbEpisodeId ?? null, movieId);
+};
+
+/**
+ * Migra episódios gravados só pelo título ("Série - T1E2") para as tabelas de séries.
+ * Idempotente: ignora filmes que já têm episódio vinculado.
+ */
+export const linkLegacyEpisodeTitles = (): void => {
+    const db = getDb();
+    const candidates = db.prepare(
+        `SELECT movies.* FROM movies
+         WHERE NOT EXISTS (SELECT 1 FROM episodes WHERE episodes.movie_id = movies.id)`
+    ).all() as (Record<string, unknown> & { id: number; title: string; tmdb_id: number | null })[];
+
+    let migrated = 0;
+    const migrate = db.transaction(() => {
+        for (const movie of candidates) {
+            const match = movie.title.match(LEGACY_EPISODE_TITLE);
+            if (!match) continue;
+
+            linkEpisodeToMovie(movie.id, match[1]!, { ...movie, id: movie.tmdb_id }, {
+                seasonNumber: Number(match[2]),
+                episodeNumber: Number(match[3]),
+            });
+            migrated++;
+        }
+    });
+    migrate();
+
+    if (migrated > 0) {
+        logger.info("DB", `${migrated} episódios migrados para as tabelas de séries`);
+    }
+};
+
+const toSeriesProgress = (row: SeriesProgressRow): SeriesProgress => ({
+    seriesId: row.series_id,
+    tmdbId: row.tmdb_id,
+    title: row.title,
+    posterUrl: row.poster_url,
+    seasonNumber: row.season_number,
+    episodeNumber: row.episode_number,
+    watchedAt: new Date(row.watched_at),
+});
+
+/**
+ * Marca até onde o servidor assistiu a série. Guarda sempre o episódio mais avançado,
+ * então rever um episódio antigo não faz o progresso voltar.
+ */
+export const recordSeriesProgress = async (
+    guildId: string,
+    seriesTitle: string,
+    tmdbInfo: Record<string, unknown>,
+    episode: EpisodeRef
+) => {
+    const db = getDb();
+    const seriesId = upsertSeries(seriesTitle, tmdbInfo);
+
+    db.prepare(
+        `INSERT INTO series_progress (guild_id, series_id, season_number, episode_number, watched_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(guild_id, series_id) DO UPDATE SET
+            season_number = excluded.season_number,
+            episode_number = excluded.episode_number,
+            watched_at = excluded.watched_at
+         WHERE excluded.season_number > series_progress.season_number
+            OR (excluded.season_number = series_progress.season_number
+                AND excluded.episode_number >= series_progress.episode_number)`
+    ).run(guildId, seriesId, episode.seasonNumber, episode.episodeNumber, new Date().toISOString());
+};
+
+const SERIES_PROGRESS_SELECT = `
+    SELECT series_progress.*, series.tmdb_id, series.title, series.poster_url
+    FROM series_progress
+    JOIN series ON series.id = series_progress.series_id`;
+
+export const getGuildSeriesProgress = async (guildId: string): Promise<SeriesProgress[]> => {
+    const db = getDb();
+    const rows = db.prepare(
+        `${SERIES_PROGRESS_SELECT} WHERE series_progress.guild_id = ? ORDER BY series_progress.watched_at DESC`
+    ).all(guildId) as SeriesProgressRow[];
+    return rows.map(toSeriesProgress);
+};
+
+export const getSeriesProgress = async (guildId: string, seriesId: number): Promise<SeriesProgress | null> => {
+    const db = getDb();
+    const row = db.prepare(
+        `${SERIES_PROGRESS_SELECT} WHERE series_progress.guild_id = ? AND series_progress.series_id = ?`
+    ).get(guildId, seriesId) as SeriesProgressRow | null;
+    return row ? toSeriesProgress(row) : null;
+};
+
+export const getAllSeries = async () => {
+    const db = getDb();
+    return db.prepare("SELECT * FROM series").all() as SeriesRow[];
+};
+
+export const getEpisodeLinks = async () => {
+    const db = getDb();
+    return db.prepare(
+        `SELECT
+            episodes.movie_id AS movie_id,
+            seasons.series_id AS series_id,
+            seasons.season_number AS season_number,
+            episodes.episode_number AS episode_number,
+            episodes.name AS episode_name
+         FROM episodes
+         JOIN seasons ON seasons.id = episodes.season_id
+         WHERE episodes.movie_id IS NOT NULL`
+    ).all() as EpisodeLinkRow[];
+};
@@ -0,0 +1,56 @@
+import { getDb } from "./connection";
+import type { TimelineBucket } from "../shared/types";
+import type { MovieTimeline } from "./types";
+
+/**
+ * Grava a atividade por minuto de uma sessão.
+ * Substitui o que já existia para a sessão, já que o registro pode se repetir (ex: reconexão do monitor).
+ */
+export const saveViewingTimeline = async (viewingId: number, buckets: TimelineBucket[]) => {
+    const db = getDb();
+    const insert = db.prepare(
+        `INSERT INTO viewing_timeline (viewing_id, minute, pauses, rewinds, leaves, reactions)
+         VALUES (?, ?, ?, ?, ?, ?)`
+    );
+
+    db.transaction(() => {
+        db.prepare("DELETE FROM viewing_timeline WHERE viewing_id = ?").run(viewingId);
+        for (const bucket of buckets) {
+            insert.run(viewingId, bucket.minute, bucket.pauses, bucket.rewinds, bucket.leaves, bucket.reactions);
+        }
+    })();
+};
+
+/**
+ * Soma a atividade de todas as sessões de um filme.
+ * Episódios ficam de fora: a linha do tempo de uma série não tem um eixo único.
+ */
+export const getMovieTimeline = async (title: string, tmdbId: number | null = null): Promise<MovieTimeline> => {
+    const db = getDb();
+    const movieFilter = `(movies.title = ? OR (? IS NOT NULL AND movies.tmdb_id = ?))
+         AND NOT EXISTS (SELECT 1 FROM episodes WHERE episodes.movie_id = movies.id)`;
+
+    const buckets = db.prepare(
+        `SELECT viewing_timeline.minute,
+                SUM(viewing_timeline.pauses) AS pauses,
+                SUM(viewing_timeline.rewinds) AS rewinds,
+                SUM(viewing_timeline.leaves) AS leaves,
+                SUM(viewing_timeline.reactions) AS reactions
+         FROM viewing_timeline
+         JOIN viewings ON viewings.id = viewing_timeline.viewing_id
+         JOIN movies ON movies.id = viewings.movie_id
+         WHERE ${movieFilter}
+         GROUP BY viewing_timeline.minute
+         ORDER BY viewing_timeline.minute`
+    ).all(title, tmdbId, tmdbId) as TimelineBucket[];
+
+    const sessions = db.prepare(
+        `SELECT COUNT(DISTINCT viewing_timeline.viewing_id) AS count
+         FROM viewing_timeline
+         JOIN viewings ON viewings.id = viewing_timeline.viewing_id
+         JOIN movies ON movies.id = viewings.movie_id
+         WHERE ${movieFilter}`
+    ).get(title, tmdbId, tmdbId) as { count: number };
+
+    return { sessionsCount: sessions.count, buckets };
+};
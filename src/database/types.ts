@@ -1,3 +1,5 @@
+import type { SelectedEpisode, TimelineBucket, TmdbSearchResult } from "../shared/types";
+
 export interface MovieRow {
     id: number;
     title: string;
@@ -6,6 +8,8 @@ export interface MovieRow {
     overview: string;
     release_date: string | null;
     genres: string | null;
+    /** Duração em minutos vinda do TMDB; null quando ainda não foi obtida. */
+    runtime: number | null;
     watched_at: string;
     created_at: string;
 }
@@ -13,10 +17,86 @@ export interface MovieRow {
 export interface RatingRow {
     id: number;
     movie_id: number;
+    viewing_id: number;
     user_id: string;
     user_name: string;
     score: number;
     timestamp: string;
+    review: string | null;
+    review_spoiler: number;
+}
+
+export interface SeriesRow {
+    id: number;
+    tmdb_id: number | null;
+    title: string;
+    poster_url: string | null;
+    overview: string;
+    release_date: string | null;
+    genres: string | null;
+    created_at: string;
+}
+
+export interface EpisodeRef {
+    seasonNumber: number;
+    episodeNumber: number;
+    name?: string | null;
+    tmdbEpisodeId?: number | null;
+}
+
+export interface EpisodeLinkRow {
+    movie_id: number;
+    series_id: number;
+    season_number: number;
+    episode_number: number;
+    episode_name: string | null;
+}
+
+/** Título assistido ainda sem duração, com os dados necessários para buscá-la no TMDB. */
+export interface MissingRuntimeRow {
+    id: number;
+    tmdb_id: number | null;
+    series_tmdb_id: number | null;
+    season_number: number | null;
+    episode_number: number | null;
+}
+
+export interface SeriesProgressRow {
+    guild_id: string;
+    series_id: number;
+    season_number: number;
+    episode_number: number;
+    watched_at: string;
+    tmdb_id: number | null;
+    title: string;
+    poster_url: string | null;
+}
+
+/** Último episódio que o servidor assistiu de uma série. */
+export interface SeriesProgress {
+    seriesId: number;
+    tmdbId: number | null;
+    title: string;
+    posterUrl: string | null;
+    seasonNumber: number;
+    episodeNumber: number;
+    watchedAt: Date;
+}
+
+export interface ViewingRow {
+    id: number;
+    movie_id: number;
+    watched_at: string;
+    attendees: string;
+    room_id: string | null;
+}
+
+/** Uma vez em que o grupo assistiu o filme, com quem estava presente e as notas daquela sessão. */
+export interface MovieViewing {
+    id: number;
+    watchedAt: string;
+    attendees: string[];
+    ratings: RatingRow[];
 }
 
 export interface WatchlistRow {
@@ -39,8 +119,172 @@ export interface VotingRow {
     channel_id: string;
     tmdb_info: string;
     allowed_users: string;
+    deadline: string | null;
+    reminder_sent_at: string | null;
+}
+
+export interface ActiveVoting {
+    movieKey: string;
+    messageId: string;
+    channelId: string;
+    tmdbInfo: TmdbSearchResult | null;
+    allowedUsers: string[];
+    deadline: Date | null;
+    reminderSentAt: string | null;
+}
+
+export interface RoomSnapshotRow {
+    room_id: string;
+    data: string;
+    updated_at: string;
+}
+
+export interface ViewingTimelineRow {
+    viewing_id: number;
+    minute: number;
+    pauses: number;
+    rewinds: number;
+    leaves: number;
+    reactions: number;
+}
+
+/** Atividade por minuto somada entre todas as sessões de um título. */
+export interface MovieTimeline {
+    sessionsCount: number;
+    buckets: TimelineBucket[];
+}
+
+export interface GuildSettingsRow {
+    guild_id: string;
+    rating_scale_max: number;
+    rating_scale_step: number;
+    updated_at: string;
+}
+
+export type ScheduledSessionStatus = "scheduled" | "started" | "cancelled" | "failed";
+
+export interface ScheduledSessionRow {
+    id: number;
+    guild_id: string;
+    channel_id: string;
+    message_id: string | null;
+    host_id: string;
+    host_username: string;
+    tmdb_info: string;
+    selected_episode: string | null;
+    scheduled_at: string;
+    status: ScheduledSessionStatus;
+    reminder_sent_at: string | null;
+    room_id: string | null;
+    created_at: string;
+}
+
+export interface ScheduledSessionRsvpRow {
+    session_id: number;
+    user_id: string;
+    user_name: string;
+    attending: number;
+    updated_at: string;
+}
+
+export interface ScheduledSession {
+    id: number;
+    guildId: string;
+    channelId: string;
+    messageId: string | null;
+    hostId: string;
+    hostUsername: string;
+    tmdbInfo: TmdbSearchResult;
+    selectedEpisode: SelectedEpisode | null;
+    scheduledAt: Date;
+    status: ScheduledSessionStatus;
+    reminderSentAt: string | null;
+    roomId: string | null;
+}
+
+export interface ScheduledSessionRsvp {
+    userId: string;
+    userName: string;
+    attending: boolean;
+}
+
+export type MoviePollMode = "approval" | "ranked";
+export type MoviePollStatus = "open" | "closed";
+
+export interface MoviePollRow {
+    id: number;
+    guild_id: string;
+    channel_id: string;
+    message_id: string | null;
+    created_by: string;
+    created_by_name: string;
+    mode: MoviePollMode;
+    options: string;
+    deadline: string;
+    status: MoviePollStatus;
+    winner_index: number | null;
+    created_at: string;
+}
+
+export interface MoviePollBallotRow {
+    poll_id: number;
+    user_id: string;
+    user_name: string;
+    choices: string;
+    updated_at: string;
+}
+
+export interface MoviePollOption {
+    watchlistId: number;
+    title: string;
+    tmdbId: number | null;
+    posterUrl: string | null;
+}
+
+export interface MoviePoll {
+    id: number;
+    guildId: string;
+    channelId: string;
+    messageId: string | null;
+    createdBy: string;
+    createdByName: string;
+    mode: MoviePollMode;
+    options: MoviePollOption[];
+    deadline: Date;
+    status: MoviePollStatus;
+    winnerIndex: number | null;
+}
+
+/**
+ * Voto de um membro. Em aprovação, `choices` são os índices aprovados;
+ * no ranqueado, a posição no array é a preferência (null = posição em branco).
+ */
+export interface MoviePollBallot {
+    userId: string;
+    userName: string;
+    choices: (number | null)[];
 }
 
 export interface MovieWithRatings extends MovieRow {
+    /** Nota mais recente de cada usuário (uma por pessoa, mesmo que tenha reassistido). */
+    avaliacoes: RatingRow[];
+    /** Sessões em ordem cronológica, cada uma com suas próprias notas. */
+    viewings: MovieViewing[];
+    /** Presentes apenas nas entradas agregadas de série. */
+    isSeries?: boolean;
+    seasons?: SeasonWithRatings[];
+    episodes?: EpisodeWithRatings[];
+}
+
+export interface EpisodeWithRatings extends MovieWithRatings {
+    season: number;
+    episode: number;
+    episodeName: string | null;
+}
+
+export interface SeasonWithRatings {
+    seasonNumber: number;
+    episodes: EpisodeWithRatings[];
+    /** Notas de todos os episódios da temporada. */
     avaliacoes: RatingRow[];
 }
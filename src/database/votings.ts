@@ -1,18 +1,37 @@
 import { getDb } from "./connection";
-import type { VotingRow } from "./types";
+import type { TmdbSearchResult } from "../shared/types";
+import type { ActiveVoting, VotingRow } from "./types";
+
+const toActiveVoting = (row: VotingRow): ActiveVoting => ({
+    movieKey: row.movie_key,
+    messageId: String(row.message_id),
+    channelId: String(row.channel_id),
+    tmdbInfo: row.tmdb_info ? JSON.parse(row.tmdb_info) as TmdbSearchResult | null : null,
+    allowedUsers: row.allowed_users ? JSON.parse(row.allowed_users) as string[] : [],
+    deadline: row.deadline ? new Date(row.deadline) : null,
+    reminderSentAt: row.reminder_sent_at,
+});
 
 export const saveActiveVoting = async (
     movieKey: string,
     messageId: string,
     channelId: string,
     tmdbInfo: unknown,
-    allowedUsers: string[]
+    allowedUsers: string[],
+    deadline: Date | null = null
 ) => {
     const db = getDb();
     db.prepare(
-        `INSERT OR REPLACE INTO active_votings (movie_key, message_id, channel_id, tmdb_info, allowed_users)
-         VALUES (?, ?, ?, ?, ?)`
-    ).run(movieKey, messageId, channelId, JSON.stringify(tmdbInfo || null), JSON.stringify(allowedUsers || []));
+        `INSERT OR REPLACE INTO active_votings (movie_key, message_id, channel_id, tmdb_info, allowed_users, deadline, reminder_sent_at)
+         VALUES (?, ?, ?, ?, ?, ?, NULL)`
+    ).run(
+        movieKey,
+        messageId,
+        channelId,
+        JSON.stringify(tmdbInfo || null),
+        JSON.stringify(allowedUsers || []),
+        deadline ? deadline.toISOString() : null
+    );
 };
 
 export const removeActiveVoting = async (movieKey: string) => {
@@ -20,18 +39,24 @@ export const removeActiveVoting = async (movieKey: string) => {
     db.prepare("DELETE FROM active_votings WHERE movie_key = ?").run(movieKey);
 };
 
-export const getActiveVotings = async () => {
+export const getActiveVotings = async (): Promise<ActiveVoting[]> => {
     const db = getDb();
     const rows = db.prepare("SELECT * FROM active_votings").all() as VotingRow[];
+    return rows.map(toActiveVoting);
+};
+
+export const getActiveVoting = async (movieKey: string): Promise<ActiveVoting | null> => {
+    const db = getDb();
+    const row = db.prepare("SELECT * FROM active_votings WHERE movie_key = ?").get(movieKey) as VotingRow | null;
+    return row ? toActiveVoting(row) : null;
+};
 
-    const votings: Record<string, unknown> = {};
-    for (const row of rows) {
-        votings[row.movie_key] = {
-            message_id: row.message_id,
-            channel_id: row.channel_id,
-            tmdb_info: row.tmdb_info ? JSON.parse(row.tmdb_info) : null,
-            usuarios_permitidos: row.allowed_users ? JSON.parse(row.allowed_users) : [],
-        };
-    }
-    return votings;
+export const setVotingDeadline = async (movieKey: string, deadline: Date) => {
+    const db = getDb();
+    db.prepare("UPDATE active_votings SET deadline = ? WHERE movie_key = ?").run(deadline.toISOString(), movieKey);
+};
+
+export const markVotingReminded = async (movieKey: string) => {
+    const db = getDb();
+    db.prepare("UPDATE active_votings SET reminder_sent_at = ? WHERE movie_key = ?").run(new Date().toISOString(), movieKey);
 };
@@ -60,3 +60,14 @@ export const removeFromWatchlistByTitle = async (title: string) => {
     const db = getDb();
     db.prepare("DELETE FROM watchlist WHERE LOWER(title) = LOWER(?)").run(title);
 };
+
+export const getRandomWatchlistItems = async (limit: number) => {
+    const db = getDb();
+    return db.prepare("SELECT * FROM watchlist ORDER BY RANDOM() LIMIT ?").all(limit) as WatchlistRow[];
+};
+
+export const findWatchlistItemByTitle = async (title: string) => {
+    const db = getDb();
+    const row = db.prepare("SELECT * FROM watchlist WHERE LOWER(title) = LOWER(?)").get(title.trim()) as WatchlistRow | null;
+    return row ?? null;
+};
@@ -0,0 +1,32 @@
+import type { Episode, SelectedEpisode } from "./types";
+
+interface SeasonEpisodes {
+    seasonNumber: number;
+    episodes: Episode[];
+}
+
+/**
+ * Próximo episódio depois de `current`: o seguinte na mesma temporada ou o primeiro da próxima.
+ * @returns null quando `current` é o último episódio conhecido.
+ */
+export function findNextEpisode(
+    seasons: SeasonEpisodes[],
+    current: Pick<SelectedEpisode, "seasonNumber" | "episodeNumber">
+): SelectedEpisode | null {
+    const { seasonNumber, episodeNumber } = current;
+    const season = seasons.find((s) => s.seasonNumber === seasonNumber);
+    if (!season) return null;
+
+    const nextEp = season.episodes.find((e) => e.episodeNumber === episodeNumber + 1);
+    if (nextEp) {
+        return { ...nextEp, seasonNumber };
+    }
+
+    const nextSeason = seasons.find((s) => s.seasonNumber === seasonNumber + 1);
+    if (nextSeason?.episodes?.length) {
+        const firstEp = nextSeason.episodes[0]!;
+        return { ...firstEp, seasonNumber: nextSeason.seasonNumber };
+    }
+
+    return null;
+}
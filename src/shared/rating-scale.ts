@@ -0,0 +1,53 @@
+/**
+ * Escala de notas exibida para um servidor. Internamente toda nota é guardada na escala
+ * canônica de 0 a 10; a escala só muda a entrada (botões, estrelas) e a exibição.
+ */
+export interface RatingScale {
+    max: number;
+    step: number;
+}
+
+export const CANONICAL_RATING_MAX = 10;
+
+export const SUPPORTED_RATING_MAXIMUMS = [5, 10] as const;
+export const SUPPORTED_RATING_STEPS = [0.5, 1] as const;
+
+export const DEFAULT_RATING_SCALE: RatingScale = { max: 10, step: 0.5 };
+
+/** Tamanho máximo da resenha opcional enviada junto com a nota. */
+export const MAX_REVIEW_LENGTH = 500;
+
+export function normalizeRatingScale(raw: Partial<RatingScale> | null | undefined): RatingScale {
+    const max = SUPPORTED_RATING_MAXIMUMS.find((value) => value === raw?.max) ?? DEFAULT_RATING_SCALE.max;
+    const step = SUPPORTED_RATING_STEPS.find((value) => value === raw?.step) ?? DEFAULT_RATING_SCALE.step;
+    return { max, step };
+}
+
+/** Menor incremento da escala convertido para a escala canônica (ex: 1–5 com passo 0.5 → 1). */
+export function getCanonicalRatingStep(scale: RatingScale): number {
+    return scale.step * CANONICAL_RATING_MAX / scale.max;
+}
+
+export function toCanonicalRating(value: number, scale: RatingScale): number {
+    return Math.round(value * CANONICAL_RATING_MAX / scale.max * 100) / 100;
+}
+
+export function fromCanonicalRating(score: number, scale: RatingScale): number {
+    return Math.round(score * scale.max / CANONICAL_RATING_MAX * 100) / 100;
+}
+
+/** Valores válidos na escala do servidor, do menor passo até o máximo. */
+export function getRatingScaleValues(scale: RatingScale): number[] {
+    const count = Math.round(scale.max / scale.step);
+    return Array.from({ length: count }, (_, index) => Math.round((index + 1) * scale.step * 100) / 100);
+}
+
+/**
+ * Formata uma nota canônica na escala do servidor, ex: 7 → "3.5/5".
+ * @param fractionDigits Casas decimais fixas (médias); sem valor, omite ".0" em notas inteiras.
+ */
+export function formatRating(score: number, scale: RatingScale, fractionDigits?: number): string {
+    const value = fromCanonicalRating(score, scale);
+    const text = fractionDigits !== undefined ? value.toFixed(fractionDigits) : String(value);
+    return `${text}/${scale.max}`;
+}
@@ -1,10 +1,15 @@
 import type { ServerWebSocket } from "bun";
+import type { RatingScale } from "./rating-scale";
 
 export type ExtendedWebSocket = ServerWebSocket<ClientData>;
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'pgs';
+
 export interface SubtitleInfo {
     filename: string;
     displayName: string;
+    format: SubtitleFormat;
+    offsetSeconds: number;
 }
 
 export interface AudioTrackInfo {
@@ -17,6 +22,30 @@ export interface AudioTrackInfo {
     isCompatible: boolean;
 }
 
+export interface MediaInfo {
+    durationSeconds: number;
+    bitrate: number;
+    width: number;
+    height: number;
+    videoCodec: string;
+    audioCodec: string | null;
+    container: string;
+}
+
+export interface HlsRendition {
+    name: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+    averageBandwidth: number;
+    playlist: string;
+}
+
+export interface HlsOutput {
+    dir: string;
+    renditions: HlsRendition[];
+}
+
 export interface RoomState {
     videoPath: string;
     pendingVideoPath: string;
@@ -31,10 +60,15 @@ export interface RoomState {
     audioSelectionErrorMessage?: string;
     isProcessing: boolean;
     processingMessage?: string;
+    processingPercent?: number | null;
+    processingEtaSeconds?: number | null;
     playbackStarted: boolean;
     hostLastHeartbeat: number;
     lastCommandSeq: number;
     subtitles: SubtitleInfo[];
+    mediaInfo: MediaInfo | null;
+    hls: HlsOutput | null;
+    isGeneratingHls: boolean;
 }
 
 export interface Episode {
@@ -92,6 +126,10 @@ export interface DiscordUser {
     username: string;
     avatarUrl: string | null;
     isHost: boolean;
+    /** Co-host: controla play, pause e seek junto com o host. */
+    isCoHost?: boolean;
+    /** Quem criou a sessão no Discord; o bot finaliza a sessão com o token dele. */
+    isOwner?: boolean;
     connected: boolean;
     connectedAt: number;
     ping?: number;
@@ -116,6 +154,8 @@ export interface SessionRating {
     discordId: string;
     username: string;
     rating: number;
+    review?: string;
+    spoiler?: boolean;
 }
 
 export type RatingParticipantStatus = 'pending' | 'rated' | 'timed_out';
@@ -157,10 +197,67 @@ export interface DiscordSession {
     guildId: string;
     hostDiscordId: string;
     webhookUrl?: string;
+    ratingScale?: RatingScale;
 }
 
 export type SessionStatus = 'waiting' | 'playing' | 'ended';
 
+/** Regras de controle da reprodução definidas pelo host para a sala. */
+export interface RoomControls {
+    /** Qualquer espectador pode pausar; play e seek continuam só com o host. */
+    guestPause: boolean;
+    /** Espectadores podem votar para voltar alguns segundos. */
+    rewindVotes: boolean;
+    /** A sala pausa sozinha enquanto espectadores carregam o vídeo. */
+    waitForBuffering: boolean;
+    /** Quantos espectadores travados seguram a sala no modo de espera. */
+    minStalledViewers: number;
+}
+
+export interface RewindVote {
+    voters: string[];
+    expiresAt: number;
+}
+
+/** Pausa automática do modo de espera, mantida até todos voltarem a ter vídeo carregado. */
+export interface BufferingHold {
+    /** Discord IDs de quem ainda está carregando. */
+    holderIds: string[];
+    since: number;
+}
+
+export type TimelineEventKind = 'pause' | 'rewind' | 'leave' | 'reaction';
+
+/** Atividade dos espectadores em um minuto do vídeo. */
+export interface TimelineBucket {
+    minute: number;
+    pauses: number;
+    rewinds: number;
+    leaves: number;
+    reactions: number;
+}
+
+export interface ChatMessage {
+    id: string;
+    discordId: string;
+    username: string;
+    avatarUrl: string | null;
+    text: string;
+    /** Posição do vídeo (segundos) quando a mensagem foi enviada. */
+    mediaTime: number;
+    sentAt: number;
+}
+
+export interface ChatReaction {
+    id: string;
+    discordId: string;
+    username: string;
+    emoji: string;
+    /** Posição do vídeo (segundos) em que a reação foi fixada. */
+    mediaTime: number;
+    sentAt: number;
+}
+
 export interface Room {
     id: string;
     state: RoomState;
@@ -175,6 +272,16 @@ export interface Room {
     episodeHistory: EpisodeRating[];
     pendingNextEpisode?: SelectedEpisode;
     status: SessionStatus;
+    chatHistory: ChatMessage[];
+    chatReactions: ChatReaction[];
+    timeline: TimelineBucket[];
+    controls: RoomControls;
+    rewindVote?: RewindVote;
+    /** Discord IDs banidos pelo host; não recebem novo token enquanto a sala existir. */
+    bannedDiscordIds: string[];
+    /** Início do buffering de cada espectador (Discord ID → timestamp). */
+    bufferingSince: Record<string, number>;
+    bufferingHold?: BufferingHold;
 }
 
 export interface ClientData {
@@ -201,6 +308,7 @@ export type MessageType =
     | "pending-upload-cancelled"
     | "processing-progress"
     | "video-ready"
+    | "hls-ready"
     | "ping"
     | "pong"
     | "host-heartbeat"
@@ -217,7 +325,22 @@ export type MessageType =
     | "next-episode"
     | "episode-ratings-received"
     | "subtitle-added"
-    | "subtitles-ready";
+    | "subtitle-offset"
+    | "subtitles-ready"
+    | "chat-message"
+    | "chat-reaction"
+    | "chat-history"
+    | "chat-error"
+    | "pause-request"
+    | "room-controls"
+    | "rewind-vote"
+    | "transfer-host"
+    | "set-cohost"
+    | "kick-user"
+    | "ban-user"
+    | "moderation-error"
+    | "buffering"
+    | "buffering-hold";
 
 export interface WSMessage {
     type: MessageType;
@@ -226,13 +349,16 @@ export interface WSMessage {
     isPlaying?: boolean;
     count?: number;
     viewerCount?: number;
-    viewers?: { discordId: string; username: string; ping?: number }[];
+    viewers?: { discordId: string; username: string; ping?: number; isHost?: boolean; isCoHost?: boolean }[];
     progress?: number;
     processingMessage?: string;
+    processingPercent?: number | null;
+    processingEtaSeconds?: number | null;
     audioTracks?: AudioTrackInfo[];
     audioSelectionErrorMessage?: string;
     errorMessage?: string;
     filename?: string;
+    offsetSeconds?: number;
     timestamp?: number;
     serverTime?: number;
     isHost?: boolean;
@@ -251,6 +377,27 @@ export interface WSMessage {
     episodeHistory?: EpisodeRating[];
     completionReason?: RatingRoundCompletionReason;
     ratingProgress?: RatingProgress;
+    renditions?: Omit<HlsRendition, 'playlist'>[];
+    mediaInfo?: MediaInfo | null;
+    text?: string;
+    emoji?: string;
+    chatMessage?: ChatMessage;
+    chatReaction?: ChatReaction;
+    chatHistory?: ChatMessage[];
+    chatReactions?: ChatReaction[];
+    reactionEmojis?: string[];
+    timeline?: TimelineBucket[];
+    controls?: RoomControls;
+    requesterName?: string;
+    votes?: number;
+    votesNeeded?: number;
+    rewindSeconds?: number;
+    accepted?: boolean;
+    targetId?: string;
+    enabled?: boolean;
+    buffering?: boolean;
+    holding?: boolean;
+    holders?: string[];
 }
 
 export interface TmdbSearchResult {
@@ -262,6 +409,8 @@ export interface TmdbSearchResult {
     vote_average: number;
     genres: string[];
     media_type: "movie" | "tv";
+    /** Duração em minutos (apenas filmes; em séries fica em cada episódio). */
+    runtime?: number | null;
     seasons?: {
         id: number;
         seasonNumber: number;